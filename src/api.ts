@@ -1,5 +1,7 @@
 import process from "node:process";
+import { initializeProvider } from "./providers";
 import { startAPI } from "./services/api-service";
+import { getSessionRepository } from "./storage";
 import { error } from "./utils/logger";
 
 /**
@@ -8,6 +10,9 @@ import { error } from "./utils/logger";
  */
 async function main(): Promise<void> {
   try {
+    // 启动时创建会话存储，运行时不支持所配置的存储类型时立即报错
+    getSessionRepository();
+    await initializeProvider();
     startAPI();
   } catch (err) {
     error("API服务启动出错:", err);
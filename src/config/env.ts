@@ -7,9 +7,19 @@ import process from "node:process";
 export enum ProviderType {
   OPENAI = "openai",
   OLLAMA = "ollama",
+  MOCK = "mock",
   CUSTOM = "custom",
 }
 
+/**
+ * 会话存储类型枚举
+ * Session storage type enum
+ */
+export enum StorageType {
+  FILE = "file",
+  SQLITE = "sqlite",
+}
+
 /**
  * 环境配置
  * Environment configuration
@@ -35,10 +45,108 @@ export const ENV = {
     MODEL_NAME: process.env.OLLAMA_MODEL_NAME || "llama4",
   },
 
+  // 模拟提供商配置（离线测试和演示）
+  // Mock provider configuration (offline tests and demos)
+  MOCK: {
+    SEED: Number(process.env.MOCK_SEED) || 42,
+    // generate（按模式生成）、record（录制真实提供商的响应）或 replay（回放录制的响应）
+    // generate (from the schema), record (capture real provider responses) or replay (serve recorded responses)
+    MODE: (["record", "replay"].includes(process.env.MOCK_MODE ?? "") ? process.env.MOCK_MODE : "generate") as "generate" | "record" | "replay",
+    FIXTURES_DIR: process.env.MOCK_FIXTURES_DIR || "test/fixtures/llm",
+    // record 模式下被录制的真实提供商
+    // Real provider recorded in record mode
+    RECORD_PROVIDER: (process.env.MOCK_RECORD_PROVIDER as ProviderType) || ProviderType.OPENAI,
+  },
+
+  // 自定义提供商配置
+  // Custom provider configuration
+  CUSTOM: {
+    // 内置的 OpenAI 兼容提供商（openai-compatible、llamacpp、vllm、lmstudio），或插件模块的路径/包名
+    // Built-in OpenAI-compatible provider (openai-compatible, llamacpp, vllm, lmstudio), or the path/package name of a plugin module
+    PROVIDER: process.env.CUSTOM_PROVIDER || "openai-compatible",
+    BASE_URL: process.env.CUSTOM_BASE_URL,
+    API_KEY: process.env.CUSTOM_API_KEY,
+    MODEL_NAME: process.env.CUSTOM_MODEL_NAME,
+    // 结构化输出方式：json_schema、json_object 或 prompt（未设置时使用提供商的默认值）
+    // Structured output mode: json_schema, json_object or prompt (the provider default when unset)
+    JSON_MODE: (["json_schema", "json_object", "prompt"].includes(process.env.CUSTOM_JSON_MODE ?? "")
+      ? process.env.CUSTOM_JSON_MODE
+      : undefined) as "json_schema" | "json_object" | "prompt" | undefined,
+    // 传给提供商工厂的额外配置（JSON 对象）
+    // Extra configuration passed to the provider factory (JSON object)
+    OPTIONS: process.env.CUSTOM_PROVIDER_OPTIONS,
+  },
+
+  // 提供商故障转移配置
+  // Provider failover configuration
+  FAILOVER: {
+    // 主提供商失败时依次尝试的模型配置名称或提供商类型，例如 "ollama,vllm"
+    // Profile names or provider types tried in order when the primary provider fails, e.g. "ollama,vllm"
+    PROVIDERS: (process.env.PROVIDER_FAILOVER || "").split(",").map(item => item.trim()).filter(Boolean),
+    // 打开熔断器的连续失败次数
+    // Consecutive failures that open a provider's circuit
+    FAILURE_THRESHOLD: Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 3,
+    // 熔断器打开后再次试探前的冷却时间（毫秒）
+    // Cool-down before an open circuit lets a trial call through (milliseconds)
+    RESET_TIMEOUT_MS: Number(process.env.CIRCUIT_RESET_TIMEOUT_MS) || 30_000,
+    // 健康检查间隔（毫秒，0 表示不检查；仅在配置了故障转移时运行）
+    // Health check interval (milliseconds, 0 disables; only runs when failover is configured)
+    HEALTH_CHECK_INTERVAL_MS: Number(process.env.HEALTH_CHECK_INTERVAL_MS ?? 60_000),
+    HEALTH_CHECK_TIMEOUT_MS: Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 10_000,
+  },
+
   // 通用模型配置
   // Common model configuration
   MODEL: {
     CONTEXT_SIZE: Number(process.env.CONTEXT_SIZE) || 128_000,
+    // 模型配置文件（JSON，包含 profiles 和 routing）
+    // Model configuration file (JSON with profiles and routing)
+    CONFIG_FILE: process.env.MODEL_CONFIG_FILE,
+    // 命名模型配置（JSON 对象，覆盖配置文件中的同名配置）
+    // Named model profiles (JSON object, overriding profiles of the same name in the file)
+    PROFILES: process.env.MODEL_PROFILES,
+    // 阶段到模型配置的路由，例如 "expansion=fast,report=strong"
+    // Stage to profile routing, e.g. "expansion=fast,report=strong"
+    ROUTING: process.env.MODEL_ROUTING,
+    // 模型价格表（JSON 对象，键为模型ID，值为每百万令牌的 input/output 价格）
+    // Model price table (JSON object keyed by model ID, with input/output prices per million tokens)
+    PRICES: process.env.MODEL_PRICES,
+    // 模型价格表文件（JSON，MODEL_PRICES 中的同名条目优先）
+    // Model price table file (JSON, entries of MODEL_PRICES take precedence)
+    PRICES_FILE: process.env.MODEL_PRICES_FILE,
+  },
+
+  // LLM调用限流配置
+  // LLM call rate limiting configuration
+  LLM: {
+    // 全局最大并发调用数
+    // Global maximum number of concurrent calls
+    CONCURRENCY: Number(process.env.LLM_CONCURRENCY) || 4,
+    // 每分钟请求数上限（0 表示不限制）
+    // Requests per minute budget (0 disables the limit)
+    REQUESTS_PER_MINUTE: Number(process.env.LLM_REQUESTS_PER_MINUTE) || 0,
+    // 每分钟令牌数上限（0 表示不限制）
+    // Tokens per minute budget (0 disables the limit)
+    TOKENS_PER_MINUTE: Number(process.env.LLM_TOKENS_PER_MINUTE) || 0,
+    // 429/5xx 错误的最大重试次数
+    // Maximum number of retries on 429/5xx errors
+    MAX_RETRIES: Number(process.env.LLM_MAX_RETRIES ?? 3),
+    RETRY_BASE_DELAY_MS: Number(process.env.LLM_RETRY_BASE_DELAY_MS) || 1000,
+    RETRY_MAX_DELAY_MS: Number(process.env.LLM_RETRY_MAX_DELAY_MS) || 30_000,
+  },
+
+  // 分析规模预估与上限配置
+  // Analysis size estimation and ceiling configuration
+  ESTIMATE: {
+    // 单次调用的固定延迟（毫秒）和输出速度（令牌/秒），用于预估耗时
+    // Fixed latency of a call (milliseconds) and output speed (tokens per second), used to estimate the wall time
+    CALL_LATENCY_MS: Number(process.env.ESTIMATE_CALL_LATENCY_MS) || 1500,
+    TOKENS_PER_SECOND: Number(process.env.ESTIMATE_TOKENS_PER_SECOND) || 50,
+    // 单次分析允许的LLM调用次数、令牌数和费用上限（0 表示不限制），预估超出时拒绝运行
+    // Ceilings on the LLM calls, tokens and cost of a single analysis (0 disables), runs estimated above them are refused
+    MAX_CALLS: Number(process.env.ANALYSIS_MAX_CALLS) || 0,
+    MAX_TOKENS: Number(process.env.ANALYSIS_MAX_TOKENS) || 0,
+    MAX_COST: Number(process.env.ANALYSIS_MAX_COST) || 0,
   },
 
   // 决策分析默认配置
@@ -47,6 +155,62 @@ export const ENV = {
     DEFAULT_DEPTH: Number(process.env.DEFAULT_DEPTH) || 3,
     DEFAULT_BREADTH: Number(process.env.DEFAULT_BREADTH) || 4,
     DEFAULT_QUESTIONS: Number(process.env.DEFAULT_QUESTIONS) || 3,
+    // 兄弟结果节点概率总和允许的偏差（百分点）
+    // Allowed deviation of sibling outcome probability sums (percentage points)
+    PROBABILITY_TOLERANCE: Number(process.env.PROBABILITY_TOLERANCE) || 5,
+    // 概率修复方式：normalize（归一化）或 reprompt（重新询问模型，失败时归一化）
+    // Probability repair mode: normalize, or reprompt (ask the model again, normalizing on failure)
+    PROBABILITY_REPAIR: (process.env.PROBABILITY_REPAIR === "reprompt" ? "reprompt" : "normalize") as "normalize" | "reprompt",
+    // 决策树展开策略：uniform（固定深度和广度）或 best-first（在预算内优先展开高优先级节点）
+    // Tree expansion strategy: uniform (fixed depth and breadth) or best-first (expand high-priority nodes within a budget)
+    DEFAULT_STRATEGY: (process.env.EXPANSION_STRATEGY === "best-first" ? "best-first" : "uniform") as "uniform" | "best-first",
+    // best-first 策略的节点展开预算（LLM调用次数）
+    // Node expansion budget of the best-first strategy (number of LLM calls)
+    DEFAULT_BUDGET: Number(process.env.EXPANSION_BUDGET) || 20,
+    // best-first 策略的节点优先级：impact 或 uncertainty
+    // Node priority of the best-first strategy: impact or uncertainty
+    DEFAULT_PRIORITY: (process.env.EXPANSION_PRIORITY === "uncertainty" ? "uncertainty" : "impact") as "impact" | "uncertainty",
+    // 批判审查方式：off、review（在提取见解后审查决策树中的偏差）或 reexpand（并重新展开被指出问题的节点）
+    // Critique mode: off, review (audit the tree for biases after the insights are extracted) or reexpand (and re-expand the flagged nodes)
+    CRITIQUE: (process.env.DECISION_CRITIQUE === "review" || process.env.DECISION_CRITIQUE === "reexpand" ? process.env.DECISION_CRITIQUE : "off") as "off" | "review" | "reexpand",
+    // reexpand 模式最多重新展开的节点数
+    // Maximum number of nodes re-expanded in reexpand mode
+    CRITIQUE_MAX_REEXPANSIONS: Number(process.env.CRITIQUE_MAX_REEXPANSIONS) || 3,
+  },
+
+  // 蒙特卡洛模拟配置
+  // Monte Carlo simulation configuration
+  SIMULATION: {
+    // 默认的模拟次数
+    // Default number of simulated runs
+    ITERATIONS: Number(process.env.SIMULATION_ITERATIONS) || 5000,
+    // 默认的随机种子，相同种子与相同决策树总是得到相同的结果
+    // Default random seed; the same seed and tree always give the same result
+    SEED: Number(process.env.SIMULATION_SEED) || 42,
+  },
+
+  // 报告生成配置
+  // Report generation configuration
+  REPORT: {
+    // 每个报告章节的最大尝试次数，章节失败时单独重试
+    // Maximum attempts of every report section, a failed section is retried on its own
+    SECTION_ATTEMPTS: Number(process.env.REPORT_SECTION_ATTEMPTS) || 3,
+  },
+
+  // 会话存储配置
+  // Session storage configuration
+  STORAGE: {
+    TYPE: (process.env.STORAGE_TYPE as StorageType) || StorageType.FILE,
+    DIRECTORY: process.env.SESSION_DIR || ".deep-decision/sessions",
+    SQLITE_PATH: process.env.SQLITE_PATH || ".deep-decision/sessions.db",
+  },
+
+  // 异步任务配置
+  // Asynchronous job configuration
+  JOBS: {
+    // 已结束任务在内存中的保留时间（毫秒）
+    // How long finished jobs are kept in memory (milliseconds)
+    RETENTION_MS: Number(process.env.JOB_RETENTION_MS) || 3_600_000,
   },
 
   // API服务配置
@@ -1,3 +1,4 @@
+import type { FollowUpAnswer } from "../types/session";
 import { ENV } from "./env";
 
 /**
@@ -34,6 +35,27 @@ export function decisionSystemPrompt(): string {
   `;
 }
 
+/**
+ * 合并决策问题与跟进问答
+ * Combine the decision problem with follow-up questions and answers
+ *
+ * @param {string} problem - 初始决策问题
+ * @param {FollowUpAnswer[]} followUp - 跟进问题和回答
+ * @returns {string} 用于决策分析的完整问题描述
+ */
+export function formatProblemWithFollowUp(problem: string, followUp: FollowUpAnswer[]): string {
+  if (followUp.length === 0) {
+    return problem;
+  }
+
+  return `
+初始决策问题: ${problem}
+
+跟进问题和回答:
+${followUp.map(({ question, answer }) => `问: ${question}\n答: ${answer}`).join("\n\n")}
+`;
+}
+
 /**
  * 获取语言设置
  * Get language settings
@@ -25,6 +25,22 @@ export interface AIProviderInterface {
    * @param contextSize - 最大上下文大小
    */
   trimPrompt: (prompt: string, contextSize?: number) => string;
+
+  /**
+   * 计算文本的令牌数（可选，未实现时按字符数估算）
+   * Count the tokens of a text (optional, estimated from the character count when not implemented)
+   *
+   * @param text - 文本
+   */
+  countTokens?: (text: string) => number;
+
+  /**
+   * 检查提供者是否可用，不可用时抛出错误（可选）
+   * Check that the provider is available, throwing when it is not (optional)
+   *
+   * @param signal - 取消信号
+   */
+  checkHealth?: (signal?: AbortSignal) => Promise<void>;
 }
 
 /**
@@ -0,0 +1,86 @@
+import type { AIProviderFactory } from "../base-provider";
+import * as path from "node:path";
+import process from "node:process";
+import { pathToFileURL } from "node:url";
+
+/**
+ * 提供者插件加载错误
+ * Provider plugin loading error
+ */
+export class ProviderPluginError extends Error {
+  constructor(specifier: string, reason: string) {
+    super(`Cannot load provider plugin "${specifier}": ${reason}`);
+    this.name = "ProviderPluginError";
+  }
+}
+
+/**
+ * 判断值是否为提供者工厂
+ * Check whether a value is a provider factory
+ *
+ * @param value - 待检查的值
+ * @returns 是否为提供者工厂
+ */
+function isProviderFactory(value: unknown): value is AIProviderFactory {
+  return typeof value === "object" && value !== null && typeof (value as AIProviderFactory).createProvider === "function";
+}
+
+/**
+ * 将导出值转换为提供者工厂：支持工厂实例和工厂类
+ * Turn an exported value into a provider factory: factory instances and factory classes are supported
+ *
+ * @param value - 导出值
+ * @returns 提供者工厂，无法转换时返回 null
+ */
+function toProviderFactory(value: unknown): AIProviderFactory | null {
+  if (isProviderFactory(value)) {
+    return value;
+  }
+  if (typeof value === "function" && typeof value.prototype?.createProvider === "function") {
+    return new (value as new () => AIProviderFactory)();
+  }
+  return null;
+}
+
+/**
+ * 将插件标识解析为可导入的模块标识：相对或绝对路径按当前工作目录解析，其余视为包名
+ * Resolve a plugin specifier to an importable module specifier: relative or absolute paths
+ * are resolved against the working directory, anything else is treated as a package name
+ *
+ * @param specifier - 插件路径或包名
+ * @returns 模块标识
+ */
+function resolvePluginSpecifier(specifier: string): string {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    return pathToFileURL(path.resolve(process.cwd(), specifier)).href;
+  }
+  return specifier;
+}
+
+/**
+ * 加载提供者插件
+ * Load a provider plugin
+ *
+ * 插件模块需要以默认导出、具名导出 providerFactory 或模块本身的 createProvider 函数提供 AIProviderFactory
+ * The plugin module must provide an AIProviderFactory as its default export, as a named
+ * providerFactory export, or through a createProvider function exported by the module itself
+ *
+ * @param specifier - 插件路径或包名
+ * @returns 提供者工厂
+ */
+export async function loadProviderPlugin(specifier: string): Promise<AIProviderFactory> {
+  let module: Record<string, unknown>;
+  try {
+    module = await import(resolvePluginSpecifier(specifier));
+  } catch (err) {
+    throw new ProviderPluginError(specifier, err instanceof Error ? err.message : String(err));
+  }
+
+  const factory = toProviderFactory(module.default)
+    ?? toProviderFactory(module.providerFactory)
+    ?? toProviderFactory(module);
+  if (!factory) {
+    throw new ProviderPluginError(specifier, "the module does not export an AIProviderFactory");
+  }
+  return factory;
+}
@@ -0,0 +1,145 @@
+/**
+ * 熔断器状态
+ * Circuit breaker state
+ *
+ * - closed: 正常放行调用
+ *   calls pass through normally
+ * - open: 连续失败过多，暂停调用直到冷却结束
+ *   too many consecutive failures, calls are blocked until the cool-down ends
+ * - half-open: 冷却结束，放行试探调用，成功则关闭，失败则重新打开
+ *   the cool-down has ended, trial calls pass and close the circuit on success or reopen it on failure
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * 熔断器配置
+ * Circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * 打开熔断器的连续失败次数
+   * Consecutive failures that open the circuit
+   */
+  failureThreshold: number;
+  /**
+   * 打开后进入半开状态前的冷却时间（毫秒）
+   * Cool-down before an open circuit becomes half-open (milliseconds)
+   */
+  resetTimeoutMs: number;
+}
+
+/**
+ * 熔断器状态快照
+ * Circuit breaker state snapshot
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  openedAt?: string;
+}
+
+/**
+ * 熔断器：连续失败达到阈值后暂停向提供者发送调用
+ * Circuit breaker: stops sending calls to a provider once consecutive failures reach a threshold
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private now: () => number;
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private totalSuccesses = 0;
+  private openedAt: number | null = null;
+  private lastError?: string;
+  private lastFailureAt?: number;
+  private lastSuccessAt?: number;
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param options - 熔断器配置
+   * @param now - 当前时间函数，便于测试
+   */
+  constructor(options: CircuitBreakerOptions, now: () => number = Date.now) {
+    this.options = {
+      failureThreshold: Math.max(1, options.failureThreshold),
+      resetTimeoutMs: Math.max(0, options.resetTimeoutMs),
+    };
+    this.now = now;
+  }
+
+  /**
+   * 当前状态
+   * Current state
+   */
+  public get state(): CircuitState {
+    if (this.openedAt === null) {
+      return "closed";
+    }
+    return this.now() - this.openedAt >= this.options.resetTimeoutMs ? "half-open" : "open";
+  }
+
+  /**
+   * 是否允许发起调用
+   * Whether a call may be made
+   *
+   * @returns 是否允许
+   */
+  public canRequest(): boolean {
+    return this.state !== "open";
+  }
+
+  /**
+   * 记录一次成功，关闭熔断器
+   * Record a success, closing the circuit
+   */
+  public recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.totalSuccesses++;
+    this.openedAt = null;
+    this.lastSuccessAt = this.now();
+  }
+
+  /**
+   * 记录一次失败；达到阈值或半开状态下的试探失败会打开熔断器
+   * Record a failure; reaching the threshold or a failed trial while half-open opens the circuit
+   *
+   * @param err - 错误
+   */
+  public recordFailure(err: unknown): void {
+    const wasHalfOpen = this.state === "half-open";
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = err instanceof Error ? err.message : String(err);
+    this.lastFailureAt = this.now();
+
+    if (wasHalfOpen || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * 获取状态快照
+   * Get a state snapshot
+   *
+   * @returns 状态快照
+   */
+  public snapshot(): CircuitSnapshot {
+    const toIso = (time?: number | null) => (time ? new Date(time).toISOString() : undefined);
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      lastError: this.lastError,
+      lastFailureAt: toIso(this.lastFailureAt),
+      lastSuccessAt: toIso(this.lastSuccessAt),
+      openedAt: toIso(this.openedAt),
+    };
+  }
+}
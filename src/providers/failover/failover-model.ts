@@ -0,0 +1,159 @@
+import type { LanguageModel, LanguageModelV1, LanguageModelV1CallOptions } from "ai";
+import type { CircuitBreaker } from "./circuit-breaker";
+import { APICallError, JSONParseError, NoObjectGeneratedError, RetryError, TypeValidationError } from "ai";
+import { warn } from "../../utils/logger";
+
+type DoGenerateResult = Awaited<ReturnType<LanguageModelV1["doGenerate"]>>;
+type DoStreamResult = Awaited<ReturnType<LanguageModelV1["doStream"]>>;
+
+/**
+ * 故障转移链中的成员
+ * Member of a failover chain
+ */
+export interface FailoverMember {
+  /**
+   * 成员名称（模型配置名称或提供者类型）
+   * Member name (model profile name or provider type)
+   */
+  name: string;
+  model: LanguageModel;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * 没有可用提供者错误（所有熔断器均已打开）
+ * No provider available error (every circuit is open)
+ */
+export class ProviderUnavailableError extends Error {
+  constructor(names: string[]) {
+    super(`No provider available, circuits open for: ${names.join(", ")}`);
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+const NETWORK_ERROR_CODES = new Set(["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "ETIMEDOUT", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_SOCKET"]);
+
+/**
+ * 判断错误是否应转移到下一个提供者：网络错误、429/5xx 以及模型输出无法解析为所需结构
+ * Whether an error should move the call to the next provider: network errors, 429/5xx and output that does not parse into the required structure
+ *
+ * @param err - 错误
+ * @returns 是否应故障转移
+ */
+export function isFailoverError(err: unknown): boolean {
+  if (RetryError.isInstance(err)) {
+    return isFailoverError(err.lastError);
+  }
+  if (APICallError.isInstance(err)) {
+    return err.isRetryable || err.statusCode === undefined;
+  }
+  if (NoObjectGeneratedError.isInstance(err) || JSONParseError.isInstance(err) || TypeValidationError.isInstance(err)) {
+    return true;
+  }
+
+  const code = (err as { code?: string; cause?: { code?: string } } | undefined)?.code
+    ?? (err as { cause?: { code?: string } } | undefined)?.cause?.code;
+  return typeof code === "string" && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * 故障转移语言模型：按顺序尝试链中熔断器未打开的成员，遇到可转移的错误时改用下一个成员
+ * Failover language model: tries the members of the chain whose circuits are not open in order,
+ * moving on to the next member on errors that warrant a failover
+ */
+export class FailoverLanguageModel implements LanguageModelV1 {
+  public readonly specificationVersion = "v1";
+  public readonly provider: string;
+  public readonly modelId: string;
+  public readonly defaultObjectGenerationMode: LanguageModelV1["defaultObjectGenerationMode"];
+  public readonly supportsStructuredOutputs?: boolean;
+  public readonly supportsImageUrls?: boolean;
+  public readonly members: FailoverMember[];
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param members - 按优先级排列的成员，第一个为主提供者
+   */
+  constructor(members: FailoverMember[]) {
+    const [primary] = members;
+    if (!primary) {
+      throw new Error("A failover chain needs at least one member");
+    }
+
+    this.members = members;
+    this.provider = primary.model.provider;
+    this.modelId = primary.model.modelId;
+    this.defaultObjectGenerationMode = primary.model.defaultObjectGenerationMode;
+    this.supportsStructuredOutputs = primary.model.supportsStructuredOutputs;
+    this.supportsImageUrls = primary.model.supportsImageUrls;
+  }
+
+  /**
+   * 依次用链中的成员执行任务，直到成功或遇到不可转移的错误
+   * Run a task with the members of the chain in turn until it succeeds or fails with an error that does not warrant a failover
+   *
+   * 所有尝试过的成员都失败时抛出最后一个错误，没有成员可尝试时抛出 ProviderUnavailableError
+   * Throws the last error when every member tried failed, or ProviderUnavailableError when no member could be tried
+   *
+   * @param task - 使用给定模型执行的任务
+   * @param signal - 取消信号
+   * @returns 任务结果
+   */
+  public async run<R>(task: (model: LanguageModel, member: FailoverMember) => Promise<R>, signal?: AbortSignal): Promise<R> {
+    let lastError: unknown;
+    let attempted = false;
+
+    for (const [index, member] of this.members.entries()) {
+      if (!member.breaker.canRequest()) {
+        continue;
+      }
+
+      attempted = true;
+      try {
+        const result = await task(member.model, member);
+        member.breaker.recordSuccess();
+        return result;
+      } catch (err) {
+        if (signal?.aborted || !isFailoverError(err)) {
+          throw err;
+        }
+        member.breaker.recordFailure(err);
+        lastError = err;
+
+        const next = this.members.slice(index + 1).find(candidate => candidate.breaker.canRequest());
+        if (next) {
+          warn(`Provider ${member.name} failed, failing over to ${next.name}:`, err instanceof Error ? err.message : err);
+        }
+      }
+    }
+
+    if (!attempted) {
+      throw new ProviderUnavailableError(this.members.map(member => member.name));
+    }
+    throw lastError;
+  }
+
+  /**
+   * 非流式生成
+   * Non-streaming generation
+   *
+   * @param options - 模型调用选项
+   * @returns 生成结果
+   */
+  public doGenerate(options: LanguageModelV1CallOptions): Promise<DoGenerateResult> {
+    return this.run(async model => model.doGenerate(options), options.abortSignal);
+  }
+
+  /**
+   * 流式生成（仅在建立流时故障转移）
+   * Streaming generation (failing over only while the stream is being established)
+   *
+   * @param options - 模型调用选项
+   * @returns 流式结果
+   */
+  public doStream(options: LanguageModelV1CallOptions): Promise<DoStreamResult> {
+    return this.run(async model => model.doStream(options), options.abortSignal);
+  }
+}
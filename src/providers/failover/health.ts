@@ -0,0 +1,99 @@
+import type { AIProviderInterface } from "../base-provider";
+import type { ModelStage } from "../routing";
+import type { CircuitSnapshot } from "./circuit-breaker";
+import { generateText } from "ai";
+
+/**
+ * 提供者健康检查结果
+ * Provider health check result
+ */
+export interface ProviderHealth {
+  healthy: boolean;
+  checkedAt: string;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * 提供者状态
+ * Provider status
+ */
+export interface ProviderStatus {
+  /**
+   * 模型配置名称或提供者类型
+   * Profile name or provider type
+   */
+  name: string;
+  modelId: string;
+  /**
+   * 以该提供者为主提供者的阶段
+   * Stages that use this provider as their primary provider
+   */
+  stages: ModelStage[];
+  /**
+   * 是否在故障转移链中
+   * Whether the provider is in the failover chain
+   */
+  failover: boolean;
+  circuit: CircuitSnapshot;
+  /**
+   * 最近一次健康检查结果
+   * Result of the latest health check
+   */
+  health?: ProviderHealth;
+  /**
+   * 提供者无法创建时的错误
+   * Error raised when the provider could not be created
+   */
+  error?: string;
+}
+
+/**
+ * 探测提供者是否可用：优先使用提供者自带的健康检查，否则发起一次最小的生成请求
+ * Probe whether a provider is available: uses the provider's own health check when it has one,
+ * otherwise makes a minimal generation request
+ *
+ * @param provider - 提供者
+ * @param timeoutMs - 超时时间（毫秒）
+ * @returns 健康检查结果
+ */
+export async function probeProvider(provider: AIProviderInterface, timeoutMs: number): Promise<ProviderHealth> {
+  const startedAt = Date.now();
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  try {
+    if (provider.checkHealth) {
+      await provider.checkHealth(signal);
+    } else {
+      await generateText({ model: provider.getModel(), prompt: "ping", maxTokens: 1, maxRetries: 0, abortSignal: signal });
+    }
+    return { healthy: true, checkedAt: new Date(startedAt).toISOString(), latencyMs: Date.now() - startedAt };
+  } catch (err) {
+    return {
+      healthy: false,
+      checkedAt: new Date(startedAt).toISOString(),
+      latencyMs: Date.now() - startedAt,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * 通过 HTTP GET 检查服务是否可用
+ * Check that a service is available with an HTTP GET
+ *
+ * @param url - 检查地址
+ * @param options - 选项
+ * @param options.headers - 请求头
+ * @param options.signal - 取消信号
+ * @param options.fetch - 自定义 fetch 实现
+ */
+export async function checkHttpHealth(
+  url: string,
+  { headers, signal, fetch = globalThis.fetch }: { headers?: Record<string, string>; signal?: AbortSignal; fetch?: typeof globalThis.fetch } = {},
+): Promise<void> {
+  const res = await fetch(url, { headers, signal });
+  if (!res.ok) {
+    throw new Error(`Health check ${url} failed with status ${res.status}`);
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./circuit-breaker";
+export * from "./failover-model";
+export * from "./health";
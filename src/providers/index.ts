@@ -1,9 +1,28 @@
 import type { LanguageModel } from "ai";
 import type { AIProviderFactory, AIProviderInterface, ProviderConfig } from "./base-provider";
+import type { FailoverMember, ProviderHealth, ProviderStatus } from "./failover";
+import type { ModelProfile, ModelRoutingConfig, ModelStage, StageRoute, StageRouting } from "./routing";
 import { ENV, ProviderType } from "../config/env";
-import { debug } from "../utils/logger";
+import { estimateTokens } from "../utils/llm/rate-limiter";
+import { debug, warn } from "../utils/logger";
+import { loadProviderPlugin, ProviderPluginError } from "./custom";
+import { CircuitBreaker, FailoverLanguageModel, probeProvider } from "./failover";
+import { mockProviderFactory, withFixtures } from "./mock";
 import { ollamaProviderFactory } from "./ollama";
 import { openaiProviderFactory } from "./openai";
+import {
+  llamaCppProviderFactory,
+  lmStudioProviderFactory,
+  openaiCompatibleProviderFactory,
+  vllmProviderFactory,
+} from "./openai-compatible";
+import {
+  DEFAULT_PROFILE,
+  loadModelRoutingConfig,
+  MODEL_STAGES,
+  ModelRoutingError,
+  validateModelRoutingConfig,
+} from "./routing";
 
 /**
  * AI提供者管理类
@@ -14,6 +33,15 @@ export class AIProviderManager {
   private providers: Map<ProviderType, AIProviderFactory>;
   private activeProvider: AIProviderInterface | null = null;
   private defaultProviderType: ProviderType = ProviderType.OPENAI;
+  private profiles: Map<string, AIProviderInterface> = new Map();
+  private pendingProfiles: Map<string, ModelProfile> = new Map();
+  private contextSizes: Map<string, number> = new Map();
+  private routing: StageRouting = {};
+  private failoverChain: string[] = [...ENV.FAILOVER.PROVIDERS];
+  private failoverProviders: Map<string, AIProviderInterface> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private health: Map<string, ProviderHealth> = new Map();
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
 
   /**
    * 私有构造函数
@@ -25,10 +53,22 @@ export class AIProviderManager {
     // 注册内置提供者
     this.registerProvider(ProviderType.OPENAI, openaiProviderFactory);
     this.registerProvider(ProviderType.OLLAMA, ollamaProviderFactory);
+    this.registerProvider(ProviderType.MOCK, mockProviderFactory);
+    this.registerProvider("openai-compatible", openaiCompatibleProviderFactory);
+    this.registerProvider("llamacpp", llamaCppProviderFactory);
+    this.registerProvider("vllm", vllmProviderFactory);
+    this.registerProvider("lmstudio", lmStudioProviderFactory);
 
     // 根据环境变量初始化默认提供者
     this.initializeDefaultProvider();
 
+    // 根据环境变量和配置文件加载模型配置与阶段路由
+    try {
+      this.configureModels(loadModelRoutingConfig());
+    } catch (error) {
+      warn(`Ignoring model routing configuration: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
     debug("AI Provider Manager initialized");
   }
 
@@ -98,6 +138,20 @@ export class AIProviderManager {
           }
           break;
 
+        case ProviderType.MOCK:
+          this.createMockProvider();
+          break;
+
+        case ProviderType.CUSTOM:
+          // 内置的 OpenAI 兼容提供者可以直接创建，插件模块需要在 initialize() 中异步加载
+          // Built-in OpenAI-compatible providers are created right away, plugin modules are loaded asynchronously in initialize()
+          if (this.providers.has(ENV.CUSTOM.PROVIDER as ProviderType)) {
+            this.createCustomProvider(ENV.CUSTOM.PROVIDER);
+          } else {
+            debug(`Custom provider plugin ${ENV.CUSTOM.PROVIDER} will be loaded on initialize()`);
+          }
+          break;
+
         default:
           debug(`Unknown provider type: ${this.defaultProviderType}, trying OpenAI as fallback`);
           if (ENV.OPENAI.API_KEY) {
@@ -121,17 +175,67 @@ export class AIProviderManager {
     }
   }
 
+  /**
+   * 获取提供者在环境变量中的配置
+   * Get the configuration of a provider from the environment
+   *
+   * @param type - 提供者类型
+   * @returns 提供者配置
+   */
+  private getProviderConfig(type: ProviderType | string): ProviderConfig {
+    switch (type) {
+      case ProviderType.OPENAI:
+        return {
+          apiKey: ENV.OPENAI.API_KEY,
+          baseURL: ENV.OPENAI.BASE_URL,
+          modelName: ENV.OPENAI.MODEL_NAME,
+          contextSize: ENV.MODEL.CONTEXT_SIZE,
+        };
+
+      case ProviderType.OLLAMA:
+        return {
+          baseURL: ENV.OLLAMA.BASE_URL,
+          modelName: ENV.OLLAMA.MODEL_NAME,
+          contextSize: ENV.MODEL.CONTEXT_SIZE,
+        };
+
+      case ProviderType.MOCK:
+        return {
+          seed: ENV.MOCK.SEED,
+          mode: ENV.MOCK.MODE === "replay" ? "replay" : "generate",
+          fixturesDir: ENV.MOCK.FIXTURES_DIR,
+          contextSize: ENV.MODEL.CONTEXT_SIZE,
+        };
+
+      default: {
+        // 自定义提供者（内置的 OpenAI 兼容提供者或插件）
+        // Custom providers (built-in OpenAI-compatible providers or plugins)
+        let options: ProviderConfig = {};
+        if (ENV.CUSTOM.OPTIONS) {
+          try {
+            options = JSON.parse(ENV.CUSTOM.OPTIONS);
+          } catch (err) {
+            throw new ProviderPluginError(ENV.CUSTOM.PROVIDER, `CUSTOM_PROVIDER_OPTIONS is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        }
+        return {
+          ...options,
+          apiKey: ENV.CUSTOM.API_KEY,
+          baseURL: ENV.CUSTOM.BASE_URL,
+          modelName: ENV.CUSTOM.MODEL_NAME,
+          contextSize: ENV.MODEL.CONTEXT_SIZE,
+          jsonMode: ENV.CUSTOM.JSON_MODE,
+        };
+      }
+    }
+  }
+
   /**
    * 创建OpenAI提供者
    * Create OpenAI provider
    */
   private createOpenAIProvider(): void {
-    this.activeProvider = this.createProvider(ProviderType.OPENAI, {
-      apiKey: ENV.OPENAI.API_KEY,
-      baseURL: ENV.OPENAI.BASE_URL,
-      modelName: ENV.OPENAI.MODEL_NAME,
-      contextSize: ENV.MODEL.CONTEXT_SIZE,
-    });
+    this.activeProvider = this.createProvider(ProviderType.OPENAI, this.getProviderConfig(ProviderType.OPENAI));
   }
 
   /**
@@ -139,13 +243,330 @@ export class AIProviderManager {
    * Create Ollama provider
    */
   private createOllamaProvider(): void {
-    this.activeProvider = this.createProvider(ProviderType.OLLAMA, {
-      baseURL: ENV.OLLAMA.BASE_URL,
-      modelName: ENV.OLLAMA.MODEL_NAME,
-      contextSize: ENV.MODEL.CONTEXT_SIZE,
+    this.activeProvider = this.createProvider(ProviderType.OLLAMA, this.getProviderConfig(ProviderType.OLLAMA));
+  }
+
+  /**
+   * 创建自定义提供者
+   * Create custom provider
+   *
+   * @param type - 已注册的提供者类型
+   */
+  private createCustomProvider(type: ProviderType | string): void {
+    this.activeProvider = this.createProvider(type, this.getProviderConfig(ProviderType.CUSTOM));
+  }
+
+  /**
+   * 完成需要异步操作的初始化（加载自定义提供者插件），应在使用模型前调用
+   * Finish initialization that needs asynchronous work (loading custom provider plugins); call before using the model
+   */
+  public async initialize(): Promise<void> {
+    if (this.defaultProviderType === ProviderType.CUSTOM && !this.activeProvider) {
+      const factory = await loadProviderPlugin(ENV.CUSTOM.PROVIDER);
+      this.registerProvider(ProviderType.CUSTOM, factory);
+      this.createCustomProvider(ProviderType.CUSTOM);
+      debug(`Initialized custom provider plugin: ${ENV.CUSTOM.PROVIDER}`);
+    }
+
+    // 加载使用插件的模型配置
+    // Load model profiles that use plugins
+    for (const [name, profile] of this.pendingProfiles) {
+      if (!this.providers.has(profile.provider as ProviderType)) {
+        this.registerProvider(profile.provider, await loadProviderPlugin(profile.provider));
+      }
+      this.profiles.set(name, this.createProfileProvider(profile));
+      this.pendingProfiles.delete(name);
+      debug(`Initialized model profile ${name} from plugin ${profile.provider}`);
+    }
+
+    // 配置了故障转移时定期检查提供者健康状况
+    // Periodically check provider health when failover is configured
+    if (this.failoverChain.length > 0 && ENV.FAILOVER.HEALTH_CHECK_INTERVAL_MS > 0) {
+      this.startHealthChecks(ENV.FAILOVER.HEALTH_CHECK_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * 配置故障转移链，替换之前的配置
+   * Configure the failover chain, replacing the previous one
+   *
+   * @param chain - 主提供者失败时依次尝试的模型配置名称或提供者类型
+   */
+  public configureFailover(chain: string[]): void {
+    this.failoverChain = [...chain];
+    this.failoverProviders.clear();
+  }
+
+  /**
+   * 获取提供者的熔断器
+   * Get the circuit breaker of a provider
+   *
+   * @param name - 模型配置名称或提供者类型
+   * @returns 熔断器
+   */
+  private getBreaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: ENV.FAILOVER.FAILURE_THRESHOLD,
+        resetTimeoutMs: ENV.FAILOVER.RESET_TIMEOUT_MS,
+      });
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * 按名称获取提供者：默认提供者、命名模型配置，或按环境变量配置创建的已注册提供者类型
+   * Get a provider by name: the default provider, a named profile, or a registered provider type created from the environment
+   *
+   * @param name - 模型配置名称或提供者类型
+   * @returns 提供者实例
+   */
+  private resolveProvider(name: string): AIProviderInterface {
+    if (name === DEFAULT_PROFILE) {
+      return this.getActiveProvider();
+    }
+    if (this.profiles.has(name) || this.pendingProfiles.has(name)) {
+      return this.getProfileProvider(name);
+    }
+
+    let provider = this.failoverProviders.get(name);
+    if (!provider) {
+      if (!this.providers.has(name as ProviderType)) {
+        throw new ModelRoutingError(`Unknown provider "${name}": not a model profile or a registered provider type`);
+      }
+      provider = this.createProvider(name, this.getProviderConfig(name));
+      this.failoverProviders.set(name, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * 获取阶段的故障转移链成员：主提供者在前，无法创建的后备提供者会被跳过
+   * Get the failover chain members of a stage: the primary provider first, skipping fallbacks that cannot be created
+   *
+   * @param stage - 模型阶段
+   * @returns 故障转移链成员
+   */
+  private getFailoverMembers(stage?: ModelStage): FailoverMember[] {
+    const primary = this.getProfileName(stage);
+    const members: FailoverMember[] = [{ name: primary, model: this.getProvider(stage).getModel(), breaker: this.getBreaker(primary) }];
+
+    for (const name of this.failoverChain) {
+      if (members.some(member => member.name === name)) {
+        continue;
+      }
+      try {
+        members.push({ name, model: this.resolveProvider(name).getModel(), breaker: this.getBreaker(name) });
+      } catch (error) {
+        debug(`Skipping failover provider ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return members;
+  }
+
+  /**
+   * 获取所有提供者的状态（主提供者、命名模型配置和故障转移链）
+   * Get the status of every provider (default provider, named profiles and failover chain)
+   *
+   * @returns 提供者状态
+   */
+  public getProviderStatus(): ProviderStatus[] {
+    const names = [...new Set([DEFAULT_PROFILE, ...this.profiles.keys(), ...this.pendingProfiles.keys(), ...this.failoverChain])];
+
+    return names.map((name) => {
+      const status: ProviderStatus = {
+        name,
+        modelId: "",
+        stages: MODEL_STAGES.filter(stage => this.getProfileName(stage) === name),
+        failover: this.failoverChain.includes(name),
+        circuit: this.getBreaker(name).snapshot(),
+        health: this.health.get(name),
+      };
+      try {
+        status.modelId = this.resolveProvider(name).getModelId();
+      } catch (error) {
+        status.error = error instanceof Error ? error.message : String(error);
+      }
+      return status;
+    });
+  }
+
+  /**
+   * 检查所有提供者的健康状况；检查结果同时更新熔断器
+   * Check the health of every provider; results also update the circuit breakers
+   *
+   * @returns 提供者状态
+   */
+  public async checkHealth(): Promise<ProviderStatus[]> {
+    const statuses = this.getProviderStatus();
+
+    await Promise.all(statuses.filter(status => !status.error).map(async ({ name }) => {
+      const health = await probeProvider(this.resolveProvider(name), ENV.FAILOVER.HEALTH_CHECK_TIMEOUT_MS);
+      this.health.set(name, health);
+      if (health.healthy) {
+        this.getBreaker(name).recordSuccess();
+      } else {
+        this.getBreaker(name).recordFailure(health.error);
+        debug(`Health check of provider ${name} failed: ${health.error}`);
+      }
+    }));
+
+    return this.getProviderStatus();
+  }
+
+  /**
+   * 开始定期健康检查（不会阻止进程退出）
+   * Start periodic health checks (without keeping the process alive)
+   *
+   * @param intervalMs - 检查间隔（毫秒）
+   */
+  public startHealthChecks(intervalMs: number): void {
+    this.stopHealthChecks();
+    this.healthTimer = setInterval(() => {
+      void this.checkHealth();
+    }, intervalMs);
+    this.healthTimer.unref();
+  }
+
+  /**
+   * 停止定期健康检查
+   * Stop periodic health checks
+   */
+  public stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * 配置命名模型与阶段路由，替换之前的配置
+   * Configure named model profiles and stage routing, replacing the previous configuration
+   *
+   * 使用已注册提供者的模型配置会立即创建，使用插件的模型配置在 initialize() 中加载
+   * Profiles using registered providers are created right away, profiles using plugins are loaded in initialize()
+   *
+   * @param config - 模型路由配置
+   */
+  public configureModels(config: ModelRoutingConfig): void {
+    validateModelRoutingConfig(config);
+
+    const profiles = new Map<string, AIProviderInterface>();
+    const pendingProfiles = new Map<string, ModelProfile>();
+    const contextSizes = new Map<string, number>();
+    for (const [name, profile] of Object.entries(config.profiles ?? {})) {
+      if (profile.contextSize) {
+        contextSizes.set(name, profile.contextSize);
+      }
+      const resolved = { ...profile, provider: profile.provider === ProviderType.CUSTOM ? ENV.CUSTOM.PROVIDER : profile.provider };
+      if (this.providers.has(resolved.provider as ProviderType)) {
+        profiles.set(name, this.createProfileProvider(resolved));
+      } else {
+        pendingProfiles.set(name, resolved);
+      }
+    }
+
+    this.profiles = profiles;
+    this.pendingProfiles = pendingProfiles;
+    this.contextSizes = contextSizes;
+    this.routing = { ...config.routing };
+    if (Object.keys(this.routing).length > 0) {
+      debug(`Model routing: ${MODEL_STAGES.map(stage => `${stage}=${this.getProfileName(stage)}`).join(", ")}`);
+    }
+  }
+
+  /**
+   * 创建模型配置对应的提供者，未指定的配置项使用该提供者在环境变量中的配置
+   * Create the provider of a model profile, unspecified settings falling back to the provider's environment configuration
+   *
+   * @param profile - 模型配置
+   * @param profile.provider - 提供者类型
+   * @returns 提供者实例
+   */
+  private createProfileProvider({ provider, ...config }: ModelProfile): AIProviderInterface {
+    return this.createProvider(provider, { ...this.getProviderConfig(provider), ...config });
+  }
+
+  /**
+   * 获取阶段使用的模型配置名称
+   * Get the name of the model profile used by a stage
+   *
+   * @param stage - 模型阶段
+   * @returns 模型配置名称
+   */
+  public getProfileName(stage?: ModelStage): string {
+    return (stage && this.routing[stage]) || DEFAULT_PROFILE;
+  }
+
+  /**
+   * 获取阶段使用的提供者，未指定阶段或阶段未配置路由时使用默认提供者
+   * Get the provider used by a stage, the default provider when no stage is given or the stage is not routed
+   *
+   * @param stage - 模型阶段
+   * @returns 提供者实例
+   */
+  public getProvider(stage?: ModelStage): AIProviderInterface {
+    const name = this.getProfileName(stage);
+    return name === DEFAULT_PROFILE ? this.getActiveProvider() : this.getProfileProvider(name);
+  }
+
+  /**
+   * 获取命名模型配置的提供者
+   * Get the provider of a named profile
+   *
+   * @param name - 模型配置名称
+   * @returns 提供者实例
+   */
+  private getProfileProvider(name: string): AIProviderInterface {
+    const provider = this.profiles.get(name);
+    if (!provider) {
+      throw new ModelRoutingError(`Model profile "${name}" is not initialized; call initializeProvider() first`);
+    }
+    return provider;
+  }
+
+  /**
+   * 获取所有阶段的路由信息
+   * Get the routing information of every stage
+   *
+   * @returns 阶段路由信息
+   */
+  public getRouting(): StageRoute[] {
+    return MODEL_STAGES.map((stage) => {
+      const profile = this.getProfileName(stage);
+      const pending = this.pendingProfiles.get(profile);
+      return { stage, profile, modelId: pending ? String(pending.modelName ?? pending.provider) : this.getModelId(stage) };
     });
   }
 
+  /**
+   * 创建模拟提供者；record 模式下创建真实提供者并录制其响应
+   * Create mock provider; in record mode the real provider is created and its responses are recorded
+   */
+  private createMockProvider(): void {
+    if (ENV.MOCK.MODE !== "record") {
+      this.activeProvider = this.createProvider(ProviderType.MOCK, {
+        seed: ENV.MOCK.SEED,
+        mode: ENV.MOCK.MODE,
+        fixturesDir: ENV.MOCK.FIXTURES_DIR,
+        contextSize: ENV.MODEL.CONTEXT_SIZE,
+      });
+      return;
+    }
+
+    if (ENV.MOCK.RECORD_PROVIDER === ProviderType.OLLAMA) {
+      this.createOllamaProvider();
+    } else {
+      this.createOpenAIProvider();
+    }
+    if (this.activeProvider) {
+      this.activeProvider = withFixtures(this.activeProvider, { mode: "record", directory: ENV.MOCK.FIXTURES_DIR });
+      debug(`Recording ${ENV.MOCK.RECORD_PROVIDER} responses to ${ENV.MOCK.FIXTURES_DIR}`);
+    }
+  }
+
   /**
    * 创建提供者实例
    * Create provider instance
@@ -186,59 +607,130 @@ export class AIProviderManager {
   }
 
   /**
-   * 获取模型
-   * Get model
+   * 获取模型：阶段的主提供者在前、故障转移链在后的故障转移模型
+   * Get model: a failover model with the stage's primary provider first, followed by the failover chain
    *
+   * @param stage - 模型阶段
    * @returns 语言模型
    */
-  public getModel(): LanguageModel {
-    return this.getActiveProvider().getModel();
+  public getModel(stage?: ModelStage): FailoverLanguageModel {
+    return new FailoverLanguageModel(this.getFailoverMembers(stage));
   }
 
   /**
    * 获取模型ID
    * Get model ID
    *
+   * @param stage - 模型阶段
    * @returns 模型ID
    */
-  public getModelId(): string {
-    return this.getActiveProvider().getModelId();
+  public getModelId(stage?: ModelStage): string {
+    return this.getProvider(stage).getModelId();
   }
 
   /**
-   * 裁剪提示文本
-   * Trim prompt
+   * 裁剪提示文本；路由到命名模型配置的阶段使用该模型的上下文大小
+   * Trim prompt; stages routed to a named profile use the context size of that model
    *
    * @param prompt - 提示文本
    * @param contextSize - 上下文大小
+   * @param stage - 模型阶段
    * @returns 裁剪后的提示文本
    */
-  public trimPrompt(prompt: string, contextSize?: number): string {
-    return this.getActiveProvider().trimPrompt(prompt, contextSize ?? ENV.MODEL.CONTEXT_SIZE);
+  public trimPrompt(prompt: string, contextSize?: number, stage?: ModelStage): string {
+    const provider = this.getProvider(stage);
+    if (this.getProfileName(stage) !== DEFAULT_PROFILE) {
+      return provider.trimPrompt(prompt, contextSize);
+    }
+    return provider.trimPrompt(prompt, contextSize ?? ENV.MODEL.CONTEXT_SIZE);
+  }
+
+  /**
+   * 获取阶段使用的模型的上下文大小（令牌数）
+   * Get the context size (in tokens) of the model used by a stage
+   *
+   * @param stage - 模型阶段
+   * @returns 上下文大小
+   */
+  public getContextSize(stage?: ModelStage): number {
+    return this.contextSizes.get(this.getProfileName(stage)) ?? ENV.MODEL.CONTEXT_SIZE;
+  }
+
+  /**
+   * 使用阶段提供者的分词器计算令牌数，提供者没有分词器时按字符数估算
+   * Count tokens with the tokenizer of the stage's provider, estimating from the character count when it has none
+   *
+   * @param text - 文本
+   * @param stage - 模型阶段
+   * @returns 令牌数
+   */
+  public countTokens(text: string, stage?: ModelStage): number {
+    const provider = this.getProvider(stage);
+    return provider.countTokens ? provider.countTokens(text) : estimateTokens(text);
   }
 }
 
 // 导出单例实例
 const aiProviderManager = AIProviderManager.getInstance();
 
+/**
+ * 初始化提供者（加载自定义提供者插件）
+ * Initialize the provider (loading custom provider plugins)
+ */
+export function initializeProvider(): Promise<void> {
+  return aiProviderManager.initialize();
+}
+
 /**
  * 获取模型
  * Get model
  *
+ * @param stage - 模型阶段
  * @returns 语言模型
  */
-export function getModel(): LanguageModel {
-  return aiProviderManager.getModel();
+export function getModel(stage?: ModelStage): LanguageModel {
+  return aiProviderManager.getModel(stage);
 }
 
 /**
  * 获取模型ID
  * Get model ID
  *
+ * @param stage - 模型阶段
  * @returns 模型ID
  */
-export function getModelId(): string {
-  return aiProviderManager.getModelId();
+export function getModelId(stage?: ModelStage): string {
+  return aiProviderManager.getModelId(stage);
+}
+
+/**
+ * 获取所有阶段的模型路由
+ * Get the model routing of every stage
+ *
+ * @returns 阶段路由信息
+ */
+export function getModelRouting(): StageRoute[] {
+  return aiProviderManager.getRouting();
+}
+
+/**
+ * 获取所有提供者的状态
+ * Get the status of every provider
+ *
+ * @returns 提供者状态
+ */
+export function getProviderStatus(): ProviderStatus[] {
+  return aiProviderManager.getProviderStatus();
+}
+
+/**
+ * 立即检查所有提供者的健康状况
+ * Check the health of every provider right away
+ *
+ * @returns 提供者状态
+ */
+export function checkProviderHealth(): Promise<ProviderStatus[]> {
+  return aiProviderManager.checkHealth();
 }
 
 /**
@@ -247,13 +739,42 @@ export function getModelId(): string {
  *
  * @param prompt - 提示文本
  * @param contextSize - 上下文大小
+ * @param stage - 模型阶段
  * @returns 裁剪后的提示文本
  */
-export function trimPrompt(prompt: string, contextSize?: number): string {
-  return aiProviderManager.trimPrompt(prompt, contextSize);
+export function trimPrompt(prompt: string, contextSize?: number, stage?: ModelStage): string {
+  return aiProviderManager.trimPrompt(prompt, contextSize, stage);
+}
+
+/**
+ * 获取上下文大小
+ * Get context size
+ *
+ * @param stage - 模型阶段
+ * @returns 上下文大小（令牌数）
+ */
+export function getContextSize(stage?: ModelStage): number {
+  return aiProviderManager.getContextSize(stage);
+}
+
+/**
+ * 计算令牌数
+ * Count tokens
+ *
+ * @param text - 文本
+ * @param stage - 模型阶段
+ * @returns 令牌数
+ */
+export function countTokens(text: string, stage?: ModelStage): number {
+  return aiProviderManager.countTokens(text, stage);
 }
 
 // 导出所有提供者相关类型和接口
 export * from "./base-provider";
+export * from "./custom";
+export * from "./failover";
+export * from "./mock";
 export * from "./ollama";
 export * from "./openai";
+export * from "./openai-compatible";
+export * from "./routing";
@@ -0,0 +1,22 @@
+import type { LanguageModelV1CallOptions } from "ai";
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+
+/**
+ * 生成模型调用的指纹：提示词与输出模式的规范化JSON
+ * Build the fingerprint of a model call: normalized JSON of the prompt and the output mode
+ *
+ * 节点ID等UUID和系统提示中的时间戳会被替换为占位符，使得同样的问题在不同运行中得到相同的指纹
+ * UUIDs such as node IDs and the timestamp in the system prompt are replaced with placeholders,
+ * so the same problem yields the same fingerprint across runs
+ *
+ * @param options - 模型调用选项
+ * @returns 指纹字符串
+ */
+export function getCallFingerprint(options: LanguageModelV1CallOptions): string {
+  const { mode, prompt } = options;
+  return JSON.stringify({ mode, prompt })
+    .replace(UUID_PATTERN, "<uuid>")
+    .replace(TIMESTAMP_PATTERN, "<timestamp>");
+}
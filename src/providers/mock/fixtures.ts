@@ -0,0 +1,231 @@
+import type { LanguageModel, LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1Middleware, LanguageModelV1StreamPart } from "ai";
+import type { AIProviderInterface } from "../base-provider";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { simulateReadableStream, wrapLanguageModel } from "ai";
+import { debug } from "../../utils/logger";
+import { getCallFingerprint } from "./fingerprint";
+
+type DoGenerateResult = Awaited<ReturnType<LanguageModelV1["doGenerate"]>>;
+
+/**
+ * 夹具模式：record 录制真实模型的响应，replay 回放已录制的响应
+ * Fixture mode: record captures real model responses, replay serves recorded ones
+ */
+export type FixtureMode = "record" | "replay";
+
+/**
+ * 录制的模型响应
+ * Recorded model response
+ */
+export interface LLMFixture {
+  /**
+   * 夹具键（调用指纹的散列）
+   * Fixture key (hash of the call fingerprint)
+   */
+  key: string;
+  /**
+   * 录制时使用的模型ID
+   * Model ID used when recording
+   */
+  modelId: string;
+  /**
+   * 录制时间（ISO 8601）
+   * Recording time (ISO 8601)
+   */
+  recordedAt: string;
+  /**
+   * 调用的提示词，便于排查
+   * Prompt of the call, for inspection
+   */
+  prompt: LanguageModelV1CallOptions["prompt"];
+  /**
+   * 模型响应
+   * Model response
+   */
+  response: Pick<DoGenerateResult, "text" | "toolCalls" | "finishReason" | "usage">;
+}
+
+/**
+ * 夹具不存在错误（回放模式下遇到未录制的调用）
+ * Fixture not found error (an unrecorded call in replay mode)
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(key: string, directory: string) {
+    super(`No LLM fixture ${key} in ${directory}; record it first with MOCK_MODE=record`);
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+/**
+ * 计算调用的夹具键
+ * Compute the fixture key of a call
+ *
+ * @param options - 模型调用选项
+ * @returns 夹具键
+ */
+export function getFixtureKey(options: LanguageModelV1CallOptions): string {
+  return createHash("sha256").update(getCallFingerprint(options)).digest("hex").slice(0, 24);
+}
+
+/**
+ * 读取夹具
+ * Read a fixture
+ *
+ * @param directory - 夹具目录
+ * @param key - 夹具键
+ * @returns 夹具
+ */
+async function readFixture(directory: string, key: string): Promise<LLMFixture> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(directory, `${key}.json`), "utf-8")) as LLMFixture;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new FixtureNotFoundError(key, directory);
+    }
+    throw err;
+  }
+}
+
+/**
+ * 写入夹具
+ * Write a fixture
+ *
+ * @param directory - 夹具目录
+ * @param fixture - 夹具
+ */
+async function writeFixture(directory: string, fixture: LLMFixture): Promise<void> {
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path.join(directory, `${fixture.key}.json`), JSON.stringify(fixture, null, 2), "utf-8");
+  debug(`Recorded LLM fixture ${fixture.key}`);
+}
+
+/**
+ * 将录制的响应转换为流式片段
+ * Convert a recorded response into stream parts
+ *
+ * @param response - 录制的响应
+ * @returns 流式片段
+ */
+function toStreamParts(response: LLMFixture["response"]): LanguageModelV1StreamPart[] {
+  return [
+    ...(response.text ? [{ type: "text-delta" as const, textDelta: response.text }] : []),
+    ...(response.toolCalls ?? []).map(call => ({ type: "tool-call" as const, ...call })),
+    { type: "finish", finishReason: response.finishReason, usage: response.usage },
+  ];
+}
+
+/**
+ * 创建录制/回放模型响应的中间件
+ * Create a middleware that records or replays model responses
+ *
+ * @param options - 选项
+ * @param options.mode - 夹具模式
+ * @param options.directory - 夹具目录
+ * @returns 语言模型中间件
+ */
+export function createFixtureMiddleware({
+  mode,
+  directory,
+}: {
+  mode: FixtureMode;
+  directory: string;
+}): LanguageModelV1Middleware {
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const key = getFixtureKey(params);
+
+      if (mode === "replay") {
+        const { response } = await readFixture(directory, key);
+        return { ...response, rawCall: { rawPrompt: params.prompt, rawSettings: {} } };
+      }
+
+      const result = await doGenerate();
+      await writeFixture(directory, {
+        key,
+        modelId: model.modelId,
+        recordedAt: new Date().toISOString(),
+        prompt: params.prompt,
+        response: {
+          text: result.text,
+          toolCalls: result.toolCalls,
+          finishReason: result.finishReason,
+          usage: result.usage,
+        },
+      });
+      return result;
+    },
+
+    wrapStream: async ({ doStream, params, model }) => {
+      const key = getFixtureKey(params);
+
+      if (mode === "replay") {
+        const { response } = await readFixture(directory, key);
+        return {
+          stream: simulateReadableStream({ chunks: toStreamParts(response), initialDelayInMs: null, chunkDelayInMs: null }),
+          rawCall: { rawPrompt: params.prompt, rawSettings: {} },
+        };
+      }
+
+      // 边转发边收集流式片段，结束时写入夹具
+      const { stream, ...rest } = await doStream();
+      let text = "";
+      const toolCalls: NonNullable<DoGenerateResult["toolCalls"]> = [];
+      const recorder = new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        async transform(part, controller) {
+          if (part.type === "text-delta") {
+            text += part.textDelta;
+          } else if (part.type === "tool-call") {
+            const { type: _type, ...call } = part;
+            toolCalls.push(call);
+          } else if (part.type === "finish") {
+            await writeFixture(directory, {
+              key,
+              modelId: model.modelId,
+              recordedAt: new Date().toISOString(),
+              prompt: params.prompt,
+              response: {
+                text: text || undefined,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                finishReason: part.finishReason,
+                usage: part.usage,
+              },
+            });
+          }
+          controller.enqueue(part);
+        },
+      });
+
+      return { stream: stream.pipeThrough(recorder), ...rest };
+    },
+  };
+}
+
+/**
+ * 为提供者的模型加上录制/回放中间件
+ * Wrap the model of a provider with the record/replay middleware
+ *
+ * @param provider - 提供者
+ * @param options - 选项
+ * @param options.mode - 夹具模式
+ * @param options.directory - 夹具目录
+ * @returns 包装后的提供者
+ */
+export function withFixtures(
+  provider: AIProviderInterface,
+  options: { mode: FixtureMode; directory: string },
+): AIProviderInterface {
+  const model: LanguageModel = wrapLanguageModel({
+    model: provider.getModel(),
+    middleware: createFixtureMiddleware(options),
+  });
+
+  return {
+    getModel: () => model,
+    getModelId: () => provider.getModelId(),
+    trimPrompt: (prompt, contextSize) => provider.trimPrompt(prompt, contextSize),
+    countTokens: provider.countTokens && (text => provider.countTokens!(text)),
+    checkHealth: provider.checkHealth && (signal => provider.checkHealth!(signal)),
+  };
+}
@@ -0,0 +1,28 @@
+import type { AIProviderFactory, AIProviderInterface, ProviderConfig } from "../base-provider";
+import type { MockProviderConfig } from "./mock-provider";
+import { MockProvider } from "./mock-provider";
+
+/**
+ * 模拟提供者工厂类
+ * Mock Provider Factory Class
+ */
+export class MockProviderFactory implements AIProviderFactory {
+  /**
+   * 创建模拟提供者实例
+   * Create Mock Provider instance
+   *
+   * @param config - 提供者配置
+   * @returns 模拟提供者实例
+   */
+  public createProvider(config: ProviderConfig): AIProviderInterface {
+    return new MockProvider(config as MockProviderConfig);
+  }
+}
+
+// 导出实例
+export const mockProviderFactory = new MockProviderFactory();
+
+export * from "./fixtures";
+export * from "./mock-language-model";
+export * from "./mock-provider";
+export * from "./schema-generator";
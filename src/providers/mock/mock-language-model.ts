@@ -0,0 +1,160 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from "ai";
+import type { JsonSchema } from "./schema-generator";
+import { simulateReadableStream } from "ai";
+import { hashString, SeededRandom } from "../../utils/random";
+import { getCallFingerprint } from "./fingerprint";
+import { generateFromSchema } from "./schema-generator";
+
+type DoGenerateResult = Awaited<ReturnType<LanguageModelV1["doGenerate"]>>;
+type DoStreamResult = Awaited<ReturnType<LanguageModelV1["doStream"]>>;
+
+/**
+ * 模拟语言模型配置
+ * Mock language model options
+ */
+export interface MockLanguageModelOptions {
+  /**
+   * 随机种子
+   * Random seed
+   */
+  seed?: number;
+  /**
+   * 模型ID
+   * Model ID
+   */
+  modelId?: string;
+}
+
+/**
+ * 流式输出时每段文本的长度
+ * Length of each text delta when streaming
+ */
+const STREAM_CHUNK_SIZE = 64;
+
+/**
+ * 离线模拟语言模型：按请求的 JSON Schema 生成确定性的结构化对象
+ * Offline mock language model: generates deterministic structured objects from the requested JSON Schema
+ *
+ * 每次调用的随机数由种子和调用指纹共同决定，因此结果与调用顺序和并发无关
+ * The randomness of each call is derived from the seed and the call fingerprint,
+ * so results do not depend on call order or concurrency
+ */
+export class MockLanguageModel implements LanguageModelV1 {
+  public readonly specificationVersion = "v1";
+  public readonly provider = "mock";
+  public readonly defaultObjectGenerationMode = "json";
+  public readonly supportsStructuredOutputs = true;
+  public readonly modelId: string;
+  private seed: number;
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param options - 模拟模型配置
+   * @param options.seed - 随机种子
+   * @param options.modelId - 模型ID
+   */
+  constructor({ seed = 42, modelId = "mock-model" }: MockLanguageModelOptions = {}) {
+    this.seed = seed;
+    this.modelId = modelId;
+  }
+
+  /**
+   * 为一次调用生成响应
+   * Build the response to a call
+   *
+   * @param options - 模型调用选项
+   * @returns 文本或工具调用
+   */
+  private respond(options: LanguageModelV1CallOptions): Pick<DoGenerateResult, "text" | "toolCalls"> {
+    const fingerprint = getCallFingerprint(options);
+    const random = new SeededRandom(hashString(`${this.seed}:${fingerprint}`));
+    const { mode } = options;
+
+    switch (mode.type) {
+      case "object-json":
+        return { text: JSON.stringify(generateFromSchema((mode.schema ?? { type: "object" }) as JsonSchema, random)) };
+      case "object-tool":
+        return {
+          toolCalls: [{
+            toolCallType: "function",
+            toolCallId: `mock-call-${random.int(1, 1_000_000)}`,
+            toolName: mode.tool.name,
+            args: JSON.stringify(generateFromSchema(mode.tool.parameters as JsonSchema, random)),
+          }],
+        };
+      default:
+        return { text: `Mock response ${random.int(1, 999)}` };
+    }
+  }
+
+  /**
+   * 估算令牌用量（约4个字符一个令牌）
+   * Estimate token usage (roughly 4 characters per token)
+   *
+   * @param options - 模型调用选项
+   * @param output - 输出文本
+   * @returns 令牌用量
+   */
+  private usage(options: LanguageModelV1CallOptions, output: string): DoGenerateResult["usage"] {
+    return {
+      promptTokens: Math.ceil(JSON.stringify(options.prompt).length / 4),
+      completionTokens: Math.ceil(output.length / 4),
+    };
+  }
+
+  /**
+   * 非流式生成
+   * Non-streaming generation
+   *
+   * @param options - 模型调用选项
+   * @returns 生成结果
+   */
+  public async doGenerate(options: LanguageModelV1CallOptions): Promise<DoGenerateResult> {
+    options.abortSignal?.throwIfAborted();
+    const response = this.respond(options);
+    const output = response.text ?? response.toolCalls?.map(call => call.args).join("") ?? "";
+
+    return {
+      ...response,
+      finishReason: response.toolCalls ? "tool-calls" : "stop",
+      usage: this.usage(options, output),
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  /**
+   * 流式生成，将文本拆分为多个增量片段
+   * Streaming generation, splitting the text into several deltas
+   *
+   * @param options - 模型调用选项
+   * @returns 流式结果
+   */
+  public async doStream(options: LanguageModelV1CallOptions): Promise<DoStreamResult> {
+    options.abortSignal?.throwIfAborted();
+    const response = this.respond(options);
+    const chunks: LanguageModelV1StreamPart[] = [];
+
+    if (response.toolCalls) {
+      chunks.push(...response.toolCalls.map(call => ({ type: "tool-call" as const, ...call })));
+    } else {
+      const text = response.text ?? "";
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        chunks.push({ type: "text-delta", textDelta: text.slice(i, i + STREAM_CHUNK_SIZE) });
+      }
+    }
+
+    const output = response.text ?? response.toolCalls?.map(call => call.args).join("") ?? "";
+    chunks.push({
+      type: "finish",
+      finishReason: response.toolCalls ? "tool-calls" : "stop",
+      usage: this.usage(options, output),
+    });
+
+    return {
+      stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }),
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import type { LanguageModel } from "ai";
+import type { AIProviderInterface, ProviderConfig } from "../base-provider";
+import { wrapLanguageModel } from "ai";
+import { createFixtureMiddleware } from "./fixtures";
+import { MockLanguageModel } from "./mock-language-model";
+
+/**
+ * 模拟提供者配置
+ * Mock Provider Configuration
+ */
+export interface MockProviderConfig extends ProviderConfig {
+  modelName?: string;
+  contextSize?: number;
+  /**
+   * 随机种子
+   * Random seed
+   */
+  seed?: number;
+  /**
+   * generate 按模式生成数据，replay 回放录制的夹具
+   * generate produces data from the schema, replay serves recorded fixtures
+   */
+  mode?: "generate" | "replay";
+  /**
+   * 夹具目录（replay 模式）
+   * Fixture directory (replay mode)
+   */
+  fixturesDir?: string;
+}
+
+/**
+ * 模拟提供者类：无需网络或API密钥，用于测试和演示
+ * Mock Provider Class: needs no network or API key, for tests and demos
+ */
+export class MockProvider implements AIProviderInterface {
+  private model: LanguageModel;
+  private modelName: string;
+  private contextSize: number;
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param config - 模拟提供者配置
+   */
+  constructor(config: MockProviderConfig = {}) {
+    // 设置模型名称
+    this.modelName = config.modelName || "mock-model";
+
+    // 设置上下文大小
+    this.contextSize = config.contextSize || 128_000;
+
+    // 创建模型实例
+    const baseModel = new MockLanguageModel({ seed: config.seed, modelId: this.modelName });
+    this.model = config.mode === "replay"
+      ? wrapLanguageModel({
+          model: baseModel,
+          middleware: createFixtureMiddleware({ mode: "replay", directory: config.fixturesDir || "test/fixtures/llm" }),
+        })
+      : baseModel;
+  }
+
+  /**
+   * 获取语言模型
+   * Get language model
+   *
+   * @returns 语言模型
+   */
+  public getModel(): LanguageModel {
+    return this.model;
+  }
+
+  /**
+   * 获取模型ID
+   * Get model ID
+   *
+   * @returns 模型ID
+   */
+  public getModelId(): string {
+    return this.modelName;
+  }
+
+  /**
+   * 模拟提供者总是可用
+   * The mock provider is always available
+   */
+  public async checkHealth(): Promise<void> {}
+
+  /**
+   * 计算文本的令牌数（按约3个字符一个令牌估算，不加载分词器）
+   * Count the tokens of a text (estimated at roughly 3 characters per token, without loading a tokenizer)
+   *
+   * @param text - 文本
+   * @returns 令牌数
+   */
+  public countTokens(text: string): number {
+    return Math.ceil(text.length / 3);
+  }
+
+  /**
+   * 裁剪提示文本（按约3个字符一个令牌估算，不加载分词器）
+   * Trim prompt (estimated at roughly 3 characters per token, without loading a tokenizer)
+   *
+   * @param prompt - 需要裁剪的提示文本
+   * @param contextSize - 最大上下文大小
+   * @returns 裁剪后的提示文本
+   */
+  public trimPrompt(prompt: string, contextSize = this.contextSize): string {
+    return prompt.slice(0, contextSize * 3);
+  }
+}
@@ -0,0 +1,197 @@
+import type { SeededRandom } from "../../utils/random";
+
+/**
+ * 生成器支持的 JSON Schema 子集（zod-to-json-schema 的输出）
+ * Subset of JSON Schema supported by the generator (the output of zod-to-json-schema)
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema | JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  format?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  additionalProperties?: boolean | JsonSchema;
+  $ref?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * 未指定数组长度上限时生成的最大元素数
+ * Maximum number of generated items when an array has no upper bound
+ */
+const DEFAULT_MAX_ITEMS = 3;
+
+/**
+ * 未指定范围时数字的取值区间
+ * Range of numbers without explicit bounds
+ */
+const DEFAULT_NUMBER_RANGE = [0, 10] as const;
+
+/**
+ * 解析本地 $ref（例如 "#/properties/a"）
+ * Resolve a local $ref (e.g. "#/properties/a")
+ *
+ * @param ref - 引用路径
+ * @param root - 根模式
+ * @returns 被引用的模式
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (!ref.startsWith("#")) {
+    throw new Error(`Unsupported $ref: ${ref}`);
+  }
+  return ref
+    .slice(1)
+    .split("/")
+    .filter(Boolean)
+    .reduce<any>((schema, part) => schema?.[part.replace(/~1/g, "/").replace(/~0/g, "~")], root) ?? {};
+}
+
+/**
+ * 生成字符串
+ * Generate a string
+ *
+ * @param schema - 字符串模式
+ * @param random - 随机数生成器
+ * @param name - 属性名称，用于生成可读的内容
+ * @returns 字符串
+ */
+function generateString(schema: JsonSchema, random: SeededRandom, name: string): string {
+  if (schema.format === "uuid") {
+    return random.uuid();
+  }
+  if (schema.format === "date-time") {
+    return new Date(Date.UTC(2025, 0, 1) + random.int(0, 365) * 86_400_000).toISOString();
+  }
+
+  let text = `Mock ${name} ${random.int(1, 999)}`;
+  if (schema.minLength !== undefined && text.length < schema.minLength) {
+    text = text.padEnd(schema.minLength, ".");
+  }
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+    text = text.slice(0, schema.maxLength);
+  }
+  return text;
+}
+
+/**
+ * 生成数字（两端边界都是整数时生成整数）
+ * Generate a number (integers when both bounds are integers)
+ *
+ * @param schema - 数字模式
+ * @param random - 随机数生成器
+ * @param integer - 是否必须为整数
+ * @returns 数字
+ */
+function generateNumber(schema: JsonSchema, random: SeededRandom, integer: boolean): number {
+  const min = schema.minimum ?? schema.exclusiveMinimum ?? DEFAULT_NUMBER_RANGE[0];
+  const max = schema.maximum ?? schema.exclusiveMaximum ?? Math.max(min, DEFAULT_NUMBER_RANGE[1]);
+
+  if (integer || (Number.isInteger(min) && Number.isInteger(max))) {
+    const low = schema.exclusiveMinimum !== undefined ? Math.floor(min) + 1 : Math.ceil(min);
+    const high = schema.exclusiveMaximum !== undefined ? Math.ceil(max) - 1 : Math.floor(max);
+    return random.int(low, Math.max(low, high));
+  }
+  return Math.round(random.float(min, max) * 100) / 100;
+}
+
+/**
+ * 按 JSON Schema 生成符合模式的随机值
+ * Generate a random value that satisfies a JSON Schema
+ *
+ * 对象的所有属性（包括可选属性）都会生成；带默认值的属性使用默认值；没有元素模式的数组生成为空数组
+ * Every object property (including optional ones) is generated; properties with a default use it;
+ * arrays without an item schema are generated empty
+ *
+ * @param schema - JSON Schema
+ * @param random - 随机数生成器
+ * @param options - 选项
+ * @param options.root - 根模式，用于解析 $ref
+ * @param options.name - 当前属性名称
+ * @returns 生成的值
+ */
+export function generateFromSchema(
+  schema: JsonSchema,
+  random: SeededRandom,
+  { root = schema, name = "value" }: { root?: JsonSchema; name?: string } = {},
+): unknown {
+  if (schema.$ref) {
+    return generateFromSchema(resolveRef(schema.$ref, root), random, { root, name });
+  }
+  if (schema.default !== undefined) {
+    return structuredClone(schema.default);
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return random.pick(schema.enum);
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants && variants.length > 0) {
+    // 优先选择非 null 的分支，使生成的数据更有内容
+    const candidates = variants.filter(variant => variant.type !== "null");
+    return generateFromSchema(random.pick(candidates.length > 0 ? candidates : variants), random, { root, name });
+  }
+  if (schema.allOf && schema.allOf.length > 0) {
+    const merged = schema.allOf.reduce<JsonSchema>((acc, part) => ({
+      ...acc,
+      ...part,
+      properties: { ...acc.properties, ...part.properties },
+      required: [...(acc.required ?? []), ...(part.required ?? [])],
+    }), {});
+    return generateFromSchema(merged, random, { root, name });
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find(t => t !== "null") ?? "null"
+    : schema.type ?? (schema.properties ? "object" : undefined);
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          generateFromSchema(property, random, { root, name: key }),
+        ]),
+      );
+    case "array": {
+      if (!schema.items) {
+        return [];
+      }
+      const min = schema.minItems ?? 1;
+      const max = schema.maxItems ?? Math.max(min, DEFAULT_MAX_ITEMS);
+      const count = random.int(Math.min(min, max), max);
+      return Array.from({ length: count }, (_, index) => {
+        const items = Array.isArray(schema.items) ? schema.items[index] ?? {} : schema.items!;
+        return generateFromSchema(items, random, { root, name });
+      });
+    }
+    case "string":
+      return generateString(schema, random, name);
+    case "integer":
+      return generateNumber(schema, random, true);
+    case "number":
+      return generateNumber(schema, random, false);
+    case "boolean":
+      return random.next() < 0.5;
+    case "null":
+      return null;
+    default:
+      return null;
+  }
+}
@@ -6,6 +6,7 @@ import { getEncoding } from "js-tiktoken";
 import { createOllama } from "ollama-ai-provider";
 import { TEXT_CONFIG } from "../../config/env";
 import { RecursiveCharacterTextSplitter } from "../../utils/text/text-splitter";
+import { checkHttpHealth } from "../failover/health";
 
 /**
  * Ollama提供者配置
@@ -28,6 +29,7 @@ export class OllamaProvider implements AIProviderInterface {
   private modelName: string;
   private contextSize: number;
   private encoder: ReturnType<typeof getEncoding>;
+  private baseURL: string;
 
   /**
    * 构造函数
@@ -36,6 +38,9 @@ export class OllamaProvider implements AIProviderInterface {
    * @param config - Ollama提供者配置
    */
   constructor(config: OllamaProviderConfig) {
+    // 保存服务地址，用于健康检查
+    this.baseURL = config.baseURL || "http://localhost:11434/api";
+
     // 创建Ollama实例
     this.ollama = createOllama({
       baseURL: config.baseURL || "http://localhost:11434/api",
@@ -82,6 +87,27 @@ export class OllamaProvider implements AIProviderInterface {
     return this.model.modelId || this.modelName;
   }
 
+  /**
+   * 检查Ollama服务是否可用
+   * Check that the Ollama server is available
+   *
+   * @param signal - 取消信号
+   */
+  public async checkHealth(signal?: AbortSignal): Promise<void> {
+    await checkHttpHealth(`${this.baseURL}/tags`, { signal });
+  }
+
+  /**
+   * 计算文本的令牌数
+   * Count the tokens of a text
+   *
+   * @param text - 文本
+   * @returns 令牌数
+   */
+  public countTokens(text: string): number {
+    return this.encoder.encode(text).length;
+  }
+
   /**
    * 裁剪提示文本以符合最大上下文大小限制
    * Trim prompt to maximum context size
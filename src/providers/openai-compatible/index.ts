@@ -0,0 +1,75 @@
+import type { AIProviderFactory, AIProviderInterface, ProviderConfig } from "../base-provider";
+import type { OpenAICompatibleProviderConfig } from "./openai-compatible-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+
+/**
+ * OpenAI兼容提供者工厂类，可为特定推理服务预设默认配置
+ * OpenAI-compatible Provider Factory Class, optionally preset with the defaults of a specific inference server
+ */
+export class OpenAICompatibleProviderFactory implements AIProviderFactory {
+  private defaults: Partial<OpenAICompatibleProviderConfig>;
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param defaults - 默认配置
+   */
+  constructor(defaults: Partial<OpenAICompatibleProviderConfig> = {}) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * 创建OpenAI兼容提供者实例
+   * Create OpenAI-compatible Provider instance
+   *
+   * @param config - 提供者配置
+   * @returns OpenAI兼容提供者实例
+   */
+  public createProvider(config: ProviderConfig): AIProviderInterface {
+    // 合并默认配置，忽略未设置的配置项
+    const definedConfig = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined && value !== ""));
+    const compatibleConfig = { ...this.defaults, ...definedConfig } as OpenAICompatibleProviderConfig;
+
+    // 验证必要的配置项
+    if (!compatibleConfig.baseURL) {
+      throw new Error(`${compatibleConfig.name || "OpenAI-compatible"} base URL is required`);
+    }
+    if (!compatibleConfig.modelName) {
+      throw new Error(`${compatibleConfig.name || "OpenAI-compatible"} model name is required`);
+    }
+
+    // 创建并返回OpenAI兼容提供者实例
+    return new OpenAICompatibleProvider(compatibleConfig);
+  }
+}
+
+// 导出实例
+export const openaiCompatibleProviderFactory = new OpenAICompatibleProviderFactory();
+
+// llama.cpp server：支持 json_object，但模式约束依赖具体版本
+// llama.cpp server: supports json_object, schema constraints depend on the version
+export const llamaCppProviderFactory = new OpenAICompatibleProviderFactory({
+  name: "llamacpp",
+  baseURL: "http://localhost:8080/v1",
+  jsonMode: "json_object",
+});
+
+// vLLM：支持 json_object 引导解码
+// vLLM: supports json_object guided decoding
+export const vllmProviderFactory = new OpenAICompatibleProviderFactory({
+  name: "vllm",
+  baseURL: "http://localhost:8000/v1",
+  jsonMode: "json_object",
+});
+
+// LM Studio：不接受 json_object，模式写入提示词
+// LM Studio: rejects json_object, so the schema goes into the prompt
+export const lmStudioProviderFactory = new OpenAICompatibleProviderFactory({
+  name: "lmstudio",
+  baseURL: "http://localhost:1234/v1",
+  jsonMode: "prompt",
+});
+
+export * from "./json-mode";
+export * from "./openai-compatible-provider";
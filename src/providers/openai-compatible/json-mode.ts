@@ -0,0 +1,81 @@
+import type { LanguageModelV1, LanguageModelV1Middleware } from "ai";
+import { wrapLanguageModel } from "ai";
+
+/**
+ * 结构化输出方式
+ * Structured output mode
+ *
+ * - json_schema: 服务端支持 response_format.json_schema 约束解码
+ *   the server supports constrained decoding via response_format.json_schema
+ * - json_object: 模式写入提示词，服务端只保证输出合法JSON（response_format.json_object）
+ *   the schema is written into the prompt and the server only guarantees valid JSON (response_format.json_object)
+ * - prompt: 模式写入提示词，不发送 response_format，从回复文本中提取JSON
+ *   the schema is written into the prompt, no response_format is sent and JSON is extracted from the reply text
+ */
+export type JsonMode = "json_schema" | "json_object" | "prompt";
+
+/**
+ * 所有结构化输出方式
+ * All structured output modes
+ */
+export const JSON_MODES: readonly JsonMode[] = ["json_schema", "json_object", "prompt"];
+
+const CODE_FENCE_PATTERN = /```(?:json)?\n?([\s\S]*?)```/;
+
+/**
+ * 从回复文本中提取JSON：去掉 Markdown 代码块和JSON前后的说明文字
+ * Extract JSON from a reply: strip Markdown code fences and any prose around the JSON
+ *
+ * @param text - 回复文本
+ * @returns JSON文本
+ */
+export function extractJsonText(text: string): string {
+  const fenced = CODE_FENCE_PATTERN.exec(text)?.[1] ?? text;
+  const start = fenced.search(/[{[]/);
+  const end = Math.max(fenced.lastIndexOf("}"), fenced.lastIndexOf("]"));
+  return start !== -1 && end > start ? fenced.slice(start, end + 1) : fenced.trim();
+}
+
+/**
+ * 创建 JSON 回退中间件：prompt 模式下不发送 response_format，并从回复中提取JSON
+ * Create the JSON fallback middleware: in prompt mode no response_format is sent and JSON is extracted from the reply
+ *
+ * @param jsonMode - 结构化输出方式
+ * @returns 语言模型中间件
+ */
+function createJsonFallbackMiddleware(jsonMode: JsonMode): LanguageModelV1Middleware {
+  return {
+    transformParams: async ({ params }) => {
+      if (jsonMode !== "prompt" || params.mode.type !== "object-json") {
+        return params;
+      }
+      return { ...params, mode: { type: "regular" } };
+    },
+
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate();
+      if (jsonMode === "json_schema" || params.mode.type === "object-tool" || !result.text) {
+        return result;
+      }
+      return { ...result, text: extractJsonText(result.text) };
+    },
+  };
+}
+
+/**
+ * 为不支持结构化输出的模型启用 JSON 模式回退
+ * Enable the JSON mode fallback for models without structured outputs
+ *
+ * 默认情况下 AI SDK 会对不支持结构化输出的 OpenAI 兼容模型使用工具调用生成对象，
+ * 而许多本地推理服务并不支持工具调用，因此这里强制使用 JSON 模式
+ * By default the AI SDK generates objects through tool calls when an OpenAI-compatible model lacks
+ * structured outputs, which many local inference servers do not support, so JSON mode is forced here
+ *
+ * @param model - 语言模型
+ * @param jsonMode - 结构化输出方式
+ * @returns 包装后的语言模型
+ */
+export function withJsonMode(model: LanguageModelV1, jsonMode: JsonMode): LanguageModelV1 {
+  const wrapped = wrapLanguageModel({ model, middleware: createJsonFallbackMiddleware(jsonMode) });
+  return { ...wrapped, defaultObjectGenerationMode: "json" };
+}
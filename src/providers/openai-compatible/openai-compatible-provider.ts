@@ -0,0 +1,181 @@
+import type { LanguageModel } from "ai";
+import type { TiktokenEncoding } from "js-tiktoken";
+import type { AIProviderInterface, ProviderConfig } from "../base-provider";
+import type { JsonMode } from "./json-mode";
+import { createOpenAI } from "@ai-sdk/openai";
+import { extractReasoningMiddleware, wrapLanguageModel } from "ai";
+import { getEncoding } from "js-tiktoken";
+import { TEXT_CONFIG } from "../../config/env";
+import { RecursiveCharacterTextSplitter } from "../../utils/text/text-splitter";
+import { checkHttpHealth } from "../failover/health";
+import { withJsonMode } from "./json-mode";
+
+/**
+ * OpenAI兼容提供者配置
+ * OpenAI-compatible Provider Configuration
+ */
+export interface OpenAICompatibleProviderConfig extends ProviderConfig {
+  baseURL: string;
+  modelName: string;
+  apiKey?: string;
+  contextSize?: number;
+  /**
+   * 提供者名称，用于日志和模型信息
+   * Provider name, used in logs and model information
+   */
+  name?: string;
+  /**
+   * 结构化输出方式
+   * Structured output mode
+   */
+  jsonMode?: JsonMode;
+  /**
+   * 附加的请求头
+   * Extra request headers
+   */
+  headers?: Record<string, string>;
+  /**
+   * 自定义 fetch 实现
+   * Custom fetch implementation
+   */
+  fetch?: typeof globalThis.fetch;
+}
+
+/**
+ * OpenAI兼容提供者类：用于 llama.cpp、vLLM、LM Studio 等实现了 OpenAI 接口的推理服务
+ * OpenAI-compatible Provider Class: for inference servers implementing the OpenAI API such as llama.cpp, vLLM and LM Studio
+ */
+export class OpenAICompatibleProvider implements AIProviderInterface {
+  private model: LanguageModel;
+  private modelName: string;
+  private contextSize: number;
+  private encoder: ReturnType<typeof getEncoding>;
+  private config: OpenAICompatibleProviderConfig;
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param config - OpenAI兼容提供者配置
+   */
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.config = config;
+
+    // 创建兼容模式的OpenAI实例（不发送 OpenAI 专有参数）
+    const openai = createOpenAI({
+      name: config.name || "openai-compatible",
+      apiKey: config.apiKey || "not-needed",
+      baseURL: config.baseURL,
+      headers: config.headers,
+      fetch: config.fetch,
+      compatibility: "compatible",
+    });
+
+    // 设置模型名称
+    this.modelName = config.modelName;
+
+    // 设置上下文大小
+    this.contextSize = config.contextSize || 128_000;
+
+    // 创建模型实例
+    const jsonMode = config.jsonMode || "json_object";
+    const baseModel = withJsonMode(
+      openai(this.modelName, { structuredOutputs: jsonMode === "json_schema" }),
+      jsonMode,
+    );
+
+    // 包装模型
+    this.model = wrapLanguageModel({
+      model: baseModel,
+      middleware: extractReasoningMiddleware({ tagName: "think" }),
+    });
+
+    // 初始化编码器
+    this.encoder = getEncoding(TEXT_CONFIG.ENCODING as TiktokenEncoding);
+  }
+
+  /**
+   * 获取语言模型
+   * Get language model
+   *
+   * @returns 语言模型
+   */
+  public getModel(): LanguageModel {
+    return this.model;
+  }
+
+  /**
+   * 获取模型ID
+   * Get model ID
+   *
+   * @returns 模型ID
+   */
+  public getModelId(): string {
+    return this.model.modelId || this.modelName;
+  }
+
+  /**
+   * 检查推理服务是否可用
+   * Check that the inference server is available
+   *
+   * @param signal - 取消信号
+   */
+  public async checkHealth(signal?: AbortSignal): Promise<void> {
+    await checkHttpHealth(`${this.config.baseURL}/models`, {
+      headers: { ...this.config.headers, ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}) },
+      signal,
+      fetch: this.config.fetch,
+    });
+  }
+
+  /**
+   * 计算文本的令牌数
+   * Count the tokens of a text
+   *
+   * @param text - 文本
+   * @returns 令牌数
+   */
+  public countTokens(text: string): number {
+    return this.encoder.encode(text).length;
+  }
+
+  /**
+   * 裁剪提示文本以符合最大上下文大小限制
+   * Trim prompt to maximum context size
+   *
+   * @param prompt - 需要裁剪的提示文本
+   * @param contextSize - 最大上下文大小
+   * @returns 裁剪后的提示文本
+   */
+  public trimPrompt(prompt: string, contextSize = this.contextSize): string {
+    if (!prompt) {
+      return "";
+    }
+
+    const length = this.encoder.encode(prompt).length;
+    if (length <= contextSize) {
+      return prompt;
+    }
+
+    const overflowTokens = length - contextSize;
+    // on average it's 3 characters per token, so multiply by 3 to get a rough estimate of the number of characters
+    const chunkSize = prompt.length - overflowTokens * 3;
+    if (chunkSize < TEXT_CONFIG.MIN_CHUNK_SIZE) {
+      return prompt.slice(0, TEXT_CONFIG.MIN_CHUNK_SIZE);
+    }
+
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize,
+      chunkOverlap: 0,
+    });
+    const trimmedPrompt = splitter.splitText(prompt)[0] ?? "";
+
+    // last catch, there's a chance that the trimmed prompt is same length as the original prompt, due to how tokens are split & innerworkings of the splitter, handle this case by just doing a hard cut
+    if (trimmedPrompt.length === prompt.length) {
+      return this.trimPrompt(prompt.slice(0, chunkSize), contextSize);
+    }
+
+    // recursively trim until the prompt is within the context size
+    return this.trimPrompt(trimmedPrompt, contextSize);
+  }
+}
@@ -6,6 +6,7 @@ import { extractReasoningMiddleware, wrapLanguageModel } from "ai";
 import { getEncoding } from "js-tiktoken";
 import { TEXT_CONFIG } from "../../config/env";
 import { RecursiveCharacterTextSplitter } from "../../utils/text/text-splitter";
+import { checkHttpHealth } from "../failover/health";
 
 /**
  * OpenAI提供者配置
@@ -30,6 +31,8 @@ export class OpenAIProvider implements AIProviderInterface {
   private modelName: string;
   private contextSize: number;
   private encoder: ReturnType<typeof getEncoding>;
+  private baseURL: string;
+  private apiKey: string;
 
   /**
    * 构造函数
@@ -38,6 +41,10 @@ export class OpenAIProvider implements AIProviderInterface {
    * @param config - OpenAI提供者配置
    */
   constructor(config: OpenAIProviderConfig) {
+    // 保存接口地址和密钥，用于健康检查
+    this.baseURL = config.baseURL || "https://api.openai.com/v1";
+    this.apiKey = config.apiKey;
+
     // 创建OpenAI实例
     this.openai = createOpenAI({
       apiKey: config.apiKey,
@@ -86,6 +93,27 @@ export class OpenAIProvider implements AIProviderInterface {
     return this.model.modelId || this.modelName;
   }
 
+  /**
+   * 检查OpenAI接口是否可用
+   * Check that the OpenAI API is available
+   *
+   * @param signal - 取消信号
+   */
+  public async checkHealth(signal?: AbortSignal): Promise<void> {
+    await checkHttpHealth(`${this.baseURL}/models`, { headers: { Authorization: `Bearer ${this.apiKey}` }, signal });
+  }
+
+  /**
+   * 计算文本的令牌数
+   * Count the tokens of a text
+   *
+   * @param text - 文本
+   * @returns 令牌数
+   */
+  public countTokens(text: string): number {
+    return this.encoder.encode(text).length;
+  }
+
   /**
    * 裁剪提示文本以符合最大上下文大小限制
    * Trim prompt to maximum context size
@@ -0,0 +1,177 @@
+import type { ProviderType } from "../config/env";
+import type { ProviderConfig } from "./base-provider";
+import * as fs from "node:fs";
+import { ENV } from "../config/env";
+
+/**
+ * 决策分析中调用模型的阶段
+ * Stages of the decision analysis that call a model
+ */
+export type ModelStage = "feedback" | "initial-tree" | "expansion" | "repair" | "insights" | "critique" | "stakeholders" | "report";
+
+/**
+ * 所有模型阶段
+ * All model stages
+ */
+export const MODEL_STAGES: readonly ModelStage[] = ["feedback", "initial-tree", "expansion", "repair", "insights", "critique", "stakeholders", "report"];
+
+/**
+ * 默认模型配置名称，对应 PROVIDER_TYPE 配置的提供者
+ * Name of the default model profile, backed by the provider configured with PROVIDER_TYPE
+ */
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * 命名模型配置
+ * Named model profile
+ */
+export interface ModelProfile extends ProviderConfig {
+  /**
+   * 提供者类型、内置的 OpenAI 兼容提供者名称或插件模块
+   * Provider type, built-in OpenAI-compatible provider name or plugin module
+   */
+  provider: ProviderType | string;
+}
+
+/**
+ * 阶段路由表
+ * Stage routing table
+ */
+export type StageRouting = Partial<Record<ModelStage, string>>;
+
+/**
+ * 模型路由配置
+ * Model routing configuration
+ */
+export interface ModelRoutingConfig {
+  profiles?: Record<string, ModelProfile>;
+  routing?: StageRouting;
+}
+
+/**
+ * 阶段的路由信息
+ * Routing information of a stage
+ */
+export interface StageRoute {
+  stage: ModelStage;
+  profile: string;
+  modelId: string;
+}
+
+/**
+ * 模型路由配置错误
+ * Model routing configuration error
+ */
+export class ModelRoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelRoutingError";
+  }
+}
+
+/**
+ * 判断值是否为模型阶段
+ * Check whether a value is a model stage
+ *
+ * @param value - 待检查的值
+ * @returns 是否为模型阶段
+ */
+export function isModelStage(value: unknown): value is ModelStage {
+  return MODEL_STAGES.includes(value as ModelStage);
+}
+
+/**
+ * 解析阶段路由字符串
+ * Parse a stage routing string
+ *
+ * @param spec - 路由字符串，例如 "expansion=fast,report=strong"
+ * @returns 阶段路由表
+ */
+export function parseStageRouting(spec: string): StageRouting {
+  const routing: StageRouting = {};
+  for (const entry of spec.split(",").map(item => item.trim()).filter(Boolean)) {
+    const [stage = "", profile = ""] = entry.split("=").map(part => part.trim());
+    if (!isModelStage(stage)) {
+      throw new ModelRoutingError(`Unknown model stage "${stage}", expected one of ${MODEL_STAGES.join(", ")}`);
+    }
+    if (!profile) {
+      throw new ModelRoutingError(`Missing model profile for stage "${stage}"`);
+    }
+    routing[stage] = profile;
+  }
+  return routing;
+}
+
+/**
+ * 解析JSON配置
+ * Parse JSON configuration
+ *
+ * @param json - JSON文本
+ * @param source - 配置来源，用于错误信息
+ * @returns 解析结果
+ */
+function parseJson<T>(json: string, source: string): T {
+  try {
+    return JSON.parse(json) as T;
+  } catch (err) {
+    throw new ModelRoutingError(`${source} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * 校验模型路由配置：路由只能指向已知阶段和已定义的模型配置
+ * Validate a model routing configuration: routes may only name known stages and defined profiles
+ *
+ * @param config - 模型路由配置
+ */
+export function validateModelRoutingConfig(config: ModelRoutingConfig): void {
+  const profiles = config.profiles ?? {};
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (name === DEFAULT_PROFILE) {
+      throw new ModelRoutingError(`The profile name "${DEFAULT_PROFILE}" is reserved for the PROVIDER_TYPE provider`);
+    }
+    if (!profile || typeof profile.provider !== "string" || !profile.provider) {
+      throw new ModelRoutingError(`Model profile "${name}" must name a provider`);
+    }
+  }
+  for (const [stage, profile] of Object.entries(config.routing ?? {})) {
+    if (!isModelStage(stage)) {
+      throw new ModelRoutingError(`Unknown model stage "${stage}", expected one of ${MODEL_STAGES.join(", ")}`);
+    }
+    if (profile !== DEFAULT_PROFILE && !profiles[profile]) {
+      throw new ModelRoutingError(`Stage "${stage}" is routed to undefined model profile "${profile}"`);
+    }
+  }
+}
+
+/**
+ * 从环境变量和配置文件加载模型路由配置，环境变量优先
+ * Load the model routing configuration from the environment and the config file, the environment taking precedence
+ *
+ * @returns 模型路由配置
+ */
+export function loadModelRoutingConfig(): ModelRoutingConfig {
+  let fileConfig: ModelRoutingConfig = {};
+  if (ENV.MODEL.CONFIG_FILE) {
+    let content: string;
+    try {
+      content = fs.readFileSync(ENV.MODEL.CONFIG_FILE, "utf-8");
+    } catch (err) {
+      throw new ModelRoutingError(`Cannot read MODEL_CONFIG_FILE ${ENV.MODEL.CONFIG_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    fileConfig = parseJson<ModelRoutingConfig>(content, ENV.MODEL.CONFIG_FILE);
+  }
+
+  const config: ModelRoutingConfig = {
+    profiles: {
+      ...fileConfig.profiles,
+      ...(ENV.MODEL.PROFILES ? parseJson<Record<string, ModelProfile>>(ENV.MODEL.PROFILES, "MODEL_PROFILES") : {}),
+    },
+    routing: {
+      ...fileConfig.routing,
+      ...(ENV.MODEL.ROUTING ? parseStageRouting(ENV.MODEL.ROUTING) : {}),
+    },
+  };
+  validateModelRoutingConfig(config);
+  return config;
+}
@@ -1,5 +1,7 @@
 import process from "node:process";
-import { runCLI } from "./services/cli-service";
+import { initializeProvider } from "./providers";
+import { runCLI, runDiff, runValidate } from "./services/cli-service";
+import { getSessionRepository } from "./storage";
 import { error } from "./utils/logger";
 
 /**
@@ -8,6 +10,35 @@ import { error } from "./utils/logger";
  */
 async function main(): Promise<void> {
   try {
+    // 启动时创建会话存储，运行时不支持所配置的存储类型时立即报错
+    getSessionRepository();
+
+    // 比较两次分析不需要调用模型：diff <旧分析> <新分析>
+    const [command, ...refs] = process.argv.slice(2);
+    if (command === "diff") {
+      const [beforeRef, afterRef] = refs;
+      if (!beforeRef || !afterRef) {
+        error("用法: diff <旧分析的文件或会话ID> <新分析的文件或会话ID>");
+        process.exit(1);
+      }
+      await runDiff(beforeRef, afterRef);
+      return;
+    }
+
+    // 校验概率同样不需要调用模型：validate <分析>，发现问题时以非零状态退出
+    if (command === "validate") {
+      const [ref] = refs;
+      if (!ref) {
+        error("用法: validate <分析的文件或会话ID>");
+        process.exit(1);
+      }
+      if (!await runValidate(ref)) {
+        process.exit(1);
+      }
+      return;
+    }
+
+    await initializeProvider();
     await runCLI();
   } catch (err) {
     error("程序运行出错:", err);
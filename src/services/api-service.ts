@@ -1,16 +1,87 @@
 import type { Request, Response } from "express";
-import * as fs from "node:fs/promises";
+import type { CritiqueMode } from "../types/critique";
+import type {
+  DecisionCriterion,
+  DecisionNode,
+  DecisionNodeEdit,
+  DecisionProgress,
+  DecisionResult,
+  ExpansionPriority,
+  ExpansionStrategy,
+} from "../types/decision";
+import type { AnalysisSnapshot } from "../types/diff";
+import type { AnalysisJobOutput, JobStage } from "../types/job";
+import type { FollowUpAnswer } from "../types/session";
+import type { StakeholderPersona } from "../types/stakeholder";
+import type { AnalysisEstimate } from "../types/usage";
+import type { MarkdownSection } from "../utils/report";
 import cors from "cors";
 import express from "express";
 import { ENV } from "../config/env";
-import { getModelId } from "../providers";
+import { formatProblemWithFollowUp } from "../config/prompts";
+import { checkProviderHealth, getModelId, getModelRouting, getProviderStatus } from "../providers";
+import { getSessionRepository, SessionNotFoundError } from "../storage";
+import { AssumptionNotFoundError } from "../utils/decision/assumptions";
+import { normalizeCriteria } from "../utils/decision/criteria";
+import { isCritiqueMode } from "../utils/decision/critique";
+import { formatDecisionDiff } from "../utils/decision/diff";
+import { AnalysisTooLargeError } from "../utils/decision/estimate";
+import { validateProbabilities } from "../utils/decision/probability";
+import { isStakeholderPersona } from "../utils/decision/stakeholders";
+import { InvalidTreeOperationError, NodeNotFoundError } from "../utils/decision/tree";
+import { DIAGRAM_FORMATS, exportDecisionTree, isDiagramFormat } from "../utils/export";
+import { UsageTracker } from "../utils/llm/usage";
 import { error, info, log } from "../utils/logger";
+import { isReportFormat, renderReport, REPORT_FORMATS } from "../utils/report";
 import {
+  addNode,
   analyzeDecision,
-  decisionTreeToJson,
+  analyzeDecisionSensitivity,
+  compareDecisions,
+  estimateDecisionAnalysis,
+  expandNode,
   generateDecisionFeedback,
   generateDecisionReport,
+  getAssumptionRegister,
+  pruneNode,
+  regenerateNode,
+  setAssumptionStatus,
+  simulateDecision,
+  updateNode,
+  validateDecisionTree,
 } from "./decision-service";
+import { cancelAnalysisJob, getAnalysisJob, submitAnalysisJob } from "./job-service";
+
+/**
+ * 决策分析请求参数
+ * Analyze decision request parameters
+ */
+interface AnalyzeRequest {
+  problem: string;
+  depth: number;
+  breadth: number;
+  criteria?: DecisionCriterion[];
+  stakeholders?: StakeholderPersona[];
+  critique: CritiqueMode;
+  followUp: FollowUpAnswer[];
+  strategy: ExpansionStrategy;
+  budget: number;
+  priority: ExpansionPriority;
+}
+
+/**
+ * 分析流程回调与取消信号
+ * Analysis pipeline hooks and cancellation signal
+ */
+interface AnalysisHooks {
+  signal?: AbortSignal;
+  onSession?: (sessionId: string) => void;
+  onStage?: (stage: JobStage) => void;
+  onProgress?: (progress: DecisionProgress) => void;
+  onNodeExpanded?: (node: DecisionNode) => void;
+  onInsights?: (insights: string[]) => void;
+  onReportChunk?: (section: MarkdownSection) => void;
+}
 
 /**
  * API服务类
@@ -70,6 +141,76 @@ export class APIService {
       void this.handleAnalyzeDecision(req, res);
     });
 
+    // API endpoint to estimate the size and cost of a decision analysis without running it
+    this.app.post("/api/analyze-decision/estimate", (req, res) => {
+      this.handleEstimateAnalysis(req, res);
+    });
+
+    // API endpoint to run decision analysis, streaming progress as Server-Sent Events
+    this.app.post("/api/analyze-decision/stream", (req, res) => {
+      void this.handleAnalyzeDecisionStream(req, res);
+    });
+
+    // Get analysis job status
+    this.app.get("/api/jobs/:id", (req, res) => {
+      this.handleGetJob(req, res);
+    });
+
+    // Cancel analysis job
+    this.app.delete("/api/jobs/:id", (req, res) => {
+      this.handleCancelJob(req, res);
+    });
+
+    // List saved decision sessions
+    this.app.get("/api/sessions", (req, res) => {
+      void this.handleListSessions(req, res);
+    });
+
+    // Get a saved decision session
+    this.app.get("/api/sessions/:id", (req, res) => {
+      void this.handleGetSession(req, res);
+    });
+
+    // Manually add a node to a saved decision tree
+    this.app.post("/api/sessions/:id/nodes", (req, res) => {
+      void this.handleAddNode(req, res);
+    });
+
+    // Manually edit a node of a saved decision tree
+    this.app.patch("/api/sessions/:id/nodes/:nodeId", (req, res) => {
+      void this.handleUpdateNode(req, res);
+    });
+
+    // Prune a subtree of a saved decision tree
+    this.app.delete("/api/sessions/:id/nodes/:nodeId", (req, res) => {
+      void this.handlePruneNode(req, res);
+    });
+
+    // Expand a node of a saved decision tree by more levels
+    this.app.post("/api/sessions/:id/nodes/:nodeId/expand", (req, res) => {
+      void this.handleExpandNode(req, res);
+    });
+
+    // Regenerate the children of a node of a saved decision tree
+    this.app.post("/api/sessions/:id/nodes/:nodeId/regenerate", (req, res) => {
+      void this.handleRegenerateNode(req, res);
+    });
+
+    // List the assumptions of a saved decision tree
+    this.app.get("/api/sessions/:id/assumptions", (req, res) => {
+      void this.handleGetAssumptions(req, res);
+    });
+
+    // Check the probabilities of a saved decision tree
+    this.app.get("/api/sessions/:id/validate", (req, res) => {
+      void this.handleValidateDecisionTree(req, res);
+    });
+
+    // Mark an assumption of a saved decision tree false or open
+    this.app.patch("/api/sessions/:id/assumptions/:assumptionId", (req, res) => {
+      void this.handleSetAssumptionStatus(req, res);
+    });
+
     // Get saved decision report
     this.app.get("/api/decision-report", (req, res) => {
       void this.handleGetDecisionReport(req, res);
@@ -80,13 +221,54 @@ export class APIService {
       void this.handleGetDecisionTree(req, res);
     });
 
+    // Run a sensitivity analysis on a saved decision tree
+    this.app.get("/api/decision-sensitivity", (req, res) => {
+      void this.handleGetDecisionSensitivity(req, res);
+    });
+
+    // Run a Monte Carlo simulation over a saved decision tree
+    this.app.get("/api/decision-simulation", (req, res) => {
+      void this.handleGetDecisionSimulation(req, res);
+    });
+
+    // Compare two analyses, given as session IDs or decision trees
+    this.app.post("/api/decision-diff", (req, res) => {
+      void this.handleDecisionDiff(req, res);
+    });
+
     // Get model info
     this.app.get("/api/model-info", (_req, res) => {
       res.json({
         modelId: getModelId(),
         providerType: ENV.PROVIDER_TYPE,
+        routing: getModelRouting(),
       });
     });
+
+    // Get provider failover and health status
+    this.app.get("/api/providers", (req, res) => {
+      void this.handleGetProviders(req, res);
+    });
+  }
+
+  /**
+   * 处理提供者状态请求；check=true 时先执行一次健康检查
+   * Handle provider status request; runs a health check first when check=true
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleGetProviders(req: Request, res: Response): Promise<Response> {
+    try {
+      const providers = req.query.check === "true" ? await checkProviderHealth() : getProviderStatus();
+      return res.json({ success: true, providers });
+    } catch (err: unknown) {
+      error("获取提供者状态错误:", err);
+      return res.status(500).json({
+        error: "获取提供者状态过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
   }
 
   /**
@@ -104,14 +286,17 @@ export class APIService {
         return res.status(400).json({ error: "决策问题是必需的" });
       }
 
+      const usage = new UsageTracker();
       const questions = await generateDecisionFeedback({
         problem,
         numQuestions,
+        usage,
       });
 
       return res.json({
         success: true,
         questions,
+        usage: usage.summarize(),
       });
     } catch (err: unknown) {
       error("生成反馈问题错误:", err);
@@ -123,52 +308,264 @@ export class APIService {
   }
 
   /**
-   * 处理决策分析请求
-   * Handle analyze decision request
+   * 解析并校验决策分析请求
+   * Parse and validate an analyze decision request
+   *
+   * @param {any} body - 请求体
+   * @returns {AnalyzeRequest | string} 分析参数，校验失败时返回错误信息
+   */
+  private parseAnalyzeRequest(body: any): AnalyzeRequest | string {
+    const {
+      problem,
+      depth = ENV.DECISION.DEFAULT_DEPTH,
+      breadth = ENV.DECISION.DEFAULT_BREADTH,
+      criteria,
+      stakeholders,
+      critique = ENV.DECISION.CRITIQUE,
+      followUp = [],
+      strategy = ENV.DECISION.DEFAULT_STRATEGY,
+      budget = ENV.DECISION.DEFAULT_BUDGET,
+      priority = ENV.DECISION.DEFAULT_PRIORITY,
+    } = body ?? {};
+
+    if (!problem) {
+      return "决策问题是必需的";
+    }
+
+    if (criteria !== undefined && !Array.isArray(criteria)) {
+      return "评估标准必须是数组";
+    }
+    let normalizedCriteria: DecisionCriterion[] | undefined;
+    try {
+      normalizedCriteria = criteria && normalizeCriteria(criteria);
+    } catch (err: unknown) {
+      return `评估标准无效: ${err instanceof Error ? err.message : String(err)}`;
+    }
+
+    if (stakeholders !== undefined && !(Array.isArray(stakeholders) && stakeholders.every(isStakeholderPersona))) {
+      return "利益相关者必须是包含 name 和 priorities（字符串数组）的对象数组";
+    }
+
+    if (!isCritiqueMode(critique)) {
+      return "批判审查方式必须是 off、review 或 reexpand";
+    }
+
+    if (!Number.isInteger(depth) || depth < 1 || depth > 10) {
+      return "分析深度必须是 1 到 10 之间的整数";
+    }
+
+    if (!Number.isInteger(breadth) || breadth < 1 || breadth > 10) {
+      return "分析广度必须是 1 到 10 之间的整数";
+    }
+
+    if (!Array.isArray(followUp) || !followUp.every(item => typeof item?.question === "string" && typeof item?.answer === "string")) {
+      return "跟进问答必须是包含 question 和 answer（字符串）的对象数组";
+    }
+
+    if (strategy !== "uniform" && strategy !== "best-first") {
+      return "展开策略必须是 uniform 或 best-first";
+    }
+
+    if (!Number.isInteger(budget) || budget < 1) {
+      return "展开预算必须是正整数";
+    }
+
+    if (priority !== "impact" && priority !== "uncertainty") {
+      return "节点优先级必须是 impact 或 uncertainty";
+    }
+
+    return { problem, depth, breadth, criteria: normalizedCriteria, stakeholders, critique, followUp, strategy, budget, priority };
+  }
+
+  /**
+   * 预估分析请求的规模
+   * Estimate the size of an analyze request
+   *
+   * @param {AnalyzeRequest} request - 分析参数
+   * @returns {AnalysisEstimate} 预估结果
+   */
+  private estimate({ problem, followUp, depth, breadth, criteria, stakeholders, critique, strategy, budget }: AnalyzeRequest): AnalysisEstimate {
+    return estimateDecisionAnalysis({
+      problem: formatProblemWithFollowUp(problem, followUp),
+      depth,
+      breadth,
+      criteria,
+      stakeholders,
+      critique,
+      strategy,
+      budget,
+    });
+  }
+
+  /**
+   * 处理分析预估请求：不调用模型，返回预计的调用次数、令牌数、费用与耗时
+   * Handle analysis estimate request: returns the expected calls, tokens, cost and wall time without calling a model
    *
    * @param {Request} req - 请求
    * @param {Response} res - 响应
    */
-  private async handleAnalyzeDecision(req: Request, res: Response): Promise<Response> {
+  private handleEstimateAnalysis(req: Request, res: Response): Response {
+    const request = this.parseAnalyzeRequest(req.body);
+    if (typeof request === "string") {
+      return res.status(400).json({ error: request });
+    }
+
     try {
-      const {
-        problem,
-        depth = ENV.DECISION.DEFAULT_DEPTH,
-        breadth = ENV.DECISION.DEFAULT_BREADTH,
-      } = req.body;
+      const estimate = this.estimate(request);
+      return res.json({ success: true, allowed: estimate.exceeded.length === 0, estimate });
+    } catch (err: unknown) {
+      error("分析预估错误:", err);
+      return res.status(500).json({
+        error: "预估分析规模时发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
 
-      if (!problem) {
-        return res.status(400).json({ error: "决策问题是必需的" });
-      }
+  /**
+   * 预估规模超出上限时返回 422 响应，预估失败时返回 500 响应
+   * Send a 422 response when the estimated size exceeds the ceiling, or a 500 response when the estimate fails
+   *
+   * @param {Response} res - 响应
+   * @param {AnalyzeRequest} request - 分析参数
+   * @returns {boolean} 是否已拒绝请求
+   */
+  private rejectOversizedAnalysis(res: Response, request: AnalyzeRequest): boolean {
+    let estimate: AnalysisEstimate;
+    try {
+      estimate = this.estimate(request);
+    } catch (err: unknown) {
+      error("分析预估错误:", err);
+      res.status(500).json({
+        error: "预估分析规模时发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+      return true;
+    }
+    if (estimate.exceeded.length === 0) {
+      return false;
+    }
+    res.status(422).json({ error: `分析规模超出上限: ${estimate.exceeded.join("; ")}`, estimate });
+    return true;
+  }
 
-      log("\n开始决策分析...\n");
+  /**
+   * 执行完整的决策分析流程（分析、报告、保存会话）
+   * Run the full decision analysis pipeline (analysis, report, session persistence)
+   *
+   * @param {AnalyzeRequest} request - 分析参数
+   * @param {AnalysisHooks} hooks - 流程回调与取消信号
+   * @returns {Promise<{ sessionId: string } & AnalysisJobOutput>} 会话ID、分析结果与报告
+   */
+  private async runAnalysis(
+    { problem, depth, breadth, criteria, stakeholders, critique, followUp, strategy, budget, priority }: AnalyzeRequest,
+    { signal, onSession, onStage, onProgress, onNodeExpanded, onInsights, onReportChunk }: AnalysisHooks = {},
+  ): Promise<{ sessionId: string } & AnalysisJobOutput> {
+    log("\n开始决策分析...\n");
 
-      const { decisionTree, insights } = await analyzeDecision({
-        problem,
-        depth,
-        breadth,
-      });
+    // 创建决策会话
+    const repository = getSessionRepository();
+    const session = await repository.create({
+      problem,
+      followUp,
+      parameters: { depth, breadth, criteria, stakeholders, critique, strategy, budget, priority },
+      modelId: getModelId(),
+    });
+    onSession?.(session.id);
+    const combinedProblem = formatProblemWithFollowUp(problem, followUp);
 
-      // 生成并保存决策树JSON
-      const decisionTreeJson = decisionTreeToJson(decisionTree);
-      await fs.writeFile("decision-tree.json", decisionTreeJson, "utf-8");
+    onStage?.("analyzing");
+    const usage = new UsageTracker();
+    const result = await analyzeDecision({
+      problem: combinedProblem,
+      depth,
+      breadth,
+      criteria,
+      stakeholders,
+      critique,
+      onProgress,
+      signal,
+      onNodeExpanded,
+      onInsights,
+      strategy,
+      budget,
+      priority,
+      usage,
+    });
+    const { decisionTree, insights } = result;
 
-      // 生成决策报告
-      const report = await generateDecisionReport({
-        problem,
-        decisionTree,
-        insights,
-      });
+    // 保存分析结果
+    await repository.update(session.id, {
+      parameters: { depth, breadth, criteria: result.criteria, stakeholders: result.stakeholders?.stakeholders, critique, strategy, budget, priority },
+      result,
+    });
+
+    // 生成决策报告
+    onStage?.("reporting");
+    const structuredReport = await generateDecisionReport({
+      problem: combinedProblem,
+      decisionTree,
+      insights,
+      criteria: result.criteria,
+      stakeholders: result.stakeholders,
+      critique: result.critique,
+      signal,
+      onReportChunk,
+      usage,
+    });
+    const report = renderReport(structuredReport, "markdown");
+
+    // 保存决策报告及包含报告调用的用量
+    result.usage = usage.summarize();
+    await repository.update(session.id, { report, structuredReport, result });
+
+    return { sessionId: session.id, result, report };
+  }
+
+  /**
+   * 处理决策分析请求：默认提交异步任务并立即返回任务ID，wait 为 true 时同步等待结果
+   * Handle analyze decision request: submits an asynchronous job and returns its ID immediately by default,
+   * or waits for the result synchronously when wait is true
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleAnalyzeDecision(req: Request, res: Response): Promise<Response> {
+    const request = this.parseAnalyzeRequest(req.body);
+    if (typeof request === "string") {
+      return res.status(400).json({ error: request });
+    }
+    if (this.rejectOversizedAnalysis(res, request)) {
+      return res;
+    }
+
+    if (req.body.wait !== true) {
+      const job = submitAnalysisJob(({ signal, update }) => this.runAnalysis(request, {
+        signal,
+        onSession: sessionId => update({ sessionId }),
+        onStage: stage => update({ stage }),
+        onProgress: progress => update({ progress }),
+      }));
+      return res.status(202).json({ success: true, jobId: job.id, status: job.status });
+    }
+
+    // 客户端断开连接时取消分析
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
 
-      // 保存决策报告
-      await fs.writeFile("decision-report.md", report, "utf-8");
+    try {
+      const { sessionId, result, report } = await this.runAnalysis(request, { signal: controller.signal });
 
       // 返回结果
       return res.json({
         success: true,
+        sessionId,
         report,
-        insights,
-        decisionTree,
+        ...result,
       });
     } catch (err: unknown) {
       error("决策分析API错误:", err);
@@ -180,37 +577,679 @@ export class APIService {
   }
 
   /**
-   * 处理获取决策报告请求
-   * Handle get decision report request
+   * 发送一个SSE事件
+   * Send a Server-Sent Event
    *
-   * @param {Request} _req - 请求
    * @param {Response} res - 响应
+   * @param {string} event - 事件名称
+   * @param {unknown} data - 事件数据
    */
-  private async handleGetDecisionReport(_req: Request, res: Response): Promise<Response> {
+  private sendEvent(res: Response, event: string, data: unknown): void {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  }
+
+  /**
+   * 处理流式决策分析请求，以SSE推送进度、展开的节点、见解和报告文本
+   * Handle streaming analyze decision request, pushing progress, expanded nodes, insights and report text as SSE
+   *
+   * 事件 / Events: session, stage, progress, node, insights, report-chunk, result, error
+   *
+   * report-chunk 的 field 为章节对应的报告字段，选项小节另带 index，写完即推送；其余章节按报告顺序推送
+   * report-chunk carries the report field of the section, and option subsections also an index; they are sent as soon
+   * as they are written, the other sections in report order
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleAnalyzeDecisionStream(req: Request, res: Response): Promise<void> {
+    const request = this.parseAnalyzeRequest(req.body);
+    if (typeof request === "string") {
+      res.status(400).json({ error: request });
+      return;
+    }
+    if (this.rejectOversizedAnalysis(res, request)) {
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    });
+    res.flushHeaders();
+
+    // 客户端断开连接时取消分析
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
     try {
-      const report = await fs.readFile("decision-report.md", "utf-8");
-      return res.json({ success: true, report });
-    } catch {
-      return res.status(404).json({ error: "决策报告未找到" });
+      const { sessionId, result, report } = await this.runAnalysis(request, {
+        signal: controller.signal,
+        onSession: id => this.sendEvent(res, "session", { sessionId: id }),
+        onStage: stage => this.sendEvent(res, "stage", { stage }),
+        onProgress: progress => this.sendEvent(res, "progress", progress),
+        onNodeExpanded: node => this.sendEvent(res, "node", node),
+        onInsights: insights => this.sendEvent(res, "insights", { insights }),
+        onReportChunk: ({ field, index, markdown }) => this.sendEvent(res, "report-chunk", { field, index, text: markdown }),
+      });
+      this.sendEvent(res, "result", { sessionId, report, ...result });
+    } catch (err: unknown) {
+      if (!controller.signal.aborted) {
+        error("流式决策分析API错误:", err);
+        this.sendEvent(res, "error", {
+          error: "决策分析过程中发生错误",
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    } finally {
+      res.end();
     }
   }
 
   /**
-   * 处理获取决策树请求
-   * Handle get decision tree request
+   * 处理获取任务请求
+   * Handle get job request
    *
-   * @param {Request} _req - 请求
+   * @param {Request} req - 请求
    * @param {Response} res - 响应
    */
-  private async handleGetDecisionTree(_req: Request, res: Response): Promise<Response> {
+  private handleGetJob(req: Request, res: Response): Response {
+    const job = getAnalysisJob(String(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: "任务未找到" });
+    }
+    return res.json({ success: true, job });
+  }
+
+  /**
+   * 处理取消任务请求
+   * Handle cancel job request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private handleCancelJob(req: Request, res: Response): Response {
+    const job = cancelAnalysisJob(String(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: "任务未找到" });
+    }
+    if (job.status !== "cancelled") {
+      return res.status(409).json({ error: "任务已结束，无法取消", status: job.status });
+    }
+    return res.json({ success: true, jobId: job.id, status: job.status });
+  }
+
+  /**
+   * 读取查询参数 sessionId，未指定时返回 null
+   * Read the sessionId query parameter, returning null when omitted
+   *
+   * @param {Request} req - 请求
+   * @returns {string | null} 会话ID
+   */
+  private getQuerySessionId(req: Request): string | null {
+    const { sessionId } = req.query;
+    return typeof sessionId === "string" && sessionId ? sessionId : null;
+  }
+
+  /**
+   * 处理会话列表请求
+   * Handle list sessions request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleListSessions(req: Request, res: Response): Promise<Response> {
     try {
-      const decisionTree = await fs.readFile("decision-tree.json", "utf-8");
-      return res.json({ success: true, decisionTree: JSON.parse(decisionTree) });
-    } catch {
-      return res.status(404).json({ error: "决策树未找到" });
+      const limit = Number(req.query.limit) || 50;
+      const offset = Number(req.query.offset) || 0;
+      const sessions = await getSessionRepository().list({ limit, offset });
+      return res.json({ success: true, sessions });
+    } catch (err: unknown) {
+      error("获取会话列表错误:", err);
+      return res.status(500).json({
+        error: "获取会话列表过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
     }
   }
 
+  /**
+   * 处理获取会话请求
+   * Handle get session request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleGetSession(req: Request, res: Response): Promise<Response> {
+    try {
+      const session = await getSessionRepository().get(String(req.params.id));
+      if (!session) {
+        return res.status(404).json({ error: "会话未找到" });
+      }
+      return res.json({ success: true, session });
+    } catch (err: unknown) {
+      error("获取会话错误:", err);
+      return res.status(500).json({
+        error: "获取会话过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 从请求体中提取可编辑的节点字段
+   * Pick the editable node fields from a request body
+   *
+   * @param {any} body - 请求体
+   * @returns {DecisionNodeEdit} 节点字段
+   */
+  private parseNodeEdit(body: any): DecisionNodeEdit {
+    const { description, type, risk, opportunity, probability, scores } = body ?? {};
+    return { description, type, risk, opportunity, probability, scores };
+  }
+
+  /**
+   * 返回决策树修改后的结果，并附带概率校验问题
+   * Respond with the result of a decision tree change, including probability issues
+   *
+   * @param {Response} res - 响应
+   * @param {string} sessionId - 会话ID
+   * @param {DecisionResult} result - 更新后的分析结果
+   * @param {object} extra - 额外的响应字段
+   */
+  private sendTreeResult(res: Response, sessionId: string, result: DecisionResult, extra: object = {}): Response {
+    return res.json({
+      success: true,
+      sessionId,
+      ...extra,
+      ...result,
+      probabilityIssues: validateProbabilities(result.decisionTree, ENV.DECISION.PROBABILITY_TOLERANCE),
+    });
+  }
+
+  /**
+   * 处理决策树修改错误：会话、节点或假设不存在返回404，无效操作返回400
+   * Handle decision tree change errors: 404 for missing sessions, nodes or assumptions, 400 for invalid operations
+   *
+   * @param {Response} res - 响应
+   * @param {unknown} err - 错误
+   */
+  private sendTreeError(res: Response, err: unknown): Response {
+    if (err instanceof SessionNotFoundError) {
+      return res.status(404).json({ error: "会话未找到", message: err.message });
+    }
+    if (err instanceof NodeNotFoundError) {
+      return res.status(404).json({ error: "节点未找到", message: err.message });
+    }
+    if (err instanceof AssumptionNotFoundError) {
+      return res.status(404).json({ error: "假设未找到", message: err.message });
+    }
+    if (err instanceof InvalidTreeOperationError) {
+      return res.status(400).json({ error: "无效的决策树操作", message: err.message });
+    }
+    if (err instanceof AnalysisTooLargeError) {
+      return res.status(422).json({ error: `分析规模超出上限: ${err.estimate.exceeded.join("; ")}`, estimate: err.estimate });
+    }
+    error("修改决策树错误:", err);
+    return res.status(500).json({
+      error: "修改决策树过程中发生错误",
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  /**
+   * 创建随客户端断开而中止的取消信号
+   * Create a cancellation signal that aborts when the client disconnects
+   *
+   * @param {Response} res - 响应
+   * @returns {AbortSignal} 取消信号
+   */
+  private abortOnClose(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+    return controller.signal;
+  }
+
+  /**
+   * 处理添加节点请求
+   * Handle add node request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleAddNode(req: Request, res: Response): Promise<Response> {
+    const sessionId = String(req.params.id);
+    const { parentId } = req.body ?? {};
+    if (!parentId) {
+      return res.status(400).json({ error: "父节点ID是必需的" });
+    }
+
+    try {
+      const { node, result } = await addNode({ sessionId, parentId: String(parentId), node: this.parseNodeEdit(req.body) });
+      return this.sendTreeResult(res, sessionId, result, { nodeId: node.id });
+    } catch (err: unknown) {
+      return this.sendTreeError(res, err);
+    }
+  }
+
+  /**
+   * 处理编辑节点请求
+   * Handle update node request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleUpdateNode(req: Request, res: Response): Promise<Response> {
+    const sessionId = String(req.params.id);
+    try {
+      const result = await updateNode({
+        sessionId,
+        nodeId: String(req.params.nodeId),
+        changes: this.parseNodeEdit(req.body),
+      });
+      return this.sendTreeResult(res, sessionId, result);
+    } catch (err: unknown) {
+      return this.sendTreeError(res, err);
+    }
+  }
+
+  /**
+   * 处理删除子树请求
+   * Handle prune node request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handlePruneNode(req: Request, res: Response): Promise<Response> {
+    const sessionId = String(req.params.id);
+    try {
+      const result = await pruneNode({ sessionId, nodeId: String(req.params.nodeId) });
+      return this.sendTreeResult(res, sessionId, result);
+    } catch (err: unknown) {
+      return this.sendTreeError(res, err);
+    }
+  }
+
+  /**
+   * 处理继续展开节点请求
+   * Handle expand node request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleExpandNode(req: Request, res: Response): Promise<Response> {
+    const sessionId = String(req.params.id);
+    const { levels = 1, breadth } = req.body ?? {};
+    if (!Number.isInteger(levels) || levels < 1 || levels > 10) {
+      return res.status(400).json({ error: "展开层数必须是 1 到 10 之间的整数" });
+    }
+    if (breadth !== undefined && (!Number.isInteger(breadth) || breadth < 1 || breadth > 10)) {
+      return res.status(400).json({ error: "分析广度必须是 1 到 10 之间的整数" });
+    }
+
+    try {
+      const result = await expandNode({
+        sessionId,
+        nodeId: String(req.params.nodeId),
+        levels,
+        breadth,
+        signal: this.abortOnClose(res),
+      });
+      return this.sendTreeResult(res, sessionId, result);
+    } catch (err: unknown) {
+      return this.sendTreeError(res, err);
+    }
+  }
+
+  /**
+   * 处理重新生成子节点请求
+   * Handle regenerate node request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleRegenerateNode(req: Request, res: Response): Promise<Response> {
+    const sessionId = String(req.params.id);
+    const { hint, breadth } = req.body ?? {};
+    if (hint !== undefined && typeof hint !== "string") {
+      return res.status(400).json({ error: "提示必须是字符串" });
+    }
+    if (breadth !== undefined && (!Number.isInteger(breadth) || breadth < 1 || breadth > 10)) {
+      return res.status(400).json({ error: "分析广度必须是 1 到 10 之间的整数" });
+    }
+
+    try {
+      const result = await regenerateNode({
+        sessionId,
+        nodeId: String(req.params.nodeId),
+        hint,
+        breadth,
+        signal: this.abortOnClose(res),
+      });
+      return this.sendTreeResult(res, sessionId, result);
+    } catch (err: unknown) {
+      return this.sendTreeError(res, err);
+    }
+  }
+
+  /**
+   * 处理校验决策树请求：只报告概率问题，不修改已保存的决策树
+   * Handle validate decision tree request: report probability issues without changing the saved tree
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleValidateDecisionTree(req: Request, res: Response): Promise<Response> {
+    try {
+      const session = await getSessionRepository().get(String(req.params.id));
+      if (!session?.result) {
+        return res.status(404).json({ error: "决策树未找到" });
+      }
+      const issues = await validateDecisionTree(session.result.decisionTree, { repair: "none" });
+      return res.json({ success: true, sessionId: session.id, valid: issues.length === 0, issues });
+    } catch (err: unknown) {
+      error("校验决策树错误:", err);
+      return res.status(500).json({
+        error: "校验决策树过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 处理获取假设登记表请求
+   * Handle get assumptions register request
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleGetAssumptions(req: Request, res: Response): Promise<Response> {
+    try {
+      const session = await getSessionRepository().get(String(req.params.id));
+      if (!session?.result) {
+        return res.status(404).json({ error: "决策树未找到" });
+      }
+      return res.json({ success: true, sessionId: session.id, assumptions: getAssumptionRegister(session.result.decisionTree) });
+    } catch (err: unknown) {
+      error("获取假设登记表错误:", err);
+      return res.status(500).json({
+        error: "获取假设登记表过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 处理设置假设状态请求：status 为 false 时标记依赖该假设的子树，为 open 时取消标记
+   * Handle set assumption status request: status false flags the subtrees depending on the assumption, open clears the flags
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleSetAssumptionStatus(req: Request, res: Response): Promise<Response> {
+    const sessionId = String(req.params.id);
+    const { status } = req.body ?? {};
+    if (status !== "open" && status !== "false") {
+      return res.status(400).json({ error: "假设状态必须是 open 或 false" });
+    }
+
+    try {
+      const result = await setAssumptionStatus({ sessionId, assumptionId: String(req.params.assumptionId), status });
+      return this.sendTreeResult(res, sessionId, result, { assumptions: getAssumptionRegister(result.decisionTree) });
+    } catch (err: unknown) {
+      return this.sendTreeError(res, err);
+    }
+  }
+
+  /**
+   * 处理获取决策报告请求；format 为 markdown 或 html 时直接返回渲染后的文档，为 json 时返回结构化报告
+   * Handle get decision report request; with format=markdown or html the rendered document is returned as is,
+   * with format=json the structured report
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleGetDecisionReport(req: Request, res: Response): Promise<Response> {
+    const { format } = req.query;
+    if (format !== undefined && !isReportFormat(format)) {
+      return res.status(400).json({ error: `格式必须是 ${REPORT_FORMATS.join("、")} 之一` });
+    }
+
+    const sessionId = this.getQuerySessionId(req);
+    if (!sessionId) {
+      return res.status(400).json({ error: "会话ID是必需的" });
+    }
+
+    try {
+      const session = await getSessionRepository().get(sessionId);
+      if (!session?.report) {
+        return res.status(404).json({ error: "决策报告未找到" });
+      }
+      if (format === undefined) {
+        return res.json({ success: true, sessionId: session.id, report: session.report });
+      }
+
+      // 早期的会话只保存了 Markdown 报告
+      const { structuredReport } = session;
+      if (!structuredReport) {
+        return format === "markdown"
+          ? res.type("text/markdown").send(session.report)
+          : res.status(404).json({ error: "该会话没有结构化报告，只能以 markdown 格式获取" });
+      }
+      switch (format) {
+        case "html":
+          return res.type("text/html").send(renderReport(structuredReport, "html"));
+        case "json":
+          return res.json({ success: true, sessionId: session.id, report: structuredReport });
+        default:
+          return res.type("text/markdown").send(renderReport(structuredReport, "markdown"));
+      }
+    } catch (err: unknown) {
+      error("获取决策报告错误:", err);
+      return res.status(500).json({
+        error: "获取决策报告过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 处理获取决策树请求，format 为 mermaid、dot 或 plantuml 时以纯文本返回图表源码
+   * Handle get decision tree request; when format is mermaid, dot or plantuml the diagram source is returned as plain text
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleGetDecisionTree(req: Request, res: Response): Promise<Response> {
+    const { format = "json" } = req.query;
+    if (format !== "json" && !isDiagramFormat(format)) {
+      return res.status(400).json({ error: `格式必须是 json、${DIAGRAM_FORMATS.join("、")} 之一` });
+    }
+
+    const sessionId = this.getQuerySessionId(req);
+    if (!sessionId) {
+      return res.status(400).json({ error: "会话ID是必需的" });
+    }
+
+    try {
+      const session = await getSessionRepository().get(sessionId);
+      if (!session?.result) {
+        return res.status(404).json({ error: "决策树未找到" });
+      }
+      if (isDiagramFormat(format)) {
+        return res.type("text/plain").send(exportDecisionTree(session.result.decisionTree, format));
+      }
+      return res.json({ success: true, sessionId: session.id, decisionTree: session.result.decisionTree });
+    } catch (err: unknown) {
+      error("获取决策树错误:", err);
+      return res.status(500).json({
+        error: "获取决策树过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 处理敏感性分析请求：对会话的决策树按查询参数 spread 和 steps 进行分析
+   * Handle sensitivity analysis request: analyze a session's decision tree with the spread and steps query parameters
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleGetDecisionSensitivity(req: Request, res: Response): Promise<Response> {
+    const spread = req.query.spread === undefined ? undefined : Number(req.query.spread);
+    const steps = req.query.steps === undefined ? undefined : Number(req.query.steps);
+    if (spread !== undefined && !(spread > 0 && spread <= 1)) {
+      return res.status(400).json({ error: "spread 必须是 0 到 1 之间的数字" });
+    }
+    if (steps !== undefined && !(Number.isInteger(steps) && steps >= 1 && steps <= 1000)) {
+      return res.status(400).json({ error: "steps 必须是 1 到 1000 之间的整数" });
+    }
+
+    const sessionId = this.getQuerySessionId(req);
+    if (!sessionId) {
+      return res.status(400).json({ error: "会话ID是必需的" });
+    }
+
+    try {
+      const session = await getSessionRepository().get(sessionId);
+      if (!session?.result) {
+        return res.status(404).json({ error: "决策树未找到" });
+      }
+      const sensitivity = analyzeDecisionSensitivity({
+        decisionTree: session.result.decisionTree,
+        criteria: session.result.criteria,
+        spread,
+        steps,
+      });
+      return res.json({ success: true, sessionId: session.id, sensitivity });
+    } catch (err: unknown) {
+      error("敏感性分析错误:", err);
+      return res.status(500).json({
+        error: "敏感性分析过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 处理蒙特卡洛模拟请求：对会话的决策树按查询参数 iterations 和 seed 进行模拟
+   * Handle Monte Carlo simulation request: simulate a session's decision tree with the iterations and seed query parameters
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleGetDecisionSimulation(req: Request, res: Response): Promise<Response> {
+    const iterations = req.query.iterations === undefined ? undefined : Number(req.query.iterations);
+    if (iterations !== undefined && !(Number.isInteger(iterations) && iterations >= 1 && iterations <= 100_000)) {
+      return res.status(400).json({ error: "iterations 必须是 1 到 100000 之间的整数" });
+    }
+    // 数字种子与 SIMULATION_SEED 一致，其他字符串会被散列
+    const { seed } = req.query;
+    if (seed !== undefined && (typeof seed !== "string" || !seed)) {
+      return res.status(400).json({ error: "seed 必须是非空字符串或数字" });
+    }
+
+    const sessionId = this.getQuerySessionId(req);
+    if (!sessionId) {
+      return res.status(400).json({ error: "会话ID是必需的" });
+    }
+
+    try {
+      const session = await getSessionRepository().get(sessionId);
+      if (!session?.result) {
+        return res.status(404).json({ error: "决策树未找到" });
+      }
+      const simulation = simulateDecision({
+        decisionTree: session.result.decisionTree,
+        criteria: session.result.criteria,
+        iterations,
+        seed: seed === undefined ? undefined : /^\d+$/.test(seed) ? Number(seed) : seed,
+      });
+      return res.json({ success: true, sessionId: session.id, simulation });
+    } catch (err: unknown) {
+      error("蒙特卡洛模拟错误:", err);
+      return res.status(500).json({
+        error: "蒙特卡洛模拟过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 解析参与比较的一方：会话ID（{ sessionId }）或直接提供的决策树（{ decisionTree, insights }）
+   * Resolve one side of a comparison: a session ID ({ sessionId }) or an inline decision tree ({ decisionTree, insights })
+   *
+   * @param {unknown} ref - 请求中的引用
+   * @returns {Promise<AnalysisSnapshot | null | undefined>} 分析结果；会话或其决策树不存在时为 null，引用无效时为 undefined
+   */
+  private async resolveSnapshot(ref: unknown): Promise<AnalysisSnapshot | null | undefined> {
+    if (typeof ref !== "object" || ref === null) {
+      return undefined;
+    }
+    const { sessionId, decisionTree, insights } = ref as Record<string, unknown>;
+    if (typeof sessionId === "string" && sessionId) {
+      const session = await getSessionRepository().get(sessionId);
+      return session?.result ?? null;
+    }
+    if (typeof decisionTree === "object" && decisionTree !== null && Array.isArray((decisionTree as DecisionNode).children)) {
+      return {
+        decisionTree: decisionTree as DecisionNode,
+        ...(Array.isArray(insights) && { insights: insights.filter((insight): insight is string => typeof insight === "string") }),
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * 处理比较两次分析的请求，返回结构化差异和 Markdown
+   * Handle a request comparing two analyses, returning the structured diff and its Markdown
+   *
+   * @param {Request} req - 请求
+   * @param {Response} res - 响应
+   */
+  private async handleDecisionDiff(req: Request, res: Response): Promise<Response> {
+    try {
+      const { before: beforeRef, after: afterRef } = req.body ?? {};
+      const [before, after] = await Promise.all([this.resolveSnapshot(beforeRef), this.resolveSnapshot(afterRef)]);
+      if (before === undefined || after === undefined) {
+        return res.status(400).json({ error: "before 和 after 必须是 { sessionId } 或 { decisionTree, insights }" });
+      }
+      if (before === null || after === null) {
+        return res.status(404).json({ error: "决策树未找到" });
+      }
+
+      const diff = compareDecisions({ before, after });
+      return res.json({ success: true, diff, markdown: formatDecisionDiff(diff) });
+    } catch (err: unknown) {
+      error("比较决策分析错误:", err);
+      return res.status(500).json({
+        error: "比较决策分析过程中发生错误",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 获取Express应用（用于测试或挂载到其他服务器）
+   * Get the Express application (for tests or mounting into another server)
+   *
+   * @returns {express.Express} Express应用
+   */
+  public getApp(): express.Express {
+    return this.app;
+  }
+
   /**
    * 启动API服务
    * Start API server
@@ -233,3 +1272,13 @@ const apiService = APIService.getInstance();
 export function startAPI(): void {
   apiService.start();
 }
+
+/**
+ * 获取API服务的Express应用
+ * Get the Express application of the API service
+ *
+ * @returns {express.Express} Express应用
+ */
+export function getAPIApp(): express.Express {
+  return apiService.getApp();
+}
@@ -1,15 +1,29 @@
-import type { DecisionProgress } from "../types/decision";
-import * as fs from "node:fs/promises";
+import type { DecisionCriterion, DecisionNode, DecisionProgress, DecisionResult, ExpansionStrategy } from "../types/decision";
+import type { AnalysisSnapshot } from "../types/diff";
+import type { FollowUpAnswer } from "../types/session";
+import type { StakeholderPersona } from "../types/stakeholder";
+import type { AnalysisEstimate, UsageSummary } from "../types/usage";
+import fs from "node:fs/promises";
 import process from "node:process";
 import * as readline from "node:readline";
 import { ENV } from "../config/env";
-import { getModelId } from "../providers";
+import { formatProblemWithFollowUp } from "../config/prompts";
+import { DEFAULT_PROFILE, getModelId, getModelRouting } from "../providers";
+import { getSessionRepository } from "../storage";
+import { isCritiqueMode } from "../utils/decision/critique";
+import { formatDecisionDiff } from "../utils/decision/diff";
+import { findNodePath, formatNodePath } from "../utils/decision/tree";
+import { UsageTracker } from "../utils/llm/usage";
 import { info, log } from "../utils/logger";
+import { getReportLabels, renderReport } from "../utils/report";
 import {
   analyzeDecision,
-  decisionTreeToJson,
+  compareDecisions,
+  estimateDecisionAnalysis,
   generateDecisionFeedback,
   generateDecisionReport,
+  getAssumptionRegister,
+  validateDecisionTree,
 } from "./decision-service";
 
 /**
@@ -60,6 +74,158 @@ export class CLIService {
     });
   }
 
+  /**
+   * 解析评估标准输入
+   * Parse evaluation criteria input
+   *
+   * @param {string} input - 用户输入，例如 "成本:3:lower, 上市时间:2"
+   * @returns {DecisionCriterion[]} 评估标准
+   */
+  private parseCriteria(input: string): DecisionCriterion[] {
+    return input
+      .split(/[,，]/)
+      .map(item => item.trim())
+      .filter(Boolean)
+      .map((item) => {
+        const [name = "", weight, direction] = item.split(/[:：]/).map(part => part.trim());
+        return {
+          name,
+          weight: Number(weight) || 1,
+          direction: direction === "lower" ? "lower-is-better" : "higher-is-better",
+        };
+      });
+  }
+
+  /**
+   * 解析利益相关者输入
+   * Parse stakeholder input
+   *
+   * @param {string} input - 用户输入，例如 "财务总监:成本,现金流; 客户:价格"
+   * @returns {StakeholderPersona[]} 利益相关者角色
+   */
+  private parseStakeholders(input: string): StakeholderPersona[] {
+    return input
+      .split(/[;；]/)
+      .map(item => item.trim())
+      .filter(Boolean)
+      .map((item) => {
+        const [name = "", priorities = ""] = item.split(/[:：](.*)/).map(part => part.trim());
+        return { name, priorities: priorities.split(/[,，]/).map(priority => priority.trim()).filter(Boolean) };
+      });
+  }
+
+  /**
+   * 打印分析规模预估
+   * Print the analysis size estimate
+   *
+   * @param {AnalysisEstimate} estimate - 预估结果
+   */
+  private printEstimate(estimate: AnalysisEstimate): void {
+    const cost = estimate.cost !== undefined ? ` | 费用约 ${estimate.cost.toFixed(4)}` : "";
+    log(`\n预计规模: ${estimate.calls} 次LLM调用 | 约 ${estimate.totalTokens} 个令牌（输入 ${estimate.promptTokens}，输出 ${estimate.completionTokens}）${cost} | 耗时约 ${Math.ceil(estimate.wallTimeMs / 1000)}s | 最多 ${estimate.nodes} 个节点`);
+  }
+
+  /**
+   * 打印令牌用量与费用汇总
+   * Print the token usage and cost summary
+   *
+   * @param {UsageSummary} usage - 用量汇总
+   */
+  private printUsage(usage: UsageSummary): void {
+    const format = (totals: UsageSummary["byStage"][string]) => {
+      const reasoning = totals.reasoningTokens > 0 ? `（推理 ${totals.reasoningTokens}）` : "";
+      const cost = totals.cost !== undefined ? ` | 费用 ${totals.cost.toFixed(4)}` : "";
+      return `${totals.calls} 次调用 | 输入 ${totals.promptTokens} | 输出 ${totals.completionTokens}${reasoning} | 耗时 ${(totals.latencyMs / 1000).toFixed(1)}s${cost}`;
+    };
+
+    log("\n令牌用量:\n");
+    log(`总计: ${format(usage)}`);
+    Object.entries(usage.byStage).forEach(([stage, totals]) => log(`- ${stage}: ${format(totals)}`));
+    if (Object.keys(usage.byModel).length > 1) {
+      Object.entries(usage.byModel).forEach(([modelId, totals]) => log(`- ${modelId}: ${format(totals)}`));
+    }
+    if (usage.unpricedModels) {
+      log(`价格表中没有以下模型的价格: ${usage.unpricedModels.join(", ")}`);
+    }
+  }
+
+  /**
+   * 加载参与比较的分析：JSON文件（会话、分析结果或决策树）或会话ID
+   * Load an analysis to compare: a JSON file (session, analysis result or decision tree) or a session ID
+   *
+   * @param {string} ref - 文件路径或会话ID
+   * @returns {Promise<AnalysisSnapshot>} 分析结果
+   */
+  private async loadSnapshot(ref: string): Promise<AnalysisSnapshot> {
+    const content = await fs.readFile(ref, "utf-8").catch(() => null);
+    if (content === null) {
+      const session = await getSessionRepository().get(ref);
+      if (!session?.result) {
+        throw new Error(`未找到文件或包含决策树的会话: ${ref}`);
+      }
+      return session.result;
+    }
+
+    const data = JSON.parse(content) as { result?: DecisionResult } & Partial<DecisionResult> & Partial<DecisionNode>;
+    if (data.result) {
+      return data.result;
+    }
+    if (data.decisionTree) {
+      return { decisionTree: data.decisionTree, insights: data.insights };
+    }
+    if (Array.isArray(data.children)) {
+      return { decisionTree: data as DecisionNode };
+    }
+    throw new Error(`文件中没有决策树: ${ref}`);
+  }
+
+  /**
+   * 比较两次分析并打印 Markdown 格式的差异
+   * Compare two analyses and print the differences as Markdown
+   *
+   * @param {string} beforeRef - 旧分析的文件路径或会话ID
+   * @param {string} afterRef - 新分析的文件路径或会话ID
+   */
+  public async diff(beforeRef: string, afterRef: string): Promise<void> {
+    try {
+      const [before, after] = await Promise.all([this.loadSnapshot(beforeRef), this.loadSnapshot(afterRef)]);
+      log(formatDecisionDiff(compareDecisions({ before, after })));
+    } catch (error) {
+      log("比较过程中出现错误:", error);
+    } finally {
+      this.close();
+    }
+  }
+
+  /**
+   * 校验分析中决策树的概率并打印发现的问题，不修改决策树
+   * Check the probabilities of an analysis' decision tree and print the issues found, without changing the tree
+   *
+   * @param {string} ref - 文件路径或会话ID
+   * @returns {Promise<boolean>} 是否未发现问题
+   */
+  public async validate(ref: string): Promise<boolean> {
+    try {
+      const { decisionTree } = await this.loadSnapshot(ref);
+      const issues = await validateDecisionTree(decisionTree, { repair: "none" });
+      if (issues.length === 0) {
+        log("决策树概率校验通过");
+        return true;
+      }
+      log(`发现 ${issues.length} 个概率问题:`);
+      issues.forEach((issue) => {
+        const path = findNodePath(decisionTree, issue.nodeId);
+        log(`- ${path ? formatNodePath(path) : issue.nodeId} [${issue.kind}]: ${issue.message}`);
+      });
+      return false;
+    } catch (error) {
+      log("校验过程中出现错误:", error);
+      return false;
+    } finally {
+      this.close();
+    }
+  }
+
   /**
    * 关闭CLI界面
    * Close CLI interface
@@ -75,6 +241,9 @@ export class CLIService {
   public async run(): Promise<void> {
     try {
       log("使用模型: ", getModelId());
+      getModelRouting()
+        .filter(route => route.profile !== DEFAULT_PROFILE)
+        .forEach(route => log(`  ${route.stage}: ${route.modelId}（${route.profile}）`));
 
       // 获取决策问题
       const initialProblem = await this.askQuestion("请输入需要分析的复杂决策问题: ");
@@ -96,29 +265,83 @@ export class CLIService {
           10,
         ) || ENV.DECISION.DEFAULT_DEPTH;
 
-      let combinedProblem = initialProblem;
+      // 获取展开策略
+      const strategyInput = (await this.askQuestion(
+        `请输入展开策略（uniform 均匀展开 / best-first 按优先级展开，默认 ${ENV.DECISION.DEFAULT_STRATEGY}）: `,
+      )).trim();
+      const strategy: ExpansionStrategy = strategyInput === "uniform" || strategyInput === "best-first"
+        ? strategyInput
+        : ENV.DECISION.DEFAULT_STRATEGY;
+
+      const budget = strategy === "best-first"
+        ? Number.parseInt(
+          await this.askQuestion(
+            `请输入节点展开预算（LLM调用次数，默认 ${ENV.DECISION.DEFAULT_BUDGET}）: `,
+          ),
+          10,
+        ) || ENV.DECISION.DEFAULT_BUDGET
+        : undefined;
+
+      // 获取评估标准（可选）
+      const criteria = this.parseCriteria(
+        await this.askQuestion("请输入评估标准（格式 名称:权重[:lower]，逗号分隔，留空跳过）: "),
+      );
+
+      // 获取利益相关者角色（可选）
+      const stakeholders = this.parseStakeholders(
+        await this.askQuestion("请输入利益相关者（格式 名称:优先事项,优先事项，分号分隔，留空跳过）: "),
+      );
+
+      // 获取批判审查方式
+      const critiqueInput = (await this.askQuestion(
+        `请输入批判审查方式（off 不审查 / review 只审查 / reexpand 审查并重新展开，默认 ${ENV.DECISION.CRITIQUE}）: `,
+      )).trim();
+      const critique = isCritiqueMode(critiqueInput) ? critiqueInput : ENV.DECISION.CRITIQUE;
 
       // 生成跟进问题以获取更多信息
+      // 记录整个分析流程（跟进问题、分析和报告）的令牌用量
+      const usage = new UsageTracker();
+
       log("\n为了更好地理解您的决策需求，我们将提出一些跟进问题...");
       const followUpQuestions = await generateDecisionFeedback({
         problem: initialProblem,
         numQuestions: ENV.DECISION.DEFAULT_QUESTIONS,
+        usage,
       });
 
       // 收集跟进问题的答案
-      const answers: string[] = [];
+      const followUp: FollowUpAnswer[] = [];
       for (const question of followUpQuestions) {
         const answer = await this.askQuestion(`\n${question}\n您的回答: `);
-        answers.push(answer);
+        followUp.push({ question, answer });
       }
 
       // 合并所有信息用于决策分析
-      combinedProblem = `
-初始决策问题: ${initialProblem}
+      const combinedProblem = formatProblemWithFollowUp(initialProblem, followUp);
+
+      // 运行前预估规模，超出上限时拒绝运行，否则请用户确认
+      const estimate = estimateDecisionAnalysis({ problem: combinedProblem, depth, breadth, criteria, stakeholders, critique, strategy, budget });
+      this.printEstimate(estimate);
+      if (estimate.exceeded.length > 0) {
+        log(`分析规模超出上限，已取消: ${estimate.exceeded.join("; ")}`);
+        this.close();
+        return;
+      }
+      const confirm = (await this.askQuestion("是否继续？(Y/n): ")).trim().toLowerCase();
+      if (confirm === "n" || confirm === "no" || confirm === "否") {
+        log("已取消分析");
+        this.close();
+        return;
+      }
 
-跟进问题和回答:
-${followUpQuestions.map((q: string, i: number) => `问: ${q}\n答: ${answers[i]}`).join("\n\n")}
-`;
+      // 创建决策会话
+      const repository = getSessionRepository();
+      const session = await repository.create({
+        problem: initialProblem,
+        followUp,
+        parameters: { depth, breadth, criteria, stakeholders, critique, strategy, budget },
+        modelId: getModelId(),
+      });
 
       log("\n开始决策分析...\n");
 
@@ -133,17 +356,52 @@ ${followUpQuestions.map((q: string, i: number) => `问: ${q}\n答: ${answers[i]}
       };
 
       // 执行决策分析
-      const { decisionTree, insights } = await analyzeDecision({
+      const result = await analyzeDecision({
         problem: combinedProblem,
         depth,
         breadth,
         onProgress,
+        criteria,
+        stakeholders,
+        critique,
+        strategy,
+        budget,
+        usage,
       });
+      const { decisionTree, insights, expectedValue, optimalPath, criteriaBreakdown } = result;
 
-      // 保存决策树JSON
-      const decisionTreeJson = decisionTreeToJson(decisionTree);
-      await fs.writeFile("decision-tree.json", decisionTreeJson, "utf-8");
-      log("\n决策树已保存到 decision-tree.json");
+      // 保存分析结果
+      await repository.update(session.id, {
+        parameters: { depth, breadth, criteria: result.criteria, stakeholders: result.stakeholders?.stakeholders, critique, strategy, budget },
+        result,
+      });
+      log(`\n决策树已保存到会话 ${session.id}`);
+
+      // 显示期望值最优选项
+      const optimalOption = decisionTree.children.find(child => child.id === optimalPath[1]);
+      if (optimalOption) {
+        log(`\n期望值最优选项: ${optimalOption.description}（期望值 ${optimalOption.expectedValue}，根节点期望值 ${expectedValue}）`);
+      }
+
+      // 显示多标准评分明细
+      if (criteriaBreakdown) {
+        log("\n多标准评分明细:\n");
+        criteriaBreakdown.forEach((item) => {
+          const scores = item.scores.map(score => `${score.criterion}=${score.score}`).join(", ");
+          log(`- ${item.description}: 效用 ${item.utility ?? "-"} | ${scores}`);
+        });
+      }
+
+      // 显示利益相关者的偏好和分歧
+      if (result.stakeholders) {
+        log("\n利益相关者视角:\n");
+        result.stakeholders.assessments.forEach((assessment) => {
+          log(`- ${assessment.stakeholder} 倾向于: ${assessment.preferredOption?.description ?? "-"}`);
+        });
+        result.stakeholders.divergences.slice(0, 5).forEach(({ description, spread, highest, lowest }) => {
+          log(`  分歧: ${description}（${highest.stakeholder} ${highest.score} vs ${lowest.stakeholder} ${lowest.score}，相差 ${spread}）`);
+        });
+      }
 
       // 显示关键见解
       log("\n主要决策见解:\n");
@@ -151,17 +409,42 @@ ${followUpQuestions.map((q: string, i: number) => `问: ${q}\n答: ${answers[i]}
         log(`${index + 1}. ${insight}`);
       });
 
+      // 显示被最多节点依赖的假设
+      const { assumptions } = getAssumptionRegister(decisionTree);
+      if (assumptions.length > 0) {
+        log(`\n主要假设（共 ${assumptions.length} 条）:\n`);
+        [...assumptions].sort((a, b) => b.nodes.length - a.nodes.length).slice(0, 5).forEach((entry) => {
+          log(`- ${entry.text}（${entry.nodes.length} 个节点）`);
+        });
+      }
+
+      // 显示批判审查发现的问题
+      if (result.critique) {
+        log(`\n批判审查（发现 ${result.critique.items.length} 个问题，重新展开 ${result.critique.reexpanded.length} 个节点）:\n`);
+        result.critique.items.forEach((item) => {
+          log(`- [${item.severity}] ${getReportLabels().critique.categories[item.category]}: ${item.description}${item.reexpanded ? "（已重新展开）" : ""}`);
+          log(`  ${item.issue}`);
+        });
+      }
+
       // 生成决策报告
       log("\n正在生成决策分析报告...");
-      const report = await generateDecisionReport({
+      const structuredReport = await generateDecisionReport({
         problem: combinedProblem,
         decisionTree,
         insights,
+        criteria: result.criteria,
+        stakeholders: result.stakeholders,
+        critique: result.critique,
+        usage,
       });
+      const report = renderReport(structuredReport, "markdown");
 
-      // 保存决策报告
-      await fs.writeFile("decision-report.md", report, "utf-8");
-      log("\n决策分析报告已生成并保存到 decision-report.md");
+      // 保存决策报告及包含报告调用的用量
+      result.usage = usage.summarize();
+      await repository.update(session.id, { report, structuredReport, result });
+      log(`\n决策分析报告已生成并保存到会话 ${session.id}`);
+      this.printUsage(result.usage);
 
       this.close();
     } catch (error) {
@@ -182,3 +465,25 @@ const cliService = CLIService.getInstance();
 export function runCLI(): Promise<void> {
   return cliService.run();
 }
+
+/**
+ * 比较两次分析（文件路径或会话ID）
+ * Compare two analyses (file paths or session IDs)
+ *
+ * @param {string} beforeRef - 旧分析
+ * @param {string} afterRef - 新分析
+ */
+export function runDiff(beforeRef: string, afterRef: string): Promise<void> {
+  return cliService.diff(beforeRef, afterRef);
+}
+
+/**
+ * 校验分析（文件路径或会话ID）中决策树的概率
+ * Check the decision tree probabilities of an analysis (file path or session ID)
+ *
+ * @param {string} ref - 分析
+ * @returns {Promise<boolean>} 是否未发现问题
+ */
+export function runValidate(ref: string): Promise<boolean> {
+  return cliService.validate(ref);
+}
@@ -1,10 +1,100 @@
-import type { DecisionNode, DecisionProgress, DecisionResult, GeneratedNode } from "../types/decision";
-import { generateObject } from "ai";
+import type { LanguageModel } from "ai";
+import type { ModelStage } from "../providers";
+import type { AssumptionRegister, AssumptionStatus } from "../types/assumption";
+import type { CritiqueCategory, CritiqueItem, CritiqueMode, DecisionCritique } from "../types/critique";
+import type {
+  DecisionCriterion,
+  DecisionNode,
+  DecisionNodeEdit,
+  DecisionProgress,
+  DecisionResult,
+  ExpansionPriority,
+  ExpansionStrategy,
+  GeneratedNode,
+} from "../types/decision";
+import type { AnalysisSnapshot, DecisionDiff } from "../types/diff";
+import type { DecisionReport, ReportDraft, ReportOptionDraft, ReportSummary } from "../types/report";
+import type { SensitivityAnalysis } from "../types/sensitivity";
+import type { DecisionSession } from "../types/session";
+import type { SimulationResult } from "../types/simulation";
+import type { StakeholderAnalysis, StakeholderAssessment, StakeholderPersona } from "../types/stakeholder";
+import type { AnalysisEstimate } from "../types/usage";
+import type { ContextOptions } from "../utils/decision/context";
+import type { EstimateSettings } from "../utils/decision/estimate";
+import type { RollupResult } from "../utils/decision/expected-value";
+import type { ProbabilityIssue } from "../utils/decision/probability";
+import type { SensitivityOptions } from "../utils/decision/sensitivity";
+import type { SimulationOptions } from "../utils/decision/simulation";
+import type { StakeholderItem } from "../utils/decision/stakeholders";
+import type { UsageSource } from "../utils/llm/usage";
+import type { MarkdownSection } from "../utils/report";
+import { generateObject, streamObject } from "ai";
 import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
-import { decisionSystemPrompt } from "../config/prompts";
-import { getModel, trimPrompt } from "../providers";
-import { info, warn } from "../utils/logger";
+import { ENV } from "../config/env";
+import { decisionSystemPrompt, formatProblemWithFollowUp } from "../config/prompts";
+import { countTokens, FailoverLanguageModel, getContextSize, getModel, getModelId, MODEL_STAGES } from "../providers";
+import { getSessionRepository, SessionNotFoundError } from "../storage";
+import {
+  AssumptionNotFoundError,
+  buildAssumptionRegister,
+  flagFalseAssumptions,
+  NODE_REASONING_FIELDS,
+  toNodeReasoning,
+} from "../utils/decision/assumptions";
+import { buildPathPrompt, buildTreePrompt } from "../utils/decision/context";
+import {
+  applyCriteriaUtilities,
+  buildCriteriaScoresSchema,
+  createUtilityScorer,
+  formatCriteriaBreakdown,
+  formatCriteriaPrompt,
+  getCriteriaBreakdown,
+  normalizeCriteria,
+} from "../utils/decision/criteria";
+import {
+  CRITIQUE_CATEGORIES,
+  formatCritiqueCategories,
+  formatCritiqueSummary,
+  linkCritiqueItems,
+  selectReexpansionTargets,
+} from "../utils/decision/critique";
+import { diffDecisionAnalyses } from "../utils/decision/diff";
+import { AnalysisTooLargeError, estimateAnalysis, estimateTreeEdit } from "../utils/decision/estimate";
+import { formatExpectedValueSummary, rollupDecisionTree } from "../utils/decision/expected-value";
+import { rankFrontier } from "../utils/decision/priority";
+import {
+  addNodeWarning,
+  findSiblingProbabilityIssues,
+  getOutcomeChildren,
+  normalizeSiblingProbabilities,
+} from "../utils/decision/probability";
+import { analyzeSensitivity, formatSensitivitySummary } from "../utils/decision/sensitivity";
+import { simulateDecisionTree } from "../utils/decision/simulation";
+import {
+  buildStakeholderAnalysis,
+  formatStakeholderItems,
+  formatStakeholderSummary,
+  listStakeholderItems,
+  normalizeStakeholders,
+} from "../utils/decision/stakeholders";
+import {
+  applyNodeEdit,
+  assertValidNodeEdit,
+  countNodes,
+  findNodePath,
+  formatNodePath,
+  getLeaves,
+  getTreeHeight,
+  InvalidTreeOperationError,
+  removeNode,
+  requireNodePath,
+} from "../utils/decision/tree";
+import { buildRangeSchema, PROBABILITY_BOUNDS, RATING_BOUNDS, toUncertaintyRange } from "../utils/decision/uncertainty";
+import { estimateTokens, getRateLimiter } from "../utils/llm/rate-limiter";
+import { getPriceTable, mergeUsageSummaries, UsageTracker } from "../utils/llm/usage";
+import { debug, info, warn } from "../utils/logger";
+import { buildDecisionReport, EMPTY_REPORT_DRAFT, REPORT_DRAFT_FIELDS, toMarkdownSections } from "../utils/report";
 
 /**
  * 决策服务类
@@ -12,12 +102,14 @@ import { info, warn } from "../utils/logger";
  */
 export class DecisionService {
   private static instance: DecisionService;
+  private treeUpdates: Map<string, Promise<unknown>>;
 
   /**
    * 私有构造函数
    * Private constructor
    */
   private constructor() {
+    this.treeUpdates = new Map();
     info("Decision Service initialized");
   }
 
@@ -43,6 +135,10 @@ export class DecisionService {
    * @returns {DecisionNode} 标准节点
    */
   private normalizeNode(node: GeneratedNode, defaultParentId: string | null = null): DecisionNode {
+    const probabilityRange = toUncertaintyRange(node.probabilityRange, node.probability, PROBABILITY_BOUNDS);
+    const riskRange = toUncertaintyRange(node.riskRange, node.risk, RATING_BOUNDS);
+    const opportunityRange = toUncertaintyRange(node.opportunityRange, node.opportunity, RATING_BOUNDS);
+
     // 确保所有必需的字段都有值
     return {
       id: node.id || uuidv4(),
@@ -52,6 +148,11 @@ export class DecisionService {
       risk: node.risk,
       opportunity: node.opportunity,
       probability: node.probability,
+      ...(probabilityRange && { probabilityRange }),
+      ...(riskRange && { riskRange }),
+      ...(opportunityRange && { opportunityRange }),
+      scores: node.scores,
+      ...toNodeReasoning(node),
       children: Array.isArray(node.children)
         ? node.children.map((child: GeneratedNode) =>
             this.normalizeNode(child, node.id))
@@ -59,6 +160,139 @@ export class DecisionService {
     };
   }
 
+  /**
+   * 通过全局限流器调用模型（并发限制、请求/令牌预算与退避重试）
+   * Call the model through the global rate limiter (concurrency limit, request/token budgets and backoff retries)
+   *
+   * 请求的模型为故障转移模型时，整个调用（包括结构化输出的解析与校验）失败后会改用链中的下一个提供者
+   * When the request's model is a failover model, a failed call (including parsing and validating the
+   * structured output) is repeated with the next provider of the chain
+   *
+   * 成功的调用会以阶段和节点ID为标签记录到用量记录器中
+   * Successful calls are recorded in the usage tracker, tagged with their stage and node ID
+   *
+   * @param {T} request - 模型请求
+   * @param {Function} call - 实际的模型调用
+   * @param {object} context - 调用上下文
+   * @param {ModelStage} context.stage - 分析阶段
+   * @param {string} context.nodeId - 调用针对的节点ID
+   * @param {UsageTracker} context.usage - 用量记录器
+   * @returns {Promise<R>} 调用结果
+   */
+  private callModel<T extends { model: LanguageModel; system?: string; prompt?: string; abortSignal?: AbortSignal }, R extends UsageSource>(
+    request: T,
+    call: (request: T) => Promise<R>,
+    { stage, nodeId, usage }: { stage: ModelStage; nodeId?: string; usage?: UsageTracker },
+  ): Promise<R> {
+    const tracked = async (req: T): Promise<R> => {
+      const startedAt = Date.now();
+      const result = await call(req);
+      usage?.record({ stage, nodeId, modelId: req.model.modelId, latencyMs: Date.now() - startedAt, result });
+      return result;
+    };
+
+    const { model } = request;
+    const run = model instanceof FailoverLanguageModel
+      ? () => model.run(member => tracked({ ...request, model: member }), request.abortSignal)
+      : () => tracked(request);
+
+    return getRateLimiter().schedule(run, {
+      estimatedTokens: estimateTokens(request.system ?? "", request.prompt ?? ""),
+      signal: request.abortSignal,
+    });
+  }
+
+  /**
+   * 阶段提示词的上下文构建选项：预算为模型上下文大小减去系统提示词
+   * Context builder options of a stage's prompt: the budget is the model's context size minus the system prompt
+   *
+   * @param {ModelStage} stage - 模型阶段
+   * @param {string} system - 系统提示词
+   * @returns {ContextOptions} 上下文构建选项
+   */
+  private contextOptions(stage: ModelStage, system: string): ContextOptions {
+    return {
+      budget: getContextSize(stage) - countTokens(system, stage),
+      countTokens: text => countTokens(text, stage),
+    };
+  }
+
+  /**
+   * 构建包含决策树的提示词，超出上下文时压缩决策树而不是截断提示词
+   * Build a prompt containing the decision tree, compressing the tree instead of truncating the prompt when it exceeds the context
+   *
+   * @param {ModelStage} stage - 模型阶段
+   * @param {string} system - 系统提示词
+   * @param {DecisionNode} decisionTree - 决策树
+   * @param {Function} render - 根据决策树文本生成提示词
+   * @returns {string} 提示词
+   */
+  private treePrompt(stage: ModelStage, system: string, decisionTree: DecisionNode, render: (tree: string) => string): string {
+    const built = buildTreePrompt(render, decisionTree, this.contextOptions(stage, system));
+    if (built.level !== "full") {
+      debug(`Compressed the decision tree for the ${stage} prompt (${built.level}, ${built.omittedNodes} nodes omitted)`);
+    }
+    if (!built.fits) {
+      warn(`The ${stage} prompt exceeds the context size of ${getContextSize(stage)} tokens even with the tree compressed`);
+    }
+    return built.prompt;
+  }
+
+  /**
+   * 构建包含决策路径的提示词，超出上下文时省略路径中间的步骤
+   * Build a prompt containing a decision path, eliding the middle steps of the path when it exceeds the context
+   *
+   * @param {ModelStage} stage - 模型阶段
+   * @param {string} system - 系统提示词
+   * @param {DecisionNode[]} path - 路径上的节点
+   * @param {Function} render - 根据路径文本生成提示词
+   * @returns {string} 提示词
+   */
+  private pathPrompt(stage: ModelStage, system: string, path: DecisionNode[], render: (path: string) => string): string {
+    const built = buildPathPrompt(render, path.map(step => step.description), this.contextOptions(stage, system));
+    if (!built.fits) {
+      warn(`The ${stage} prompt exceeds the context size of ${getContextSize(stage)} tokens`);
+    }
+    return built.prompt;
+  }
+
+  /**
+   * 为节点模式追加评估标准评分字段
+   * Extend a node schema with criteria score fields
+   *
+   * @param {T} schema - 节点模式
+   * @param {DecisionCriterion[]} criteria - 评估标准
+   * @returns {z.ZodType} 扩展后的模式（无评估标准时原样返回）
+   */
+  private withCriteriaScores<T extends z.AnyZodObject>(
+    schema: T,
+    criteria: DecisionCriterion[],
+  ): z.ZodType<z.output<T> & { scores?: Record<string, number> }, z.ZodTypeDef, z.input<T>> {
+    if (criteria.length === 0) {
+      return schema;
+    }
+    return schema.extend({
+      scores: buildCriteriaScoresSchema(criteria).describe("Score of this node against every evaluation criterion"),
+    }) as z.ZodTypeAny;
+  }
+
+  /**
+   * 生成评估标准评分说明（用于生成提示词）
+   * Build the criteria scoring instructions (for generation prompts)
+   *
+   * @param {DecisionCriterion[]} criteria - 评估标准
+   * @returns {string} 说明文本，无评估标准时为空
+   */
+  private criteriaInstructions(criteria: DecisionCriterion[]): string {
+    if (criteria.length === 0) {
+      return "";
+    }
+    return `
+      Additionally, score every node against each of the following evaluation criteria using the given scale:
+      ${formatCriteriaPrompt(criteria)}
+      `;
+  }
+
   /**
    * 生成决策反馈问题
    * Generate decision feedback questions
@@ -66,17 +300,25 @@ export class DecisionService {
    * @param {object} params - 参数对象
    * @param {string} params.problem - 决策问题
    * @param {number} params.numQuestions - 问题数量
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
    * @returns {Promise<string[]>} 问题列表
    */
   public async generateDecisionFeedback({
     problem,
     numQuestions = 3,
+    signal,
+    usage,
   }: {
     problem: string;
     numQuestions?: number;
+    signal?: AbortSignal;
+    usage?: UsageTracker;
   }): Promise<string[]> {
-    const res = await generateObject({
-      model: getModel(),
+    const res = await this.callModel({
+      model: getModel("feedback"),
+      abortSignal: signal,
+      maxRetries: 0,
       system: decisionSystemPrompt(),
       prompt: `Given the following decision problem, generate ${numQuestions} follow-up questions to better understand the context, constraints, and preferences:
       
@@ -95,7 +337,7 @@ export class DecisionService {
       schema: z.object({
         questions: z.array(z.string().describe("Follow-up question to understand the decision context better")).describe(`List of ${numQuestions} follow-up questions`),
       }),
-    });
+    }, request => generateObject(request), { stage: "feedback", usage });
 
     info(`Generated ${res.object.questions.length} feedback questions`);
 
@@ -109,19 +351,41 @@ export class DecisionService {
    * @param {object} params - 参数对象
    * @param {string} params.problem - 决策问题
    * @param {number} params.breadth - 生成的选项数量
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
    * @returns {Promise<DecisionNode>} 初始决策树
    */
   private async generateInitialDecisionTree({
     problem,
     breadth = 4,
+    criteria = [],
+    signal,
+    usage,
   }: {
     problem: string;
     breadth?: number;
+    criteria?: DecisionCriterion[];
+    signal?: AbortSignal;
+    usage?: UsageTracker;
   }): Promise<DecisionNode> {
     const rootNodeId = uuidv4();
 
-    const res = await generateObject({
-      model: getModel(),
+    const optionSchema = z.object({
+      id: z.string().describe("UUID of this option").default(""),
+      description: z.string().describe("Description of this option/approach"),
+      type: z.literal("chance").describe("Type of node - options should be 'chance' nodes"),
+      parentId: z.string().describe("Parent ID - should be the root node's ID").default(rootNodeId),
+      risk: z.number().min(1).max(10).describe("Risk assessment (1-10, 10 being highest risk)"),
+      opportunity: z.number().min(1).max(10).describe("Opportunity assessment (1-10, 10 being highest opportunity)"),
+      ...NODE_REASONING_FIELDS,
+      children: z.array(z.any()).describe("Child nodes - should be empty at this stage").default([]),
+    });
+
+    const res = await this.callModel({
+      model: getModel("initial-tree"),
+      abortSignal: signal,
+      maxRetries: 0,
       system: decisionSystemPrompt(),
       prompt: `Given this decision problem, generate a structured decision tree with ${breadth} initial options:
       
@@ -133,7 +397,8 @@ export class DecisionService {
       - A clear description of the option
       - Risk level (1-10 scale, 10 being highest risk)
       - Opportunity level (1-10 scale, 10 being highest opportunity)
-      
+      - A short rationale for these assessments, the explicit assumptions they depend on, and any supporting evidence with its source (never invent sources)
+      ${this.criteriaInstructions(criteria)}
       Each option should be distinct and meaningful - represent truly different approaches, not just variations of the same approach.
       
       Generate ONLY the initial options - do not explore any second-level consequences yet. Keep the description of each option concise.`,
@@ -143,18 +408,10 @@ export class DecisionService {
           description: z.string().describe("Description of the main decision to be made"),
           type: z.literal("decision").describe("Type of node - root should be 'decision'"),
           parentId: z.null().describe("Parent ID - root node should have null parent"),
-          children: z.array(z.object({
-            id: z.string().describe("UUID of this option").default(""),
-            description: z.string().describe("Description of this option/approach"),
-            type: z.literal("chance").describe("Type of node - options should be 'chance' nodes"),
-            parentId: z.string().describe("Parent ID - should be the root node's ID").default(rootNodeId),
-            risk: z.number().min(1).max(10).describe("Risk assessment (1-10, 10 being highest risk)"),
-            opportunity: z.number().min(1).max(10).describe("Opportunity assessment (1-10, 10 being highest opportunity)"),
-            children: z.array(z.any()).describe("Child nodes - should be empty at this stage").default([]),
-          })).max(breadth).describe(`Up to ${breadth} distinct options/approaches`),
+          children: z.array(this.withCriteriaScores(optionSchema, criteria)).max(breadth).describe(`Up to ${breadth} distinct options/approaches`),
         }).describe("The decision tree with the root decision and initial options"),
       }),
-    });
+    }, request => generateObject(request), { stage: "initial-tree", usage });
 
     // 规范化决策树
     const normalizedTree = this.normalizeNode(res.object.decisionTree);
@@ -164,41 +421,68 @@ export class DecisionService {
   }
 
   /**
-   * 扩展决策节点
-   * Expand decision node
+   * 为节点生成后续结果或决策（不修改节点）
+   * Generate the consequences or follow-up decisions of a node (does not modify the node)
    *
    * @param {object} params - 参数对象
    * @param {DecisionNode} params.node - 决策节点
-   * @param {number} params.depth - 当前深度
    * @param {number} params.breadth - 展开广度
    * @param {string} params.problem - 决策问题
-   * @param {string} params.path - 当前路径
-   * @returns {Promise<DecisionNode>} 扩展后的决策节点
+   * @param {DecisionNode[]} params.path - 从根节点到父节点的路径（不含该节点）
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {string} params.hint - 用户提供的额外指引
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<DecisionNode[]>} 生成的子节点
    */
-  private async expandDecisionNode({
+  private async generateConsequences({
     node,
-    depth: _depth,
     breadth,
     problem,
     path,
+    criteria = [],
+    hint,
+    signal,
+    usage,
   }: {
     node: DecisionNode;
-    depth: number;
     breadth: number;
     problem: string;
-    path: string;
-  }): Promise<DecisionNode> {
-    if (node.children.length > 0) {
-      return node; // 已经展开过了
-    }
+    path: DecisionNode[];
+    criteria?: DecisionCriterion[];
+    hint?: string;
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<DecisionNode[]> {
+    const consequenceSchema = z.object({
+      id: z.string().describe("UUID for this consequence node").default(""),
+      description: z.string().describe("Description of this consequence or follow-up decision"),
+      type: z.enum(["decision", "outcome"]).describe("Type of node - 'decision' for follow-up decisions, 'outcome' for chance events or results"),
+      parentId: z.string().describe("Parent ID - should be the current node's ID").default(node.id),
+      risk: z.number().min(1).max(10).describe("Risk assessment (1-10, 10 being highest risk)"),
+      opportunity: z.number().min(1).max(10).describe("Opportunity assessment (1-10, 10 being highest opportunity)"),
+      probability: z.number().min(0).max(100).optional().describe("Probability assessment (0-100%) - only for 'outcome' type nodes"),
+      probabilityRange: buildRangeSchema(PROBABILITY_BOUNDS).optional().describe("Plausible range of the probability (0-100%) - only for 'outcome' type nodes"),
+      riskRange: buildRangeSchema(RATING_BOUNDS).optional().describe("Plausible range of the risk assessment"),
+      opportunityRange: buildRangeSchema(RATING_BOUNDS).optional().describe("Plausible range of the opportunity assessment"),
+      ...NODE_REASONING_FIELDS,
+      children: z.array(z.any()).describe("Child nodes - should be empty at this stage").default([]),
+    });
 
-    const fullPath = path ? `${path} → ${node.description}` : node.description;
+    const hintSection = hint
+      ? `
+        Take the following guidance from the user into account:
+        <hint>${hint}</hint>
+        `
+      : "";
 
-    try {
-      const res = await generateObject({
-        model: getModel(),
-        system: decisionSystemPrompt(),
-        prompt: trimPrompt(`For the following decision problem:
+    const system = decisionSystemPrompt();
+    const res = await this.callModel({
+      model: getModel("expansion"),
+      abortSignal: signal,
+      maxRetries: 0,
+      system,
+      prompt: this.pathPrompt("expansion", system, [...path, node], fullPath => `For the following decision problem:
         
         <problem>${problem}</problem>
         
@@ -213,39 +497,235 @@ export class DecisionService {
         - If it's a chance event or outcome, label it as an "outcome" type and describe what happens
         - For chance outcomes, assess the probability (0-100%) of that outcome occurring
         - For all outcomes, evaluate both the risk level (1-10) and opportunity level (1-10)
-        
+        - Also give a plausible range (low and high estimate) around each probability, risk and opportunity, wider where you are less certain
+        - Explain the assessments in a short rationale, list the explicit assumptions they depend on, and cite any supporting evidence with its source (never invent sources)
+        ${this.criteriaInstructions(criteria)}
         Ensure that:
         - Each consequence is distinct and meaningful
         - The set of consequences covers the most important possible developments
         - Descriptions are concise but clear
         - Together they represent a reasonable distribution of what might happen next
-        `),
-        schema: z.object({
-          consequences: z.array(z.object({
-            id: z.string().describe("UUID for this consequence node").default(""),
-            description: z.string().describe("Description of this consequence or follow-up decision"),
-            type: z.enum(["decision", "outcome"]).describe("Type of node - 'decision' for follow-up decisions, 'outcome' for chance events or results"),
-            parentId: z.string().describe("Parent ID - should be the current node's ID").default(node.id),
-            risk: z.number().min(1).max(10).describe("Risk assessment (1-10, 10 being highest risk)"),
-            opportunity: z.number().min(1).max(10).describe("Opportunity assessment (1-10, 10 being highest opportunity)"),
-            probability: z.number().min(0).max(100).optional().describe("Probability assessment (0-100%) - only for 'outcome' type nodes"),
-            children: z.array(z.any()).describe("Child nodes - should be empty at this stage").default([]),
-          })).max(breadth).describe(`Up to ${breadth} distinct consequences or follow-up decisions`),
-        }),
-      });
+        ${hintSection}`),
+      schema: z.object({
+        consequences: z.array(this.withCriteriaScores(consequenceSchema, criteria)).max(breadth).describe(`Up to ${breadth} distinct consequences or follow-up decisions`),
+      }),
+    }, request => generateObject(request), { stage: "expansion", nodeId: node.id, usage });
+
+    return res.object.consequences.map((child: GeneratedNode) =>
+      this.normalizeNode(child, node.id));
+  }
+
+  /**
+   * 扩展决策节点
+   * Expand decision node
+   *
+   * @param {object} params - 参数对象
+   * @param {DecisionNode} params.node - 决策节点
+   * @param {number} params.depth - 当前深度
+   * @param {number} params.breadth - 展开广度
+   * @param {string} params.problem - 决策问题
+   * @param {DecisionNode[]} params.path - 从根节点到父节点的路径（不含该节点）
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<DecisionNode>} 扩展后的决策节点
+   */
+  private async expandDecisionNode({
+    node,
+    depth: _depth,
+    breadth,
+    problem,
+    path,
+    criteria = [],
+    signal,
+    usage,
+  }: {
+    node: DecisionNode;
+    depth: number;
+    breadth: number;
+    problem: string;
+    path: DecisionNode[];
+    criteria?: DecisionCriterion[];
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<DecisionNode> {
+    if (node.children.length > 0) {
+      return node; // 已经展开过了，重新展开请使用 regenerateNode
+    }
 
+    try {
       // 更新节点的子节点
-      node.children = res.object.consequences.map((child: GeneratedNode) =>
-        this.normalizeNode(child, node.id));
+      node.children = await this.generateConsequences({ node, breadth, problem, path, criteria, signal, usage });
 
       info(`Expanded node "${node.description}" with ${node.children.length} consequences`);
       return node;
     } catch (error) {
+      // 取消时不吞掉错误，让整个分析中止
+      signal?.throwIfAborted();
       warn(`Error expanding node ${node.description}:`, error);
       return node;
     }
   }
 
+  /**
+   * 请求模型重新给出子节点概率
+   * Ask the model for a corrected set of child probabilities
+   *
+   * @param {object} params - 参数对象
+   * @param {DecisionNode} params.node - 父节点
+   * @param {string} params.problem - 决策问题
+   * @param {DecisionNode[]} params.path - 从根节点到该节点的路径
+   * @param {string} params.summary - 问题摘要
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<boolean>} 是否成功修正
+   */
+  private async repromptProbabilities({
+    node,
+    problem,
+    path,
+    summary,
+    signal,
+    usage,
+  }: {
+    node: DecisionNode;
+    problem: string;
+    path: DecisionNode[];
+    summary: string;
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<boolean> {
+    const outcomes = getOutcomeChildren(node);
+    if (outcomes.length === 0) {
+      return false;
+    }
+
+    try {
+      const system = decisionSystemPrompt();
+      const res = await this.callModel({
+        model: getModel("repair"),
+        abortSignal: signal,
+        maxRetries: 0,
+        system,
+        prompt: this.pathPrompt("repair", system, path, currentPath => `For the following decision problem:
+        
+        <problem>${problem}</problem>
+        
+        Given the current decision path:
+        ${currentPath}
+        
+        The following mutually exclusive outcomes were proposed, but their probabilities are inconsistent (${summary}):
+        ${outcomes.map((child, index) => `${index}. ${child.description} (current probability: ${child.probability ?? "missing"})`).join("\n")}
+        
+        Re-assess the probability (0-100%) of each outcome so that together they sum to exactly 100%.`),
+        schema: z.object({
+          probabilities: z.array(z.object({
+            index: z.number().int().describe("Index of the outcome in the list above"),
+            probability: z.number().min(0).max(100).describe("Corrected probability (0-100%)"),
+          })).describe("Corrected probability for every outcome"),
+        }),
+      }, request => generateObject(request), { stage: "repair", nodeId: node.id, usage });
+
+      const corrected = new Map(res.object.probabilities.map(item => [item.index, item.probability]));
+      const sum = [...corrected.values()].reduce((acc, p) => acc + p, 0);
+      if (outcomes.some((_, index) => !corrected.has(index))
+        || Math.abs(sum - 100) > ENV.DECISION.PROBABILITY_TOLERANCE) {
+        return false;
+      }
+
+      outcomes.forEach((child, index) => {
+        child.probability = corrected.get(index);
+      });
+      // 决策子节点不应带有概率，剩余的微小偏差通过归一化消除
+      normalizeSiblingProbabilities(node);
+      return true;
+    } catch (error) {
+      signal?.throwIfAborted();
+      warn(`Error re-prompting probabilities for node ${node.description}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 校验并修复单个节点的子节点概率
+   * Validate and repair the child probabilities of a single node
+   *
+   * @param {object} params - 参数对象
+   * @param {DecisionNode} params.node - 父节点
+   * @param {string} params.problem - 决策问题（重新询问模型时需要）
+   * @param {DecisionNode[]} params.path - 从根节点到该节点的路径
+   * @param {"normalize" | "reprompt"} params.mode - 修复方式
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<ProbabilityIssue[]>} 修复前发现的问题
+   */
+  private async repairNodeProbabilities({
+    node,
+    problem,
+    path,
+    mode = ENV.DECISION.PROBABILITY_REPAIR,
+    signal,
+    usage,
+  }: {
+    node: DecisionNode;
+    problem?: string;
+    path: DecisionNode[];
+    mode?: "normalize" | "reprompt";
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<ProbabilityIssue[]> {
+    const issues = findSiblingProbabilityIssues(node, ENV.DECISION.PROBABILITY_TOLERANCE);
+    if (issues.length === 0) {
+      return issues;
+    }
+
+    const summary = issues.map(issue => issue.message).join("; ");
+    if (mode === "reprompt" && problem && await this.repromptProbabilities({ node, problem, path, summary, signal, usage })) {
+      addNodeWarning(node, `Child probabilities were corrected by the model: ${summary}`);
+    } else {
+      normalizeSiblingProbabilities(node);
+      addNodeWarning(node, `Child probabilities were renormalized: ${summary}`);
+    }
+
+    warn(`Repaired probabilities for node "${node.description}": ${summary}`);
+    return issues;
+  }
+
+  /**
+   * 校验决策树的兄弟节点概率，并可选择修复
+   * Validate sibling probabilities of a decision tree, optionally repairing them
+   *
+   * @param {DecisionNode} decisionTree - 决策树
+   * @param {object} options - 选项
+   * @param {"none" | "normalize" | "reprompt"} options.repair - 修复方式，none 表示只校验
+   * @param {string} options.problem - 决策问题（reprompt 模式需要）
+   * @returns {Promise<ProbabilityIssue[]>} 发现的问题
+   */
+  public async validateDecisionTree(
+    decisionTree: DecisionNode,
+    {
+      repair = "normalize",
+      problem,
+    }: {
+      repair?: "none" | "normalize" | "reprompt";
+      problem?: string;
+    } = {},
+  ): Promise<ProbabilityIssue[]> {
+    const visit = async (node: DecisionNode, path: DecisionNode[]): Promise<ProbabilityIssue[]> => {
+      const currentPath = [...path, node];
+      const issues = repair === "none"
+        ? findSiblingProbabilityIssues(node, ENV.DECISION.PROBABILITY_TOLERANCE)
+        : await this.repairNodeProbabilities({ node, problem, path: currentPath, mode: repair });
+
+      for (const child of node.children) {
+        issues.push(...await visit(child, currentPath));
+      }
+      return issues;
+    };
+
+    return visit(decisionTree, []);
+  }
+
   /**
    * 分析决策树
    * Analyze decision tree
@@ -255,11 +735,15 @@ export class DecisionService {
    * @param {number} params.depth - 当前深度
    * @param {number} params.maxDepth - 最大深度
    * @param {string} params.problem - 决策问题
-   * @param {string} params.path - 当前路径
+   * @param {DecisionNode[]} params.path - 从根节点到父节点的路径（不含该节点）
    * @param {Function} params.onProgress - 进度回调
    * @param {number} params.totalBranches - 总分支数
    * @param {{ value: number }} params.completedBranches - 已完成分支数
    * @param {number} params.breadth - 展开广度
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {Function} params.onNodeExpanded - 节点展开完成回调
+   * @param {UsageTracker} params.usage - 用量记录器
    * @returns {Promise<DecisionNode>} 分析后的决策树
    */
   private async analyzeDecisionTree({
@@ -267,23 +751,33 @@ export class DecisionService {
     depth = 0,
     maxDepth,
     problem,
-    path = "",
+    path = [],
     onProgress,
     totalBranches,
     completedBranches,
     breadth,
+    criteria,
+    signal,
+    onNodeExpanded,
+    usage,
   }: {
     node: DecisionNode;
     depth?: number;
     maxDepth: number;
     problem: string;
-    path?: string;
+    path?: DecisionNode[];
     onProgress?: (progress: DecisionProgress) => void;
     totalBranches: number;
     completedBranches: { value: number };
     breadth: number;
+    criteria?: DecisionCriterion[];
+    signal?: AbortSignal;
+    onNodeExpanded?: (node: DecisionNode) => void;
+    usage?: UsageTracker;
   }): Promise<DecisionNode> {
-    const currentPath = path ? `${path} → ${node.description}` : node.description;
+    signal?.throwIfAborted();
+
+    const currentPath = [...path, node];
 
     // 如果已经达到最大深度，则不再展开
     if (depth >= maxDepth) {
@@ -292,7 +786,7 @@ export class DecisionService {
         onProgress({
           currentDepth: depth,
           totalDepth: maxDepth,
-          currentBranch: currentPath,
+          currentBranch: formatNodePath(currentPath),
           totalBranches,
           completedBranches: completedBranches.value,
         });
@@ -307,7 +801,20 @@ export class DecisionService {
       breadth,
       problem,
       path,
+      criteria,
+      signal,
+      usage,
+    });
+
+    // 校验并修复子节点概率
+    await this.repairNodeProbabilities({
+      node: expandedNode,
+      problem,
+      path: currentPath,
+      signal,
+      usage,
     });
+    onNodeExpanded?.(expandedNode);
 
     // 递归展开子节点
     const childPromises = expandedNode.children.map(async (child) => {
@@ -322,6 +829,10 @@ export class DecisionService {
         totalBranches,
         completedBranches,
         breadth,
+        criteria,
+        signal,
+        onNodeExpanded,
+        usage,
       });
       return analyzedChild;
     });
@@ -336,7 +847,7 @@ export class DecisionService {
         onProgress({
           currentDepth: depth,
           totalDepth: maxDepth,
-          currentBranch: currentPath,
+          currentBranch: formatNodePath(currentPath),
           totalBranches,
           completedBranches: completedBranches.value,
         });
@@ -347,113 +858,791 @@ export class DecisionService {
   }
 
   /**
-   * 生成决策报告
-   * Generate decision report
+   * 按优先级在预算内展开决策树（best-first）
+   * Expand the decision tree by priority within a budget (best-first)
+   *
+   * 每轮从前沿中选出优先级最高的节点（数量不超过LLM并发数）并行展开，直到预算用完或没有可展开的节点
+   * Each round expands the highest-priority frontier nodes in parallel (at most the LLM concurrency),
+   * until the budget is spent or nothing is left to expand
+   *
+   * @param {object} params - 参数对象
+   * @param {DecisionNode} params.tree - 决策树
+   * @param {number} params.maxDepth - 最大深度
+   * @param {number} params.budget - 节点展开预算（LLM调用次数）
+   * @param {ExpansionPriority} params.priority - 优先级类型
+   * @param {string} params.problem - 决策问题
+   * @param {number} params.breadth - 展开广度
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {Function} params.onProgress - 进度回调
+   * @param {Function} params.onNodeExpanded - 节点展开完成回调
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<DecisionNode>} 展开后的决策树
+   */
+  private async expandBestFirst({
+    tree,
+    maxDepth,
+    budget,
+    priority,
+    problem,
+    breadth,
+    criteria,
+    signal,
+    onProgress,
+    onNodeExpanded,
+    usage,
+  }: {
+    tree: DecisionNode;
+    maxDepth: number;
+    budget: number;
+    priority: ExpansionPriority;
+    problem: string;
+    breadth: number;
+    criteria?: DecisionCriterion[];
+    signal?: AbortSignal;
+    onProgress?: (progress: DecisionProgress) => void;
+    onNodeExpanded?: (node: DecisionNode) => void;
+    usage?: UsageTracker;
+  }): Promise<DecisionNode> {
+    const attempted = new Set<string>();
+    let spent = 0;
+
+    while (spent < budget) {
+      signal?.throwIfAborted();
+
+      const batch = rankFrontier(tree, { maxDepth, priority, exclude: attempted })
+        .slice(0, Math.min(ENV.LLM.CONCURRENCY, budget - spent));
+      if (batch.length === 0) {
+        break;
+      }
+
+      await Promise.all(batch.map(async ({ node, path, depth }) => {
+        attempted.add(node.id);
+        const expandedNode = await this.expandDecisionNode({
+          node,
+          depth,
+          breadth,
+          problem,
+          path: path.slice(0, -1),
+          criteria,
+          signal,
+          usage,
+        });
+        await this.repairNodeProbabilities({
+          node: expandedNode,
+          problem,
+          path,
+          signal,
+          usage,
+        });
+        onNodeExpanded?.(expandedNode);
+
+        spent += 1;
+        onProgress?.({
+          currentDepth: depth,
+          totalDepth: maxDepth,
+          currentBranch: formatNodePath(path),
+          totalBranches: budget,
+          completedBranches: spent,
+        });
+      }));
+    }
+
+    info(`Best-first expansion used ${spent}/${budget} node expansions`);
+    return tree;
+  }
+
+  /**
+   * 生成结构化决策报告（map-reduce）：先根据各个顶层选项的子树并发生成选项章节，再根据选项章节的摘要生成比较和建议，最后组装报告
+   * Generate a structured decision report (map-reduce): first write a section per top-level option from its subtree
+   * concurrently, then the comparison and recommendations from the option summaries, and finally assemble the report
+   *
+   * 每个章节失败时单独重试；数值、比较矩阵、敏感性分析和决策树由代码根据决策树补充
+   * Every section is retried on its own when it fails; the numbers, comparison matrix, sensitivity analysis and
+   * decision tree are filled in from the tree by code
    *
    * @param {object} params - 参数对象
    * @param {string} params.problem - 决策问题
    * @param {DecisionNode} params.decisionTree - 决策树
    * @param {string[]} params.insights - 关键见解
-   * @returns {Promise<string>} 决策报告
+   * @param {DecisionCriterion[]} params.criteria - 评估标准（权重已归一化）
+   * @param {StakeholderAnalysis} params.stakeholders - 利益相关者分析结果
+   * @param {DecisionCritique} params.critique - 批判审查结果
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {Function} params.onReportChunk - Markdown 报告章节的回调：每个选项的小节写完后立即回调（按完成顺序），提供时以流式方式生成汇总部分，其余章节按报告顺序在完成后回调
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<DecisionReport>} 结构化决策报告
    */
   public async generateDecisionReport({
     problem,
     decisionTree,
     insights,
+    criteria = [],
+    stakeholders,
+    critique,
+    signal,
+    onReportChunk,
+    usage,
   }: {
     problem: string;
     decisionTree: DecisionNode;
     insights: string[];
-  }): Promise<string> {
-    try {
-      const res = await generateObject({
-        model: getModel(),
-        system: decisionSystemPrompt(),
-        prompt: trimPrompt(`Generate a structured markdown report for the following decision analysis:
+    criteria?: DecisionCriterion[];
+    stakeholders?: StakeholderAnalysis;
+    critique?: DecisionCritique;
+    signal?: AbortSignal;
+    onReportChunk?: (section: MarkdownSection) => void;
+    usage?: UsageTracker;
+  }): Promise<DecisionReport> {
+    // 从JSON加载的决策树可能尚未回溯期望值
+    if (decisionTree.expectedValue === undefined) {
+      this.rollup(decisionTree, criteria);
+    }
+
+    const sensitivity = analyzeSensitivity(decisionTree, { criteria });
+    const build = (draft: ReportDraft) => buildDecisionReport({ problem, decisionTree, insights, criteria, sensitivity, stakeholders, critique, draft });
+
+    // map：各个选项章节互不依赖，并发生成（并发数由全局限流器控制），每完成一个选项就输出它的小节
+    const options = await Promise.all(decisionTree.children.map(async (option, index) => {
+      const draft = await this.retrySection(
+        `option "${option.description}"`,
+        () => this.generateOptionSection({ problem, option, insights, criteria, signal, usage }),
+        { signal },
+      );
+      const section = onReportChunk && toMarkdownSections(build({ ...EMPTY_REPORT_DRAFT, options: [draft] }))
+        .find(item => item.field === "options" && item.index === index);
+      if (section) {
+        onReportChunk?.(section);
+      }
+      return draft;
+    }));
+
+    // reduce：根据选项章节生成汇总部分，按报告顺序输出其余章节（选项小节已经输出过）
+    // 流式生成时，模型开始写下一个字段后前面的字段已经完成，对应的 Markdown 章节不会再变化，可以输出
+    // When streaming, once the model starts the next field the previous fields are complete and their
+    // Markdown sections will not change any more, so they can be emitted
+    let emitted = 0;
+    const onSummary = onReportChunk && ((summary: Partial<ReportSummary>, completed: (keyof ReportDraft)[]) => {
+      const sections = toMarkdownSections(build({ ...EMPTY_REPORT_DRAFT, ...summary, options }));
+      for (; emitted < sections.length; emitted++) {
+        const section = sections[emitted]!;
+        if ((REPORT_DRAFT_FIELDS as string[]).includes(section.field) && !(completed as string[]).includes(section.field)) {
+          return;
+        }
+        if (section.index === undefined) {
+          onReportChunk(section);
+        }
+      }
+    });
+
+    const summary = await this.retrySection(
+      "summary",
+      () => this.generateReportSummary({ problem, decisionTree, options, insights, criteria, sensitivity, stakeholders, critique, signal, usage, onSummary }),
+      // 已经输出部分汇总章节时不再重试，避免重复输出
+      { signal, canRetry: () => emitted === 0 },
+    );
+    return build({ ...summary, options });
+  }
+
+  /**
+   * 生成报告章节，失败时单独重试
+   * Generate a report section, retrying it on its own when it fails
+   *
+   * @param {string} section - 章节名称（用于日志）
+   * @param {Function} generate - 生成章节
+   * @param {object} options - 选项
+   * @param {AbortSignal} options.signal - 取消信号
+   * @param {Function} options.canRetry - 是否还可以重试
+   * @returns {Promise<T>} 章节内容
+   */
+  private async retrySection<T>(
+    section: string,
+    generate: () => Promise<T>,
+    { signal, canRetry = () => true }: { signal?: AbortSignal; canRetry?: () => boolean } = {},
+  ): Promise<T> {
+    const attempts = Math.max(1, ENV.REPORT.SECTION_ATTEMPTS);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await generate();
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (attempt >= attempts || !canRetry()) {
+          throw new Error(`Failed to generate the ${section} section of the report after ${attempt} attempt(s): ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+        }
+        warn(`Error generating the ${section} section of the report (attempt ${attempt}/${attempts}), retrying:`, error);
+      }
+    }
+  }
+
+  /**
+   * 根据选项的子树生成报告中的选项章节（map 步骤）
+   * Write the report section of an option from its subtree (map step)
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题
+   * @param {DecisionNode} params.option - 顶层选项
+   * @param {string[]} params.insights - 关键见解
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<ReportOptionDraft>} 选项章节
+   */
+  private async generateOptionSection({
+    problem,
+    option,
+    insights,
+    criteria,
+    signal,
+    usage,
+  }: {
+    problem: string;
+    option: DecisionNode;
+    insights: string[];
+    criteria: DecisionCriterion[];
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<ReportOptionDraft> {
+    const criteriaSection = criteria.length > 0
+      ? `
+        <criteria_breakdown>
+        ${formatCriteriaBreakdown([getCriteriaBreakdown(option, criteria)])}
+        </criteria_breakdown>
+        `
+      : "";
+    const system = decisionSystemPrompt();
+    const res = await this.callModel({
+      model: getModel("report"),
+      abortSignal: signal,
+      maxRetries: 0,
+      system,
+      prompt: this.treePrompt("report", system, option, tree => `Write the report section for one option of the following decision:
         
         <problem>${problem}</problem>
         
-        <decision_tree>${JSON.stringify(decisionTree, null, 2)}</decision_tree>
+        <option>${option.description}</option>
+        
+        <option_subtree>${tree}</option_subtree>
         
         <insights>
         ${insights.join("\n")}
         </insights>
         
-        Create a comprehensive report that follows the following structure:
-        
-        1. Executive Summary - brief overview of the decision problem and main insights
-        2. Decision Context - more detailed explanation of the decision problem and relevant context
-        3. Analysis Methodology - brief explanation of the approach used to analyze the decision
-        4. Key Options:
-           - For each major option from the decision tree, create a subsection with:
-             - Description of the option
-             - Risk and opportunity assessment
-             - Key potential outcomes
-             - Insights specific to this option
-        5. Comparative Analysis - compare the options based on risk, opportunity, and outcomes
-        6. Key Insights - list all the key insights from the analysis
-        7. Recommendations - provide clear recommendations based on the analysis
-        
-        Use proper markdown formatting and structure.`),
-        schema: z.object({
-          report: z.string().describe("Complete markdown report for the decision analysis"),
-        }),
-      });
+        The expected value of this option, computed deterministically from its subtree, is ${option.expectedValue ?? "n/a"}${option.optimal ? " and it is the option with the highest expected value" : ""}. Do not invent different numbers.
+        ${criteriaSection}
+        Write a description of the option, an assessment of its risks and of its opportunities, its key potential outcomes, and the insights that are specific to it. Write plain paragraphs without markdown headings.`),
+      schema: z.object({
+        summary: z.string().describe("Description of the option"),
+        riskAssessment: z.string().describe("Assessment of the risks of the option"),
+        opportunityAssessment: z.string().describe("Assessment of the opportunities of the option"),
+        keyOutcomes: z.array(z.string()).describe("Key potential outcomes of the option"),
+        insights: z.array(z.string()).describe("Insights specific to the option"),
+      }),
+    }, req => generateObject(req), { stage: "report", nodeId: option.id, usage });
 
-      return res.object.report;
-    } catch (error) {
-      warn("Error generating decision report:", error);
-      return `# Decision Analysis Report\n\nError generating report: ${error}`;
-    }
+    return { optionId: option.id, ...res.object };
   }
 
   /**
-   * 提取关键见解
-   * Extract key insights
+   * 根据选项章节生成报告的汇总部分：标题、摘要、背景、方法、比较和建议（reduce 步骤）
+   * Write the summary parts of the report from the option sections: title, summary, context, methodology,
+   * comparison and recommendations (reduce step)
    *
    * @param {object} params - 参数对象
    * @param {string} params.problem - 决策问题
-   * @param {DecisionNode} params.decisionTree - 决策树
-   * @returns {Promise<string[]>} 关键见解列表
+   * @param {DecisionNode} params.decisionTree - 已回溯的决策树
+   * @param {ReportOptionDraft[]} params.options - 选项章节
+   * @param {string[]} params.insights - 关键见解
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {SensitivityAnalysis} params.sensitivity - 敏感性分析结果
+   * @param {StakeholderAnalysis} params.stakeholders - 利益相关者分析结果
+   * @param {DecisionCritique} params.critique - 批判审查结果
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @param {Function} params.onSummary - 流式生成的回调，参数为已生成的内容和已完成的字段；提供时以流式方式生成
+   * @returns {Promise<ReportSummary>} 汇总部分
    */
-  private async extractKeyInsights({
+  private async generateReportSummary({
     problem,
     decisionTree,
+    options,
+    insights,
+    criteria,
+    sensitivity,
+    stakeholders,
+    critique,
+    signal,
+    usage,
+    onSummary,
   }: {
     problem: string;
     decisionTree: DecisionNode;
-  }): Promise<string[]> {
-    try {
-      const res = await generateObject({
-        model: getModel(),
-        system: decisionSystemPrompt(),
-        prompt: trimPrompt(`Based on the following decision problem and analysis, extract 5-8 key insights that emerge from the analysis.
+    options: ReportOptionDraft[];
+    insights: string[];
+    criteria: DecisionCriterion[];
+    sensitivity: SensitivityAnalysis;
+    stakeholders?: StakeholderAnalysis;
+    critique?: DecisionCritique;
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+    onSummary?: (summary: Partial<ReportSummary>, completed: (keyof ReportDraft)[]) => void;
+  }): Promise<ReportSummary> {
+    const scoringMethod = criteria.length > 0
+      ? "outcome scores = weighted utility (0-1) across the evaluation criteria"
+      : "outcome scores = opportunity - risk";
+    const criteriaSection = criteria.length > 0
+      ? `
+        <criteria_breakdown>
+        ${formatCriteriaBreakdown(decisionTree.children.map(option => getCriteriaBreakdown(option, criteria)))}
+        </criteria_breakdown>
+        `
+      : "";
+    const stakeholderSection = stakeholders
+      ? `
+        <stakeholders>
+        ${formatStakeholderSummary(stakeholders)}
+        </stakeholders>
+        
+        Every stakeholder scored the options from their own priorities. Take the options they prefer and where their interests diverge into account in the comparison and recommendations; a section with their scores is added to the report automatically.
+        `
+      : "";
+    const critiqueSection = critique
+      ? `
+        <critique>
+        ${formatCritiqueSummary(critique)}
+        </critique>
+        
+        A devil's-advocate review raised the issues above. Temper the confidence of the comparison and recommendations where they apply; a section listing them is added to the report automatically.
+        `
+      : "";
+    const optionSummaries = decisionTree.children.map((option, i) => {
+      const section = options[i];
+      return `<option>
+        ${option.description} (expected value ${option.expectedValue ?? "n/a"}${option.optimal ? ", optimal" : ""})
+        ${section?.summary ?? ""}
+        Risks: ${section?.riskAssessment ?? ""}
+        Opportunities: ${section?.opportunityAssessment ?? ""}
+        Key outcomes: ${section?.keyOutcomes.join("; ") ?? ""}
+        </option>`;
+    }).join("\n");
+
+    const request = {
+      model: getModel("report"),
+      abortSignal: signal,
+      maxRetries: 0,
+      system: decisionSystemPrompt(),
+      prompt: `Write the summary parts of the report for the following decision analysis. The section of every option has already been written from its subtree:
         
         <problem>${problem}</problem>
         
-        <decision_tree>${JSON.stringify(decisionTree, null, 2)}</decision_tree>
+        ${optionSummaries}
         
-        An insight should be a meaningful observation about the decision that isn't immediately obvious, such as:
-        - Patterns across different options
-        - Hidden risks or opportunities
-        - Critical dependencies or factors
-        - Counter-intuitive findings
-        - Strategic implications
+        <insights>
+        ${insights.join("\n")}
+        </insights>
         
-        Each insight should be expressed as a clear, concise statement (1-2 sentences).`),
-        schema: z.object({
-          insights: z.array(z.string().describe("A key insight from the decision analysis")).describe("List of 5-8 key insights extracted from the decision analysis"),
-        }),
-      });
+        <expected_values>
+        ${formatExpectedValueSummary(decisionTree)}
+        </expected_values>
+        
+        The expected values above were computed deterministically from the tree (${scoringMethod}, probability-weighted at chance nodes, maximized at decision nodes). Use them as the quantitative basis for the comparison and recommendations, and do not invent different numbers.
+        
+        <sensitivity_thresholds>
+        ${formatSensitivitySummary(sensitivity)}
+        </sensitivity_thresholds>
+        
+        These thresholds show which estimates would change the preferred option. Mention the closest ones in the recommendations as the assumptions to verify first.
+        ${criteriaSection}${stakeholderSection}${critiqueSection}
+        Fill in every field:
+        
+        - title: a short title for the decision
+        - executiveSummary: brief overview of the decision problem and main insights
+        - context: more detailed explanation of the decision problem and relevant context
+        - methodology: brief explanation of the approach used to analyze the decision
+        - comparison: compare the options based on risk, opportunity, outcomes and their computed expected values
+        - recommendations: clear recommendations based on the analysis, each with its rationale and your confidence in it
+        
+        A comparison table with the numbers, the key insights, a sensitivity analysis section and a diagram of the decision tree are added to the report automatically, so do not write them yourself. Write plain paragraphs without markdown headings.`,
+      schema: z.object({
+        title: z.string().describe("Short title of the report"),
+        executiveSummary: z.string().describe("Brief overview of the decision problem and main insights"),
+        context: z.string().describe("Detailed explanation of the decision problem and relevant context"),
+        methodology: z.string().describe("Brief explanation of the analysis approach"),
+        comparison: z.string().describe("Comparative analysis of the options"),
+        recommendations: z.array(z.object({
+          recommendation: z.string().describe("Recommended action"),
+          rationale: z.string().describe("Why the action is recommended"),
+          confidence: z.enum(["low", "medium", "high"]).describe("Confidence in the recommendation"),
+        })).describe("Recommendations based on the analysis"),
+      }),
+    };
+
+    const context = { stage: "report", nodeId: decisionTree.id, usage } as const;
+    if (!onSummary) {
+      const res = await this.callModel(request, req => generateObject(req), context);
+      return res.object;
+    }
+
+    // 选项章节已经完成；汇总字段在下一个字段出现后才算完成
+    const fields = Object.keys(request.schema.shape) as (keyof ReportSummary)[];
+    const res = await this.callModel(request, async (req) => {
+      const stream = streamObject(req);
+      for await (const partial of stream.partialObjectStream) {
+        const completed = fields.filter((_, i) => fields.slice(i + 1).some(next => partial[next] !== undefined));
+        onSummary(Object.fromEntries(completed.map(field => [field, partial[field]])), ["options", ...completed]);
+      }
+      const object = await stream.object;
+      onSummary(object, REPORT_DRAFT_FIELDS);
+      return {
+        object,
+        usage: await stream.usage,
+        providerMetadata: await stream.providerMetadata,
+        response: await stream.response,
+      };
+    }, context);
+    return res.object;
+  }
+
+  /**
+   * 提取关键见解
+   * Extract key insights
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题
+   * @param {DecisionNode} params.decisionTree - 决策树
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<string[]>} 关键见解列表
+   */
+  private async extractKeyInsights({
+    problem,
+    decisionTree,
+    signal,
+    usage,
+  }: {
+    problem: string;
+    decisionTree: DecisionNode;
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<string[]> {
+    try {
+      const system = decisionSystemPrompt();
+      const res = await this.callModel({
+        model: getModel("insights"),
+        abortSignal: signal,
+        maxRetries: 0,
+        system,
+        prompt: this.treePrompt("insights", system, decisionTree, tree => `Based on the following decision problem and analysis, extract 5-8 key insights that emerge from the analysis.
+        
+        <problem>${problem}</problem>
+        
+        <decision_tree>${tree}</decision_tree>
+        
+        An insight should be a meaningful observation about the decision that isn't immediately obvious, such as:
+        - Patterns across different options
+        - Hidden risks or opportunities
+        - Critical dependencies or factors
+        - Counter-intuitive findings
+        - Strategic implications
+        
+        Each insight should be expressed as a clear, concise statement (1-2 sentences).`),
+        schema: z.object({
+          insights: z.array(z.string().describe("A key insight from the decision analysis")).describe("List of 5-8 key insights extracted from the decision analysis"),
+        }),
+      }, request => generateObject(request), { stage: "insights", nodeId: decisionTree.id, usage });
 
       info(`Generated ${res.object.insights.length} key insights`);
       return res.object.insights;
     } catch (error) {
+      signal?.throwIfAborted();
       warn("Error extracting key insights:", error);
       return ["Unable to extract insights due to an error."];
     }
   }
 
+  /**
+   * 以唱反调的角度审查决策树（偏差审计）：找出缺失的选项、过度自信的概率、锚定效应、被忽略的利益相关者和
+   * 不现实的最佳结果
+   * Review the decision tree as a devil's advocate (bias audit): find missing options, overconfident probabilities,
+   * anchoring, omitted stakeholders and unrealistic best-case outcomes
+   *
+   * 压缩后的决策树提示词不含节点ID，因此模型用节点描述指出问题所在，再由代码关联到节点ID
+   * The compressed tree prompt has no node IDs, so the model names the node by its description and code links it
+   * to the node ID
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题
+   * @param {DecisionNode} params.decisionTree - 已回溯的决策树
+   * @param {string[]} params.insights - 关键见解
+   * @param {StakeholderPersona[]} params.stakeholders - 利益相关者角色
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<CritiqueItem[] | undefined>} 按严重程度排序的问题，审查失败时返回 undefined
+   */
+  private async critiqueDecisionTree({
+    problem,
+    decisionTree,
+    insights,
+    stakeholders = [],
+    signal,
+    usage,
+  }: {
+    problem: string;
+    decisionTree: DecisionNode;
+    insights: string[];
+    stakeholders?: StakeholderPersona[];
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<CritiqueItem[] | undefined> {
+    const stakeholderSection = stakeholders.length > 0
+      ? `
+        The following stakeholders were named by the user: ${stakeholders.map(stakeholder => stakeholder.name).join(", ")}. Only flag parties that are missing from this list as well.
+        `
+      : "";
+
+    try {
+      const system = decisionSystemPrompt();
+      const res = await this.callModel({
+        model: getModel("critique"),
+        abortSignal: signal,
+        maxRetries: 0,
+        system,
+        prompt: this.treePrompt("critique", system, decisionTree, tree => `Act as a devil's advocate and audit the following decision analysis for biases and blind spots:
+        
+        <problem>${problem}</problem>
+        
+        <decision_tree>${tree}</decision_tree>
+        
+        <insights>
+        ${insights.join("\n")}
+        </insights>
+        
+        Look for the following kinds of issues:
+        ${formatCritiqueCategories()}
+        ${stakeholderSection}
+        For every issue, name the node it is about by copying its description exactly as it appears in the tree (use the problem itself for issues with the whole tree), rate how much it could change the decision, and suggest how to fix it. Only report real issues; an empty list is a valid answer.`),
+        schema: z.object({
+          items: z.array(z.object({
+            category: z.enum(Object.keys(CRITIQUE_CATEGORIES) as [CritiqueCategory, ...CritiqueCategory[]]).describe("Kind of issue"),
+            severity: z.enum(["low", "medium", "high"]).describe("How much the issue could change the decision"),
+            node: z.string().describe("Exact description of the node the issue is about"),
+            issue: z.string().describe("What is wrong, in one or two sentences"),
+            suggestion: z.string().describe("How to fix it, in one sentence"),
+          })).max(10).describe("Issues found in the analysis"),
+        }),
+      }, request => generateObject(request), { stage: "critique", nodeId: decisionTree.id, usage });
+
+      const items = linkCritiqueItems(decisionTree, res.object.items);
+      info(`Critique found ${items.length} issues (${items.filter(item => item.severity === "high").length} high severity)`);
+      return items;
+    } catch (error) {
+      signal?.throwIfAborted();
+      warn("Error critiquing the decision tree:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 根据批判审查的意见重新生成被指出问题的节点的子树（保持原有高度），失败时保留原有子树
+   * Regenerate the subtrees of the flagged nodes with the critique as guidance (keeping their height),
+   * leaving a subtree unchanged when its regeneration fails
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题
+   * @param {DecisionNode} params.decisionTree - 决策树
+   * @param {CritiqueItem[]} params.items - 批判审查发现的问题（重新展开后会被标记）
+   * @param {number} params.breadth - 展开广度
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<string[]>} 重新展开的节点ID
+   */
+  private async reexpandCriticizedNodes({
+    problem,
+    decisionTree,
+    items,
+    breadth,
+    criteria,
+    signal,
+    usage,
+  }: {
+    problem: string;
+    decisionTree: DecisionNode;
+    items: CritiqueItem[];
+    breadth: number;
+    criteria: DecisionCriterion[];
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<string[]> {
+    const targets = selectReexpansionTargets(decisionTree, items, ENV.DECISION.CRITIQUE_MAX_REEXPANSIONS);
+    const reexpanded = await Promise.all(targets.map(async (node) => {
+      const path = requireNodePath(decisionTree, node.id);
+      const height = getTreeHeight(node);
+      // 节点及其子树中的问题都由这次重新展开处理
+      const nodeItems = items.filter(item => findNodePath(node, item.nodeId));
+      const hint = nodeItems.map(item => `${item.issue} ${item.suggestion}`).join(" ");
+
+      try {
+        const children = await this.generateConsequences({
+          node,
+          breadth,
+          problem,
+          path: path.slice(0, -1),
+          criteria,
+          hint,
+          signal,
+          usage,
+        });
+        // 保持子树原有的高度
+        const expanded = height > 1
+          ? await Promise.all(children.map(child => this.analyzeDecisionTree({
+            node: child,
+            maxDepth: height - 1,
+            problem,
+            path,
+            totalBranches: this.calculateTotalBranches(child, 0, height - 1, breadth),
+            completedBranches: { value: 0 },
+            breadth,
+            criteria,
+            signal,
+            usage,
+          })))
+          : children;
+
+        node.children = expanded;
+        delete node.warnings;
+        await this.repairNodeProbabilities({ node, problem, path, signal, usage });
+        addNodeWarning(node, `Re-expanded after the critique: ${nodeItems.map(item => item.issue).join("; ")}`);
+        nodeItems.forEach((item) => {
+          item.reexpanded = true;
+        });
+        info(`Re-expanded node "${node.description}" after the critique with ${node.children.length} consequences`);
+        return node.id;
+      } catch (error) {
+        signal?.throwIfAborted();
+        warn(`Error re-expanding node ${node.description} after the critique:`, error);
+        return undefined;
+      }
+    }));
+
+    return reexpanded.filter(id => id !== undefined);
+  }
+
+  /**
+   * 从各利益相关者的角度为顶层选项及其关键结果评分，并计算一致度矩阵和分歧
+   * Score the top-level options and their key outcomes from the point of view of every stakeholder, then compute
+   * the agreement matrix and the divergences
+   *
+   * 每个角色单独调用一次模型，彼此互不可见；评分失败的角色会被跳过
+   * Every persona is scored in a separate model call without seeing the others; personas whose scoring fails
+   * are skipped
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题
+   * @param {DecisionNode} params.decisionTree - 决策树
+   * @param {StakeholderPersona[]} params.stakeholders - 利益相关者角色
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<StakeholderAnalysis>} 利益相关者分析结果
+   */
+  private async analyzeStakeholders({
+    problem,
+    decisionTree,
+    stakeholders,
+    signal,
+    usage,
+  }: {
+    problem: string;
+    decisionTree: DecisionNode;
+    stakeholders: StakeholderPersona[];
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<StakeholderAnalysis> {
+    const items = listStakeholderItems(decisionTree);
+    const assessments = await Promise.all(stakeholders.map(async (stakeholder) => {
+      try {
+        return await this.assessStakeholder({ problem, items, stakeholder, signal, usage });
+      } catch (error) {
+        signal?.throwIfAborted();
+        warn(`Error scoring the options for stakeholder ${stakeholder.name}:`, error);
+        return undefined;
+      }
+    }));
+
+    const analysis = buildStakeholderAnalysis(stakeholders, assessments.filter(assessment => assessment !== undefined));
+    info(`Scored ${items.length} options and outcomes for ${analysis.assessments.length} stakeholders, found ${analysis.divergences.length} divergences`);
+    return analysis;
+  }
+
+  /**
+   * 从单个利益相关者的角度为选项和关键结果评分
+   * Score the options and key outcomes from the point of view of a single stakeholder
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题
+   * @param {StakeholderItem[]} params.items - 评分项
+   * @param {StakeholderPersona} params.stakeholder - 利益相关者角色
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {UsageTracker} params.usage - 用量记录器
+   * @returns {Promise<StakeholderAssessment>} 该角色的评估
+   */
+  private async assessStakeholder({
+    problem,
+    items,
+    stakeholder,
+    signal,
+    usage,
+  }: {
+    problem: string;
+    items: StakeholderItem[];
+    stakeholder: StakeholderPersona;
+    signal?: AbortSignal;
+    usage?: UsageTracker;
+  }): Promise<StakeholderAssessment> {
+    const priorities = stakeholder.priorities.length > 0
+      ? stakeholder.priorities.map((priority, i) => `${i + 1}. ${priority}`).join("\n")
+      : "Infer the priorities from the role.";
+    const res = await this.callModel({
+      model: getModel("stakeholders"),
+      abortSignal: signal,
+      maxRetries: 0,
+      system: decisionSystemPrompt(),
+      prompt: `Take the perspective of the following stakeholder of a decision and score its options and their key outcomes from their point of view only:
+        
+        <problem>${problem}</problem>
+        
+        <stakeholder>${stakeholder.name}${stakeholder.description ? ` (${stakeholder.description})` : ""}</stakeholder>
+        
+        <priorities>
+        ${priorities}
+        </priorities>
+        
+        <options>
+        ${formatStakeholderItems(items)}
+        </options>
+        
+        Score every option and outcome from 0 (worst for this stakeholder) to 10 (best for this stakeholder), judging it only by the stakeholder's priorities, and explain each score in one sentence. Ignore what would be best for the other parties.`,
+      schema: z.object({
+        scores: z.object(Object.fromEntries(items.map(item => [item.key, z.object({
+          score: z.number().min(0).max(10).describe("Score from the stakeholder's point of view (0-10)"),
+          rationale: z.string().describe("One-sentence reason for the score"),
+        }).describe(item.node.description)]))).describe("Score of every option and outcome, keyed by its label"),
+      }),
+    }, request => generateObject(request), { stage: "stakeholders", usage });
+
+    const scores = items.flatMap(({ key, node, kind }) => {
+      const score = res.object.scores[key];
+      return score ? [{ nodeId: node.id, description: node.description, kind, score: score.score, rationale: score.rationale }] : [];
+    });
+    const preferred = scores.filter(score => score.kind === "option")
+      .reduce<typeof scores[number] | undefined>((best, score) => !best || score.score > best.score ? score : best, undefined);
+
+    return {
+      stakeholder: stakeholder.name,
+      scores,
+      ...(preferred && { preferredOption: { id: preferred.nodeId, description: preferred.description } }),
+    };
+  }
+
   /**
    * 计算总分支数
    * Calculate total branches
@@ -487,6 +1676,139 @@ export class DecisionService {
     return 1 + breadth * breadth ** (maxDepth - depth - 1);
   }
 
+  /**
+   * 在运行前预估决策分析的调用次数、令牌数、费用与耗时，并检查是否超出配置的上限
+   * Estimate the calls, tokens, cost and wall time of a decision analysis before running it, and check it against the configured ceiling
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题（含跟进问答）
+   * @param {number} params.depth - 分析深度
+   * @param {number} params.breadth - 分析广度
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {StakeholderPersona[]} params.stakeholders - 利益相关者角色
+   * @param {CritiqueMode} params.critique - 批判审查方式
+   * @param {ExpansionStrategy} params.strategy - 展开策略
+   * @param {number} params.budget - best-first 策略的节点展开预算
+   * @returns {AnalysisEstimate} 预估结果，exceeded 不为空时分析会被拒绝
+   */
+  public estimateAnalysis({
+    problem,
+    depth,
+    breadth = 4,
+    criteria = [],
+    stakeholders = [],
+    critique = ENV.DECISION.CRITIQUE,
+    strategy = ENV.DECISION.DEFAULT_STRATEGY,
+    budget = ENV.DECISION.DEFAULT_BUDGET,
+  }: {
+    problem: string;
+    depth: number;
+    breadth?: number;
+    criteria?: DecisionCriterion[];
+    stakeholders?: StakeholderPersona[];
+    critique?: CritiqueMode;
+    strategy?: ExpansionStrategy;
+    budget?: number;
+  }): AnalysisEstimate {
+    return estimateAnalysis({
+      depth,
+      breadth,
+      strategy,
+      budget,
+      criteriaCount: criteria.length,
+      stakeholderCount: stakeholders.length,
+      critique,
+      maxReexpansions: ENV.DECISION.CRITIQUE_MAX_REEXPANSIONS,
+      ...this.estimateSettings(problem),
+    });
+  }
+
+  /**
+   * 预估所需的运行环境：提示词令牌数、模型、价格、限流与上限配置
+   * Runtime settings needed for an estimate: prompt tokens, models, prices, rate limits and the ceiling
+   *
+   * @param {string} problem - 决策问题（含跟进问答）
+   * @returns {EstimateSettings} 预估参数中与分析规模无关的部分
+   */
+  private estimateSettings(problem: string): EstimateSettings {
+    return {
+      repair: ENV.DECISION.PROBABILITY_REPAIR,
+      baseTokens: countTokens(`${decisionSystemPrompt()}\n${problem}`, "expansion"),
+      contextSize: ENV.MODEL.CONTEXT_SIZE,
+      modelIds: Object.fromEntries(MODEL_STAGES.map(stage => [stage, getModelId(stage)])),
+      prices: getPriceTable(),
+      concurrency: ENV.LLM.CONCURRENCY,
+      requestsPerMinute: ENV.LLM.REQUESTS_PER_MINUTE,
+      tokensPerMinute: ENV.LLM.TOKENS_PER_MINUTE,
+      callLatencyMs: ENV.ESTIMATE.CALL_LATENCY_MS,
+      tokensPerSecond: ENV.ESTIMATE.TOKENS_PER_SECOND,
+      ceiling: {
+        maxCalls: ENV.ESTIMATE.MAX_CALLS,
+        maxTokens: ENV.ESTIMATE.MAX_TOKENS,
+        maxCost: ENV.ESTIMATE.MAX_COST,
+      },
+    };
+  }
+
+  /**
+   * 校验展开层数和广度（1 到 10 之间的整数，与新分析的限制相同）
+   * Validate the expansion levels and breadth (integers between 1 and 10, the same limits as a new analysis)
+   *
+   * @param {object} params - 参数对象
+   * @param {number} params.levels - 展开层数
+   * @param {number} params.breadth - 展开广度，未指定时使用会话的分析参数
+   * @throws {InvalidTreeOperationError} 超出范围时
+   */
+  private assertValidEditSize({ levels = 1, breadth }: { levels?: number; breadth?: number }): void {
+    if (!Number.isInteger(levels) || levels < 1 || levels > 10) {
+      throw new InvalidTreeOperationError("levels must be an integer between 1 and 10");
+    }
+    if (breadth !== undefined && (!Number.isInteger(breadth) || breadth < 1 || breadth > 10)) {
+      throw new InvalidTreeOperationError("breadth must be an integer between 1 and 10");
+    }
+  }
+
+  /**
+   * 展开或重新生成节点前预估所需的调用，超出配置的上限时拒绝修改
+   * Estimate the calls needed to expand or regenerate a node, refusing the change when it exceeds the configured ceiling
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.problem - 决策问题（含跟进问答）
+   * @param {number} params.pathLength - 叶子节点路径上的节点数
+   * @param {number} params.leaves - 需要展开的叶子节点数
+   * @param {number} params.levels - 每个叶子节点向下展开的层数
+   * @param {number} params.breadth - 展开广度
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @throws {AnalysisTooLargeError} 预估规模超出配置的上限时
+   */
+  private assertTreeEditWithinCeiling({
+    problem,
+    pathLength,
+    leaves,
+    levels,
+    breadth,
+    criteria,
+  }: {
+    problem: string;
+    pathLength: number;
+    leaves: number;
+    levels: number;
+    breadth: number;
+    criteria: DecisionCriterion[];
+  }): void {
+    const estimate = estimateTreeEdit({
+      leaves,
+      levels,
+      pathLength,
+      breadth,
+      criteriaCount: criteria.length,
+      ...this.estimateSettings(problem),
+    });
+    if (estimate.exceeded.length > 0) {
+      throw new AnalysisTooLargeError(estimate);
+    }
+  }
+
   /**
    * 分析决策
    * Analyze decision
@@ -496,52 +1818,569 @@ export class DecisionService {
    * @param {number} params.depth - 分析深度
    * @param {number} params.breadth - 分析广度
    * @param {Function} params.onProgress - 进度回调
-   * @returns {Promise<DecisionResult>} 决策分析结果
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {StakeholderPersona[]} params.stakeholders - 利益相关者角色，提供时每个角色分别为顶层选项和关键结果评分
+   * @param {CritiqueMode} params.critique - 批判审查方式，reexpand 时重新展开被指出问题的节点后再计算期望值和见解
+   * @param {AbortSignal} params.signal - 取消信号，中止时所有进行中的LLM调用都会被取消
+   * @param {Function} params.onNodeExpanded - 节点展开完成回调
+   * @param {Function} params.onInsights - 关键见解生成完成回调
+   * @param {ExpansionStrategy} params.strategy - 展开策略，best-first 时 depth 作为最大深度
+   * @param {number} params.budget - best-first 策略的节点展开预算（LLM调用次数，不含初始选项、见解和报告）
+   * @param {ExpansionPriority} params.priority - best-first 策略的节点优先级
+   * @param {UsageTracker} params.usage - 用量记录器，传入后可以继续记录报告等后续调用的用量
+   * @returns {Promise<DecisionResult>} 决策分析结果（含本次分析的用量汇总）
+   * @throws {AnalysisTooLargeError} 预估规模超出配置的上限时
    */
   public async analyzeDecision({
     problem,
     depth,
     breadth = 4,
     onProgress,
+    criteria: rawCriteria = [],
+    stakeholders: rawStakeholders = [],
+    critique = ENV.DECISION.CRITIQUE,
+    signal,
+    onNodeExpanded,
+    onInsights,
+    strategy = ENV.DECISION.DEFAULT_STRATEGY,
+    budget = ENV.DECISION.DEFAULT_BUDGET,
+    priority = ENV.DECISION.DEFAULT_PRIORITY,
+    usage = new UsageTracker(),
   }: {
     problem: string;
     depth: number;
     breadth?: number;
     onProgress?: (progress: DecisionProgress) => void;
+    criteria?: DecisionCriterion[];
+    stakeholders?: StakeholderPersona[];
+    critique?: CritiqueMode;
+    signal?: AbortSignal;
+    onNodeExpanded?: (node: DecisionNode) => void;
+    onInsights?: (insights: string[]) => void;
+    strategy?: ExpansionStrategy;
+    budget?: number;
+    priority?: ExpansionPriority;
+    usage?: UsageTracker;
   }): Promise<DecisionResult> {
+    const criteria = normalizeCriteria(rawCriteria);
+    const stakeholders = normalizeStakeholders(rawStakeholders);
+
+    // 预估规模超出上限时拒绝运行
+    const estimate = this.estimateAnalysis({ problem, depth, breadth, criteria, stakeholders, critique, strategy, budget });
+    if (estimate.exceeded.length > 0) {
+      throw new AnalysisTooLargeError(estimate);
+    }
+
     // 生成初始决策树
     const initialTree = await this.generateInitialDecisionTree({
       problem,
       breadth,
+      criteria,
+      signal,
+      usage,
     });
 
-    // 计算总分支数
-    const totalBranches = this.calculateTotalBranches(initialTree, 0, depth, breadth);
-    const completedBranches = { value: 0 };
-
     // 分析决策树
-    const decisionTree = await this.analyzeDecisionTree({
-      node: initialTree,
-      maxDepth: depth,
-      problem,
-      onProgress,
-      totalBranches,
-      completedBranches,
-      breadth,
-    });
+    const decisionTree = strategy === "best-first"
+      ? await this.expandBestFirst({
+        tree: initialTree,
+        maxDepth: depth,
+        budget,
+        priority,
+        problem,
+        breadth,
+        criteria,
+        signal,
+        onProgress,
+        onNodeExpanded,
+        usage,
+      })
+      : await this.analyzeDecisionTree({
+        node: initialTree,
+        maxDepth: depth,
+        problem,
+        onProgress,
+        totalBranches: this.calculateTotalBranches(initialTree, 0, depth, breadth),
+        completedBranches: { value: 0 },
+        breadth,
+        criteria,
+        signal,
+        onNodeExpanded,
+        usage,
+      });
 
-    // 提取关键见解
-    const insights = await this.extractKeyInsights({
-      problem,
-      decisionTree,
-    });
+    // 回溯期望值并标记最优路径
+    let { expectedValue, optimalPath } = this.rollup(decisionTree, criteria);
+
+    // 提取关键见解并进行批判审查；重新展开节点后需要重新回溯期望值和提取见解
+    let critiqueResult: DecisionCritique | undefined;
+    const review = async (): Promise<string[]> => {
+      let keyInsights = await this.extractKeyInsights({ problem, decisionTree, signal, usage });
+      if (critique !== "off") {
+        const items = await this.critiqueDecisionTree({ problem, decisionTree, insights: keyInsights, stakeholders, signal, usage });
+        if (items) {
+          critiqueResult = { mode: critique, items, reexpanded: [] };
+        }
+        if (items && critique === "reexpand") {
+          critiqueResult!.reexpanded = await this.reexpandCriticizedNodes({ problem, decisionTree, items, breadth, criteria, signal, usage });
+          if (critiqueResult!.reexpanded.length > 0) {
+            ({ expectedValue, optimalPath } = this.rollup(decisionTree, criteria));
+            keyInsights = await this.extractKeyInsights({ problem, decisionTree, signal, usage });
+          }
+        }
+      }
+      onInsights?.(keyInsights);
+      return keyInsights;
+    };
+
+    // 由各利益相关者评分；重新展开节点时等决策树确定后再评分，否则与见解同时进行
+    const scoreStakeholders = (): Promise<StakeholderAnalysis | undefined> => stakeholders.length > 0
+      ? this.analyzeStakeholders({ problem, decisionTree, stakeholders, signal, usage })
+      : Promise.resolve(undefined);
+    const [insights, stakeholderAnalysis] = critique === "reexpand"
+      ? [await review(), await scoreStakeholders()]
+      : await Promise.all([review(), scoreStakeholders()]);
 
     return {
       decisionTree,
       insights,
+      expectedValue,
+      optimalPath,
+      ...(criteria.length > 0 && {
+        criteria,
+        criteriaBreakdown: decisionTree.children.map(option => getCriteriaBreakdown(option, criteria)),
+      }),
+      ...(stakeholderAnalysis && { stakeholders: stakeholderAnalysis }),
+      ...(critiqueResult && { critique: critiqueResult }),
+      usage: usage.summarize(),
     };
   }
 
+  /**
+   * 对决策树进行敏感性分析：找出影响最大的概率和评分，以及使首选选项改变的阈值
+   * Run a sensitivity analysis on a decision tree: find the most influential probabilities and scores,
+   * and the thresholds at which the preferred option changes
+   *
+   * @param {object} params - 参数对象
+   * @param {DecisionNode} params.decisionTree - 决策树
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {number} params.spread - 龙卷风图中参数变化的幅度（占参数范围的比例）
+   * @param {number} params.steps - 搜索阈值时将参数范围划分的步数
+   * @returns {SensitivityAnalysis} 敏感性分析结果
+   */
+  public analyzeSensitivity({
+    decisionTree,
+    criteria = [],
+    spread,
+    steps,
+  }: {
+    decisionTree: DecisionNode;
+    criteria?: DecisionCriterion[];
+  } & Omit<SensitivityOptions, "criteria">): SensitivityAnalysis {
+    return analyzeSensitivity(decisionTree, { criteria: normalizeCriteria(criteria), spread, steps });
+  }
+
+  /**
+   * 对决策树进行蒙特卡洛模拟：在不确定范围内抽样路径，得到每个顶层选项的结果分布、百分位数和遗憾概率
+   * Run a Monte Carlo simulation over a decision tree: sample paths within the uncertainty ranges to get the
+   * outcome distribution, percentiles and probability of regret of every top-level option
+   *
+   * @param {object} params - 参数对象
+   * @param {DecisionNode} params.decisionTree - 决策树
+   * @param {DecisionCriterion[]} params.criteria - 评估标准
+   * @param {number} params.iterations - 模拟次数
+   * @param {number | string} params.seed - 随机种子
+   * @returns {SimulationResult} 模拟结果
+   */
+  public simulateDecision({
+    decisionTree,
+    criteria = [],
+    iterations,
+    seed,
+  }: {
+    decisionTree: DecisionNode;
+    criteria?: DecisionCriterion[];
+  } & Omit<SimulationOptions, "criteria">): SimulationResult {
+    return simulateDecisionTree(decisionTree, { criteria: normalizeCriteria(criteria), iterations, seed });
+  }
+
+  /**
+   * 比较两次决策分析：按描述和路径匹配节点，找出新增、删除和变化的选项、节点和见解
+   * Compare two decision analyses: match nodes by description and path, and find the added, removed and changed
+   * options, nodes and insights
+   *
+   * @param {object} params - 参数对象
+   * @param {AnalysisSnapshot} params.before - 旧的分析
+   * @param {AnalysisSnapshot} params.after - 新的分析
+   * @returns {DecisionDiff} 差异
+   */
+  public compareDecisions({ before, after }: { before: AnalysisSnapshot; after: AnalysisSnapshot }): DecisionDiff {
+    return diffDecisionAnalyses(before, after);
+  }
+
+  /**
+   * 计算效用并回溯期望值
+   * Compute utilities and roll up expected values
+   *
+   * @param {DecisionNode} decisionTree - 决策树
+   * @param {DecisionCriterion[]} criteria - 评估标准（权重已归一化）
+   * @returns {RollupResult} 回溯结果
+   */
+  private rollup(decisionTree: DecisionNode, criteria: DecisionCriterion[]): RollupResult {
+    if (criteria.length === 0) {
+      return rollupDecisionTree(decisionTree);
+    }
+    applyCriteriaUtilities(decisionTree, criteria);
+    return rollupDecisionTree(decisionTree, { scorer: createUtilityScorer(criteria) });
+  }
+
+  /**
+   * 按会话依次执行决策树修改：同一会话的修改排队执行，不同会话的修改互不影响
+   * Run decision tree changes one at a time per session: changes to the same session are queued, other sessions are not affected
+   *
+   * @param {string} sessionId - 会话ID
+   * @param {Function} task - 修改任务
+   * @returns {Promise<T>} 任务结果
+   */
+  private queueTreeUpdate<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.treeUpdates.get(sessionId) ?? Promise.resolve();
+    // 前一个修改失败不影响后续修改
+    const current = previous.catch(() => undefined).then(task);
+    this.treeUpdates.set(sessionId, current);
+    void current.catch(() => undefined).then(() => {
+      if (this.treeUpdates.get(sessionId) === current) {
+        this.treeUpdates.delete(sessionId);
+      }
+    });
+    return current;
+  }
+
+  /**
+   * 加载会话中保存的决策树，应用修改后重新回溯期望值并保存
+   * Load the decision tree stored in a session, apply a change, then roll up expected values again and save it
+   *
+   * 同一会话的修改依次执行，每次修改都基于前一次保存的决策树，不会丢失并发的修改。保存的报告、关键见解、利益相关者评分和
+   * 批判审查描述的是修改前的决策树（可能引用已删除或重新生成的节点），因此会被清除。修改过程中调用模型的用量会累加到会话
+   * 已有的用量汇总中
+   * Changes to the same session run one after another, each on the tree saved by the previous one, so concurrent
+   * changes are not lost. The stored report, key insights, stakeholder scores and critique describe the tree before
+   * the change (and may point at nodes that were pruned or regenerated), so they are cleared. The usage of model calls
+   * made by the change is added to the usage summary stored with the session
+   *
+   * @param {string} sessionId - 会话ID
+   * @param {Function} change - 修改函数，可以直接修改决策树
+   * @returns {Promise<DecisionResult>} 更新后的分析结果
+   */
+  private updateStoredTree(
+    sessionId: string,
+    change: (context: {
+      decisionTree: DecisionNode;
+      problem: string;
+      criteria: DecisionCriterion[];
+      session: DecisionSession;
+      usage: UsageTracker;
+    }) => Promise<void> | void,
+  ): Promise<DecisionResult> {
+    return this.queueTreeUpdate(sessionId, async () => {
+      const repository = getSessionRepository();
+      const session = await repository.get(sessionId);
+      if (!session) {
+        throw new SessionNotFoundError(sessionId);
+      }
+      if (!session.result) {
+        throw new InvalidTreeOperationError(`Session ${sessionId} has no decision tree yet`);
+      }
+
+      const { decisionTree } = session.result;
+      const criteria = session.result.criteria ?? [];
+      const usage = new UsageTracker();
+      await change({
+        decisionTree,
+        problem: formatProblemWithFollowUp(session.problem, session.followUp),
+        criteria,
+        session,
+        usage,
+      });
+
+      // 重新标记依赖错误假设的子树（新生成的节点可能重复同样的假设）
+      flagFalseAssumptions(decisionTree, session.result.falseAssumptions ?? []);
+
+      // 树结构变化后重新回溯期望值并标记最优路径
+      const { expectedValue, optimalPath } = this.rollup(decisionTree, criteria);
+      const result: DecisionResult = {
+        ...session.result,
+        decisionTree,
+        insights: [],
+        stakeholders: undefined,
+        critique: undefined,
+        expectedValue,
+        optimalPath,
+        ...(criteria.length > 0 && {
+          criteriaBreakdown: decisionTree.children.map(option => getCriteriaBreakdown(option, criteria)),
+        }),
+        ...(usage.getRecords().length > 0 && { usage: mergeUsageSummaries(session.result.usage, usage.summarize()) }),
+      };
+
+      await repository.update(sessionId, { result, report: undefined, structuredReport: undefined });
+      return result;
+    });
+  }
+
+  /**
+   * 将已保存决策树中的节点继续向下展开若干层（节点已有子节点时展开其子树的所有叶子节点）
+   * Expand a node of a stored decision tree by more levels (when the node already has children, all leaves of its subtree are expanded)
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.sessionId - 会话ID
+   * @param {string} params.nodeId - 节点ID
+   * @param {number} params.levels - 继续展开的层数
+   * @param {number} params.breadth - 展开广度，默认使用会话的分析参数
+   * @param {AbortSignal} params.signal - 取消信号
+   * @param {Function} params.onNodeExpanded - 节点展开完成回调
+   * @returns {Promise<DecisionResult>} 更新后的分析结果
+   */
+  public async expandNode({
+    sessionId,
+    nodeId,
+    levels = 1,
+    breadth,
+    signal,
+    onNodeExpanded,
+  }: {
+    sessionId: string;
+    nodeId: string;
+    levels?: number;
+    breadth?: number;
+    signal?: AbortSignal;
+    onNodeExpanded?: (node: DecisionNode) => void;
+  }): Promise<DecisionResult> {
+    this.assertValidEditSize({ levels, breadth });
+
+    return this.updateStoredTree(sessionId, async ({ decisionTree, problem, criteria, session, usage }) => {
+      const path = requireNodePath(decisionTree, nodeId);
+      const width = breadth ?? session.parameters.breadth;
+      const leaves = getLeaves(path.at(-1)!);
+      this.assertTreeEditWithinCeiling({
+        problem,
+        pathLength: path.length + getTreeHeight(path.at(-1)!),
+        leaves: leaves.length,
+        levels,
+        breadth: width,
+        criteria,
+      });
+
+      for (const leaf of leaves) {
+        const leafPath = requireNodePath(decisionTree, leaf.id);
+        await this.analyzeDecisionTree({
+          node: leaf,
+          maxDepth: levels,
+          problem,
+          path: leafPath.slice(0, -1),
+          totalBranches: this.calculateTotalBranches(leaf, 0, levels, width),
+          completedBranches: { value: 0 },
+          breadth: width,
+          criteria,
+          signal,
+          onNodeExpanded,
+          usage,
+        });
+      }
+
+      info(`Expanded node ${nodeId} by ${levels} level(s)`);
+    });
+  }
+
+  /**
+   * 从已保存的决策树中删除节点及其子树
+   * Prune a node and its subtree from a stored decision tree
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.sessionId - 会话ID
+   * @param {string} params.nodeId - 节点ID
+   * @returns {Promise<DecisionResult>} 更新后的分析结果
+   */
+  public async pruneNode({
+    sessionId,
+    nodeId,
+  }: {
+    sessionId: string;
+    nodeId: string;
+  }): Promise<DecisionResult> {
+    return this.updateStoredTree(sessionId, ({ decisionTree }) => {
+      const removed = removeNode(decisionTree, nodeId);
+      info(`Pruned node "${removed.description}" (${countNodes(removed)} nodes)`);
+    });
+  }
+
+  /**
+   * 根据用户提示重新生成已保存决策树中某个节点的子节点（原有子树会被替换）
+   * Regenerate the children of a node in a stored decision tree from a user hint (the existing subtree is replaced)
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.sessionId - 会话ID
+   * @param {string} params.nodeId - 节点ID
+   * @param {string} params.hint - 用户提示
+   * @param {number} params.breadth - 展开广度，默认使用会话的分析参数
+   * @param {AbortSignal} params.signal - 取消信号
+   * @returns {Promise<DecisionResult>} 更新后的分析结果
+   */
+  public async regenerateNode({
+    sessionId,
+    nodeId,
+    hint,
+    breadth,
+    signal,
+  }: {
+    sessionId: string;
+    nodeId: string;
+    hint?: string;
+    breadth?: number;
+    signal?: AbortSignal;
+  }): Promise<DecisionResult> {
+    this.assertValidEditSize({ breadth });
+
+    return this.updateStoredTree(sessionId, async ({ decisionTree, problem, criteria, session, usage }) => {
+      const path = requireNodePath(decisionTree, nodeId);
+      const node = path.at(-1)!;
+      const width = breadth ?? session.parameters.breadth;
+      this.assertTreeEditWithinCeiling({ problem, pathLength: path.length, leaves: 1, levels: 1, breadth: width, criteria });
+
+      // 生成失败时直接抛出错误，保留原有子树
+      node.children = await this.generateConsequences({
+        node,
+        breadth: width,
+        problem,
+        path: path.slice(0, -1),
+        criteria,
+        hint,
+        signal,
+        usage,
+      });
+      delete node.warnings;
+      await this.repairNodeProbabilities({
+        node,
+        problem,
+        path,
+        signal,
+        usage,
+      });
+
+      info(`Regenerated node "${node.description}" with ${node.children.length} consequences`);
+    });
+  }
+
+  /**
+   * 在已保存的决策树中手动添加节点
+   * Manually add a node to a stored decision tree
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.sessionId - 会话ID
+   * @param {string} params.parentId - 父节点ID
+   * @param {DecisionNodeEdit} params.node - 节点内容（description 必填）
+   * @returns {Promise<{ node: DecisionNode; result: DecisionResult }>} 新节点与更新后的分析结果
+   */
+  public async addNode({
+    sessionId,
+    parentId,
+    node: fields,
+  }: {
+    sessionId: string;
+    parentId: string;
+    node: DecisionNodeEdit;
+  }): Promise<{ node: DecisionNode; result: DecisionResult }> {
+    if (!fields.description) {
+      throw new InvalidTreeOperationError("description is required");
+    }
+
+    const node: DecisionNode = {
+      id: uuidv4(),
+      description: fields.description,
+      type: fields.type ?? "outcome",
+      parentId,
+      children: [],
+    };
+    applyNodeEdit(node, fields);
+
+    const result = await this.updateStoredTree(sessionId, ({ decisionTree }) => {
+      const parent = requireNodePath(decisionTree, parentId).at(-1)!;
+      parent.children.push(node);
+      info(`Added node "${node.description}" under "${parent.description}"`);
+    });
+
+    return { node, result };
+  }
+
+  /**
+   * 手动编辑已保存决策树中的节点
+   * Manually edit a node of a stored decision tree
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.sessionId - 会话ID
+   * @param {string} params.nodeId - 节点ID
+   * @param {DecisionNodeEdit} params.changes - 修改内容
+   * @returns {Promise<DecisionResult>} 更新后的分析结果
+   */
+  public async updateNode({
+    sessionId,
+    nodeId,
+    changes,
+  }: {
+    sessionId: string;
+    nodeId: string;
+    changes: DecisionNodeEdit;
+  }): Promise<DecisionResult> {
+    assertValidNodeEdit(changes);
+
+    return this.updateStoredTree(sessionId, ({ decisionTree }) => {
+      const node = requireNodePath(decisionTree, nodeId).at(-1)!;
+      applyNodeEdit(node, changes);
+      info(`Updated node "${node.description}"`);
+    });
+  }
+
+  /**
+   * 汇总决策树中所有节点的假设
+   * Aggregate the assumptions of all the nodes of a decision tree
+   *
+   * @param {DecisionNode} decisionTree - 决策树
+   * @returns {AssumptionRegister} 假设登记表
+   */
+  public getAssumptionRegister(decisionTree: DecisionNode): AssumptionRegister {
+    return buildAssumptionRegister(decisionTree);
+  }
+
+  /**
+   * 将已保存决策树中的假设标记为错误（或恢复为未质疑），并标记受影响的子树
+   * Mark an assumption of a stored decision tree false (or open again), flagging the affected subtrees
+   *
+   * @param {object} params - 参数对象
+   * @param {string} params.sessionId - 会话ID
+   * @param {string} params.assumptionId - 假设ID
+   * @param {AssumptionStatus} params.status - 新状态
+   * @returns {Promise<DecisionResult>} 更新后的分析结果
+   * @throws {AssumptionNotFoundError} 决策树中没有节点提出该假设时
+   */
+  public async setAssumptionStatus({
+    sessionId,
+    assumptionId,
+    status,
+  }: {
+    sessionId: string;
+    assumptionId: string;
+    status: AssumptionStatus;
+  }): Promise<DecisionResult> {
+    return this.updateStoredTree(sessionId, ({ decisionTree, session }) => {
+      const entry = buildAssumptionRegister(decisionTree).assumptions.find(item => item.id === assumptionId);
+      if (!entry) {
+        throw new AssumptionNotFoundError(assumptionId);
+      }
+
+      const falseIds = (session.result!.falseAssumptions ?? []).filter(id => id !== assumptionId);
+      session.result!.falseAssumptions = status === "false" ? [...falseIds, assumptionId] : falseIds;
+      info(`Marked assumption "${entry.text}" as ${status}`);
+    });
+  }
+
   /**
    * 将决策树转换为JSON字符串
    * Convert decision tree to JSON string
@@ -574,11 +2413,17 @@ const decisionService = DecisionService.getInstance();
  * Generate decision feedback questions
  *
  * @param {object} params - 参数对象
+ * @param {string} params.problem - 决策问题
+ * @param {number} params.numQuestions - 问题数量
+ * @param {AbortSignal} params.signal - 取消信号
+ * @param {UsageTracker} params.usage - 用量记录器
  * @returns {Promise<string[]>} 问题列表
  */
 export function generateDecisionFeedback(params: {
   problem: string;
   numQuestions?: number;
+  signal?: AbortSignal;
+  usage?: UsageTracker;
 }): Promise<string[]> {
   return decisionService.generateDecisionFeedback(params);
 }
@@ -588,6 +2433,20 @@ export function generateDecisionFeedback(params: {
  * Analyze decision
  *
  * @param {object} params - 参数对象
+ * @param {string} params.problem - 决策问题
+ * @param {number} params.depth - 分析深度
+ * @param {number} params.breadth - 分析广度
+ * @param {Function} params.onProgress - 进度回调
+ * @param {DecisionCriterion[]} params.criteria - 评估标准
+ * @param {StakeholderPersona[]} params.stakeholders - 利益相关者角色，提供时每个角色分别为顶层选项和关键结果评分
+ * @param {CritiqueMode} params.critique - 批判审查方式，reexpand 时重新展开被指出问题的节点后再计算期望值和见解
+ * @param {AbortSignal} params.signal - 取消信号，中止时所有进行中的LLM调用都会被取消
+ * @param {Function} params.onNodeExpanded - 节点展开完成回调
+ * @param {Function} params.onInsights - 关键见解生成完成回调
+ * @param {ExpansionStrategy} params.strategy - 展开策略，best-first 时 depth 作为最大深度
+ * @param {number} params.budget - best-first 策略的节点展开预算（LLM调用次数，不含初始选项、见解和报告）
+ * @param {ExpansionPriority} params.priority - best-first 策略的节点优先级
+ * @param {UsageTracker} params.usage - 用量记录器，传入后可以继续记录报告等后续调用的用量
  * @returns {Promise<DecisionResult>} 决策分析结果
  */
 export function analyzeDecision(params: {
@@ -595,25 +2454,154 @@ export function analyzeDecision(params: {
   depth: number;
   breadth?: number;
   onProgress?: (progress: DecisionProgress) => void;
+  criteria?: DecisionCriterion[];
+  stakeholders?: StakeholderPersona[];
+  critique?: CritiqueMode;
+  signal?: AbortSignal;
+  onNodeExpanded?: (node: DecisionNode) => void;
+  onInsights?: (insights: string[]) => void;
+  strategy?: ExpansionStrategy;
+  budget?: number;
+  priority?: ExpansionPriority;
+  usage?: UsageTracker;
 }): Promise<DecisionResult> {
   return decisionService.analyzeDecision(params);
 }
 
 /**
- * 生成决策报告
- * Generate decision report
+ * 预估决策分析的规模
+ * Estimate the size of a decision analysis
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.problem - 决策问题（含跟进问答）
+ * @param {number} params.depth - 分析深度
+ * @param {number} params.breadth - 分析广度
+ * @param {DecisionCriterion[]} params.criteria - 评估标准
+ * @param {StakeholderPersona[]} params.stakeholders - 利益相关者角色
+ * @param {CritiqueMode} params.critique - 批判审查方式
+ * @param {ExpansionStrategy} params.strategy - 展开策略
+ * @param {number} params.budget - best-first 策略的节点展开预算
+ * @returns {AnalysisEstimate} 预估结果
+ */
+export function estimateDecisionAnalysis(params: {
+  problem: string;
+  depth: number;
+  breadth?: number;
+  criteria?: DecisionCriterion[];
+  stakeholders?: StakeholderPersona[];
+  critique?: CritiqueMode;
+  strategy?: ExpansionStrategy;
+  budget?: number;
+}): AnalysisEstimate {
+  return decisionService.estimateAnalysis(params);
+}
+
+/**
+ * 对决策树进行敏感性分析
+ * Run a sensitivity analysis on a decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {DecisionNode} params.decisionTree - 决策树
+ * @param {DecisionCriterion[]} params.criteria - 评估标准
+ * @param {number} params.spread - 龙卷风图中参数变化的幅度（占参数范围的比例）
+ * @param {number} params.steps - 搜索阈值时将参数范围划分的步数
+ * @returns {SensitivityAnalysis} 敏感性分析结果
+ */
+export function analyzeDecisionSensitivity(params: {
+  decisionTree: DecisionNode;
+  criteria?: DecisionCriterion[];
+  spread?: number;
+  steps?: number;
+}): SensitivityAnalysis {
+  return decisionService.analyzeSensitivity(params);
+}
+
+/**
+ * 对决策树进行蒙特卡洛模拟
+ * Run a Monte Carlo simulation over a decision tree
  *
  * @param {object} params - 参数对象
- * @returns {Promise<string>} 决策报告
+ * @param {DecisionNode} params.decisionTree - 决策树
+ * @param {DecisionCriterion[]} params.criteria - 评估标准
+ * @param {number} params.iterations - 模拟次数
+ * @param {number | string} params.seed - 随机种子
+ * @returns {SimulationResult} 模拟结果
+ */
+export function simulateDecision(params: {
+  decisionTree: DecisionNode;
+  criteria?: DecisionCriterion[];
+  iterations?: number;
+  seed?: number | string;
+}): SimulationResult {
+  return decisionService.simulateDecision(params);
+}
+
+/**
+ * 比较两次决策分析
+ * Compare two decision analyses
+ *
+ * @param {object} params - 参数对象
+ * @param {AnalysisSnapshot} params.before - 旧的分析
+ * @param {AnalysisSnapshot} params.after - 新的分析
+ * @returns {DecisionDiff} 差异
+ */
+export function compareDecisions(params: {
+  before: AnalysisSnapshot;
+  after: AnalysisSnapshot;
+}): DecisionDiff {
+  return decisionService.compareDecisions(params);
+}
+
+/**
+ * 生成结构化决策报告
+ * Generate a structured decision report
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.problem - 决策问题
+ * @param {DecisionNode} params.decisionTree - 决策树
+ * @param {string[]} params.insights - 关键见解
+ * @param {DecisionCriterion[]} params.criteria - 评估标准（权重已归一化）
+ * @param {StakeholderAnalysis} params.stakeholders - 利益相关者分析结果
+ * @param {DecisionCritique} params.critique - 批判审查结果
+ * @param {AbortSignal} params.signal - 取消信号
+ * @param {Function} params.onReportChunk - Markdown 报告章节的回调：每个选项的小节写完后立即回调（按完成顺序），提供时以流式方式生成汇总部分，其余章节按报告顺序在完成后回调
+ * @param {UsageTracker} params.usage - 用量记录器
+ * @returns {Promise<DecisionReport>} 结构化决策报告
  */
 export function generateDecisionReport(params: {
   problem: string;
   decisionTree: DecisionNode;
   insights: string[];
-}): Promise<string> {
+  criteria?: DecisionCriterion[];
+  stakeholders?: StakeholderAnalysis;
+  critique?: DecisionCritique;
+  signal?: AbortSignal;
+  onReportChunk?: (section: MarkdownSection) => void;
+  usage?: UsageTracker;
+}): Promise<DecisionReport> {
   return decisionService.generateDecisionReport(params);
 }
 
+/**
+ * 校验决策树概率
+ * Validate decision tree probabilities
+ *
+ * @param {DecisionNode} decisionTree - 决策树
+ * @param {object} options - 选项
+ * @param {"none" | "normalize" | "reprompt"} options.repair - 修复方式，none 表示只校验
+ * @param {string} options.problem - 决策问题（reprompt 模式需要）
+ * @returns {Promise<ProbabilityIssue[]>} 发现的问题
+ */
+export function validateDecisionTree(
+  decisionTree: DecisionNode,
+  options?: {
+    repair?: "none" | "normalize" | "reprompt";
+    problem?: string;
+  },
+): Promise<ProbabilityIssue[]> {
+  return decisionService.validateDecisionTree(decisionTree, options);
+}
+
 /**
  * 将决策树转换为JSON字符串
  * Convert decision tree to JSON string
@@ -635,3 +2623,130 @@ export function decisionTreeToJson(decisionTree: DecisionNode): string {
 export function jsonToDecisionTree(json: string): DecisionNode {
   return decisionService.jsonToDecisionTree(json);
 }
+
+/**
+ * 继续展开已保存决策树中的节点
+ * Expand a node of a stored decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.sessionId - 会话ID
+ * @param {string} params.nodeId - 节点ID
+ * @param {number} params.levels - 继续展开的层数
+ * @param {number} params.breadth - 展开广度，默认使用会话的分析参数
+ * @param {AbortSignal} params.signal - 取消信号
+ * @param {Function} params.onNodeExpanded - 节点展开完成回调
+ * @returns {Promise<DecisionResult>} 更新后的分析结果
+ */
+export function expandNode(params: {
+  sessionId: string;
+  nodeId: string;
+  levels?: number;
+  breadth?: number;
+  signal?: AbortSignal;
+  onNodeExpanded?: (node: DecisionNode) => void;
+}): Promise<DecisionResult> {
+  return decisionService.expandNode(params);
+}
+
+/**
+ * 删除已保存决策树中的子树
+ * Prune a subtree of a stored decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.sessionId - 会话ID
+ * @param {string} params.nodeId - 节点ID
+ * @returns {Promise<DecisionResult>} 更新后的分析结果
+ */
+export function pruneNode(params: {
+  sessionId: string;
+  nodeId: string;
+}): Promise<DecisionResult> {
+  return decisionService.pruneNode(params);
+}
+
+/**
+ * 重新生成已保存决策树中节点的子节点
+ * Regenerate the children of a node in a stored decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.sessionId - 会话ID
+ * @param {string} params.nodeId - 节点ID
+ * @param {string} params.hint - 用户提示
+ * @param {number} params.breadth - 展开广度，默认使用会话的分析参数
+ * @param {AbortSignal} params.signal - 取消信号
+ * @returns {Promise<DecisionResult>} 更新后的分析结果
+ */
+export function regenerateNode(params: {
+  sessionId: string;
+  nodeId: string;
+  hint?: string;
+  breadth?: number;
+  signal?: AbortSignal;
+}): Promise<DecisionResult> {
+  return decisionService.regenerateNode(params);
+}
+
+/**
+ * 在已保存的决策树中添加节点
+ * Add a node to a stored decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.sessionId - 会话ID
+ * @param {string} params.parentId - 父节点ID
+ * @param {DecisionNodeEdit} params.node - 节点内容（description 必填）
+ * @returns {Promise<{ node: DecisionNode; result: DecisionResult }>} 新节点与更新后的分析结果
+ */
+export function addNode(params: {
+  sessionId: string;
+  parentId: string;
+  node: DecisionNodeEdit;
+}): Promise<{ node: DecisionNode; result: DecisionResult }> {
+  return decisionService.addNode(params);
+}
+
+/**
+ * 编辑已保存决策树中的节点
+ * Edit a node of a stored decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.sessionId - 会话ID
+ * @param {string} params.nodeId - 节点ID
+ * @param {DecisionNodeEdit} params.changes - 修改内容
+ * @returns {Promise<DecisionResult>} 更新后的分析结果
+ */
+export function updateNode(params: {
+  sessionId: string;
+  nodeId: string;
+  changes: DecisionNodeEdit;
+}): Promise<DecisionResult> {
+  return decisionService.updateNode(params);
+}
+
+/**
+ * 汇总决策树中的假设
+ * Aggregate the assumptions of a decision tree
+ *
+ * @param {DecisionNode} decisionTree - 决策树
+ * @returns {AssumptionRegister} 假设登记表
+ */
+export function getAssumptionRegister(decisionTree: DecisionNode): AssumptionRegister {
+  return decisionService.getAssumptionRegister(decisionTree);
+}
+
+/**
+ * 设置已保存决策树中假设的状态
+ * Set the status of an assumption of a stored decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.sessionId - 会话ID
+ * @param {string} params.assumptionId - 假设ID
+ * @param {AssumptionStatus} params.status - 新状态
+ * @returns {Promise<DecisionResult>} 更新后的分析结果
+ */
+export function setAssumptionStatus(params: {
+  sessionId: string;
+  assumptionId: string;
+  status: AssumptionStatus;
+}): Promise<DecisionResult> {
+  return decisionService.setAssumptionStatus(params);
+}
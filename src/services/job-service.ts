@@ -0,0 +1,216 @@
+import type { AnalysisJob, AnalysisJobOutput, AnalysisJobUpdate, JobContext } from "../types/job";
+import { v4 as uuidv4 } from "uuid";
+import { ENV } from "../config/env";
+import { debug, info, warn } from "../utils/logger";
+
+/**
+ * 任务运行函数
+ * Job runner function
+ */
+export type AnalysisJobRunner = (context: JobContext) => Promise<AnalysisJobOutput>;
+
+/**
+ * 任务服务类（内存存储，结束的任务在保留期后清理）
+ * Job Service class (in-memory, finished jobs are purged after the retention period)
+ */
+export class JobService {
+  private static instance: JobService;
+  private jobs: Map<string, AnalysisJob>;
+  private controllers: Map<string, AbortController>;
+  private retentionMs: number;
+
+  /**
+   * 私有构造函数
+   * Private constructor
+   */
+  private constructor() {
+    this.jobs = new Map();
+    this.controllers = new Map();
+    this.retentionMs = ENV.JOBS.RETENTION_MS;
+
+    // 定期清理过期任务，不阻止进程退出
+    setInterval(() => this.purgeExpired(), Math.min(this.retentionMs, 60_000)).unref();
+
+    info("Job Service initialized");
+  }
+
+  /**
+   * 获取任务服务实例
+   * Get Job Service instance
+   *
+   * @returns {JobService} 任务服务实例
+   */
+  public static getInstance(): JobService {
+    if (!JobService.instance) {
+      JobService.instance = new JobService();
+    }
+    return JobService.instance;
+  }
+
+  /**
+   * 更新任务字段
+   * Update job fields
+   *
+   * @param {string} id - 任务ID
+   * @param {Partial<AnalysisJob>} patch - 更新内容
+   */
+  private patch(id: string, patch: Partial<AnalysisJob>): void {
+    const job = this.jobs.get(id);
+    if (job) {
+      Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * 运行任务
+   * Run a job
+   *
+   * @param {string} id - 任务ID
+   * @param {AnalysisJobRunner} runner - 任务运行函数
+   */
+  private async run(id: string, runner: AnalysisJobRunner): Promise<void> {
+    const controller = this.controllers.get(id);
+    if (!controller || controller.signal.aborted) {
+      return;
+    }
+
+    this.patch(id, { status: "running" });
+
+    try {
+      const { result, report } = await runner({
+        signal: controller.signal,
+        update: (update: AnalysisJobUpdate) => {
+          if (!controller.signal.aborted) {
+            this.patch(id, update);
+          }
+        },
+      });
+      if (!controller.signal.aborted) {
+        this.patch(id, { status: "succeeded", result, report, finishedAt: new Date().toISOString() });
+        info(`Job ${id} succeeded`);
+      }
+    } catch (err: unknown) {
+      if (!controller.signal.aborted) {
+        warn(`Job ${id} failed:`, err);
+        this.patch(id, {
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+          finishedAt: new Date().toISOString(),
+        });
+      }
+    } finally {
+      this.controllers.delete(id);
+    }
+  }
+
+  /**
+   * 提交任务，立即返回
+   * Submit a job, returning immediately
+   *
+   * @param {AnalysisJobRunner} runner - 任务运行函数
+   * @returns {AnalysisJob} 新建的任务
+   */
+  public submit(runner: AnalysisJobRunner): AnalysisJob {
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+      id: uuidv4(),
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, new AbortController());
+
+    setImmediate(() => {
+      void this.run(job.id, runner);
+    });
+
+    debug(`Submitted job ${job.id}`);
+    return { ...job };
+  }
+
+  /**
+   * 获取任务
+   * Get a job
+   *
+   * @param {string} id - 任务ID
+   * @returns {AnalysisJob | null} 任务，不存在时返回 null
+   */
+  public get(id: string): AnalysisJob | null {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  /**
+   * 取消任务，进行中的LLM调用会通过 AbortSignal 被中止
+   * Cancel a job; in-flight LLM calls are aborted through the AbortSignal
+   *
+   * @param {string} id - 任务ID
+   * @returns {AnalysisJob | null} 任务，不存在时返回 null
+   */
+  public cancel(id: string): AnalysisJob | null {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+
+    const controller = this.controllers.get(id);
+    if (controller && (job.status === "queued" || job.status === "running")) {
+      this.patch(id, { status: "cancelled", finishedAt: new Date().toISOString() });
+      controller.abort();
+      info(`Job ${id} cancelled`);
+    }
+    return { ...job };
+  }
+
+  /**
+   * 清理超过保留期的已结束任务
+   * Purge finished jobs older than the retention period
+   */
+  private purgeExpired(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(id);
+        debug(`Purged job ${id}`);
+      }
+    }
+  }
+}
+
+// 单例实例导出
+// Export singleton instance
+const jobService = JobService.getInstance();
+
+/**
+ * 提交分析任务
+ * Submit analysis job
+ *
+ * @param {AnalysisJobRunner} runner - 任务运行函数
+ * @returns {AnalysisJob} 新建的任务
+ */
+export function submitAnalysisJob(runner: AnalysisJobRunner): AnalysisJob {
+  return jobService.submit(runner);
+}
+
+/**
+ * 获取分析任务
+ * Get analysis job
+ *
+ * @param {string} id - 任务ID
+ * @returns {AnalysisJob | null} 任务
+ */
+export function getAnalysisJob(id: string): AnalysisJob | null {
+  return jobService.get(id);
+}
+
+/**
+ * 取消分析任务
+ * Cancel analysis job
+ *
+ * @param {string} id - 任务ID
+ * @returns {AnalysisJob | null} 任务
+ */
+export function cancelAnalysisJob(id: string): AnalysisJob | null {
+  return jobService.cancel(id);
+}
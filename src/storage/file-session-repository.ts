@@ -0,0 +1,183 @@
+import type {
+  DecisionSession,
+  DecisionSessionPatch,
+  DecisionSessionSummary,
+  NewDecisionSession,
+} from "../types/session";
+import type { ListSessionsOptions, SessionRepository } from "./session-repository";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { v4 as uuidv4, validate as validateUuid } from "uuid";
+import { debug } from "../utils/logger";
+import { queueSessionWrite, SessionNotFoundError, toSessionSummary } from "./session-repository";
+
+/**
+ * 基于文件系统的会话存储，每个会话保存为一个JSON文件
+ * Filesystem-backed session repository, storing one JSON file per session
+ */
+export class FileSessionRepository implements SessionRepository {
+  private directory: string;
+  private writes: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param {string} directory - 会话文件目录
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * 获取会话文件路径，ID非法时返回 null（防止路径穿越）
+   * Get the session file path, returning null for invalid IDs (prevents path traversal)
+   *
+   * @param {string} id - 会话ID
+   * @returns {string | null} 文件路径
+   */
+  private filePath(id: string): string | null {
+    return validateUuid(id) ? path.join(this.directory, `${id}.json`) : null;
+  }
+
+  /**
+   * 写入会话文件（先写临时文件再重命名，避免读到半写入的文件）
+   * Write a session file (write to a temp file then rename, so readers never see a partial file)
+   *
+   * @param {DecisionSession} session - 会话
+   */
+  private async write(session: DecisionSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = path.join(this.directory, `${session.id}.json`);
+    const temp = `${target}.${uuidv4()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session, null, 2), "utf-8");
+    await fs.rename(temp, target);
+  }
+
+  /**
+   * 创建会话
+   * Create a session
+   *
+   * @param {NewDecisionSession} session - 会话内容
+   * @returns {Promise<DecisionSession>} 创建的会话
+   */
+  public async create(session: NewDecisionSession): Promise<DecisionSession> {
+    const now = new Date().toISOString();
+    const created: DecisionSession = {
+      ...session,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.write(created);
+    debug(`Created session ${created.id}`);
+    return created;
+  }
+
+  /**
+   * 获取会话
+   * Get a session
+   *
+   * @param {string} id - 会话ID
+   * @returns {Promise<DecisionSession | null>} 会话，不存在时返回 null
+   */
+  public async get(id: string): Promise<DecisionSession | null> {
+    const file = this.filePath(id);
+    if (!file) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(file, "utf-8")) as DecisionSession;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * 更新会话
+   * Update a session
+   *
+   * 同一会话的更新依次执行，每次更新都基于前一次写入的内容，并发更新不会互相覆盖
+   * Updates to the same session run one after another, each reading what the previous one wrote, so concurrent
+   * updates do not overwrite each other
+   *
+   * @param {string} id - 会话ID
+   * @param {DecisionSessionPatch} patch - 更新内容
+   * @returns {Promise<DecisionSession>} 更新后的会话
+   */
+  public update(id: string, patch: DecisionSessionPatch): Promise<DecisionSession> {
+    return queueSessionWrite(this.writes, id, async () => {
+      const existing = await this.get(id);
+      if (!existing) {
+        throw new SessionNotFoundError(id);
+      }
+      const updated: DecisionSession = {
+        ...existing,
+        ...patch,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * 按创建时间倒序列出会话
+   * List sessions, newest first
+   *
+   * @param {ListSessionsOptions} options - 查询选项
+   * @returns {Promise<DecisionSessionSummary[]>} 会话摘要列表
+   */
+  public async list({ limit = 50, offset = 0 }: ListSessionsOptions = {}): Promise<DecisionSessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+
+    const sessions = await Promise.all(
+      files
+        .filter(file => file.endsWith(".json"))
+        .map(file => this.get(path.basename(file, ".json"))),
+    );
+
+    return sessions
+      .filter((session): session is DecisionSession => session !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(offset, offset + limit)
+      .map(toSessionSummary);
+  }
+
+  /**
+   * 删除会话
+   * Delete a session
+   *
+   * @param {string} id - 会话ID
+   * @returns {Promise<boolean>} 是否删除成功
+   */
+  public delete(id: string): Promise<boolean> {
+    const file = this.filePath(id);
+    if (!file) {
+      return Promise.resolve(false);
+    }
+    // 排在进行中的更新之后，避免更新在删除后重新写入文件
+    return queueSessionWrite(this.writes, id, async () => {
+      try {
+        await fs.unlink(file);
+        return true;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          return false;
+        }
+        throw err;
+      }
+    });
+  }
+}
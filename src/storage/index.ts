@@ -0,0 +1,54 @@
+import type { SessionRepository } from "./session-repository";
+import { ENV, StorageType } from "../config/env";
+import { debug } from "../utils/logger";
+import { FileSessionRepository } from "./file-session-repository";
+import { SqliteSessionRepository } from "./sqlite-session-repository";
+
+let sessionRepository: SessionRepository | null = null;
+
+/**
+ * 根据存储类型创建会话存储
+ * Create a session repository for the given storage type
+ *
+ * @param {StorageType | string} type - 存储类型
+ * @returns {SessionRepository} 会话存储实例
+ */
+export function createSessionRepository(type: StorageType | string = ENV.STORAGE.TYPE): SessionRepository {
+  switch (type) {
+    case StorageType.SQLITE:
+      return new SqliteSessionRepository(ENV.STORAGE.SQLITE_PATH);
+    case StorageType.FILE:
+      return new FileSessionRepository(ENV.STORAGE.DIRECTORY);
+    default:
+      debug(`Unknown storage type: ${type}, using file storage`);
+      return new FileSessionRepository(ENV.STORAGE.DIRECTORY);
+  }
+}
+
+/**
+ * 获取会话存储
+ * Get session repository
+ *
+ * @returns {SessionRepository} 会话存储实例
+ */
+export function getSessionRepository(): SessionRepository {
+  if (!sessionRepository) {
+    sessionRepository = createSessionRepository();
+  }
+  return sessionRepository;
+}
+
+/**
+ * 设置会话存储（用于自定义实现）
+ * Set session repository (for custom implementations)
+ *
+ * @param {SessionRepository} repository - 会话存储实例
+ */
+export function setSessionRepository(repository: SessionRepository): void {
+  sessionRepository = repository;
+}
+
+// 导出所有存储相关类型和实现
+export * from "./file-session-repository";
+export * from "./session-repository";
+export * from "./sqlite-session-repository";
@@ -0,0 +1,113 @@
+import type {
+  DecisionSession,
+  DecisionSessionPatch,
+  DecisionSessionSummary,
+  NewDecisionSession,
+} from "../types/session";
+
+/**
+ * 会话列表查询选项
+ * Session listing options
+ */
+export interface ListSessionsOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * 决策会话存储接口
+ * Decision session repository interface
+ */
+export interface SessionRepository {
+  /**
+   * 创建会话
+   * Create a session
+   *
+   * @param {NewDecisionSession} session - 会话内容
+   */
+  create: (session: NewDecisionSession) => Promise<DecisionSession>;
+
+  /**
+   * 获取会话，不存在时返回 null
+   * Get a session, returning null when it does not exist
+   *
+   * @param {string} id - 会话ID
+   */
+  get: (id: string) => Promise<DecisionSession | null>;
+
+  /**
+   * 更新会话
+   * Update a session
+   *
+   * @param {string} id - 会话ID
+   * @param {DecisionSessionPatch} patch - 更新内容
+   */
+  update: (id: string, patch: DecisionSessionPatch) => Promise<DecisionSession>;
+
+  /**
+   * 按创建时间倒序列出会话
+   * List sessions, newest first
+   *
+   * @param {ListSessionsOptions} options - 查询选项
+   */
+  list: (options?: ListSessionsOptions) => Promise<DecisionSessionSummary[]>;
+
+  /**
+   * 删除会话
+   * Delete a session
+   *
+   * @param {string} id - 会话ID
+   */
+  delete: (id: string) => Promise<boolean>;
+}
+
+/**
+ * 会话不存在错误
+ * Session not found error
+ */
+export class SessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Session not found: ${id}`);
+    this.name = "SessionNotFoundError";
+  }
+}
+
+/**
+ * 生成会话列表摘要
+ * Build a session listing summary
+ *
+ * @param {DecisionSession} session - 会话
+ * @returns {DecisionSessionSummary} 会话摘要
+ */
+export function toSessionSummary(session: DecisionSession): DecisionSessionSummary {
+  return {
+    id: session.id,
+    problem: session.problem,
+    modelId: session.modelId,
+    hasResult: session.result !== undefined,
+    hasReport: session.report !== undefined,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * 将同一会话的写操作排队依次执行，前一个操作失败不影响后续操作
+ * Queue write operations on the same session so they run one after another; a failed operation does not block later ones
+ *
+ * @param {Map<string, Promise<unknown>>} queue - 各会话进行中的写操作
+ * @param {string} id - 会话ID
+ * @param {() => Promise<T>} task - 写操作
+ * @returns {Promise<T>} 写操作结果
+ */
+export function queueSessionWrite<T>(queue: Map<string, Promise<unknown>>, id: string, task: () => Promise<T>): Promise<T> {
+  const previous = queue.get(id) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  queue.set(id, current);
+  void current.catch(() => undefined).then(() => {
+    if (queue.get(id) === current) {
+      queue.delete(id);
+    }
+  });
+  return current;
+}
@@ -0,0 +1,222 @@
+import type { DatabaseSync } from "node:sqlite";
+import type {
+  DecisionSession,
+  DecisionSessionPatch,
+  DecisionSessionSummary,
+  NewDecisionSession,
+} from "../types/session";
+import type { ListSessionsOptions, SessionRepository } from "./session-repository";
+import * as fs from "node:fs/promises";
+import { isBuiltin } from "node:module";
+import * as path from "node:path";
+import process from "node:process";
+import { v4 as uuidv4 } from "uuid";
+import { debug } from "../utils/logger";
+import { queueSessionWrite, SessionNotFoundError } from "./session-repository";
+
+/**
+ * 会话表行结构
+ * Session table row
+ */
+interface SessionRow {
+  id: string;
+  problem: string;
+  model_id: string;
+  has_result: number;
+  has_report: number;
+  created_at: string;
+  updated_at: string;
+  data?: string;
+}
+
+/**
+ * 当前运行时是否提供 node:sqlite 模块
+ * Whether the current runtime provides the node:sqlite module
+ *
+ * @returns {boolean} 是否支持SQLite存储
+ */
+export function isSqliteSupported(): boolean {
+  return isBuiltin("node:sqlite");
+}
+
+/**
+ * 基于SQLite的会话存储（使用 Node.js 内置的 node:sqlite，需要 Node.js 22.5+）
+ * SQLite-backed session repository (uses the built-in node:sqlite module, requires Node.js 22.5+)
+ */
+export class SqliteSessionRepository implements SessionRepository {
+  private filename: string;
+  private db: Promise<DatabaseSync> | null = null;
+  private writes: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param {string} filename - 数据库文件路径
+   */
+  constructor(filename: string) {
+    if (!isSqliteSupported()) {
+      throw new Error(`STORAGE_TYPE=sqlite requires Node.js 22.5+ (node:sqlite is unavailable in Node.js ${process.versions.node}); use STORAGE_TYPE=file or upgrade Node.js`);
+    }
+    this.filename = filename;
+  }
+
+  /**
+   * 打开数据库并初始化表结构（延迟加载，避免在不支持 node:sqlite 的环境中导入即失败）
+   * Open the database and initialize the schema (lazy, so importing does not fail where node:sqlite is unavailable)
+   *
+   * @returns {Promise<DatabaseSync>} 数据库连接
+   */
+  private getDatabase(): Promise<DatabaseSync> {
+    if (!this.db) {
+      this.db = (async () => {
+        const { DatabaseSync } = await import("node:sqlite");
+        await fs.mkdir(path.dirname(path.resolve(this.filename)), { recursive: true });
+        const db = new DatabaseSync(this.filename);
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS sessions (
+            id TEXT PRIMARY KEY,
+            problem TEXT NOT NULL,
+            model_id TEXT NOT NULL,
+            has_result INTEGER NOT NULL DEFAULT 0,
+            has_report INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL,
+            data TEXT NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS sessions_created_at ON sessions (created_at);
+        `);
+        debug(`Opened session database ${this.filename}`);
+        return db;
+      })();
+    }
+    return this.db;
+  }
+
+  /**
+   * 写入会话（插入或替换）
+   * Write a session (insert or replace)
+   *
+   * @param {DecisionSession} session - 会话
+   */
+  private async write(session: DecisionSession): Promise<void> {
+    const db = await this.getDatabase();
+    db.prepare(`
+      INSERT OR REPLACE INTO sessions (id, problem, model_id, has_result, has_report, created_at, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      session.id,
+      session.problem,
+      session.modelId,
+      session.result !== undefined ? 1 : 0,
+      session.report !== undefined ? 1 : 0,
+      session.createdAt,
+      session.updatedAt,
+      JSON.stringify(session),
+    );
+  }
+
+  /**
+   * 创建会话
+   * Create a session
+   *
+   * @param {NewDecisionSession} session - 会话内容
+   * @returns {Promise<DecisionSession>} 创建的会话
+   */
+  public async create(session: NewDecisionSession): Promise<DecisionSession> {
+    const now = new Date().toISOString();
+    const created: DecisionSession = {
+      ...session,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.write(created);
+    debug(`Created session ${created.id}`);
+    return created;
+  }
+
+  /**
+   * 获取会话
+   * Get a session
+   *
+   * @param {string} id - 会话ID
+   * @returns {Promise<DecisionSession | null>} 会话，不存在时返回 null
+   */
+  public async get(id: string): Promise<DecisionSession | null> {
+    const db = await this.getDatabase();
+    const row = db.prepare("SELECT data FROM sessions WHERE id = ?").get(id) as SessionRow | undefined;
+    return row?.data ? JSON.parse(row.data) as DecisionSession : null;
+  }
+
+  /**
+   * 更新会话
+   * Update a session
+   *
+   * 同一会话的更新依次执行，每次更新都基于前一次写入的内容，并发更新不会互相覆盖
+   * Updates to the same session run one after another, each reading what the previous one wrote, so concurrent
+   * updates do not overwrite each other
+   *
+   * @param {string} id - 会话ID
+   * @param {DecisionSessionPatch} patch - 更新内容
+   * @returns {Promise<DecisionSession>} 更新后的会话
+   */
+  public update(id: string, patch: DecisionSessionPatch): Promise<DecisionSession> {
+    return queueSessionWrite(this.writes, id, async () => {
+      const existing = await this.get(id);
+      if (!existing) {
+        throw new SessionNotFoundError(id);
+      }
+      const updated: DecisionSession = {
+        ...existing,
+        ...patch,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * 按创建时间倒序列出会话
+   * List sessions, newest first
+   *
+   * @param {ListSessionsOptions} options - 查询选项
+   * @returns {Promise<DecisionSessionSummary[]>} 会话摘要列表
+   */
+  public async list({ limit = 50, offset = 0 }: ListSessionsOptions = {}): Promise<DecisionSessionSummary[]> {
+    const db = await this.getDatabase();
+    const rows = db.prepare(`
+      SELECT id, problem, model_id, has_result, has_report, created_at, updated_at
+      FROM sessions
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).all(limit, offset) as unknown as SessionRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      problem: row.problem,
+      modelId: row.model_id,
+      hasResult: row.has_result === 1,
+      hasReport: row.has_report === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * 删除会话
+   * Delete a session
+   *
+   * @param {string} id - 会话ID
+   * @returns {Promise<boolean>} 是否删除成功
+   */
+  public delete(id: string): Promise<boolean> {
+    // 排在进行中的更新之后，避免更新在删除后重新插入会话
+    return queueSessionWrite(this.writes, id, async () => {
+      const db = await this.getDatabase();
+      const result = db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+      return Number(result.changes) > 0;
+    });
+  }
+}
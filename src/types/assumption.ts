@@ -0,0 +1,48 @@
+import type { OptionRef } from "./sensitivity";
+
+/**
+ * 假设的状态：open（未被质疑）或 false（被用户标记为错误）
+ * Status of an assumption: open (unchallenged) or false (marked false by the user)
+ */
+export type AssumptionStatus = "open" | "false";
+
+/**
+ * 假设登记表中的一条假设
+ * Assumption in the assumptions register
+ */
+export interface AssumptionEntry {
+  /**
+   * 由规范化后的假设文本得出的稳定ID，相同的假设在不同节点上共用一个ID
+   * Stable ID derived from the normalized assumption text, shared by the same assumption on different nodes
+   */
+  id: string;
+  text: string;
+  status: AssumptionStatus;
+  /**
+   * 提出该假设的节点
+   * Nodes that state the assumption
+   */
+  nodes: OptionRef[];
+  /**
+   * 因该假设被标记为错误而受影响的节点数（这些节点及其子树）
+   * Number of nodes affected by the assumption being marked false (those nodes and their subtrees)
+   */
+  affectedNodes: number;
+}
+
+/**
+ * 汇总整棵决策树中所有假设的登记表
+ * Register aggregating all the assumptions across the decision tree
+ */
+export interface AssumptionRegister {
+  /**
+   * 按在决策树中首次出现的顺序排列
+   * In the order they first appear in the tree
+   */
+  assumptions: AssumptionEntry[];
+  /**
+   * 依赖错误假设的节点数
+   * Number of nodes depending on a false assumption
+   */
+  flaggedNodes: number;
+}
@@ -0,0 +1,62 @@
+/**
+ * 批判审查方式：off（不审查）、review（只审查）或 reexpand（审查并重新展开被指出问题的节点）
+ * Critique mode: off, review (critique only) or reexpand (critique and re-expand the flagged nodes)
+ */
+export type CritiqueMode = "off" | "review" | "reexpand";
+
+/**
+ * 批判审查检查的问题类型
+ * Kind of issue the critique checks for
+ */
+export type CritiqueCategory =
+  | "missing-option"
+  | "overconfident-probability"
+  | "anchoring"
+  | "omitted-stakeholder"
+  | "unrealistic-outcome";
+
+/**
+ * 问题的严重程度
+ * Severity of an issue
+ */
+export type CritiqueSeverity = "low" | "medium" | "high";
+
+/**
+ * 批判审查发现的问题
+ * Issue found by the critique
+ */
+export interface CritiqueItem {
+  category: CritiqueCategory;
+  severity: CritiqueSeverity;
+  /**
+   * 问题所在节点的ID，涉及整棵决策树的问题为根节点ID
+   * ID of the node the issue is about, the root ID for issues with the whole tree
+   */
+  nodeId: string;
+  description: string;
+  issue: string;
+  suggestion: string;
+  /**
+   * 是否已根据该问题重新展开节点
+   * Whether the node was re-expanded to address the issue
+   */
+  reexpanded?: boolean;
+}
+
+/**
+ * 对决策树的批判审查（偏差审计）结果
+ * Result of the critique (bias audit) of a decision tree
+ */
+export interface DecisionCritique {
+  mode: Exclude<CritiqueMode, "off">;
+  /**
+   * 按严重程度从高到低排列
+   * Sorted from the most severe down
+   */
+  items: CritiqueItem[];
+  /**
+   * 重新展开的节点ID
+   * IDs of the re-expanded nodes
+   */
+  reexpanded: string[];
+}
@@ -1,3 +1,7 @@
+import type { DecisionCritique } from "./critique";
+import type { StakeholderAnalysis } from "./stakeholder";
+import type { UsageSummary } from "./usage";
+
 /**
  * 决策树节点接口
  * Decision tree node interface
@@ -38,6 +42,58 @@ export interface DecisionNode {
    * Probability assessment (0-100%)
    */
   probability?: number;
+  /**
+   * 概率、风险和机会评估的不确定范围（蒙特卡洛模拟时在范围内抽样）
+   * Uncertainty ranges of the probability, risk and opportunity assessments (sampled by the Monte Carlo simulation)
+   */
+  probabilityRange?: UncertaintyRange;
+  riskRange?: UncertaintyRange;
+  opportunityRange?: UncertaintyRange;
+  /**
+   * 按评估标准名称索引的评分
+   * Scores keyed by evaluation criterion name
+   */
+  scores?: Record<string, number>;
+  /**
+   * 模型给出这些评估的理由
+   * Why the model assessed the node this way
+   */
+  rationale?: string;
+  /**
+   * 评估所依赖的明确假设
+   * Explicit assumptions the assessment depends on
+   */
+  assumptions?: string[];
+  /**
+   * 支持评估的证据及其来源
+   * Evidence supporting the assessment, with its sources
+   */
+  evidence?: NodeEvidence[];
+  /**
+   * 该节点或其祖先依赖的、已被标记为错误的假设ID（由代码标记）
+   * IDs of the assumptions marked false that the node or one of its ancestors depends on (flagged by code)
+   */
+  invalidatedBy?: string[];
+  /**
+   * 按标准权重计算的效用（0-1）
+   * Weighted utility computed from the criteria (0-1)
+   */
+  utility?: number;
+  /**
+   * 期望值（由回溯计算得出，非LLM生成）
+   * Expected value (computed by the rollup, not generated by the LLM)
+   */
+  expectedValue?: number;
+  /**
+   * 是否位于最优路径上
+   * Whether the node lies on the optimal path
+   */
+  optimal?: boolean;
+  /**
+   * 校验或修复过程中记录的警告
+   * Warnings recorded during validation or repair
+   */
+  warnings?: string[];
   /**
    * 子节点列表
    * Child nodes
@@ -45,6 +101,44 @@ export interface DecisionNode {
   children: DecisionNode[];
 }
 
+/**
+ * 估计值的不确定范围
+ * Uncertainty range of an estimate
+ */
+export interface UncertaintyRange {
+  min: number;
+  /**
+   * 最可能的值（生成时的点估计）
+   * Most likely value (the point estimate at generation time)
+   */
+  likely: number;
+  max: number;
+  /**
+   * 抽样分布，默认为三角分布
+   * Sampling distribution, triangular by default
+   */
+  distribution?: "triangular" | "pert" | "uniform";
+}
+
+/**
+ * 支持节点评估的证据
+ * Evidence supporting the assessment of a node
+ */
+export interface NodeEvidence {
+  claim: string;
+  /**
+   * 来源引用（报告、数据集、网址等）
+   * Source reference (a report, dataset, URL, etc.)
+   */
+  source?: string;
+}
+
+/**
+ * 手动编辑节点时可修改的字段
+ * Fields that can be changed when editing a node manually
+ */
+export type DecisionNodeEdit = Partial<Pick<DecisionNode, "description" | "type" | "risk" | "opportunity" | "probability" | "scores">>;
+
 /**
  * 用于LLM生成结果的节点类型（属性可能为undefined）
  * Node type for LLM generated results (properties may be undefined)
@@ -57,9 +151,111 @@ export interface GeneratedNode {
   risk?: number;
   opportunity?: number;
   probability?: number;
+  probabilityRange?: { min?: number; max?: number };
+  riskRange?: { min?: number; max?: number };
+  opportunityRange?: { min?: number; max?: number };
+  scores?: Record<string, number>;
+  rationale?: string;
+  assumptions?: string[];
+  evidence?: { claim?: string; source?: string }[];
   children?: any[];
 }
 
+/**
+ * 评估标准量表
+ * Evaluation criterion scale
+ */
+export interface CriterionScale {
+  /**
+   * 最小值
+   * Minimum value
+   */
+  min: number;
+  /**
+   * 最大值
+   * Maximum value
+   */
+  max: number;
+  /**
+   * 量表含义说明（例如 "1 = 低于10万, 10 = 超过500万"）
+   * Description of what the scale means (e.g. "1 = under 100k, 10 = over 5M")
+   */
+  description?: string;
+}
+
+/**
+ * 用户定义的评估标准
+ * User-defined evaluation criterion
+ */
+export interface DecisionCriterion {
+  /**
+   * 标准名称（唯一）
+   * Criterion name (unique)
+   */
+  name: string;
+  /**
+   * 权重（非负，会被归一化）
+   * Weight (non-negative, normalized across criteria)
+   */
+  weight: number;
+  /**
+   * 标准说明
+   * Criterion description
+   */
+  description?: string;
+  /**
+   * 评分量表，默认 1-10
+   * Scoring scale, defaults to 1-10
+   */
+  scale?: CriterionScale;
+  /**
+   * 评分方向，默认越高越好
+   * Scoring direction, defaults to higher-is-better
+   */
+  direction?: "higher-is-better" | "lower-is-better";
+}
+
+/**
+ * 单个标准的评分明细
+ * Score breakdown for a single criterion
+ */
+export interface CriterionScore {
+  criterion: string;
+  score: number;
+  weight: number;
+  /**
+   * 对效用的加权贡献
+   * Weighted contribution to the utility
+   */
+  contribution: number;
+}
+
+/**
+ * 节点的多标准评分明细
+ * Multi-criteria score breakdown of a node
+ */
+export interface CriteriaBreakdown {
+  nodeId: string;
+  description: string;
+  scores: CriterionScore[];
+  utility?: number;
+  expectedValue?: number;
+}
+
+/**
+ * 决策树展开策略：uniform 按固定深度和广度展开所有分支，best-first 在预算内优先展开优先级最高的节点
+ * Tree expansion strategy: uniform expands every branch to a fixed depth and breadth,
+ * best-first expands the highest-priority frontier nodes until the budget is spent
+ */
+export type ExpansionStrategy = "uniform" | "best-first";
+
+/**
+ * best-first 展开的节点优先级：impact 为按到达概率加权的影响，uncertainty 为按到达概率加权的不确定性
+ * Node priority for best-first expansion: impact is the reach-probability-weighted stakes,
+ * uncertainty is the reach-probability-weighted ambiguity
+ */
+export type ExpansionPriority = "impact" | "uncertainty";
+
 /**
  * 决策分析进度接口
  * Decision analysis progress interface
@@ -107,4 +303,44 @@ export interface DecisionResult {
    * List of key insights
    */
   insights: string[];
+  /**
+   * 根节点期望值
+   * Expected value of the root node
+   */
+  expectedValue: number;
+  /**
+   * 最优路径上的节点ID（从根节点开始）
+   * Node IDs along the optimal path (starting from the root)
+   */
+  optimalPath: string[];
+  /**
+   * 使用的评估标准（权重已归一化）
+   * Evaluation criteria used (weights normalized)
+   */
+  criteria?: DecisionCriterion[];
+  /**
+   * 顶层选项的多标准评分明细
+   * Multi-criteria breakdown of the top-level options
+   */
+  criteriaBreakdown?: CriteriaBreakdown[];
+  /**
+   * 对决策树的批判审查（偏差审计），仅在启用批判审查时存在
+   * Critique (bias audit) of the decision tree, only present when the critique is enabled
+   */
+  critique?: DecisionCritique;
+  /**
+   * 各利益相关者对选项和关键结果的评分、一致度矩阵和分歧
+   * Scores of the options and key outcomes by every stakeholder, their agreement matrix and divergences
+   */
+  stakeholders?: StakeholderAnalysis;
+  /**
+   * 用户标记为错误的假设ID，决策树修改后据此重新标记受影响的子树
+   * IDs of the assumptions the user marked false, used to flag the affected subtrees again after the tree changes
+   */
+  falseAssumptions?: string[];
+  /**
+   * LLM令牌用量与费用汇总
+   * LLM token usage and cost summary
+   */
+  usage?: UsageSummary;
 }
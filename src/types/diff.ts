@@ -0,0 +1,96 @@
+import type { DecisionResult } from "./decision";
+
+/**
+ * 参与比较的分析结果：决策树以及可选的关键见解
+ * Analysis compared by a diff: the decision tree and optionally the key insights
+ */
+export type AnalysisSnapshot = Pick<DecisionResult, "decisionTree"> & Partial<Pick<DecisionResult, "insights">>;
+
+/**
+ * 差异中引用的节点
+ * Node referenced by a diff
+ */
+export interface DiffNodeRef {
+  id: string;
+  description: string;
+  /**
+   * 从顶层选项到该节点的描述
+   * Descriptions from the top-level option down to the node
+   */
+  path: string[];
+  /**
+   * 新增或删除的子树中该节点以下的节点数
+   * Number of nodes below this one in an added or removed subtree
+   */
+  descendants?: number;
+}
+
+/**
+ * 节点字段的变化
+ * Change of a node field
+ */
+export interface FieldChange {
+  field: "description" | "type" | "probability" | "risk" | "opportunity" | "expectedValue";
+  before?: number | string;
+  after?: number | string;
+  /**
+   * 数值字段的变化量
+   * Change of a numeric field
+   */
+  delta?: number;
+}
+
+/**
+ * 两次分析中匹配到的同一节点的变化
+ * Changes of a node matched across both analyses
+ */
+export interface NodeChange {
+  before: DiffNodeRef;
+  after: DiffNodeRef;
+  /**
+   * 描述相似度（0-1）
+   * Description similarity (0-1)
+   */
+  similarity: number;
+  changes: FieldChange[];
+}
+
+/**
+ * 一层节点（顶层选项或更深的节点）的差异
+ * Differences of a set of nodes (the top-level options or the deeper nodes)
+ */
+export interface NodeSetDiff {
+  added: DiffNodeRef[];
+  removed: DiffNodeRef[];
+  changed: NodeChange[];
+  /**
+   * 匹配到且没有变化的节点数
+   * Number of matched nodes without changes
+   */
+  unchanged: number;
+}
+
+/**
+ * 两次决策分析之间的差异
+ * Differences between two decision analyses
+ */
+export interface DecisionDiff {
+  expectedValue: { before?: number; after?: number; delta?: number };
+  preferredOption: { before?: DiffNodeRef; after?: DiffNodeRef; changed: boolean };
+  options: NodeSetDiff;
+  /**
+   * 顶层选项以下的结果和后续决策的差异
+   * Differences of the outcomes and follow-up decisions below the top-level options
+   */
+  nodes: NodeSetDiff;
+  insights: {
+    added: string[];
+    removed: string[];
+    /**
+     * 匹配到但措辞不同的见解
+     * Matched insights whose wording changed
+     */
+    changed: { before: string; after: string; similarity: number }[];
+    unchanged: number;
+  };
+}
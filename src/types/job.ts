@@ -0,0 +1,107 @@
+import type { DecisionProgress, DecisionResult } from "./decision";
+
+/**
+ * 任务状态
+ * Job status
+ */
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * 分析任务阶段
+ * Analysis job stage
+ */
+export type JobStage = "analyzing" | "reporting";
+
+/**
+ * 异步决策分析任务
+ * Asynchronous decision analysis job
+ */
+export interface AnalysisJob {
+  /**
+   * 任务ID
+   * Job ID
+   */
+  id: string;
+  /**
+   * 任务状态
+   * Job status
+   */
+  status: JobStatus;
+  /**
+   * 当前阶段
+   * Current stage
+   */
+  stage?: JobStage;
+  /**
+   * 关联的会话ID
+   * Associated session ID
+   */
+  sessionId?: string;
+  /**
+   * 最新的分析进度
+   * Latest analysis progress
+   */
+  progress?: DecisionProgress;
+  /**
+   * 分析结果（任务成功后可用）
+   * Analysis result (available once the job succeeded)
+   */
+  result?: DecisionResult;
+  /**
+   * 决策报告（任务成功后可用）
+   * Decision report (available once the job succeeded)
+   */
+  report?: string;
+  /**
+   * 错误信息（任务失败时）
+   * Error message (when the job failed)
+   */
+  error?: string;
+  /**
+   * 创建时间（ISO 8601）
+   * Creation time (ISO 8601)
+   */
+  createdAt: string;
+  /**
+   * 更新时间（ISO 8601）
+   * Update time (ISO 8601)
+   */
+  updatedAt: string;
+  /**
+   * 结束时间（ISO 8601）
+   * Finish time (ISO 8601)
+   */
+  finishedAt?: string;
+}
+
+/**
+ * 任务运行期间可更新的字段
+ * Fields a job may update while running
+ */
+export type AnalysisJobUpdate = Partial<Pick<AnalysisJob, "stage" | "sessionId" | "progress">>;
+
+/**
+ * 任务运行上下文
+ * Job run context
+ */
+export interface JobContext {
+  /**
+   * 取消信号
+   * Cancellation signal
+   */
+  signal: AbortSignal;
+  /**
+   * 更新任务状态
+   * Update job state
+   */
+  update: (update: AnalysisJobUpdate) => void;
+}
+
+/**
+ * 任务输出
+ * Job output
+ */
+export interface AnalysisJobOutput {
+  result: DecisionResult;
+  report: string;
+}
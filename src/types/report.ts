@@ -0,0 +1,135 @@
+import type { AssumptionRegister } from "./assumption";
+import type { DecisionCritique } from "./critique";
+import type { DecisionNode } from "./decision";
+import type { SensitivityAnalysis } from "./sensitivity";
+import type { StakeholderAnalysis } from "./stakeholder";
+
+/**
+ * 建议的置信度
+ * Confidence of a recommendation
+ */
+export type ReportConfidence = "low" | "medium" | "high";
+
+/**
+ * 报告中的建议
+ * Recommendation of a report
+ */
+export interface ReportRecommendation {
+  recommendation: string;
+  rationale: string;
+  confidence: ReportConfidence;
+}
+
+/**
+ * 模型撰写的单个选项章节
+ * Option section written by the model
+ */
+export interface ReportOptionDraft {
+  /**
+   * 对应的顶层选项ID
+   * ID of the top-level option
+   */
+  optionId: string;
+  summary: string;
+  riskAssessment: string;
+  opportunityAssessment: string;
+  keyOutcomes: string[];
+  insights: string[];
+}
+
+/**
+ * 模型撰写的报告内容，数值部分由代码根据决策树补充
+ * Report content written by the model; the numbers are filled in from the decision tree by code
+ */
+export interface ReportDraft {
+  title: string;
+  executiveSummary: string;
+  context: string;
+  methodology: string;
+  options: ReportOptionDraft[];
+  /**
+   * 对比较矩阵的分析
+   * Discussion of the comparison matrix
+   */
+  comparison: string;
+  recommendations: ReportRecommendation[];
+}
+
+/**
+ * 根据选项章节撰写的汇总部分（除选项章节外的所有内容）
+ * Summary parts written from the option sections (everything but the option sections)
+ */
+export type ReportSummary = Omit<ReportDraft, "options">;
+
+/**
+ * 报告中的单个选项章节
+ * Option section of a report
+ */
+export interface ReportOptionSection extends Omit<ReportOptionDraft, "optionId"> {
+  id: string;
+  description: string;
+  /**
+   * 是否在最优路径上
+   * Whether the option is on the optimal path
+   */
+  optimal: boolean;
+  expectedValue?: number;
+  risk?: number;
+  opportunity?: number;
+}
+
+/**
+ * 选项比较矩阵，数值全部来自决策树
+ * Comparison matrix of the options, with every number taken from the decision tree
+ */
+export interface ComparisonMatrix {
+  columns: string[];
+  rows: {
+    id: string;
+    option: string;
+    /**
+     * 与 columns 一一对应的值，缺失时为 null
+     * Values matching the columns, null when missing
+     */
+    values: (number | null)[];
+  }[];
+  summary: string;
+}
+
+/**
+ * 结构化的决策报告
+ * Structured decision report
+ */
+export interface DecisionReport {
+  title: string;
+  problem: string;
+  executiveSummary: string;
+  context: string;
+  methodology: string;
+  options: ReportOptionSection[];
+  comparison: ComparisonMatrix;
+  insights: string[];
+  /**
+   * 批判审查结果，仅在分析时启用了批判审查时存在
+   * Critique, only present when the analysis ran the critique
+   */
+  critique?: DecisionCritique;
+  recommendations: ReportRecommendation[];
+  sensitivity: SensitivityAnalysis;
+  /**
+   * 决策树中所有假设的登记表，仅在节点记录了假设时存在
+   * Register of all the assumptions in the tree, only present when nodes recorded assumptions
+   */
+  assumptions?: AssumptionRegister;
+  /**
+   * 利益相关者分析，仅在分析时提供了利益相关者角色时存在
+   * Stakeholder analysis, only present when stakeholder personas were given to the analysis
+   */
+  stakeholders?: StakeholderAnalysis;
+  decisionTree: DecisionNode;
+  /**
+   * 生成时间（ISO 8601）
+   * Generation time (ISO 8601)
+   */
+  generatedAt: string;
+}
@@ -0,0 +1,115 @@
+/**
+ * 敏感性分析中被改变的参数类型：结果概率、风险、机会或评估标准评分
+ * Kind of parameter varied by the sensitivity analysis: outcome probability, risk, opportunity or criterion score
+ */
+export type SensitivityParameterKind = "probability" | "risk" | "opportunity" | "score";
+
+/**
+ * 敏感性分析的参数
+ * Parameter of the sensitivity analysis
+ */
+export interface SensitivityParameter {
+  nodeId: string;
+  description: string;
+  kind: SensitivityParameterKind;
+  /**
+   * 评估标准名称（仅 score 类型）
+   * Criterion name (score parameters only)
+   */
+  criterion?: string;
+  /**
+   * 参数的可读名称，例如 P(Salary increase)
+   * Readable name of the parameter, e.g. P(Salary increase)
+   */
+  label: string;
+  /**
+   * 决策树中的当前值
+   * Current value in the decision tree
+   */
+  baseValue: number;
+}
+
+/**
+ * 顶层选项的引用
+ * Reference to a top-level option
+ */
+export interface OptionRef {
+  id: string;
+  description: string;
+}
+
+/**
+ * 龙卷风图的一条：参数在范围两端时根节点的期望值
+ * Bar of a tornado chart: the root expected value at both ends of a parameter's range
+ */
+export interface TornadoBar extends SensitivityParameter {
+  low: number;
+  high: number;
+  lowValue: number;
+  highValue: number;
+  /**
+   * 两端期望值之差的绝对值
+   * Absolute difference between the expected values at both ends
+   */
+  swing: number;
+}
+
+/**
+ * 使首选选项发生变化的参数阈值
+ * Parameter threshold at which the preferred option changes
+ */
+export interface SensitivityThreshold extends SensitivityParameter {
+  threshold: number;
+  /**
+   * 参数略低于阈值时的首选选项
+   * Preferred option just below the threshold
+   */
+  below: OptionRef;
+  /**
+   * 参数略高于阈值时的首选选项
+   * Preferred option just above the threshold
+   */
+  above: OptionRef;
+  /**
+   * 例如 "Option B beats Option A if P(outcome X) > 35"
+   * E.g. "Option B beats Option A if P(outcome X) > 35"
+   */
+  statement: string;
+}
+
+/**
+ * 敏感性分析结果
+ * Sensitivity analysis result
+ */
+export interface SensitivityAnalysis {
+  /**
+   * 当前参数下根节点的期望值
+   * Root expected value with the current parameters
+   */
+  expectedValue: number;
+  /**
+   * 当前参数下的首选选项
+   * Preferred option with the current parameters
+   */
+  preferredOption?: OptionRef;
+  /**
+   * 分析的参数数量
+   * Number of parameters analyzed
+   */
+  parameters: number;
+  /**
+   * 龙卷风图中参数变化的幅度（占参数范围的比例）
+   * Spread of the parameters in the tornado chart (as a fraction of their range)
+   */
+  spread: number;
+  /**
+   * 按影响从大到小排序的龙卷风图数据
+   * Tornado chart data, sorted by swing from largest to smallest
+   */
+  tornado: TornadoBar[];
+  /**
+   * 按与当前值的距离从近到远排序的阈值
+   * Thresholds, sorted by distance from the current value from nearest to farthest
+   */
+  thresholds: SensitivityThreshold[];
+}
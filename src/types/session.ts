@@ -0,0 +1,111 @@
+import type { CritiqueMode } from "./critique";
+import type { DecisionCriterion, DecisionResult, ExpansionPriority, ExpansionStrategy } from "./decision";
+import type { DecisionReport } from "./report";
+import type { StakeholderPersona } from "./stakeholder";
+
+/**
+ * 跟进问题与回答
+ * Follow-up question and answer
+ */
+export interface FollowUpAnswer {
+  question: string;
+  answer: string;
+}
+
+/**
+ * 决策分析参数
+ * Decision analysis parameters
+ */
+export interface DecisionParameters {
+  depth: number;
+  breadth: number;
+  criteria?: DecisionCriterion[];
+  stakeholders?: StakeholderPersona[];
+  strategy?: ExpansionStrategy;
+  budget?: number;
+  priority?: ExpansionPriority;
+  critique?: CritiqueMode;
+}
+
+/**
+ * 决策分析会话
+ * Decision analysis session
+ */
+export interface DecisionSession {
+  /**
+   * 会话ID
+   * Session ID
+   */
+  id: string;
+  /**
+   * 原始决策问题
+   * Original decision problem
+   */
+  problem: string;
+  /**
+   * 跟进问题与回答
+   * Follow-up questions and answers
+   */
+  followUp: FollowUpAnswer[];
+  /**
+   * 分析参数
+   * Analysis parameters
+   */
+  parameters: DecisionParameters;
+  /**
+   * 使用的模型ID
+   * Model ID used
+   */
+  modelId: string;
+  /**
+   * 分析结果（决策树、见解等）
+   * Analysis result (decision tree, insights, etc.)
+   */
+  result?: DecisionResult;
+  /**
+   * Markdown决策报告
+   * Markdown decision report
+   */
+  report?: string;
+  /**
+   * 结构化决策报告，可渲染为 Markdown、HTML 或 JSON
+   * Structured decision report, renderable as Markdown, HTML or JSON
+   */
+  structuredReport?: DecisionReport;
+  /**
+   * 创建时间（ISO 8601）
+   * Creation time (ISO 8601)
+   */
+  createdAt: string;
+  /**
+   * 更新时间（ISO 8601）
+   * Update time (ISO 8601)
+   */
+  updatedAt: string;
+}
+
+/**
+ * 会话列表摘要
+ * Session listing summary
+ */
+export interface DecisionSessionSummary {
+  id: string;
+  problem: string;
+  modelId: string;
+  hasResult: boolean;
+  hasReport: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 创建会话的输入
+ * Input for creating a session
+ */
+export type NewDecisionSession = Omit<DecisionSession, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * 会话更新内容
+ * Session update patch
+ */
+export type DecisionSessionPatch = Partial<Omit<DecisionSession, "id" | "createdAt" | "updatedAt">>;
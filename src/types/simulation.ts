@@ -0,0 +1,71 @@
+/**
+ * 模拟结果分布的百分位数
+ * Percentiles of a simulated outcome distribution
+ */
+export interface OutcomePercentiles {
+  p5: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+}
+
+/**
+ * 直方图的一个区间
+ * Bin of a histogram
+ */
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * 单个顶层选项的模拟结果
+ * Simulation result of a single top-level option
+ */
+export interface OptionSimulation {
+  id: string;
+  description: string;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  percentiles: OutcomePercentiles;
+  /**
+   * 所有选项共用区间边界的结果直方图
+   * Outcome histogram, with bin edges shared by all options
+   */
+  histogram: HistogramBin[];
+  /**
+   * 另一个选项结果更好的模拟占比（%）
+   * Share of simulated runs in which another option did better (%)
+   */
+  probabilityOfRegret: number;
+  /**
+   * 平均遗憾值：与当次最好选项的结果之差的平均值
+   * Expected regret: the mean shortfall against the best option of each run
+   */
+  expectedRegret: number;
+  /**
+   * 该选项结果最好的模拟占比（%）
+   * Share of simulated runs in which this option did best (%)
+   */
+  probabilityBest: number;
+}
+
+/**
+ * 蒙特卡洛模拟结果
+ * Monte Carlo simulation result
+ */
+export interface SimulationResult {
+  iterations: number;
+  seed: number | string;
+  /**
+   * 按平均结果从高到低排序的选项
+   * Options, sorted by mean outcome from highest to lowest
+   */
+  options: OptionSimulation[];
+}
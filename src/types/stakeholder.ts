@@ -0,0 +1,115 @@
+import type { OptionRef } from "./sensitivity";
+
+/**
+ * 利益相关者角色，例如财务总监、工程负责人或客户
+ * Stakeholder persona, e.g. a CFO, an engineering lead or a customer
+ */
+export interface StakeholderPersona {
+  /**
+   * 角色名称（唯一）
+   * Persona name (unique)
+   */
+  name: string;
+  /**
+   * 角色说明
+   * Persona description
+   */
+  description?: string;
+  /**
+   * 该角色关心的事项，按重要性排列
+   * What the persona cares about, most important first
+   */
+  priorities: string[];
+}
+
+/**
+ * 评分对象的类型：顶层选项或其关键结果
+ * Kind of scored item: a top-level option or one of its key outcomes
+ */
+export type StakeholderItemKind = "option" | "outcome";
+
+/**
+ * 利益相关者对一个选项或结果的评分
+ * Score a stakeholder gave to an option or outcome
+ */
+export interface StakeholderScore {
+  nodeId: string;
+  description: string;
+  kind: StakeholderItemKind;
+  /**
+   * 从该角色的角度打出的评分（0-10，越高越好）
+   * Score from the persona's point of view (0-10, higher is better)
+   */
+  score: number;
+  rationale: string;
+}
+
+/**
+ * 单个利益相关者的评估
+ * Assessment of a single stakeholder
+ */
+export interface StakeholderAssessment {
+  stakeholder: string;
+  scores: StakeholderScore[];
+  /**
+   * 该角色评分最高的顶层选项
+   * Top-level option the persona scored highest
+   */
+  preferredOption?: OptionRef;
+}
+
+/**
+ * 利益相关者之间的一致度矩阵
+ * Agreement matrix between the stakeholders
+ */
+export interface StakeholderAgreementMatrix {
+  stakeholders: string[];
+  /**
+   * 与 stakeholders 行列对应的一致度（0-1，1 表示评分完全相同），没有共同评分的项时为 null
+   * Agreement matching the stakeholders by row and column (0-1, 1 meaning identical scores), null when they
+   * scored no item in common
+   */
+  values: (number | null)[][];
+}
+
+/**
+ * 利益相关者在分歧中的立场
+ * Position of a stakeholder in a divergence
+ */
+export interface StakeholderPosition {
+  stakeholder: string;
+  score: number;
+  rationale: string;
+}
+
+/**
+ * 利益相关者分歧明显的选项或结果
+ * Option or outcome on which the stakeholders clearly diverge
+ */
+export interface StakeholderDivergence {
+  nodeId: string;
+  description: string;
+  kind: StakeholderItemKind;
+  /**
+   * 最高分与最低分之差
+   * Difference between the highest and lowest score
+   */
+  spread: number;
+  highest: StakeholderPosition;
+  lowest: StakeholderPosition;
+}
+
+/**
+ * 多角色利益相关者分析结果
+ * Result of the multi-persona stakeholder analysis
+ */
+export interface StakeholderAnalysis {
+  stakeholders: StakeholderPersona[];
+  assessments: StakeholderAssessment[];
+  agreement: StakeholderAgreementMatrix;
+  /**
+   * 按分歧从大到小排列
+   * Sorted from the largest spread down
+   */
+  divergences: StakeholderDivergence[];
+}
@@ -0,0 +1,140 @@
+/**
+ * 令牌用量、延迟与费用的汇总
+ * Totals of token usage, latency and cost
+ */
+export interface UsageTotals {
+  /**
+   * LLM调用次数
+   * Number of LLM calls
+   */
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /**
+   * 推理令牌数（已包含在 completionTokens 中）
+   * Reasoning tokens (already included in completionTokens)
+   */
+  reasoningTokens: number;
+  totalTokens: number;
+  /**
+   * 调用耗时总和（毫秒，并发调用会重叠）
+   * Sum of call latencies (milliseconds, concurrent calls overlap)
+   */
+  latencyMs: number;
+  /**
+   * 费用（价格表中的货币单位），没有任何调用匹配到价格时省略
+   * Cost (in the currency of the price table), omitted when no call matched a price
+   */
+  cost?: number;
+}
+
+/**
+ * 单次LLM调用的用量记录
+ * Usage record of a single LLM call
+ */
+export interface UsageRecord {
+  /**
+   * 调用所属的分析阶段
+   * Analysis stage of the call
+   */
+  stage: string;
+  /**
+   * 调用针对的节点ID
+   * ID of the node the call was made for
+   */
+  nodeId?: string;
+  /**
+   * 实际响应的模型ID
+   * ID of the model that answered
+   */
+  modelId: string;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  latencyMs: number;
+  cost?: number;
+}
+
+/**
+ * 用量汇总：总计以及按阶段、模型和节点的分项
+ * Usage summary: overall totals and breakdowns by stage, model and node
+ */
+export interface UsageSummary extends UsageTotals {
+  byStage: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byNode: Record<string, UsageTotals>;
+  /**
+   * 价格表中没有价格的模型
+   * Models without a price in the price table
+   */
+  unpricedModels?: string[];
+}
+
+/**
+ * 模型价格（每百万令牌）
+ * Model price (per million tokens)
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 按模型ID索引的价格表
+ * Price table keyed by model ID
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * 单个阶段的预估用量
+ * Estimated usage of a single stage
+ */
+export interface StageEstimate {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
+
+/**
+ * 分析规模上限（0 表示不限制）
+ * Analysis size ceiling (0 disables a limit)
+ */
+export interface AnalysisCeiling {
+  maxCalls: number;
+  maxTokens: number;
+  maxCost: number;
+}
+
+/**
+ * 运行分析前的调用次数、令牌数、费用与耗时预估
+ * Pre-flight estimate of the calls, tokens, cost and wall time of an analysis
+ */
+export interface AnalysisEstimate {
+  /**
+   * 预计生成的节点数（上限）
+   * Expected number of generated nodes (upper bound)
+   */
+  nodes: number;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /**
+   * 预估费用，没有任何阶段的模型匹配到价格时省略
+   * Estimated cost, omitted when no stage's model has a price
+   */
+  cost?: number;
+  /**
+   * 预估耗时（毫秒），考虑了并发数和每分钟请求/令牌预算
+   * Estimated wall time (milliseconds), accounting for the concurrency and the requests/tokens per minute budgets
+   */
+  wallTimeMs: number;
+  byStage: Record<string, StageEstimate>;
+  ceiling: AnalysisCeiling;
+  /**
+   * 超出的上限说明，为空时允许运行
+   * Descriptions of the exceeded ceilings, the run is allowed when empty
+   */
+  exceeded: string[];
+}
@@ -0,0 +1,165 @@
+import type { AssumptionEntry, AssumptionRegister } from "../../types/assumption";
+import type { DecisionNode, GeneratedNode, NodeEvidence } from "../../types/decision";
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { getReportLabels } from "../report/labels";
+import { walkTree } from "./tree";
+
+/**
+ * 模型为每个节点生成评估理由、假设和证据的模式字段
+ * Schema fields for the rationale, assumptions and evidence the model generates for every node
+ */
+export const NODE_REASONING_FIELDS = {
+  rationale: z.string().optional().describe("Why the node was assessed this way, in one or two sentences"),
+  assumptions: z.array(z.string()).max(3).optional().describe("Explicit assumptions the assessment depends on, one short statement each"),
+  evidence: z.array(z.object({
+    claim: z.string().describe("Fact or data point supporting the assessment"),
+    source: z.string().optional().describe("Reference to the source (report, dataset, URL), if known"),
+  })).max(3).optional().describe("Supporting evidence, only when you know of real evidence"),
+};
+
+/**
+ * 假设不存在错误
+ * Assumption not found error
+ */
+export class AssumptionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Assumption not found: ${id}`);
+    this.name = "AssumptionNotFoundError";
+  }
+}
+
+/**
+ * 规范化假设文本（小写、合并空白、去掉结尾标点），用于识别不同节点上的相同假设
+ * Normalize assumption text (lowercase, collapsed whitespace, no trailing punctuation) to recognize the same
+ * assumption on different nodes
+ *
+ * @param {string} text - 假设文本
+ * @returns {string} 规范化后的文本
+ */
+export function normalizeAssumption(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.!?。！？]+$/, "");
+}
+
+/**
+ * 根据假设文本生成稳定的假设ID
+ * Derive a stable assumption ID from the assumption text
+ *
+ * @param {string} text - 假设文本
+ * @returns {string} 假设ID
+ */
+export function getAssumptionId(text: string): string {
+  return createHash("sha256").update(normalizeAssumption(text)).digest("hex").slice(0, 12);
+}
+
+/**
+ * 清理模型生成的评估理由、假设和证据，去掉空白项
+ * Clean up the rationale, assumptions and evidence generated by the model, dropping blank entries
+ *
+ * @param {GeneratedNode} node - 生成的节点
+ * @returns {Pick<DecisionNode, "rationale" | "assumptions" | "evidence">} 清理后的字段，没有内容的字段会被省略
+ */
+export function toNodeReasoning(node: GeneratedNode): Pick<DecisionNode, "rationale" | "assumptions" | "evidence"> {
+  const rationale = node.rationale?.trim();
+  const assumptions = (node.assumptions ?? []).map(text => text.trim()).filter(Boolean);
+  const evidence = (node.evidence ?? []).flatMap((item): NodeEvidence[] => {
+    const claim = item.claim?.trim();
+    const source = item.source?.trim();
+    return claim ? [{ claim, ...(source && { source }) }] : [];
+  });
+  return {
+    ...(rationale && { rationale }),
+    ...(assumptions.length > 0 && { assumptions }),
+    ...(evidence.length > 0 && { evidence }),
+  };
+}
+
+/**
+ * 标记依赖错误假设的节点：提出该假设的节点及其整个子树都会记录假设ID，其余节点的标记会被清除
+ * Flag the nodes depending on false assumptions: the nodes stating an assumption and their whole subtrees record
+ * its ID, and the flags of all other nodes are cleared
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {string[]} falseIds - 被标记为错误的假设ID
+ * @returns {number} 被标记的节点数
+ */
+export function flagFalseAssumptions(tree: DecisionNode, falseIds: string[]): number {
+  const falseSet = new Set(falseIds);
+  let flagged = 0;
+  const visit = (node: DecisionNode, inherited: string[]): void => {
+    const own = (node.assumptions ?? []).map(getAssumptionId).filter(id => falseSet.has(id));
+    const ids = [...new Set([...inherited, ...own])];
+    if (ids.length > 0) {
+      node.invalidatedBy = ids;
+      flagged += 1;
+    } else {
+      delete node.invalidatedBy;
+    }
+    node.children.forEach(child => visit(child, ids));
+  };
+  visit(tree, []);
+  return flagged;
+}
+
+/**
+ * 汇总决策树中的所有假设：相同的假设合并为一条，并根据节点标记得出状态和受影响的节点数
+ * Aggregate all the assumptions of a decision tree: the same assumption is merged into one entry, and its status
+ * and the affected nodes are derived from the node flags
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @returns {AssumptionRegister} 假设登记表
+ */
+export function buildAssumptionRegister(tree: DecisionNode): AssumptionRegister {
+  const entries = new Map<string, AssumptionEntry>();
+  const affected = new Map<string, number>();
+  let flaggedNodes = 0;
+
+  walkTree(tree, (node) => {
+    for (const text of node.assumptions ?? []) {
+      const id = getAssumptionId(text);
+      const entry = entries.get(id) ?? { id, text, status: "open", nodes: [], affectedNodes: 0 };
+      if (!entry.nodes.some(ref => ref.id === node.id)) {
+        entry.nodes.push({ id: node.id, description: node.description });
+      }
+      entries.set(id, entry);
+    }
+    if (node.invalidatedBy?.length) {
+      flaggedNodes += 1;
+      node.invalidatedBy.forEach(id => affected.set(id, (affected.get(id) ?? 0) + 1));
+    }
+  });
+
+  const assumptions = [...entries.values()].map((entry): AssumptionEntry => {
+    const affectedNodes = affected.get(entry.id) ?? 0;
+    return { ...entry, status: affectedNodes > 0 ? "false" : "open", affectedNodes };
+  });
+  return { assumptions, flaggedNodes };
+}
+
+/**
+ * 生成报告中的假设登记表章节（Markdown）
+ * Build the assumptions register section of the report (Markdown)
+ *
+ * @param {AssumptionRegister} register - 假设登记表
+ * @returns {string} Markdown 文本
+ */
+export function formatAssumptionSection(register: AssumptionRegister): string {
+  const labels = getReportLabels();
+  const text = labels.assumptions;
+  const lines = [
+    `## ${labels.headings.assumptions}`,
+    "",
+    text.intro,
+    "",
+    ...register.assumptions.map((entry) => {
+      const nodes = entry.nodes.map(node => `*${node.description}*`).join(", ");
+      return entry.status === "false"
+        ? `- ~~${entry.text}~~ **${text.markedFalse(entry.affectedNodes)}** – ${text.statedBy} ${nodes}`
+        : `- ${entry.text} – ${text.statedBy} ${nodes}`;
+    }),
+  ];
+  if (register.flaggedNodes > 0) {
+    lines.push("", text.flaggedNodes(register.flaggedNodes));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,268 @@
+import type { DecisionNode } from "../../types/decision";
+import { round } from "../text/format";
+
+/**
+ * 决策树上下文的压缩级别
+ * Compression level of a decision tree context
+ *
+ * - full：完整的格式化JSON
+ * - compact：去掉ID、警告和缩进
+ * - pruned：去掉低概率的结果叶子节点
+ * - summarized：将深层子树替换为摘要（顶层选项始终保留）
+ */
+export type TreeContextLevel = "full" | "compact" | "pruned" | "summarized";
+
+/**
+ * 上下文构建选项
+ * Context builder options
+ */
+export interface ContextOptions {
+  /**
+   * 整个提示词可用的令牌数
+   * Tokens available to the whole prompt
+   */
+  budget: number;
+  /**
+   * 令牌计数函数
+   * Token counting function
+   */
+  countTokens: (text: string) => number;
+}
+
+/**
+ * 构建后的提示词
+ * Built prompt
+ */
+export interface BuiltPrompt {
+  prompt: string;
+  /**
+   * 提示词是否在预算内（固定部分本身超出预算时为 false）
+   * Whether the prompt fits the budget (false when the fixed parts alone exceed it)
+   */
+  fits: boolean;
+}
+
+/**
+ * 构建后的决策树提示词
+ * Built decision tree prompt
+ */
+export interface BuiltTreePrompt extends BuiltPrompt {
+  level: TreeContextLevel;
+  /**
+   * 被去掉或摘要的节点数
+   * Number of nodes dropped or summarized
+   */
+  omittedNodes: number;
+}
+
+/**
+ * 依次尝试的低概率叶子节点阈值（%）
+ * Thresholds (%) tried in turn for dropping low-probability leaves
+ */
+const PRUNE_THRESHOLDS = [5, 10, 20];
+
+/**
+ * 紧凑表示的节点
+ * Node in the compact representation
+ */
+interface CompactNode {
+  description: string;
+  type: DecisionNode["type"];
+  probability?: number;
+  risk?: number;
+  opportunity?: number;
+  scores?: Record<string, number>;
+  assumptions?: string[];
+  expectedValue?: number;
+  optimal?: boolean;
+  omitted?: string;
+  summary?: string;
+  children?: CompactNode[];
+}
+
+/**
+ * 统计子树的节点数（不含根节点）
+ * Count the nodes of a subtree (excluding its root)
+ *
+ * @param {DecisionNode} node - 子树根节点
+ * @returns {number} 节点数
+ */
+function countDescendants(node: DecisionNode): number {
+  return node.children.reduce((acc, child) => acc + 1 + countDescendants(child), 0);
+}
+
+/**
+ * 收集子树的叶子节点
+ * Collect the leaves of a subtree
+ *
+ * @param {DecisionNode} node - 子树根节点
+ * @returns {DecisionNode[]} 叶子节点
+ */
+function collectLeaves(node: DecisionNode): DecisionNode[] {
+  return node.children.length === 0 ? [node] : node.children.flatMap(collectLeaves);
+}
+
+/**
+ * 生成子树摘要：节点数、叶子期望值范围和最可能的下一步
+ * Summarize a subtree: node count, leaf expected value range and the most likely next step
+ *
+ * @param {DecisionNode} node - 子树根节点
+ * @returns {string} 摘要文本
+ */
+export function summarizeSubtree(node: DecisionNode): string {
+  const leaves = collectLeaves(node);
+  const values = leaves.map(leaf => leaf.expectedValue).filter((value): value is number => value !== undefined);
+  const parts = [`${countDescendants(node)} descendant nodes omitted (${leaves.length} leaves)`];
+  if (values.length > 0) {
+    parts.push(`leaf expected values ${round(Math.min(...values))} to ${round(Math.max(...values))}`);
+  }
+
+  const next = node.children.find(child => child.optimal)
+    ?? [...node.children].sort((a, b) => (b.probability ?? 0) - (a.probability ?? 0))[0];
+  if (next) {
+    parts.push(`${next.optimal ? "best" : "most likely"} next: ${next.description}${next.probability !== undefined ? ` (${next.probability}%)` : ""}`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * 将决策树转换为紧凑表示
+ * Convert a decision tree to the compact representation
+ *
+ * @param {DecisionNode} node - 节点
+ * @param {object} options - 压缩选项
+ * @param {number} options.pruneBelow - 去掉概率低于该值（%）的结果叶子节点，0 表示不去掉
+ * @param {number} options.summarizeAt - 将该深度节点的子树替换为摘要，Infinity 表示不摘要
+ * @param {object} options.omitted - 被去掉或摘要的节点计数
+ * @param {number} options.omitted.value - 计数
+ * @param {number} depth - 节点深度（根节点为0）
+ * @returns {CompactNode} 紧凑节点
+ */
+function compactNode(
+  node: DecisionNode,
+  options: { pruneBelow: number; summarizeAt: number; omitted: { value: number } },
+  depth = 0,
+): CompactNode {
+  const compact: CompactNode = {
+    description: node.description,
+    type: node.type,
+    ...(node.probability !== undefined && { probability: node.probability }),
+    ...(node.risk !== undefined && { risk: node.risk }),
+    ...(node.opportunity !== undefined && { opportunity: node.opportunity }),
+    ...(node.scores && { scores: node.scores }),
+    ...(node.assumptions && { assumptions: node.assumptions }),
+    ...(node.expectedValue !== undefined && { expectedValue: round(node.expectedValue) }),
+    ...(node.optimal && { optimal: true }),
+  };
+  if (node.children.length === 0) {
+    return compact;
+  }
+
+  if (depth >= options.summarizeAt) {
+    options.omitted.value += countDescendants(node);
+    compact.summary = summarizeSubtree(node);
+    return compact;
+  }
+
+  // 顶层选项和最优路径上的节点始终保留
+  const dropped = depth >= 1
+    ? node.children.filter(child => child.type === "outcome" && child.children.length === 0 && !child.optimal
+      && (child.probability ?? 100) < options.pruneBelow)
+    : [];
+  if (dropped.length > 0) {
+    options.omitted.value += dropped.length;
+    const probability = dropped.reduce((acc, child) => acc + (child.probability ?? 0), 0);
+    compact.omitted = `${dropped.length} unlikely outcome(s) with a combined probability of ${round(probability)}%`;
+  }
+  compact.children = node.children
+    .filter(child => !dropped.includes(child))
+    .map(child => compactNode(child, options, depth + 1));
+  return compact;
+}
+
+/**
+ * 计算决策树的最大深度
+ * Compute the maximum depth of a decision tree
+ *
+ * @param {DecisionNode} node - 节点
+ * @returns {number} 最大深度（只有根节点时为0）
+ */
+function treeDepth(node: DecisionNode): number {
+  return node.children.reduce((acc, child) => Math.max(acc, 1 + treeDepth(child)), 0);
+}
+
+/**
+ * 生成决策树的各级序列化结果，从最完整到最精简
+ * Generate serializations of a decision tree from the most complete to the most compressed
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @yields 压缩级别、序列化文本和被省略的节点数
+ */
+function* treeSerializations(tree: DecisionNode): Generator<{ level: TreeContextLevel; text: string; omittedNodes: number }> {
+  yield { level: "full", text: JSON.stringify(tree, null, 2), omittedNodes: 0 };
+
+  const serialize = (level: TreeContextLevel, pruneBelow: number, summarizeAt: number) => {
+    const omitted = { value: 0 };
+    const text = JSON.stringify(compactNode(tree, { pruneBelow, summarizeAt, omitted }));
+    return { level, text, omittedNodes: omitted.value };
+  };
+
+  yield serialize("compact", 0, Infinity);
+  for (const threshold of PRUNE_THRESHOLDS) {
+    yield serialize("pruned", threshold, Infinity);
+  }
+  // 从最深处开始逐层摘要，最后只保留顶层选项及其摘要
+  const maxPrune = PRUNE_THRESHOLDS.at(-1)!;
+  for (let depth = treeDepth(tree) - 1; depth >= 1; depth--) {
+    yield serialize("summarized", maxPrune, depth);
+  }
+}
+
+/**
+ * 构建包含决策树的提示词：决策树超出预算时逐级压缩，问题和指令等固定部分始终完整保留
+ * Build a prompt containing a decision tree: the tree is compressed step by step when it exceeds the budget,
+ * while the fixed parts such as the problem and instructions are always kept intact
+ *
+ * @param {Function} render - 根据决策树文本生成完整提示词
+ * @param {DecisionNode} tree - 决策树
+ * @param {ContextOptions} options - 上下文构建选项
+ * @returns {BuiltTreePrompt} 构建后的提示词
+ */
+export function buildTreePrompt(
+  render: (tree: string) => string,
+  tree: DecisionNode,
+  { budget, countTokens }: ContextOptions,
+): BuiltTreePrompt {
+  let last: BuiltTreePrompt | undefined;
+  for (const { level, text, omittedNodes } of treeSerializations(tree)) {
+    const prompt = render(text);
+    last = { prompt, level, omittedNodes, fits: countTokens(prompt) <= budget };
+    if (last.fits) {
+      return last;
+    }
+  }
+  return last!;
+}
+
+/**
+ * 构建包含决策路径的提示词：路径超出预算时保留第一步（顶层选项）和最近的步骤，省略中间部分
+ * Build a prompt containing a decision path: when the path exceeds the budget, the first step (the top-level option)
+ * and the most recent steps are kept and the middle is elided
+ *
+ * @param {Function} render - 根据路径文本生成完整提示词
+ * @param {string[]} steps - 路径上的节点描述
+ * @param {ContextOptions} options - 上下文构建选项
+ * @returns {BuiltPrompt} 构建后的提示词
+ */
+export function buildPathPrompt(
+  render: (path: string) => string,
+  steps: string[],
+  { budget, countTokens }: ContextOptions,
+): BuiltPrompt {
+  let prompt = render(steps.join(" → "));
+  for (let kept = steps.length - 2; kept >= 1 && countTokens(prompt) > budget; kept--) {
+    const elided = steps.length - 1 - kept;
+    prompt = render([steps[0], `… (${elided} step(s) omitted) …`, ...steps.slice(-kept)].join(" → "));
+  }
+  return { prompt, fits: countTokens(prompt) <= budget };
+}
@@ -0,0 +1,219 @@
+import type { CriteriaBreakdown, CriterionScale, DecisionCriterion, DecisionNode } from "../../types/decision";
+import type { NodeScorer } from "./expected-value";
+import { z } from "zod";
+
+/**
+ * 默认评分量表
+ * Default scoring scale
+ */
+const DEFAULT_SCALE: CriterionScale = { min: 1, max: 10 };
+
+/**
+ * 效用缺失时使用的中性值
+ * Neutral value used when the utility is missing
+ */
+const NEUTRAL_UTILITY = 0.5;
+
+/**
+ * 获取标准的评分量表
+ * Get the scoring scale of a criterion
+ *
+ * @param {DecisionCriterion} criterion - 评估标准
+ * @returns {CriterionScale} 评分量表
+ */
+export function getCriterionScale(criterion: DecisionCriterion): CriterionScale {
+  return criterion.scale ?? DEFAULT_SCALE;
+}
+
+/**
+ * 校验并归一化评估标准（权重总和为1）
+ * Validate and normalize evaluation criteria (weights sum to 1)
+ *
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @returns {DecisionCriterion[]} 归一化后的评估标准
+ */
+export function normalizeCriteria(criteria: DecisionCriterion[]): DecisionCriterion[] {
+  const names = new Set<string>();
+  for (const criterion of criteria) {
+    if (typeof criterion !== "object" || criterion === null) {
+      throw new Error("Criteria must be objects with a name and a weight");
+    }
+    if (typeof criterion.name !== "string" || !criterion.name.trim()) {
+      throw new Error("Criterion name is required");
+    }
+    if (names.has(criterion.name)) {
+      throw new Error(`Duplicate criterion name: ${criterion.name}`);
+    }
+    names.add(criterion.name);
+
+    if (!Number.isFinite(criterion.weight) || criterion.weight < 0) {
+      throw new Error(`Invalid weight for criterion ${criterion.name}: ${criterion.weight}`);
+    }
+
+    const scale = getCriterionScale(criterion);
+    if (typeof scale !== "object" || scale === null || !(scale.max > scale.min)) {
+      throw new Error(`Invalid scale for criterion ${criterion.name}: ${scale?.min}-${scale?.max}`);
+    }
+    if (criterion.direction !== undefined && criterion.direction !== "higher-is-better" && criterion.direction !== "lower-is-better") {
+      throw new Error(`Invalid direction for criterion ${criterion.name}: ${criterion.direction}`);
+    }
+  }
+
+  const totalWeight = criteria.reduce((acc, criterion) => acc + criterion.weight, 0);
+  if (criteria.length > 0 && totalWeight <= 0) {
+    throw new Error("At least one criterion must have a positive weight");
+  }
+
+  return criteria.map(criterion => ({
+    ...criterion,
+    weight: criterion.weight / totalWeight,
+    scale: getCriterionScale(criterion),
+    direction: criterion.direction ?? "higher-is-better",
+  }));
+}
+
+/**
+ * 将评分映射到0-1（越高越好）
+ * Map a score to 0-1 (higher is better)
+ *
+ * @param {DecisionCriterion} criterion - 评估标准
+ * @param {number} score - 原始评分
+ * @returns {number} 归一化评分
+ */
+function normalizeScore(criterion: DecisionCriterion, score: number): number {
+  const { min, max } = getCriterionScale(criterion);
+  const ratio = Math.min(1, Math.max(0, (score - min) / (max - min)));
+  return criterion.direction === "lower-is-better" ? 1 - ratio : ratio;
+}
+
+/**
+ * 计算节点的加权效用
+ * Compute the weighted utility of a node
+ *
+ * 只对节点已有评分的标准加权，缺少全部评分时返回 undefined
+ * Only criteria the node has a score for are weighted; returns undefined when no score is present
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @returns {number | undefined} 加权效用（0-1）
+ */
+export function computeUtility(node: DecisionNode, criteria: DecisionCriterion[]): number | undefined {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const criterion of criteria) {
+    const score = node.scores?.[criterion.name];
+    if (typeof score === "number" && Number.isFinite(score)) {
+      weighted += criterion.weight * normalizeScore(criterion, score);
+      totalWeight += criterion.weight;
+    }
+  }
+  return totalWeight > 0 ? weighted / totalWeight : undefined;
+}
+
+/**
+ * 为决策树中每个节点计算效用
+ * Compute the utility of every node in the decision tree
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ */
+export function applyCriteriaUtilities(tree: DecisionNode, criteria: DecisionCriterion[]): void {
+  const utility = computeUtility(tree, criteria);
+  if (utility === undefined) {
+    delete tree.utility;
+  } else {
+    tree.utility = Math.round(utility * 1000) / 1000;
+  }
+  tree.children.forEach(child => applyCriteriaUtilities(child, criteria));
+}
+
+/**
+ * 基于效用的叶子节点评分函数（用于期望值回溯）
+ * Utility-based leaf scorer (for the expected value rollup)
+ *
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @returns {NodeScorer} 评分函数
+ */
+export function createUtilityScorer(criteria: DecisionCriterion[]): NodeScorer {
+  return node => computeUtility(node, criteria) ?? NEUTRAL_UTILITY;
+}
+
+/**
+ * 获取节点的多标准评分明细
+ * Get the multi-criteria score breakdown of a node
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @returns {CriteriaBreakdown} 评分明细
+ */
+export function getCriteriaBreakdown(node: DecisionNode, criteria: DecisionCriterion[]): CriteriaBreakdown {
+  return {
+    nodeId: node.id,
+    description: node.description,
+    scores: criteria
+      .filter(criterion => typeof node.scores?.[criterion.name] === "number")
+      .map((criterion) => {
+        const score = node.scores![criterion.name]!;
+        return {
+          criterion: criterion.name,
+          score,
+          weight: criterion.weight,
+          contribution: Math.round(criterion.weight * normalizeScore(criterion, score) * 1000) / 1000,
+        };
+      }),
+    utility: node.utility,
+    expectedValue: node.expectedValue,
+  };
+}
+
+/**
+ * 生成评估标准说明（用于生成提示词）
+ * Describe the evaluation criteria (for generation prompts)
+ *
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @returns {string} 标准说明文本
+ */
+export function formatCriteriaPrompt(criteria: DecisionCriterion[]): string {
+  return criteria.map((criterion) => {
+    const { min, max, description } = getCriterionScale(criterion);
+    const direction = criterion.direction === "lower-is-better" ? "lower is better" : "higher is better";
+    const details = [
+      `scale ${min}-${max}${description ? ` (${description})` : ""}`,
+      direction,
+      `weight ${Math.round(criterion.weight * 100)}%`,
+    ].join(", ");
+    return `- ${criterion.name}: ${criterion.description ?? ""} [${details}]`;
+  }).join("\n");
+}
+
+/**
+ * 生成顶层选项的多标准评分摘要（用于报告提示词）
+ * Build a multi-criteria summary of the top-level options (for report prompts)
+ *
+ * @param {CriteriaBreakdown[]} breakdown - 评分明细
+ * @returns {string} 摘要文本
+ */
+export function formatCriteriaBreakdown(breakdown: CriteriaBreakdown[]): string {
+  return breakdown.map((item) => {
+    const scores = item.scores
+      .map(score => `${score.criterion}=${score.score} (weight ${Math.round(score.weight * 100)}%, contribution ${score.contribution})`)
+      .join("; ");
+    return `- ${item.description}: utility ${item.utility ?? "n/a"}, expected value ${item.expectedValue ?? "n/a"} | ${scores}`;
+  }).join("\n");
+}
+
+/**
+ * 构建评估标准评分的结构化输出模式
+ * Build the structured output schema for criteria scores
+ *
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @returns {z.ZodObject<Record<string, z.ZodNumber>>} 评分模式
+ */
+export function buildCriteriaScoresSchema(criteria: DecisionCriterion[]): z.ZodObject<Record<string, z.ZodNumber>> {
+  const shape: Record<string, z.ZodNumber> = {};
+  for (const criterion of criteria) {
+    const { min, max } = getCriterionScale(criterion);
+    shape[criterion.name] = z.number().min(min).max(max).describe(`Score for "${criterion.name}" (${min}-${max})`);
+  }
+  return z.object(shape);
+}
@@ -0,0 +1,202 @@
+import type { CritiqueCategory, CritiqueItem, CritiqueMode, CritiqueSeverity, DecisionCritique } from "../../types/critique";
+import type { DecisionNode } from "../../types/decision";
+import { getReportLabels } from "../report/labels";
+import { descriptionSimilarity, DIFF_MATCH_THRESHOLD } from "./diff";
+import { findNodePath, walkTree } from "./tree";
+
+/**
+ * 所有批判审查方式
+ * All critique modes
+ */
+export const CRITIQUE_MODES: readonly CritiqueMode[] = ["off", "review", "reexpand"];
+
+/**
+ * 批判审查检查的问题类型及其说明（用于提示词，报告中的名称见报告文字）
+ * Issue kinds checked by the critique and their descriptions (for prompts; the names shown in reports are in the report labels)
+ */
+export const CRITIQUE_CATEGORIES: Record<CritiqueCategory, { description: string }> = {
+  "missing-option": {
+    description: "an option or important consequence that is absent from the tree",
+  },
+  "overconfident-probability": {
+    description: "a probability or range that is more certain than the evidence allows",
+  },
+  "anchoring": {
+    description: "later options or estimates anchored on the first option, or options that are variations of one idea",
+  },
+  "omitted-stakeholder": {
+    description: "a party affected by the decision whose interests the tree ignores",
+  },
+  "unrealistic-outcome": {
+    description: "a best-case outcome that is too likely or too favorable",
+  },
+};
+
+/**
+ * 严重程度的排序权重
+ * Sort weight of the severities
+ */
+const SEVERITY_ORDER: Record<CritiqueSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * 模型生成的问题，用节点描述而不是节点ID指出问题所在
+ * Issue generated by the model, which names the node by its description instead of its ID
+ */
+export interface GeneratedCritiqueItem {
+  category: CritiqueCategory;
+  severity: CritiqueSeverity;
+  node: string;
+  issue: string;
+  suggestion: string;
+}
+
+/**
+ * 判断值是否为批判审查方式
+ * Check whether a value is a critique mode
+ *
+ * @param {unknown} value - 待检查的值
+ * @returns {boolean} 是否为批判审查方式
+ */
+export function isCritiqueMode(value: unknown): value is CritiqueMode {
+  return CRITIQUE_MODES.includes(value as CritiqueMode);
+}
+
+/**
+ * 生成提示词中的问题类型列表
+ * Build the list of issue kinds for prompts
+ *
+ * @returns {string} 列表文本
+ */
+export function formatCritiqueCategories(): string {
+  return Object.entries(CRITIQUE_CATEGORIES)
+    .map(([category, { description }]) => `- ${category}: ${description}`)
+    .join("\n");
+}
+
+/**
+ * 按描述找到问题所在的节点：先精确匹配，再找描述最相似的节点，都找不到时归到根节点
+ * Find the node an issue is about by its description: an exact match first, then the most similar description,
+ * falling back to the root
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {string} description - 模型给出的节点描述
+ * @returns {DecisionNode} 节点
+ */
+function findCritiquedNode(tree: DecisionNode, description: string): DecisionNode {
+  const target = description.trim().toLowerCase();
+  let best: { node: DecisionNode; similarity: number } = { node: tree, similarity: DIFF_MATCH_THRESHOLD };
+  let exact: DecisionNode | undefined;
+  walkTree(tree, (node) => {
+    if (exact) {
+      return;
+    }
+    if (node.description.trim().toLowerCase() === target) {
+      exact = node;
+      return;
+    }
+    const similarity = descriptionSimilarity(node.description, description);
+    if (similarity > best.similarity) {
+      best = { node, similarity };
+    }
+  });
+  return exact ?? best.node;
+}
+
+/**
+ * 将模型生成的问题关联到节点ID，并按严重程度排序
+ * Link the issues generated by the model to node IDs and sort them by severity
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {GeneratedCritiqueItem[]} generated - 模型生成的问题
+ * @returns {CritiqueItem[]} 关联到节点的问题
+ */
+export function linkCritiqueItems(tree: DecisionNode, generated: GeneratedCritiqueItem[]): CritiqueItem[] {
+  return generated
+    .map(({ node: description, ...item }) => {
+      const node = findCritiquedNode(tree, description);
+      return { ...item, nodeId: node.id, description: node.description };
+    })
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * 选择需要重新展开的节点：中高严重程度的问题所在的节点（叶子节点取其父节点），不是根节点，且不在另一个被选中
+ * 节点的子树中
+ * Choose the nodes to re-expand: the nodes of medium or high severity issues (the parent for a leaf), not the root,
+ * and not inside the subtree of another chosen node
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {CritiqueItem[]} items - 已排序的问题
+ * @param {number} limit - 最多重新展开的节点数
+ * @returns {DecisionNode[]} 需要重新展开的节点
+ */
+export function selectReexpansionTargets(tree: DecisionNode, items: CritiqueItem[], limit: number): DecisionNode[] {
+  const paths = new Map<string, DecisionNode[]>();
+  for (const item of items) {
+    if (paths.size >= limit) {
+      break;
+    }
+    const found = findNodePath(tree, item.nodeId);
+    // 叶子节点没有可以重新生成的子节点，改为重新展开其父节点
+    const path = found && found.at(-1)!.children.length === 0 ? found.slice(0, -1) : found;
+    if (item.severity !== "low" && path && path.length > 1) {
+      paths.set(path.at(-1)!.id, path);
+    }
+  }
+
+  return [...paths.values()]
+    .filter(path => !path.slice(0, -1).some(ancestor => paths.has(ancestor.id)))
+    .map(path => path.at(-1)!);
+}
+
+/**
+ * 格式化单个问题
+ * Format a single issue
+ *
+ * @param {CritiqueItem} item - 问题
+ * @returns {string} 文本
+ */
+function formatCritiqueItem(item: CritiqueItem): string {
+  const text = getReportLabels().critique;
+  const reexpanded = item.reexpanded ? ` ${text.reexpanded}` : "";
+  return `**[${item.severity}] ${text.categories[item.category]}** – *${item.description}*${reexpanded}: ${item.issue}`
+    + `${item.suggestion ? ` ${text.suggestion} ${item.suggestion}` : ""}`;
+}
+
+/**
+ * 生成报告中的批判审查章节（Markdown）
+ * Build the critique section of the report (Markdown)
+ *
+ * @param {DecisionCritique} critique - 批判审查结果
+ * @returns {string} Markdown 文本
+ */
+export function formatCritiqueSection(critique: DecisionCritique): string {
+  const labels = getReportLabels();
+  const lines = [`## ${labels.headings.critique}`, "", labels.critique.intro, ""];
+  if (critique.items.length === 0) {
+    lines.push(labels.critique.noIssues);
+  } else {
+    lines.push(...critique.items.map(item => `- ${formatCritiqueItem(item)}`));
+  }
+  if (critique.reexpanded.length > 0) {
+    lines.push("", labels.critique.reexpandedNodes(critique.reexpanded.length));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 生成批判审查摘要（用于报告提示词）
+ * Build a summary of the critique (for report prompts)
+ *
+ * @param {DecisionCritique} critique - 批判审查结果
+ * @param {number} limit - 最多列出的条数
+ * @returns {string} 摘要文本
+ */
+export function formatCritiqueSummary(critique: DecisionCritique, limit = 8): string {
+  if (critique.items.length === 0) {
+    return "The review found no issues.";
+  }
+  return critique.items.slice(0, limit)
+    .map(item => `- [${item.severity}] ${item.category} (${item.description}): ${item.issue}${item.reexpanded ? " (already re-expanded)" : ""}`)
+    .join("\n");
+}
@@ -0,0 +1,366 @@
+import type { DecisionNode } from "../../types/decision";
+import type { AnalysisSnapshot, DecisionDiff, DiffNodeRef, FieldChange, NodeSetDiff } from "../../types/diff";
+import { escapeTableCell, round } from "../text/format";
+import { countNodes } from "./tree";
+
+/**
+ * 判定为同一节点或同一见解的最低描述相似度
+ * Minimum description similarity for two nodes or insights to count as the same
+ */
+export const DIFF_MATCH_THRESHOLD = 0.5;
+
+/**
+ * 比较的数值字段
+ * Compared numeric fields
+ */
+const NUMERIC_FIELDS = ["probability", "risk", "opportunity", "expectedValue"] as const;
+
+/**
+ * 统计文本的字符二元组（先统一大小写并去掉标点和多余空白）
+ * Count the character bigrams of a text (after lowercasing and removing punctuation and extra whitespace)
+ *
+ * @param {string} text - 文本
+ * @returns {Map<string, number>} 二元组计数
+ */
+function bigrams(text: string): Map<string, number> {
+  const normalized = text.toLowerCase().replace(/[\s\p{P}]+/gu, " ").trim();
+  const counts = new Map<string, number>();
+  const chars = [...normalized];
+  if (chars.length === 1) {
+    counts.set(normalized, 1);
+  }
+  for (let i = 0; i < chars.length - 1; i++) {
+    const bigram = chars[i]! + chars[i + 1]!;
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * 计算两段描述的相似度（字符二元组的 Sørensen-Dice 系数，对中文等不以空格分词的语言同样适用）
+ * Compute the similarity of two descriptions (Sørensen-Dice coefficient of character bigrams,
+ * which also works for languages such as Chinese that do not separate words with spaces)
+ *
+ * @param {string} a - 描述
+ * @param {string} b - 描述
+ * @returns {number} 相似度（0-1）
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let total = 0;
+  let overlap = 0;
+  for (const [bigram, count] of left) {
+    total += count;
+    overlap += Math.min(count, right.get(bigram) ?? 0);
+  }
+  for (const count of right.values()) {
+    total += count;
+  }
+  return total === 0 ? 1 : (2 * overlap) / total;
+}
+
+/**
+ * 按描述相似度贪心匹配两组条目，相似度最高的一对优先
+ * Greedily match two lists of items by description similarity, most similar pairs first
+ *
+ * @param {T[]} before - 旧的条目
+ * @param {T[]} after - 新的条目
+ * @param {Function} describe - 获取条目描述
+ * @returns {object} 匹配结果：配对（旧位置、新位置、相似度）以及未匹配的位置
+ */
+function matchByDescription<T>(
+  before: T[],
+  after: T[],
+  describe: (item: T) => string,
+): { pairs: [number, number, number][]; removed: number[]; added: number[] } {
+  const candidates: [number, number, number][] = [];
+  before.forEach((a, i) => {
+    after.forEach((b, j) => {
+      const similarity = descriptionSimilarity(describe(a), describe(b));
+      if (similarity >= DIFF_MATCH_THRESHOLD) {
+        candidates.push([i, j, similarity]);
+      }
+    });
+  });
+
+  const pairs: [number, number, number][] = [];
+  const usedBefore = new Set<number>();
+  const usedAfter = new Set<number>();
+  for (const candidate of candidates.sort((a, b) => b[2] - a[2])) {
+    const [i, j] = candidate;
+    if (!usedBefore.has(i) && !usedAfter.has(j)) {
+      pairs.push(candidate);
+      usedBefore.add(i);
+      usedAfter.add(j);
+    }
+  }
+
+  return {
+    pairs,
+    removed: before.map((_, i) => i).filter(i => !usedBefore.has(i)),
+    added: after.map((_, j) => j).filter(j => !usedAfter.has(j)),
+  };
+}
+
+/**
+ * 创建节点引用
+ * Create a node reference
+ *
+ * @param {DecisionNode} node - 节点
+ * @param {string[]} path - 父节点的路径
+ * @param {boolean} withDescendants - 是否记录子树的节点数
+ * @returns {DiffNodeRef} 节点引用
+ */
+function nodeRef(node: DecisionNode, path: string[], withDescendants = false): DiffNodeRef {
+  const descendants = countNodes(node) - 1;
+  return {
+    id: node.id,
+    description: node.description,
+    path: [...path, node.description],
+    ...(withDescendants && descendants > 0 && { descendants }),
+  };
+}
+
+/**
+ * 比较匹配到的两个节点的字段
+ * Compare the fields of two matched nodes
+ *
+ * @param {DecisionNode} before - 旧节点
+ * @param {DecisionNode} after - 新节点
+ * @returns {FieldChange[]} 字段变化
+ */
+function fieldChanges(before: DecisionNode, after: DecisionNode): FieldChange[] {
+  const changes: FieldChange[] = [];
+  if (before.description !== after.description) {
+    changes.push({ field: "description", before: before.description, after: after.description });
+  }
+  if (before.type !== after.type) {
+    changes.push({ field: "type", before: before.type, after: after.type });
+  }
+  for (const field of NUMERIC_FIELDS) {
+    const a = before[field];
+    const b = after[field];
+    if (a === b || (a !== undefined && b !== undefined && Math.abs(a - b) < 1e-9)) {
+      continue;
+    }
+    changes.push({
+      field,
+      ...(a !== undefined && { before: a }),
+      ...(b !== undefined && { after: b }),
+      ...(a !== undefined && b !== undefined && { delta: round(b - a) }),
+    });
+  }
+  return changes;
+}
+
+/**
+ * 创建空的节点差异
+ * Create an empty node set diff
+ *
+ * @returns {NodeSetDiff} 节点差异
+ */
+function emptySetDiff(): NodeSetDiff {
+  return { added: [], removed: [], changed: [], unchanged: 0 };
+}
+
+/**
+ * 递归比较两个已匹配节点的子节点：在同一父节点下按描述匹配，因此匹配同时考虑了描述和路径
+ * Recursively compare the children of two matched nodes: children are matched by description under the same
+ * parent, so matching takes both the description and the path into account
+ *
+ * @param {DecisionNode} before - 旧节点
+ * @param {DecisionNode} after - 新节点
+ * @param {object} paths - 两个节点的路径
+ * @param {string[]} paths.before - 旧节点的路径
+ * @param {string[]} paths.after - 新节点的路径
+ * @param {NodeSetDiff} target - 记录这一层差异的位置
+ * @param {NodeSetDiff} deeper - 记录更深层差异的位置
+ */
+function diffChildren(
+  before: DecisionNode,
+  after: DecisionNode,
+  paths: { before: string[]; after: string[] },
+  target: NodeSetDiff,
+  deeper: NodeSetDiff,
+): void {
+  const { pairs, removed, added } = matchByDescription(before.children, after.children, node => node.description);
+  removed.forEach(i => target.removed.push(nodeRef(before.children[i]!, paths.before, true)));
+  added.forEach(j => target.added.push(nodeRef(after.children[j]!, paths.after, true)));
+
+  for (const [i, j, similarity] of pairs) {
+    const a = before.children[i]!;
+    const b = after.children[j]!;
+    const changes = fieldChanges(a, b);
+    if (changes.length > 0) {
+      target.changed.push({ before: nodeRef(a, paths.before), after: nodeRef(b, paths.after), similarity: round(similarity), changes });
+    } else {
+      target.unchanged += 1;
+    }
+    diffChildren(a, b, { before: [...paths.before, a.description], after: [...paths.after, b.description] }, deeper, deeper);
+  }
+}
+
+/**
+ * 获取首选的顶层选项：最优路径上的选项，没有标记时取期望值最高的选项
+ * Get the preferred top-level option: the one on the optimal path, or the highest expected value when unmarked
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @returns {DecisionNode | undefined} 首选选项
+ */
+function preferredOption(tree: DecisionNode): DecisionNode | undefined {
+  return tree.children.find(child => child.optimal)
+    ?? [...tree.children].sort((a, b) => (b.expectedValue ?? Number.NEGATIVE_INFINITY) - (a.expectedValue ?? Number.NEGATIVE_INFINITY))[0];
+}
+
+/**
+ * 比较两次决策分析（例如修改跟进问题的回答后重新分析）
+ * Compare two decision analyses (e.g. a rerun after an answer to a follow-up question changed)
+ *
+ * 每次分析的节点ID都是新生成的，因此节点按描述相似度在相同的路径下匹配
+ * Node IDs are generated afresh by every analysis, so nodes are matched by description similarity under the same path
+ *
+ * @param {AnalysisSnapshot} before - 旧的分析
+ * @param {AnalysisSnapshot} after - 新的分析
+ * @returns {DecisionDiff} 差异
+ */
+export function diffDecisionAnalyses(before: AnalysisSnapshot, after: AnalysisSnapshot): DecisionDiff {
+  const options = emptySetDiff();
+  const nodes = emptySetDiff();
+  diffChildren(before.decisionTree, after.decisionTree, { before: [], after: [] }, options, nodes);
+
+  const beforeValue = before.decisionTree.expectedValue;
+  const afterValue = after.decisionTree.expectedValue;
+  const beforeOption = preferredOption(before.decisionTree);
+  const afterOption = preferredOption(after.decisionTree);
+  const matchedOptions = matchByDescription(
+    beforeOption ? [beforeOption] : [],
+    afterOption ? [afterOption] : [],
+    node => node.description,
+  );
+
+  const beforeInsights = before.insights ?? [];
+  const afterInsights = after.insights ?? [];
+  const insights = matchByDescription(beforeInsights, afterInsights, insight => insight);
+
+  return {
+    expectedValue: {
+      ...(beforeValue !== undefined && { before: beforeValue }),
+      ...(afterValue !== undefined && { after: afterValue }),
+      ...(beforeValue !== undefined && afterValue !== undefined && { delta: round(afterValue - beforeValue) }),
+    },
+    preferredOption: {
+      ...(beforeOption && { before: nodeRef(beforeOption, []) }),
+      ...(afterOption && { after: nodeRef(afterOption, []) }),
+      changed: matchedOptions.pairs.length === 0 && (beforeOption !== undefined || afterOption !== undefined),
+    },
+    options,
+    nodes,
+    insights: {
+      added: insights.added.map(j => afterInsights[j]!),
+      removed: insights.removed.map(i => beforeInsights[i]!),
+      changed: insights.pairs
+        .filter(([i, j]) => beforeInsights[i] !== afterInsights[j])
+        .map(([i, j, similarity]) => ({ before: beforeInsights[i]!, after: afterInsights[j]!, similarity: round(similarity) })),
+      unchanged: insights.pairs.filter(([i, j]) => beforeInsights[i] === afterInsights[j]).length,
+    },
+  };
+}
+
+/**
+ * 格式化字段值
+ * Format a field value
+ *
+ * @param {FieldChange["field"]} field - 字段
+ * @param {number | string | undefined} value - 值
+ * @returns {string} 格式化后的值
+ */
+function formatField(field: FieldChange["field"], value: number | string | undefined): string {
+  if (value === undefined) {
+    return "-";
+  }
+  return field === "probability" ? `${value}%` : String(value);
+}
+
+/**
+ * 生成一组节点差异的 Markdown
+ * Render the Markdown of a node set diff
+ *
+ * @param {NodeSetDiff} diff - 节点差异
+ * @param {boolean} withPath - 是否显示完整路径
+ * @returns {string[]} Markdown 行
+ */
+function formatSetDiff(diff: NodeSetDiff, withPath: boolean): string[] {
+  const label = (ref: DiffNodeRef) => withPath ? ref.path.join(" → ") : ref.description;
+  const subtree = (ref: DiffNodeRef) => ref.descendants ? ` (with ${ref.descendants} nodes below)` : "";
+  const lines: string[] = [];
+
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return [`No changes (${diff.unchanged} matched).`, ""];
+  }
+  if (diff.added.length > 0) {
+    lines.push("**Added**", "", ...diff.added.map(ref => `- ${label(ref)}${subtree(ref)}`), "");
+  }
+  if (diff.removed.length > 0) {
+    lines.push("**Removed**", "", ...diff.removed.map(ref => `- ${label(ref)}${subtree(ref)}`), "");
+  }
+  if (diff.changed.length > 0) {
+    lines.push(
+      "**Changed**",
+      "",
+      "| Node | Field | Before | After | Change |",
+      "| --- | --- | --- | --- | --- |",
+      ...diff.changed.flatMap(change => change.changes.map((field) => {
+        const delta = field.delta === undefined ? "" : `${field.delta > 0 ? "+" : ""}${field.delta}`;
+        return `| ${escapeTableCell(label(change.after))} | ${field.field} | ${escapeTableCell(formatField(field.field, field.before))} | ${escapeTableCell(formatField(field.field, field.after))} | ${delta} |`;
+      })),
+      "",
+    );
+  }
+  if (diff.unchanged > 0) {
+    lines.push(`${diff.unchanged} matched without changes.`, "");
+  }
+  return lines;
+}
+
+/**
+ * 将两次分析的差异渲染为 Markdown
+ * Render the differences between two analyses as Markdown
+ *
+ * @param {DecisionDiff} diff - 差异
+ * @returns {string} Markdown 文本
+ */
+export function formatDecisionDiff(diff: DecisionDiff): string {
+  const { expectedValue, preferredOption } = diff;
+  const lines = ["# Decision Analysis Diff", ""];
+
+  if (expectedValue.before !== undefined || expectedValue.after !== undefined) {
+    const delta = expectedValue.delta === undefined ? "" : ` (${expectedValue.delta > 0 ? "+" : ""}${expectedValue.delta})`;
+    lines.push(`- Root expected value: ${expectedValue.before ?? "-"} → ${expectedValue.after ?? "-"}${delta}`);
+  }
+  lines.push(preferredOption.changed
+    ? `- Preferred option changed: ${preferredOption.before?.description ?? "-"} → ${preferredOption.after?.description ?? "-"}`
+    : `- Preferred option unchanged: ${preferredOption.after?.description ?? "-"}`);
+  lines.push("");
+
+  lines.push("## Options", "", ...formatSetDiff(diff.options, false));
+  lines.push("## Outcomes and Follow-up Decisions", "", ...formatSetDiff(diff.nodes, true));
+
+  lines.push("## Insights", "");
+  const { added, removed, changed, unchanged } = diff.insights;
+  if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+    lines.push(`No changes (${unchanged} matched).`);
+  } else {
+    if (added.length > 0) {
+      lines.push("**New**", "", ...added.map(insight => `- ${insight}`), "");
+    }
+    if (removed.length > 0) {
+      lines.push("**Dropped**", "", ...removed.map(insight => `- ${insight}`), "");
+    }
+    if (changed.length > 0) {
+      lines.push("**Reworded**", "", ...changed.map(change => `- ${change.before} → ${change.after}`), "");
+    }
+    lines.push(`${unchanged} matched without changes.`);
+  }
+  return `${lines.join("\n").trimEnd()}\n`;
+}
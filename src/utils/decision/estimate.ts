@@ -0,0 +1,418 @@
+import type { CritiqueMode } from "../../types/critique";
+import type { ExpansionStrategy } from "../../types/decision";
+import type { AnalysisCeiling, AnalysisEstimate, PriceTable, StageEstimate } from "../../types/usage";
+import { findModelPrice, roundCost } from "../llm/usage";
+
+/**
+ * 预估使用的经验值（令牌数），按常见模型的实际输出校准
+ * Heuristics used by the estimate (in tokens), calibrated against typical model output
+ */
+export const ESTIMATE_HEURISTICS = {
+  // 各阶段提示词模板与输出模式的令牌数（不含系统提示词和问题）
+  // Tokens of each stage's prompt template and output schema (excluding the system prompt and the problem)
+  TEMPLATE_TOKENS: {
+    "initial-tree": 650,
+    "expansion": 750,
+    "repair": 300,
+    "insights": 250,
+    "critique": 400,
+    "stakeholders": 350,
+    "report": 600,
+  },
+  // 生成一个节点（含评估理由、假设和证据）的输出令牌数，以及每个评估标准评分额外的令牌数
+  // Output tokens of one generated node (including its rationale, assumptions and evidence), and the extra tokens per criterion score
+  NODE_OUTPUT_TOKENS: 170,
+  CRITERION_OUTPUT_TOKENS: 8,
+  // 节点描述的令牌数（出现在路径和修复提示词中）
+  // Tokens of a node description (as it appears in paths and repair prompts)
+  DESCRIPTION_TOKENS: 25,
+  // 序列化为JSON的节点的令牌数（见解提示词包含整棵决策树，报告的选项章节提示词包含选项的子树）
+  // Tokens of a node serialized as JSON (the insights prompt contains the whole tree, the report option prompts an option's subtree)
+  NODE_JSON_TOKENS: 230,
+  // 修复一个结果节点概率的输出令牌数
+  // Output tokens for repairing the probability of one outcome
+  REPAIR_OUTPUT_TOKENS: 15,
+  INSIGHTS_OUTPUT_TOKENS: 350,
+  CRITIQUE_OUTPUT_TOKENS: 600,
+  // 利益相关者对一个选项或结果的评分和理由的输出令牌数
+  // Output tokens of a stakeholder's score and rationale for one option or outcome
+  STAKEHOLDER_SCORE_TOKENS: 45,
+  // 报告汇总部分（摘要、比较和建议）的输出令牌数，以及每个选项章节的输出令牌数
+  // Output tokens of the report summary (summary, comparison and recommendations), and of every option section
+  REPORT_OUTPUT_TOKENS: 1500,
+  REPORT_OPTION_TOKENS: 250,
+} as const;
+
+/**
+ * 预估所需的分析参数与运行环境
+ * Analysis parameters and runtime settings needed for an estimate
+ */
+export interface EstimateInput {
+  depth: number;
+  breadth: number;
+  strategy: ExpansionStrategy;
+  budget: number;
+  criteriaCount: number;
+  /**
+   * 利益相关者角色的数量，每个角色一次评分调用
+   * Number of stakeholder personas, one scoring call each
+   */
+  stakeholderCount: number;
+  /**
+   * 批判审查方式，reexpand 时按最多重新展开 maxReexpansions 个顶层选项（保持原有高度）计入（上限）
+   * Critique mode, with reexpand up to maxReexpansions top-level options are counted as re-expanded with their
+   * height kept (upper bound)
+   */
+  critique: CritiqueMode;
+  maxReexpansions: number;
+  /**
+   * 概率修复方式，reprompt 时按每次展开都需要修复计入（上限）
+   * Probability repair mode, with reprompt every expansion is counted as needing a repair (upper bound)
+   */
+  repair: "normalize" | "reprompt";
+  /**
+   * 系统提示词与决策问题（含跟进问答）的令牌数
+   * Tokens of the system prompt and the decision problem (including follow-up answers)
+   */
+  baseTokens: number;
+  contextSize: number;
+  /**
+   * 每个阶段使用的模型ID（用于计算费用）
+   * Model ID used by every stage (to compute costs)
+   */
+  modelIds: Record<string, string>;
+  prices: PriceTable;
+  concurrency: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  callLatencyMs: number;
+  tokensPerSecond: number;
+  ceiling: AnalysisCeiling;
+}
+
+/**
+ * 预估参数中与分析规模无关的运行环境部分
+ * Runtime settings of the estimate input, independent of the size of the analysis
+ */
+export type EstimateSettings = Omit<EstimateInput, "depth" | "breadth" | "strategy" | "budget" | "criteriaCount" | "stakeholderCount" | "critique" | "maxReexpansions">;
+
+/**
+ * 修改已保存决策树时预估所需的参数
+ * Parameters needed to estimate a change to a stored decision tree
+ */
+export interface TreeEditEstimateInput extends Omit<EstimateInput, "depth" | "strategy" | "budget" | "stakeholderCount" | "critique" | "maxReexpansions"> {
+  /**
+   * 需要展开的叶子节点数（重新生成子节点时为1）
+   * Number of leaves to expand (1 when regenerating children)
+   */
+  leaves: number;
+  /**
+   * 每个叶子节点向下展开的层数（重新生成子节点时为1）
+   * Number of levels every leaf is expanded by (1 when regenerating children)
+   */
+  levels: number;
+  /**
+   * 叶子节点路径上的节点数
+   * Number of nodes on the path to the leaves
+   */
+  pathLength: number;
+}
+
+/**
+ * 一个阶段的调用次数与单次调用的令牌数
+ * Calls of a stage and the tokens of a single call
+ */
+interface StageCall {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * 各阶段汇总
+ * Totals over all stages
+ */
+interface StageTotals {
+  byStage: Record<string, StageEstimate>;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number;
+}
+
+/**
+ * 计算展开各层需要的调用次数
+ * Count the expansion calls needed at each level
+ *
+ * uniform 策略逐层展开，第 d 层（选项为第1层）有 breadth^d 个节点需要展开；
+ * best-first 策略在预算内每轮并行展开不超过并发数的节点
+ * The uniform strategy expands level by level, with breadth^d nodes to expand at level d (options are level 1);
+ * best-first expands at most the concurrency per round until the budget is spent
+ *
+ * @param {EstimateInput} input - 预估参数
+ * @returns {number[]} 每一轮（层）的展开调用次数
+ */
+function expansionRounds(input: EstimateInput): number[] {
+  const { depth, breadth, strategy, budget, concurrency } = input;
+  const levels: number[] = [];
+  for (let level = 1; level < depth; level++) {
+    levels.push(breadth ** level);
+  }
+  if (strategy === "uniform") {
+    return levels;
+  }
+
+  const rounds: number[] = [];
+  let remaining = Math.min(budget, levels.reduce((acc, calls) => acc + calls, 0));
+  while (remaining > 0) {
+    const calls = Math.min(Math.max(1, concurrency), remaining);
+    rounds.push(calls);
+    remaining -= calls;
+  }
+  return rounds;
+}
+
+/**
+ * 预估一次决策分析（初始选项、展开、概率修复、见解、批判审查、利益相关者评分和报告）的调用次数、令牌数、费用与耗时
+ * Estimate the calls, tokens, cost and wall time of a decision analysis (initial options, expansion,
+ * probability repair, insights, critique, stakeholder scoring and report)
+ *
+ * @param {EstimateInput} input - 预估参数
+ * @returns {AnalysisEstimate} 预估结果
+ */
+export function estimateAnalysis(input: EstimateInput): AnalysisEstimate {
+  const { depth, breadth, criteriaCount, stakeholderCount, critique, repair, baseTokens, contextSize } = input;
+  const heuristics = ESTIMATE_HEURISTICS;
+  const nodeOutput = breadth * (heuristics.NODE_OUTPUT_TOKENS + criteriaCount * heuristics.CRITERION_OUTPUT_TOKENS);
+  const prompt = (tokens: number) => Math.min(contextSize, baseTokens + tokens);
+
+  const rounds = expansionRounds(input);
+  const expanded = rounds.reduce((acc, calls) => acc + calls, 0);
+  // 重新展开一个顶层选项时逐层展开其子树，第 l 层有 breadth^l 个节点需要展开
+  const reexpanded = critique === "reexpand" ? Math.min(input.maxReexpansions, breadth) : 0;
+  const reexpansionLevels = Array.from({ length: reexpanded > 0 ? Math.max(0, depth - 1) : 0 }, (_, level) => reexpanded * breadth ** level);
+  const reexpansions = reexpansionLevels.reduce((acc, calls) => acc + calls, 0);
+  const expansions = expanded + reexpansions;
+  // 重新展开的子树替换原有子树，不改变节点数
+  const nodes = 1 + breadth + breadth * expanded;
+  const treeTokens = nodes * heuristics.NODE_JSON_TOKENS;
+  // 利益相关者为顶层选项及其直接子节点评分
+  const stakeholderItems = depth > 1 ? breadth + breadth * breadth : breadth;
+
+  // 每个阶段单次调用的提示词与输出令牌数
+  const perCall: Record<string, StageCall> = {
+    "initial-tree": {
+      calls: 1,
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS["initial-tree"]),
+      completionTokens: nodeOutput,
+    },
+    "expansion": {
+      calls: expansions,
+      // 路径平均约为最大深度的一半
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS.expansion + Math.ceil(depth / 2) * heuristics.DESCRIPTION_TOKENS),
+      completionTokens: nodeOutput,
+    },
+    "repair": {
+      calls: repair === "reprompt" ? expansions : 0,
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS.repair + (depth + breadth) * heuristics.DESCRIPTION_TOKENS),
+      completionTokens: breadth * heuristics.REPAIR_OUTPUT_TOKENS,
+    },
+    "insights": {
+      // 重新展开节点后需要重新提取见解
+      calls: reexpansions > 0 ? 2 : 1,
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS.insights + treeTokens),
+      completionTokens: heuristics.INSIGHTS_OUTPUT_TOKENS,
+    },
+    "critique": {
+      calls: critique === "off" ? 0 : 1,
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS.critique + treeTokens + heuristics.INSIGHTS_OUTPUT_TOKENS),
+      completionTokens: heuristics.CRITIQUE_OUTPUT_TOKENS,
+    },
+    "stakeholders": {
+      calls: stakeholderCount,
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS.stakeholders + stakeholderItems * heuristics.DESCRIPTION_TOKENS),
+      completionTokens: stakeholderItems * heuristics.STAKEHOLDER_SCORE_TOKENS,
+    },
+    // 每个选项章节一次调用（提示词包含该选项的子树），再加一次汇总调用（提示词包含各选项章节），按平均值计入
+    "report": {
+      calls: breadth + 1,
+      promptTokens: Math.round((
+        breadth * prompt(heuristics.TEMPLATE_TOKENS.report + treeTokens / breadth + heuristics.INSIGHTS_OUTPUT_TOKENS)
+        + prompt(heuristics.TEMPLATE_TOKENS.report + breadth * heuristics.REPORT_OPTION_TOKENS + heuristics.INSIGHTS_OUTPUT_TOKENS)
+      ) / (breadth + 1)),
+      completionTokens: Math.round((breadth * heuristics.REPORT_OPTION_TOKENS + heuristics.REPORT_OUTPUT_TOKENS) / (breadth + 1)),
+    },
+  };
+
+  const totals = sumStages(perCall, input);
+
+  // 同一轮的调用受并发数限制分批执行，轮与轮之间以及见解和报告按顺序执行；利益相关者评分与见解和批判审查同时进行，
+  // 重新展开节点时在其后进行；报告的选项章节并发生成，之后生成汇总部分
+  const outputTime = (tokens: number) => input.callLatencyMs + (tokens / Math.max(1, input.tokensPerSecond)) * 1000;
+  const callTime = (stage: string) => outputTime(perCall[stage]!.completionTokens);
+  const batches = (count: number) => Math.ceil(count / Math.max(1, input.concurrency));
+  const roundTime = callTime("expansion") + (repair === "reprompt" ? callTime("repair") : 0);
+  const reportTime = batches(breadth) * outputTime(heuristics.REPORT_OPTION_TOKENS) + outputTime(heuristics.REPORT_OUTPUT_TOKENS);
+  const reviewTime = callTime("insights") + (critique === "off" ? 0 : callTime("critique"))
+    + (reexpansions > 0 ? reexpansionLevels.reduce((acc, count) => acc + batches(count) * roundTime, 0) + callTime("insights") : 0);
+  const stakeholdersTime = stakeholderCount > 0 ? batches(stakeholderCount) * callTime("stakeholders") : 0;
+  const insightsTime = critique === "reexpand" ? reviewTime + stakeholdersTime : Math.max(reviewTime, stakeholdersTime);
+  const wallTimeMs = callTime("initial-tree") + insightsTime + reportTime
+    + rounds.reduce((acc, count) => acc + batches(count) * roundTime, 0);
+
+  return finishEstimate(nodes, totals, wallTimeMs, input);
+}
+
+/**
+ * 预估修改已保存决策树（继续展开节点或重新生成子节点）的调用次数、令牌数、费用与耗时
+ * Estimate the calls, tokens, cost and wall time of a change to a stored decision tree (expanding a node further or
+ * regenerating its children)
+ *
+ * @param {TreeEditEstimateInput} input - 预估参数
+ * @returns {AnalysisEstimate} 预估结果，nodes 为新生成的节点数
+ */
+export function estimateTreeEdit(input: TreeEditEstimateInput): AnalysisEstimate {
+  const { leaves, levels, pathLength, breadth, criteriaCount, repair, baseTokens, contextSize } = input;
+  const heuristics = ESTIMATE_HEURISTICS;
+  const prompt = (tokens: number) => Math.min(contextSize, baseTokens + tokens);
+
+  // 第 l 轮展开上一轮生成的所有节点，第0轮展开原有的叶子节点
+  const rounds = Array.from({ length: levels }, (_, level) => leaves * breadth ** level);
+  const expansions = rounds.reduce((acc, calls) => acc + calls, 0);
+
+  const perCall: Record<string, StageCall> = {
+    expansion: {
+      calls: expansions,
+      // 路径平均约为叶子节点深度加新增层数的一半
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS.expansion + (pathLength + Math.ceil(levels / 2)) * heuristics.DESCRIPTION_TOKENS),
+      completionTokens: breadth * (heuristics.NODE_OUTPUT_TOKENS + criteriaCount * heuristics.CRITERION_OUTPUT_TOKENS),
+    },
+    repair: {
+      calls: repair === "reprompt" ? expansions : 0,
+      promptTokens: prompt(heuristics.TEMPLATE_TOKENS.repair + (pathLength + levels + breadth) * heuristics.DESCRIPTION_TOKENS),
+      completionTokens: breadth * heuristics.REPAIR_OUTPUT_TOKENS,
+    },
+  };
+  const totals = sumStages(perCall, input);
+
+  const callTime = (stage: string) => input.callLatencyMs + (perCall[stage]!.completionTokens / Math.max(1, input.tokensPerSecond)) * 1000;
+  const roundTime = callTime("expansion") + (repair === "reprompt" ? callTime("repair") : 0);
+  const wallTimeMs = rounds.reduce((acc, count) => acc + Math.ceil(count / Math.max(1, input.concurrency)) * roundTime, 0);
+
+  return finishEstimate(breadth * expansions, totals, wallTimeMs, input);
+}
+
+/**
+ * 汇总各阶段的调用次数、令牌数与费用
+ * Sum up the calls, tokens and cost of every stage
+ *
+ * @param {Record<string, StageCall>} perCall - 每个阶段的调用次数与单次调用的令牌数
+ * @param {Pick<EstimateInput, "modelIds" | "prices">} input - 预估参数
+ * @returns {StageTotals} 汇总结果
+ */
+function sumStages(perCall: Record<string, StageCall>, input: Pick<EstimateInput, "modelIds" | "prices">): StageTotals {
+  const byStage: Record<string, StageEstimate> = {};
+  let cost: number | undefined;
+  for (const [stage, { calls, promptTokens, completionTokens }] of Object.entries(perCall)) {
+    if (calls === 0) {
+      continue;
+    }
+    const estimate: StageEstimate = { calls, promptTokens: calls * promptTokens, completionTokens: calls * completionTokens };
+    const price = findModelPrice(input.prices, input.modelIds[stage] ?? "");
+    if (price) {
+      estimate.cost = roundCost((estimate.promptTokens * price.input + estimate.completionTokens * price.output) / 1_000_000);
+      cost = (cost ?? 0) + estimate.cost;
+    }
+    byStage[stage] = estimate;
+  }
+
+  const stages = Object.values(byStage);
+  const promptTokens = stages.reduce((acc, stage) => acc + stage.promptTokens, 0);
+  const completionTokens = stages.reduce((acc, stage) => acc + stage.completionTokens, 0);
+  return {
+    byStage,
+    calls: stages.reduce((acc, stage) => acc + stage.calls, 0),
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cost,
+  };
+}
+
+/**
+ * 按每分钟预算修正耗时，生成预估结果并检查上限
+ * Adjust the wall time for the per-minute budgets, build the estimate and check it against the ceiling
+ *
+ * @param {number} nodes - 节点数
+ * @param {StageTotals} totals - 各阶段汇总
+ * @param {number} wallTimeMs - 不考虑每分钟预算时的耗时（毫秒）
+ * @param {Pick<EstimateInput, "requestsPerMinute" | "tokensPerMinute" | "ceiling">} input - 预估参数
+ * @returns {AnalysisEstimate} 预估结果
+ */
+function finishEstimate(
+  nodes: number,
+  { byStage, calls, promptTokens, completionTokens, totalTokens, cost }: StageTotals,
+  wallTimeMs: number,
+  input: Pick<EstimateInput, "requestsPerMinute" | "tokensPerMinute" | "ceiling">,
+): AnalysisEstimate {
+  // 每分钟请求/令牌预算会限制整体速度
+  if (input.requestsPerMinute > 0) {
+    wallTimeMs = Math.max(wallTimeMs, (calls / input.requestsPerMinute) * 60_000);
+  }
+  if (input.tokensPerMinute > 0) {
+    wallTimeMs = Math.max(wallTimeMs, (totalTokens / input.tokensPerMinute) * 60_000);
+  }
+
+  const estimate: AnalysisEstimate = {
+    nodes,
+    calls,
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    ...(cost !== undefined && { cost: roundCost(cost) }),
+    wallTimeMs: Math.round(wallTimeMs),
+    byStage,
+    ceiling: input.ceiling,
+    exceeded: [],
+  };
+  estimate.exceeded = findExceededLimits(estimate, input.ceiling);
+  return estimate;
+}
+
+/**
+ * 检查预估结果超出了哪些上限
+ * Check which ceilings an estimate exceeds
+ *
+ * @param {Pick<AnalysisEstimate, "calls" | "totalTokens" | "cost">} estimate - 预估结果
+ * @param {AnalysisCeiling} ceiling - 上限
+ * @returns {string[]} 超出的上限说明
+ */
+export function findExceededLimits(
+  estimate: Pick<AnalysisEstimate, "calls" | "totalTokens" | "cost">,
+  ceiling: AnalysisCeiling,
+): string[] {
+  const { maxCalls, maxTokens, maxCost } = ceiling;
+  const exceeded: string[] = [];
+  if (maxCalls > 0 && estimate.calls > maxCalls) {
+    exceeded.push(`${estimate.calls} LLM calls exceed the limit of ${maxCalls}`);
+  }
+  if (maxTokens > 0 && estimate.totalTokens > maxTokens) {
+    exceeded.push(`${estimate.totalTokens} tokens exceed the limit of ${maxTokens}`);
+  }
+  if (maxCost > 0 && estimate.cost !== undefined && estimate.cost > maxCost) {
+    exceeded.push(`a cost of ${estimate.cost} exceeds the limit of ${maxCost}`);
+  }
+  return exceeded;
+}
+
+/**
+ * 预估规模超出上限时拒绝运行分析的错误
+ * Error refusing to run an analysis whose estimated size exceeds the ceiling
+ */
+export class AnalysisTooLargeError extends Error {
+  constructor(public readonly estimate: AnalysisEstimate) {
+    super(`Analysis refused: ${estimate.exceeded.join("; ")}`);
+    this.name = "AnalysisTooLargeError";
+  }
+}
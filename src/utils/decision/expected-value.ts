@@ -0,0 +1,251 @@
+import type { DecisionNode } from "../../types/decision";
+import { round } from "../text/format";
+import { getOutcomeChildren } from "./probability";
+
+/**
+ * 评分缺失时使用的中性值（1-10量表的中点）
+ * Neutral value used when a score is missing (midpoint of the 1-10 scale)
+ */
+export const NEUTRAL_SCORE = 5.5;
+
+/**
+ * 节点评分函数
+ * Node scoring function
+ */
+export type NodeScorer = (node: DecisionNode) => number;
+
+/**
+ * 期望值回溯选项
+ * Expected value rollup options
+ */
+export interface RollupOptions {
+  /**
+   * 叶子节点评分函数，默认为机会减风险
+   * Leaf scoring function, defaults to opportunity minus risk
+   */
+  scorer?: NodeScorer;
+}
+
+/**
+ * 期望值回溯结果
+ * Expected value rollup result
+ */
+export interface RollupResult {
+  /**
+   * 根节点期望值
+   * Expected value of the root node
+   */
+  expectedValue: number;
+  /**
+   * 最优路径上的节点ID
+   * Node IDs along the optimal path
+   */
+  optimalPath: string[];
+}
+
+/**
+ * 默认叶子节点评分：机会减风险（范围 -9 到 9）
+ * Default leaf score: opportunity minus risk (range -9 to 9)
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @returns {number} 节点评分
+ */
+export function scoreNode(node: DecisionNode): number {
+  return (node.opportunity ?? NEUTRAL_SCORE) - (node.risk ?? NEUTRAL_SCORE);
+}
+
+/**
+ * 计算一组兄弟节点的概率权重（归一化到总和为1）
+ * Calculate the probability weights of a set of siblings (normalized to sum to 1)
+ *
+ * 缺少概率的节点平分剩余的概率；若完全没有概率信息则等权处理
+ * Nodes without a probability share the remaining mass; without any probability information all nodes are weighted equally
+ *
+ * @param {DecisionNode[]} siblings - 兄弟节点
+ * @returns {number[]} 与节点顺序对应的权重
+ */
+export function getProbabilityWeights(siblings: DecisionNode[]): number[] {
+  if (siblings.length === 0) {
+    return [];
+  }
+
+  const equal = siblings.map(() => 1 / siblings.length);
+  const explicit = siblings.map(sibling =>
+    typeof sibling.probability === "number" && Number.isFinite(sibling.probability)
+      ? Math.max(0, sibling.probability)
+      : undefined);
+
+  const missingCount = explicit.filter(p => p === undefined).length;
+  if (missingCount === siblings.length) {
+    return equal;
+  }
+
+  const known = explicit.reduce<number>((acc, p) => acc + (p ?? 0), 0);
+  const share = missingCount > 0 ? Math.max(0, 100 - known) / missingCount : 0;
+  const raw = explicit.map(p => p ?? share);
+  const total = raw.reduce((acc, p) => acc + p, 0);
+
+  return total > 0 ? raw.map(p => p / total) : equal;
+}
+
+/**
+ * 计算子节点的权重（归一化到总和为1）
+ * Calculate the weights of a node's children (normalized to sum to 1)
+ *
+ * 结果子节点按概率分配权重；决策子节点没有概率（到达后由决策者选择），每个按 1/n 的等份计入，
+ * 结果子节点按各自的概率分配剩余份额
+ * Outcome children are weighted by their probabilities; decision children carry no probability (the decision maker
+ * chooses once they are reached), so each counts as an equal 1/n share and the outcome children split the rest by probability
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @returns {number[]} 与子节点顺序对应的权重
+ */
+export function getChildWeights(node: DecisionNode): number[] {
+  const { children } = node;
+  const outcomes = getOutcomeChildren(node);
+  const outcomeWeights = getProbabilityWeights(outcomes);
+  const outcomeMass = outcomes.length / children.length;
+
+  let next = 0;
+  return children.map(child =>
+    child.type === "decision" ? 1 / children.length : outcomeMass * (outcomeWeights[next++] ?? 0));
+}
+
+/**
+ * 由子节点的期望值计算节点的期望值：决策节点取最大值，机会/结果节点按概率加权
+ * Combine the expected values of a node's children: the maximum at decision nodes, probability-weighted at chance/outcome nodes
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @param {number[]} childValues - 与子节点顺序对应的期望值
+ * @returns {number} 节点期望值
+ */
+export function combineChildValues(node: DecisionNode, childValues: number[]): number {
+  if (node.type === "decision") {
+    return Math.max(...childValues);
+  }
+  const weights = getChildWeights(node);
+  return childValues.reduce((acc, v, i) => acc + v * (weights[i] ?? 0), 0);
+}
+
+/**
+ * 计算节点的期望值（不写入节点，也不舍入）
+ * Compute the expected value of a node (without writing it to the node or rounding)
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @param {NodeScorer} scorer - 叶子节点评分函数
+ * @returns {number} 节点期望值
+ */
+export function evaluateNode(node: DecisionNode, scorer: NodeScorer): number {
+  return node.children.length === 0
+    ? scorer(node)
+    : combineChildValues(node, node.children.map(child => evaluateNode(child, scorer)));
+}
+
+/**
+ * 递归回溯计算节点期望值，并写入 expectedValue
+ * Recursively back up the expected value of a node and write it to expectedValue
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @param {NodeScorer} scorer - 叶子节点评分函数
+ * @returns {number} 节点期望值（未取整）
+ */
+function rollupNode(node: DecisionNode, scorer: NodeScorer): number {
+  let value: number;
+
+  if (node.children.length === 0) {
+    value = scorer(node);
+  } else {
+    value = combineChildValues(node, node.children.map(child => rollupNode(child, scorer)));
+  }
+
+  node.expectedValue = round(value);
+  return value;
+}
+
+/**
+ * 清除最优路径标记
+ * Clear optimal path markers
+ *
+ * @param {DecisionNode} node - 决策节点
+ */
+function clearOptimal(node: DecisionNode): void {
+  delete node.optimal;
+  node.children.forEach(clearOptimal);
+}
+
+/**
+ * 选出最优路径的下一个节点
+ * Pick the next node on the optimal path
+ *
+ * 决策节点选择期望值最高的子节点；机会/结果节点沿最可能发生的子节点继续
+ * Decision nodes take the child with the highest expected value; chance/outcome nodes follow the most likely child
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @returns {DecisionNode | undefined} 下一个节点
+ */
+function pickNext(node: DecisionNode): DecisionNode | undefined {
+  if (node.children.length === 0) {
+    return undefined;
+  }
+
+  const ranks = node.type === "decision"
+    ? node.children.map(child => child.expectedValue ?? Number.NEGATIVE_INFINITY)
+    : getChildWeights(node);
+
+  let bestIndex = 0;
+  ranks.forEach((rank, i) => {
+    if (rank > (ranks[bestIndex] ?? Number.NEGATIVE_INFINITY)) {
+      bestIndex = i;
+    }
+  });
+  return node.children[bestIndex];
+}
+
+/**
+ * 对决策树进行期望值回溯并标记最优路径
+ * Roll up expected values over a decision tree and mark the optimal path
+ *
+ * 结果节点的评分按概率加权回溯到机会节点，决策节点取子节点最大值；
+ * 每个节点的 expectedValue 会被更新，最优路径上的节点被标记为 optimal
+ * Outcome scores are backed up through chance nodes (probability-weighted) and decision nodes (max over children);
+ * every node's expectedValue is updated and nodes on the optimal path are marked as optimal
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {RollupOptions} options - 回溯选项
+ * @returns {RollupResult} 回溯结果
+ */
+export function rollupDecisionTree(tree: DecisionNode, options: RollupOptions = {}): RollupResult {
+  const rootValue = rollupNode(tree, options.scorer ?? scoreNode);
+
+  clearOptimal(tree);
+  const optimalPath: string[] = [];
+  let current: DecisionNode | undefined = tree;
+  while (current) {
+    current.optimal = true;
+    optimalPath.push(current.id);
+    current = pickNext(current);
+  }
+
+  return {
+    expectedValue: round(rootValue),
+    optimalPath,
+  };
+}
+
+/**
+ * 生成顶层选项期望值摘要（用于报告提示词）
+ * Build a summary of top-level option expected values (for report prompts)
+ *
+ * @param {DecisionNode} tree - 已回溯的决策树
+ * @returns {string} 摘要文本
+ */
+export function formatExpectedValueSummary(tree: DecisionNode): string {
+  const lines = tree.children.map((option) => {
+    const marker = option.optimal ? " (optimal)" : "";
+    return `- ${option.description}: expected value ${option.expectedValue ?? "n/a"}${marker}`;
+  });
+  return [
+    `Root expected value: ${tree.expectedValue ?? "n/a"}`,
+    ...lines,
+  ].join("\n");
+}
@@ -0,0 +1,106 @@
+import type { DecisionNode, ExpansionPriority } from "../../types/decision";
+import { getChildWeights, NEUTRAL_SCORE } from "./expected-value";
+
+/**
+ * 待展开的前沿节点
+ * Frontier node awaiting expansion
+ */
+export interface FrontierNode {
+  /**
+   * 节点
+   * Node
+   */
+  node: DecisionNode;
+  /**
+   * 从根节点到该节点的路径（包含该节点）
+   * Path from the root to the node (inclusive)
+   */
+  path: DecisionNode[];
+  /**
+   * 节点深度（根节点为0）
+   * Node depth (the root is 0)
+   */
+  depth: number;
+  /**
+   * 到达该节点的概率（决策节点处由决策者选择，不计入概率）
+   * Probability of reaching the node (choices at decision nodes are made by the decision maker and do not count)
+   */
+  reach: number;
+  /**
+   * 展开优先级，越大越优先
+   * Expansion priority, higher expands first
+   */
+  priority: number;
+}
+
+/**
+ * 计算节点的展开优先级
+ * Compute the expansion priority of a node
+ *
+ * - impact：到达概率 ×（风险 + 机会）/ 20，即该节点牵涉的利害大小
+ * - impact: reach × (risk + opportunity) / 20, i.e. how much is at stake at the node
+ * - uncertainty：到达概率 ×（1 - |机会 - 风险| / 9），风险与机会越接近，结果越难判断
+ * - uncertainty: reach × (1 - |opportunity - risk| / 9); the closer risk and opportunity are, the less clear the outcome
+ *
+ * @param {DecisionNode} node - 节点
+ * @param {number} reach - 到达概率
+ * @param {ExpansionPriority} priority - 优先级类型
+ * @returns {number} 优先级
+ */
+export function scoreExpansionPriority(
+  node: DecisionNode,
+  reach: number,
+  priority: ExpansionPriority = "impact",
+): number {
+  const risk = node.risk ?? NEUTRAL_SCORE;
+  const opportunity = node.opportunity ?? NEUTRAL_SCORE;
+
+  if (priority === "uncertainty") {
+    return reach * Math.max(0, 1 - Math.abs(opportunity - risk) / 9);
+  }
+  return reach * (risk + opportunity) / 20;
+}
+
+/**
+ * 收集可展开的前沿节点（深度小于最大深度的叶子节点），按优先级从高到低排序
+ * Collect the expandable frontier (leaves shallower than the maximum depth), sorted by descending priority
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {object} options - 选项
+ * @param {number} options.maxDepth - 最大深度
+ * @param {ExpansionPriority} options.priority - 优先级类型
+ * @param {Set<string>} options.exclude - 需要跳过的节点ID（例如展开失败的节点）
+ * @returns {FrontierNode[]} 前沿节点
+ */
+export function rankFrontier(
+  tree: DecisionNode,
+  {
+    maxDepth,
+    priority = "impact",
+    exclude = new Set(),
+  }: {
+    maxDepth: number;
+    priority?: ExpansionPriority;
+    exclude?: Set<string>;
+  },
+): FrontierNode[] {
+  const frontier: FrontierNode[] = [];
+
+  const visit = (node: DecisionNode, path: DecisionNode[], depth: number, reach: number): void => {
+    if (node.children.length === 0) {
+      if (depth < maxDepth && !exclude.has(node.id)) {
+        frontier.push({ node, path, depth, reach, priority: scoreExpansionPriority(node, reach, priority) });
+      }
+      return;
+    }
+
+    const weights = getChildWeights(node);
+    node.children.forEach((child, index) => {
+      const childReach = node.type === "decision" ? reach : reach * (weights[index] ?? 0);
+      visit(child, [...path, child], depth + 1, childReach);
+    });
+  };
+
+  visit(tree, [tree], 0, 1);
+  return frontier.sort((a, b) => b.priority - a.priority);
+}
@@ -0,0 +1,206 @@
+import type { DecisionNode } from "../../types/decision";
+import { round } from "../text/format";
+
+/**
+ * 概率问题类型
+ * Probability issue kind
+ */
+export type ProbabilityIssueKind =
+  | "sum-mismatch"
+  | "decision-probability"
+  | "missing-probability"
+  | "out-of-range";
+
+/**
+ * 兄弟节点概率一致性问题
+ * Sibling probability consistency issue
+ */
+export interface ProbabilityIssue {
+  /**
+   * 子节点集合所属的父节点ID
+   * ID of the parent node owning the sibling set
+   */
+  nodeId: string;
+  /**
+   * 问题类型
+   * Issue kind
+   */
+  kind: ProbabilityIssueKind;
+  /**
+   * 问题描述
+   * Issue description
+   */
+  message: string;
+}
+
+/**
+ * 默认容差（百分点）
+ * Default tolerance (percentage points)
+ */
+export const DEFAULT_PROBABILITY_TOLERANCE = 5;
+
+/**
+ * 获取参与概率校验的结果类子节点
+ * Get the outcome children that take part in probability validation
+ *
+ * @param {DecisionNode} node - 父节点
+ * @returns {DecisionNode[]} 结果类子节点
+ */
+export function getOutcomeChildren(node: DecisionNode): DecisionNode[] {
+  return node.children.filter(child => child.type !== "decision");
+}
+
+/**
+ * 检查单个节点的子节点概率集合
+ * Check the sibling probability set of a single node's children
+ *
+ * @param {DecisionNode} node - 父节点
+ * @param {number} tolerance - 概率总和允许的偏差（百分点）
+ * @returns {ProbabilityIssue[]} 发现的问题
+ */
+export function findSiblingProbabilityIssues(
+  node: DecisionNode,
+  tolerance: number = DEFAULT_PROBABILITY_TOLERANCE,
+): ProbabilityIssue[] {
+  const issues: ProbabilityIssue[] = [];
+
+  const decisionsWithProbability = node.children.filter(child =>
+    child.type === "decision" && child.probability !== undefined);
+  if (decisionsWithProbability.length > 0) {
+    issues.push({
+      nodeId: node.id,
+      kind: "decision-probability",
+      message: `${decisionsWithProbability.length} decision child node(s) carry a probability`,
+    });
+  }
+
+  const outcomes = getOutcomeChildren(node);
+  const withProbability = outcomes.filter(child => child.probability !== undefined);
+  if (withProbability.length === 0) {
+    return issues;
+  }
+
+  if (withProbability.some(child => child.probability! < 0 || child.probability! > 100)) {
+    issues.push({
+      nodeId: node.id,
+      kind: "out-of-range",
+      message: "Outcome probabilities must be between 0 and 100",
+    });
+  }
+
+  if (withProbability.length < outcomes.length) {
+    issues.push({
+      nodeId: node.id,
+      kind: "missing-probability",
+      message: `${outcomes.length - withProbability.length} of ${outcomes.length} outcome child node(s) have no probability`,
+    });
+  }
+
+  const sum = withProbability.reduce((acc, child) => acc + child.probability!, 0);
+  if (withProbability.length === outcomes.length && Math.abs(sum - 100) > tolerance) {
+    issues.push({
+      nodeId: node.id,
+      kind: "sum-mismatch",
+      message: `Outcome probabilities sum to ${round(sum)}% instead of 100%`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * 校验整棵决策树的兄弟节点概率
+ * Validate sibling probabilities across the whole decision tree
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {number} tolerance - 概率总和允许的偏差（百分点）
+ * @returns {ProbabilityIssue[]} 发现的问题
+ */
+export function validateProbabilities(
+  tree: DecisionNode,
+  tolerance: number = DEFAULT_PROBABILITY_TOLERANCE,
+): ProbabilityIssue[] {
+  return [
+    ...findSiblingProbabilityIssues(tree, tolerance),
+    ...tree.children.flatMap(child => validateProbabilities(child, tolerance)),
+  ];
+}
+
+/**
+ * 在节点上记录警告
+ * Record a warning on a node
+ *
+ * @param {DecisionNode} node - 决策节点
+ * @param {string} message - 警告内容
+ */
+export function addNodeWarning(node: DecisionNode, message: string): void {
+  node.warnings = [...(node.warnings ?? []), message];
+}
+
+/**
+ * 归一化单个节点的子节点概率
+ * Normalize the sibling probabilities of a single node's children
+ *
+ * 移除决策子节点上的概率，将越界值截断到0-100，缺失的概率平分剩余部分，再按比例缩放到总和100
+ * Removes probabilities from decision children, clamps values to 0-100, splits the remaining mass
+ * between missing probabilities and finally rescales the set to sum to 100
+ *
+ * @param {DecisionNode} node - 父节点
+ * @returns {boolean} 是否修改了概率
+ */
+export function normalizeSiblingProbabilities(node: DecisionNode): boolean {
+  let changed = false;
+
+  for (const child of node.children) {
+    if (child.type === "decision" && child.probability !== undefined) {
+      delete child.probability;
+      delete child.probabilityRange;
+      changed = true;
+    }
+  }
+
+  const outcomes = getOutcomeChildren(node);
+  const known = outcomes.filter(child => child.probability !== undefined);
+  if (known.length === 0) {
+    return changed;
+  }
+
+  for (const child of known) {
+    const clamped = Math.min(100, Math.max(0, child.probability!));
+    if (clamped !== child.probability) {
+      child.probability = clamped;
+      changed = true;
+    }
+  }
+
+  const missing = outcomes.filter(child => child.probability === undefined);
+  if (missing.length > 0) {
+    const knownSum = known.reduce((acc, child) => acc + child.probability!, 0);
+    const share = Math.max(0, 100 - knownSum) / missing.length;
+    missing.forEach((child) => {
+      child.probability = share;
+    });
+    changed = true;
+  }
+
+  const sum = outcomes.reduce((acc, child) => acc + child.probability!, 0);
+  if (Math.abs(sum - 100) > 0.01) {
+    const scale = (value: number) => round((value / sum) * 100);
+    outcomes.forEach((child) => {
+      child.probability = sum > 0 ? scale(child.probability!) : round(100 / outcomes.length);
+      // 不确定范围按相同比例缩放
+      if (child.probabilityRange) {
+        const { min, max } = child.probabilityRange;
+        child.probabilityRange = {
+          ...child.probabilityRange,
+          min: Math.min(child.probability, sum > 0 ? scale(min) : min),
+          likely: child.probability,
+          max: Math.max(child.probability, Math.min(100, sum > 0 ? scale(max) : max)),
+        };
+      }
+    });
+    changed = true;
+  }
+
+  return changed;
+}
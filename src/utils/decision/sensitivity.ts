@@ -0,0 +1,440 @@
+import type { DecisionCriterion, DecisionNode } from "../../types/decision";
+import type {
+  OptionRef,
+  SensitivityAnalysis,
+  SensitivityParameter,
+  SensitivityParameterKind,
+  SensitivityThreshold,
+  TornadoBar,
+} from "../../types/sensitivity";
+import type { NodeScorer } from "./expected-value";
+import { getReportLabels } from "../report/labels";
+import { escapeTableCell, round } from "../text/format";
+import { createUtilityScorer, getCriterionScale } from "./criteria";
+import { combineChildValues, evaluateNode, getProbabilityWeights, scoreNode } from "./expected-value";
+import { getOutcomeChildren } from "./probability";
+import { walkTree } from "./tree";
+
+/**
+ * 敏感性分析默认配置
+ * Sensitivity analysis defaults
+ */
+export const SENSITIVITY_DEFAULTS = {
+  // 龙卷风图中参数向两侧变化的幅度（占参数范围的比例）
+  // How far the tornado chart moves each parameter to either side (as a fraction of its range)
+  SPREAD: 0.2,
+  // 搜索阈值时将参数范围划分的步数
+  // Number of steps the parameter range is divided into when searching for thresholds
+  STEPS: 20,
+} as const;
+
+/**
+ * 敏感性分析选项
+ * Sensitivity analysis options
+ */
+export interface SensitivityOptions {
+  /**
+   * 评估标准（权重已归一化），提供时改变标准评分而不是风险和机会
+   * Evaluation criteria (weights normalized); when given, criterion scores are varied instead of risk and opportunity
+   */
+  criteria?: DecisionCriterion[];
+  spread?: number;
+  steps?: number;
+}
+
+/**
+ * 可以在范围内改变的参数
+ * Parameter that can be varied across its range
+ */
+interface VariableParameter extends SensitivityParameter {
+  min: number;
+  max: number;
+  set: (value: number) => void;
+  restore: () => void;
+}
+
+/**
+ * 格式化参数值（概率带百分号）
+ * Format a parameter value (probabilities with a percent sign)
+ *
+ * @param {SensitivityParameterKind} kind - 参数类型
+ * @param {number} value - 参数值
+ * @returns {string} 格式化后的值
+ */
+function formatValue(kind: SensitivityParameterKind, value: number): string {
+  return kind === "probability" ? `${value}%` : String(value);
+}
+
+/**
+ * 创建结果概率参数：改变一个结果子节点的概率时，按原有比例调整其他结果子节点的概率使总和保持100%，
+ * 决策子节点不带概率，保持不变
+ * Create an outcome probability parameter: when one outcome child's probability changes, the other outcome children
+ * are rescaled in their original proportions so that the total stays at 100%; decision children carry no probability
+ * and are left alone
+ *
+ * @param {DecisionNode[]} outcomes - 机会/结果父节点的结果子节点
+ * @param {number} index - 结果子节点的位置
+ * @returns {VariableParameter} 参数
+ */
+function probabilityParameter(outcomes: DecisionNode[], index: number): VariableParameter {
+  const node = outcomes[index]!;
+  const weights = getProbabilityWeights(outcomes);
+  const original = outcomes.map(child => child.probability);
+  const rest = 1 - (weights[index] ?? 0);
+
+  return {
+    nodeId: node.id,
+    description: node.description,
+    kind: "probability",
+    label: `P(${node.description})`,
+    baseValue: round((weights[index] ?? 0) * 100, 1),
+    min: 0,
+    max: 100,
+    set: (value) => {
+      outcomes.forEach((child, i) => {
+        child.probability = i === index
+          ? value
+          : rest > 0
+            ? ((weights[i] ?? 0) / rest) * (100 - value)
+            : (100 - value) / (outcomes.length - 1);
+      });
+    },
+    restore: () => {
+      outcomes.forEach((child, i) => {
+        if (original[i] === undefined) {
+          delete child.probability;
+        } else {
+          child.probability = original[i];
+        }
+      });
+    },
+  };
+}
+
+/**
+ * 创建叶子节点风险或机会评分参数（1-10）
+ * Create a leaf risk or opportunity score parameter (1-10)
+ *
+ * @param {DecisionNode} node - 叶子节点
+ * @param {"risk" | "opportunity"} kind - 参数类型
+ * @returns {VariableParameter} 参数
+ */
+function ratingParameter(node: DecisionNode, kind: "risk" | "opportunity"): VariableParameter {
+  const original = node[kind]!;
+  return {
+    nodeId: node.id,
+    description: node.description,
+    kind,
+    label: getReportLabels().sensitivity[kind === "risk" ? "riskOf" : "opportunityOf"](node.description),
+    baseValue: original,
+    min: 1,
+    max: 10,
+    set: (value) => {
+      node[kind] = value;
+    },
+    restore: () => {
+      node[kind] = original;
+    },
+  };
+}
+
+/**
+ * 创建叶子节点的评估标准评分参数
+ * Create a leaf criterion score parameter
+ *
+ * @param {DecisionNode} node - 叶子节点
+ * @param {DecisionCriterion} criterion - 评估标准
+ * @returns {VariableParameter} 参数
+ */
+function scoreParameter(node: DecisionNode, criterion: DecisionCriterion): VariableParameter {
+  const scores = node.scores!;
+  const original = scores[criterion.name]!;
+  const { min, max } = getCriterionScale(criterion);
+  return {
+    nodeId: node.id,
+    description: node.description,
+    kind: "score",
+    criterion: criterion.name,
+    label: getReportLabels().sensitivity.scoreOf(criterion.name, node.description),
+    baseValue: original,
+    min,
+    max,
+    set: (value) => {
+      scores[criterion.name] = value;
+    },
+    restore: () => {
+      scores[criterion.name] = original;
+    },
+  };
+}
+
+/**
+ * 收集会影响期望值的参数：机会/结果节点下的结果子节点概率，以及叶子节点的评分
+ * Collect the parameters that affect expected values: outcome child probabilities below chance/outcome nodes, and leaf scores
+ *
+ * 决策节点取最大值，其子节点的概率不参与计算，因此不作为参数；决策子节点本身也不带概率
+ * Decision nodes take the maximum, so the probabilities of their children are not used and not varied;
+ * decision children carry no probability themselves
+ *
+ * @param {DecisionNode} tree - 决策树（参数会直接修改该树）
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @returns {VariableParameter[]} 参数
+ */
+function collectParameters(tree: DecisionNode, criteria: DecisionCriterion[]): VariableParameter[] {
+  const parameters: VariableParameter[] = [];
+  walkTree(tree, (node) => {
+    const outcomes = getOutcomeChildren(node);
+    if (node.type !== "decision" && outcomes.length > 1) {
+      outcomes.forEach((_, i) => parameters.push(probabilityParameter(outcomes, i)));
+    }
+    if (node.children.length > 0 || node === tree) {
+      return;
+    }
+    if (criteria.length > 0) {
+      for (const criterion of criteria) {
+        if (typeof node.scores?.[criterion.name] === "number") {
+          parameters.push(scoreParameter(node, criterion));
+        }
+      }
+      return;
+    }
+    for (const kind of ["risk", "opportunity"] as const) {
+      if (typeof node[kind] === "number") {
+        parameters.push(ratingParameter(node, kind));
+      }
+    }
+  });
+  return parameters;
+}
+
+/**
+ * 计算根节点期望值和首选的顶层选项
+ * Compute the root expected value and the preferred top-level option
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {NodeScorer} scorer - 叶子节点评分函数
+ * @returns {{ value: number, best: number }} 根节点期望值和首选选项的位置（没有选项时为 -1）
+ */
+function evaluateOptions(tree: DecisionNode, scorer: NodeScorer): { value: number; best: number } {
+  if (tree.children.length === 0) {
+    return { value: scorer(tree), best: -1 };
+  }
+
+  const values = tree.children.map(child => evaluateNode(child, scorer));
+  let best = 0;
+  values.forEach((value, i) => {
+    // 忽略浮点误差，避免相等的选项来回切换
+    if (value > values[best]! + 1e-9) {
+      best = i;
+    }
+  });
+  return { value: combineChildValues(tree, values), best };
+}
+
+/**
+ * 获取顶层选项的引用
+ * Get a reference to a top-level option
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {number} index - 选项位置
+ * @returns {OptionRef} 选项引用
+ */
+function optionRef(tree: DecisionNode, index: number): OptionRef {
+  const option = tree.children[index]!;
+  return { id: option.id, description: option.description };
+}
+
+/**
+ * 去掉参数的内部字段
+ * Strip the internal fields of a parameter
+ *
+ * @param {VariableParameter} parameter - 参数
+ * @returns {SensitivityParameter} 参数描述
+ */
+function describeParameter(parameter: VariableParameter): SensitivityParameter {
+  const { nodeId, description, kind, criterion, label, baseValue } = parameter;
+  return { nodeId, description, kind, ...(criterion !== undefined && { criterion }), label, baseValue };
+}
+
+/**
+ * 在参数的整个范围内搜索使首选选项发生变化的阈值
+ * Search a parameter's whole range for the thresholds at which the preferred option changes
+ *
+ * 先在等距网格上找出首选选项变化的区间，再用二分法定位阈值
+ * Intervals where the preferred option changes are found on an even grid, then each threshold is located by bisection
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {NodeScorer} scorer - 叶子节点评分函数
+ * @param {VariableParameter} parameter - 参数
+ * @param {number} steps - 网格步数
+ * @returns {SensitivityThreshold[]} 阈值
+ */
+function findThresholds(tree: DecisionNode, scorer: NodeScorer, parameter: VariableParameter, steps: number): SensitivityThreshold[] {
+  const bestAt = (value: number) => {
+    parameter.set(value);
+    return evaluateOptions(tree, scorer).best;
+  };
+
+  const { beats } = getReportLabels().sensitivity;
+  const thresholds: SensitivityThreshold[] = [];
+  const step = (parameter.max - parameter.min) / steps;
+  let previous = bestAt(parameter.min);
+  for (let i = 1; i <= steps; i++) {
+    const x = parameter.min + step * i;
+    const current = bestAt(x);
+    if (current === previous) {
+      continue;
+    }
+
+    let lo = x - step;
+    let hi = x;
+    for (let j = 0; j < 30; j++) {
+      const mid = (lo + hi) / 2;
+      if (bestAt(mid) === previous) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    const threshold = round((lo + hi) / 2, 1);
+    const below = optionRef(tree, previous);
+    const above = optionRef(tree, bestAt(hi));
+    const value = formatValue(parameter.kind, threshold);
+    thresholds.push({
+      ...describeParameter(parameter),
+      threshold,
+      below,
+      above,
+      statement: parameter.baseValue <= threshold
+        ? beats(above.description, below.description, parameter.label, ">", value)
+        : beats(below.description, above.description, parameter.label, "<", value),
+    });
+    previous = current;
+  }
+  parameter.restore();
+  return thresholds;
+}
+
+/**
+ * 对决策树进行单因素敏感性分析
+ * Run a one-way sensitivity analysis on a decision tree
+ *
+ * 每次只改变一个参数（机会/结果节点下的概率，叶子节点的风险和机会或标准评分），其余参数保持不变：
+ * 龙卷风图记录参数在当前值两侧变化 spread 时根节点期望值的变化，阈值记录参数在整个范围内使首选选项改变的位置。
+ * 传入的决策树不会被修改
+ * One parameter is varied at a time (probabilities below chance/outcome nodes, leaf risk and opportunity or
+ * criterion scores) while the others are held fixed: the tornado chart records how the root expected value moves
+ * when the parameter moves `spread` to either side of its current value, and the thresholds record where in the
+ * parameter's whole range the preferred option changes. The given tree is not modified
+ *
+ * @param {DecisionNode} decisionTree - 决策树
+ * @param {SensitivityOptions} options - 分析选项
+ * @returns {SensitivityAnalysis} 敏感性分析结果
+ */
+export function analyzeSensitivity(decisionTree: DecisionNode, options: SensitivityOptions = {}): SensitivityAnalysis {
+  const { criteria = [], spread = SENSITIVITY_DEFAULTS.SPREAD, steps = SENSITIVITY_DEFAULTS.STEPS } = options;
+  const tree = structuredClone(decisionTree);
+  const scorer = criteria.length > 0 ? createUtilityScorer(criteria) : scoreNode;
+  const baseline = evaluateOptions(tree, scorer);
+  const parameters = collectParameters(tree, criteria);
+
+  const tornado: TornadoBar[] = [];
+  // 阈值按与当前值的距离（占参数范围的比例）排序
+  const thresholds: { threshold: SensitivityThreshold; distance: number }[] = [];
+  for (const parameter of parameters) {
+    const width = (parameter.max - parameter.min) * spread;
+    const low = Math.max(parameter.min, parameter.baseValue - width);
+    const high = Math.min(parameter.max, parameter.baseValue + width);
+    parameter.set(low);
+    const lowValue = evaluateOptions(tree, scorer).value;
+    parameter.set(high);
+    const highValue = evaluateOptions(tree, scorer).value;
+    parameter.restore();
+
+    // 不影响根节点期望值的参数（例如非首选选项下的小幅变化）不进入龙卷风图
+    const swing = Math.abs(highValue - lowValue);
+    if (swing > 1e-9) {
+      tornado.push({
+        ...describeParameter(parameter),
+        low: round(low),
+        high: round(high),
+        lowValue: round(lowValue),
+        highValue: round(highValue),
+        swing: round(swing),
+      });
+    }
+    if (tree.children.length > 1) {
+      for (const threshold of findThresholds(tree, scorer, parameter, steps)) {
+        const distance = Math.abs(threshold.threshold - parameter.baseValue) / (parameter.max - parameter.min);
+        thresholds.push({ threshold, distance });
+      }
+    }
+  }
+
+  return {
+    expectedValue: round(baseline.value),
+    ...(baseline.best >= 0 && { preferredOption: optionRef(tree, baseline.best) }),
+    parameters: parameters.length,
+    spread,
+    tornado: tornado.sort((a, b) => b.swing - a.swing),
+    thresholds: thresholds.sort((a, b) => a.distance - b.distance).map(({ threshold }) => threshold),
+  };
+}
+
+/**
+ * 生成报告中的敏感性分析章节（Markdown）
+ * Build the sensitivity analysis section of the report (Markdown)
+ *
+ * @param {SensitivityAnalysis} analysis - 敏感性分析结果
+ * @param {number} limit - 龙卷风图和阈值最多列出的条数
+ * @returns {string} Markdown 文本
+ */
+export function formatSensitivitySection(analysis: SensitivityAnalysis, limit = 10): string {
+  const labels = getReportLabels();
+  const text = labels.sensitivity;
+  const lines = [`## ${labels.headings.sensitivity}`, ""];
+  const preferred = analysis.preferredOption
+    ? text.preferredOption(`**${analysis.preferredOption.description}**`, analysis.expectedValue)
+    : "";
+  lines.push(`${preferred}${text.variedParameters(analysis.parameters)}`, "");
+
+  if (analysis.tornado.length > 0) {
+    lines.push(
+      `### ${text.mostInfluential}`,
+      "",
+      text.tornadoIntro(round(analysis.spread * 100)),
+      "",
+      `| ${text.parameter} | ${text.range} | ${labels.expectedValue} | ${text.swing} |`,
+      "| --- | --- | --- | --- |",
+      ...analysis.tornado.slice(0, limit).map(bar =>
+        `| ${escapeTableCell(bar.label)} | ${formatValue(bar.kind, bar.low)} – ${formatValue(bar.kind, bar.high)} | ${bar.lowValue} – ${bar.highValue} | ${bar.swing} |`),
+      "",
+    );
+  }
+
+  lines.push(`### ${text.thresholds}`, "");
+  if (analysis.thresholds.length === 0) {
+    lines.push(text.noThresholds);
+  } else {
+    lines.push(...analysis.thresholds.slice(0, limit).map(threshold =>
+      `- ${threshold.statement} ${text.currently(formatValue(threshold.kind, threshold.baseValue))}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 生成阈值摘要（用于报告提示词）
+ * Build a summary of the thresholds (for report prompts)
+ *
+ * @param {SensitivityAnalysis} analysis - 敏感性分析结果
+ * @param {number} limit - 最多列出的条数
+ * @returns {string} 摘要文本
+ */
+export function formatSensitivitySummary(analysis: SensitivityAnalysis, limit = 5): string {
+  if (analysis.thresholds.length === 0) {
+    return "No single parameter changes the preferred option anywhere in its range.";
+  }
+  return analysis.thresholds.slice(0, limit)
+    .map(threshold => `- ${threshold.statement} (currently ${formatValue(threshold.kind, threshold.baseValue)})`)
+    .join("\n");
+}
@@ -0,0 +1,225 @@
+import type { DecisionCriterion, DecisionNode } from "../../types/decision";
+import type { HistogramBin, OptionSimulation, OutcomePercentiles, SimulationResult } from "../../types/simulation";
+import type { NodeScorer } from "./expected-value";
+import { ENV } from "../../config/env";
+import { SeededRandom } from "../random";
+import { round } from "../text/format";
+import { createUtilityScorer } from "./criteria";
+import { evaluateNode, getChildWeights, scoreNode } from "./expected-value";
+import { walkTree } from "./tree";
+import { sampleEstimate } from "./uncertainty";
+
+/**
+ * 结果直方图的区间数
+ * Number of bins of the outcome histograms
+ */
+const HISTOGRAM_BINS = 20;
+
+/**
+ * 蒙特卡洛模拟选项
+ * Monte Carlo simulation options
+ */
+export interface SimulationOptions {
+  /**
+   * 评估标准（权重已归一化），提供时叶子节点按效用评分
+   * Evaluation criteria (weights normalized); when given, leaves are scored by their utility
+   */
+  criteria?: DecisionCriterion[];
+  iterations?: number;
+  seed?: number | string;
+}
+
+/**
+ * 确定每个决策节点的选择：按点估计计算期望值最高的子节点
+ * Fix the choice at every decision node: the child with the highest expected value under the point estimates
+ *
+ * 模拟的是按分析结果行事的决策者，因此后续决策不会根据抽样结果改变
+ * The simulation models a decision maker following the analysis, so later decisions do not adapt to the sampled values
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {NodeScorer} scorer - 叶子节点评分函数
+ * @returns {Map<DecisionNode, DecisionNode>} 决策节点到所选子节点的映射
+ */
+function decisionPolicy(tree: DecisionNode, scorer: NodeScorer): Map<DecisionNode, DecisionNode> {
+  const policy = new Map<DecisionNode, DecisionNode>();
+  walkTree(tree, (node) => {
+    if (node.type !== "decision" || node.children.length === 0) {
+      return;
+    }
+    let best = node.children[0]!;
+    let bestValue = evaluateNode(best, scorer);
+    for (const child of node.children.slice(1)) {
+      const value = evaluateNode(child, scorer);
+      if (value > bestValue) {
+        best = child;
+        bestValue = value;
+      }
+    }
+    policy.set(node, best);
+  });
+  return policy;
+}
+
+/**
+ * 从选项开始抽样一条到叶子节点的路径，并返回该叶子节点的抽样评分
+ * Sample a path from an option down to a leaf and return the sampled score of that leaf
+ *
+ * 机会/结果节点按抽样的概率选择子节点，决策节点按既定的选择继续
+ * Chance/outcome nodes pick a child by sampled probabilities, decision nodes follow the fixed choice
+ *
+ * @param {DecisionNode} option - 顶层选项
+ * @param {Map<DecisionNode, DecisionNode>} policy - 决策节点的选择
+ * @param {NodeScorer} scorer - 叶子节点评分函数
+ * @param {SeededRandom} random - 随机数生成器
+ * @returns {number} 结果
+ */
+function samplePath(option: DecisionNode, policy: Map<DecisionNode, DecisionNode>, scorer: NodeScorer, random: SeededRandom): number {
+  let current = option;
+  while (current.children.length > 0) {
+    if (current.type === "decision") {
+      current = policy.get(current)!;
+      continue;
+    }
+
+    const sampled = current.children.map(child => ({
+      ...child,
+      probability: sampleEstimate(child.probability, child.probabilityRange, random),
+    }));
+    const weights = getChildWeights({ ...current, children: sampled });
+    const u = random.next();
+    let cumulative = 0;
+    let next = current.children.at(-1)!;
+    for (const [i, child] of current.children.entries()) {
+      cumulative += weights[i] ?? 0;
+      if (u < cumulative) {
+        next = child;
+        break;
+      }
+    }
+    current = next;
+  }
+
+  return scorer({
+    ...current,
+    risk: sampleEstimate(current.risk, current.riskRange, random),
+    opportunity: sampleEstimate(current.opportunity, current.opportunityRange, random),
+  });
+}
+
+/**
+ * 计算已排序样本的百分位数（线性插值）
+ * Compute a percentile of sorted samples (linear interpolation)
+ *
+ * @param {number[]} sorted - 升序排列的样本
+ * @param {number} p - 百分位（0-100）
+ * @returns {number} 百分位数
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (index - lower);
+}
+
+/**
+ * 计算已排序样本的各个报告百分位数
+ * Compute the reported percentiles of sorted samples
+ *
+ * @param {number[]} sorted - 升序排列的样本
+ * @returns {OutcomePercentiles} 百分位数
+ */
+function percentiles(sorted: number[]): OutcomePercentiles {
+  const at = (p: number) => round(percentile(sorted, p));
+  return { p5: at(5), p10: at(10), p25: at(25), p50: at(50), p75: at(75), p90: at(90), p95: at(95) };
+}
+
+/**
+ * 生成直方图
+ * Build a histogram
+ *
+ * @param {number[]} values - 样本
+ * @param {number} min - 所有选项的最小值
+ * @param {number} max - 所有选项的最大值
+ * @returns {HistogramBin[]} 直方图
+ */
+function histogram(values: number[], min: number, max: number): HistogramBin[] {
+  const bins = max > min ? HISTOGRAM_BINS : 1;
+  const width = (max - min) / bins;
+  const counts = Array.from({ length: bins }, () => 0);
+  for (const value of values) {
+    const index = width > 0 ? Math.min(bins - 1, Math.floor((value - min) / width)) : 0;
+    counts[index]! += 1;
+  }
+  return counts.map((count, i) => ({ from: round(min + width * i), to: round(i === bins - 1 ? max : min + width * (i + 1)), count }));
+}
+
+/**
+ * 对决策树进行蒙特卡洛模拟
+ * Run a Monte Carlo simulation over a decision tree
+ *
+ * 每次模拟为每个顶层选项抽样一条路径：概率、风险和机会在各自的不确定范围内抽样（没有范围时使用点估计），
+ * 汇总得到每个选项的结果分布、百分位数和遗憾概率。相同的种子与决策树总是得到相同的结果
+ * Every run samples one path per top-level option, drawing probabilities, risk and opportunity from their
+ * uncertainty ranges (point estimates when there is no range), and the runs are summarized into the outcome
+ * distribution, percentiles and probability of regret of every option. The same seed and tree always give the same result
+ *
+ * @param {DecisionNode} tree - 决策树
+ * @param {SimulationOptions} options - 模拟选项
+ * @returns {SimulationResult} 模拟结果
+ */
+export function simulateDecisionTree(tree: DecisionNode, options: SimulationOptions = {}): SimulationResult {
+  const { criteria = [], iterations = ENV.SIMULATION.ITERATIONS, seed = ENV.SIMULATION.SEED } = options;
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(`Invalid number of simulation iterations: ${iterations}`);
+  }
+
+  const scorer = criteria.length > 0 ? createUtilityScorer(criteria) : scoreNode;
+  const policy = decisionPolicy(tree, scorer);
+  const random = new SeededRandom(seed);
+
+  const outcomes = tree.children.map(() => Array.from<number>({ length: iterations }));
+  const regrets = tree.children.map(() => Array.from<number>({ length: iterations }));
+  for (let run = 0; run < iterations; run++) {
+    tree.children.forEach((option, i) => {
+      outcomes[i]![run] = samplePath(option, policy, scorer, random);
+    });
+    const best = Math.max(...outcomes.map(values => values[run]!));
+    outcomes.forEach((values, i) => {
+      regrets[i]![run] = best - values[run]!;
+    });
+  }
+
+  // 样本数量可能很大，不使用展开参数的 Math.min/Math.max
+  const all = outcomes.flat();
+  const low = all.reduce((acc, value) => Math.min(acc, value), Number.POSITIVE_INFINITY);
+  const high = all.reduce((acc, value) => Math.max(acc, value), Number.NEGATIVE_INFINITY);
+  const results: OptionSimulation[] = tree.children.map((option, i) => {
+    const values = outcomes[i]!;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = values.reduce((acc, value) => acc + value, 0) / iterations;
+    const variance = values.reduce((acc, value) => acc + (value - mean) ** 2, 0) / iterations;
+    // 忽略浮点误差，结果相同的选项都不算遗憾
+    const regretted = regrets[i]!.filter(regret => regret > 1e-9).length;
+    const probabilityOfRegret = round((regretted / iterations) * 100);
+
+    return {
+      id: option.id,
+      description: option.description,
+      mean: round(mean),
+      stdDev: round(Math.sqrt(variance)),
+      min: round(sorted[0]!),
+      max: round(sorted.at(-1)!),
+      percentiles: percentiles(sorted),
+      histogram: histogram(values, low, high),
+      probabilityOfRegret,
+      expectedRegret: round(regrets[i]!.reduce((acc, regret) => acc + regret, 0) / iterations),
+      probabilityBest: round(100 - probabilityOfRegret),
+    };
+  });
+
+  return {
+    iterations,
+    seed,
+    options: results.sort((a, b) => b.mean - a.mean),
+  };
+}
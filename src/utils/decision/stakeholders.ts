@@ -0,0 +1,284 @@
+import type { DecisionNode } from "../../types/decision";
+import type {
+  StakeholderAgreementMatrix,
+  StakeholderAnalysis,
+  StakeholderAssessment,
+  StakeholderDivergence,
+  StakeholderItemKind,
+  StakeholderPersona,
+  StakeholderScore,
+} from "../../types/stakeholder";
+import { getReportLabels } from "../report/labels";
+import { escapeTableCell, round } from "../text/format";
+
+/**
+ * 利益相关者分析默认配置
+ * Stakeholder analysis defaults
+ */
+export const STAKEHOLDER_DEFAULTS = {
+  // 评分最高与最低相差至少这么多分（0-10）时视为分歧
+  // Minimum difference between the highest and lowest score (0-10) for an item to count as a divergence
+  DIVERGENCE_THRESHOLD: 3,
+} as const;
+
+/**
+ * 由利益相关者评分的选项或结果
+ * Option or outcome scored by the stakeholders
+ */
+export interface StakeholderItem {
+  /**
+   * 提示词中使用的简短键，例如 O1、O1.2
+   * Short key used in prompts, e.g. O1, O1.2
+   */
+  key: string;
+  node: DecisionNode;
+  kind: StakeholderItemKind;
+}
+
+/**
+ * 判断值是否为利益相关者角色（用于校验请求）
+ * Check whether a value is a stakeholder persona (to validate requests)
+ *
+ * @param {unknown} value - 待检查的值
+ * @returns {boolean} 是否为利益相关者角色
+ */
+export function isStakeholderPersona(value: unknown): value is StakeholderPersona {
+  const persona = value as Partial<StakeholderPersona> | null;
+  return typeof persona === "object" && persona !== null
+    && typeof persona.name === "string" && persona.name.trim() !== ""
+    && (persona.description === undefined || typeof persona.description === "string")
+    && Array.isArray(persona.priorities) && persona.priorities.every(priority => typeof priority === "string");
+}
+
+/**
+ * 校验利益相关者角色并去除多余空白
+ * Validate stakeholder personas and trim their fields
+ *
+ * @param {StakeholderPersona[]} stakeholders - 利益相关者角色
+ * @returns {StakeholderPersona[]} 整理后的角色
+ */
+export function normalizeStakeholders(stakeholders: StakeholderPersona[]): StakeholderPersona[] {
+  const names = new Set<string>();
+  return stakeholders.map((stakeholder) => {
+    const name = stakeholder.name?.trim();
+    if (!name) {
+      throw new Error("Stakeholder name is required");
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate stakeholder name: ${name}`);
+    }
+    names.add(name);
+
+    const description = stakeholder.description?.trim();
+    return {
+      name,
+      ...(description && { description }),
+      priorities: (stakeholder.priorities ?? []).map(priority => priority.trim()).filter(Boolean),
+    };
+  });
+}
+
+/**
+ * 列出由利益相关者评分的项：顶层选项及其直接子节点（关键结果）
+ * List the items scored by the stakeholders: the top-level options and their direct children (key outcomes)
+ *
+ * @param {DecisionNode} decisionTree - 决策树
+ * @returns {StakeholderItem[]} 评分项
+ */
+export function listStakeholderItems(decisionTree: DecisionNode): StakeholderItem[] {
+  return decisionTree.children.flatMap((option, i) => [
+    { key: `O${i + 1}`, node: option, kind: "option" as const },
+    ...option.children.map((outcome, j) => ({ key: `O${i + 1}.${j + 1}`, node: outcome, kind: "outcome" as const })),
+  ]);
+}
+
+/**
+ * 将评分项格式化为提示词中的列表
+ * Format the scored items as a list for prompts
+ *
+ * @param {StakeholderItem[]} items - 评分项
+ * @returns {string} 列表文本
+ */
+export function formatStakeholderItems(items: StakeholderItem[]): string {
+  return items.map(({ key, node, kind }) => {
+    const probability = node.probability !== undefined ? ` (probability ${node.probability}%)` : "";
+    return kind === "option" ? `${key}: ${node.description}` : `  ${key}: ${node.description}${probability}`;
+  }).join("\n");
+}
+
+/**
+ * 计算两两之间的一致度：1 减去共同评分项的平均分差与满分之比
+ * Compute the pairwise agreement: 1 minus the mean score difference over the commonly scored items, relative to
+ * the full scale
+ *
+ * @param {StakeholderAssessment[]} assessments - 各利益相关者的评估
+ * @returns {StakeholderAgreementMatrix} 一致度矩阵
+ */
+function buildAgreementMatrix(assessments: StakeholderAssessment[]): StakeholderAgreementMatrix {
+  const scoreMaps = assessments.map(assessment => new Map(assessment.scores.map(score => [score.nodeId, score.score])));
+  return {
+    stakeholders: assessments.map(assessment => assessment.stakeholder),
+    values: scoreMaps.map((a, i) => scoreMaps.map((b, j) => {
+      if (i === j) {
+        return 1;
+      }
+      const differences = [...a].flatMap(([nodeId, score]) => b.has(nodeId) ? [Math.abs(score - b.get(nodeId)!)] : []);
+      if (differences.length === 0) {
+        return null;
+      }
+      return round(1 - differences.reduce((acc, difference) => acc + difference, 0) / differences.length / 10);
+    })),
+  };
+}
+
+/**
+ * 找出利益相关者评分相差至少 threshold 分的项
+ * Find the items on which the stakeholders' scores differ by at least the threshold
+ *
+ * @param {StakeholderAssessment[]} assessments - 各利益相关者的评估
+ * @param {number} threshold - 分歧阈值
+ * @returns {StakeholderDivergence[]} 分歧，按分差从大到小排列
+ */
+function findDivergences(assessments: StakeholderAssessment[], threshold: number): StakeholderDivergence[] {
+  const byNode = new Map<string, { stakeholder: string; score: StakeholderScore }[]>();
+  for (const assessment of assessments) {
+    for (const score of assessment.scores) {
+      byNode.set(score.nodeId, [...(byNode.get(score.nodeId) ?? []), { stakeholder: assessment.stakeholder, score }]);
+    }
+  }
+
+  const divergences: StakeholderDivergence[] = [];
+  for (const [nodeId, positions] of byNode) {
+    const sorted = [...positions].sort((a, b) => b.score.score - a.score.score);
+    const highest = sorted[0]!;
+    const lowest = sorted[sorted.length - 1]!;
+    const spread = round(highest.score.score - lowest.score.score);
+    if (sorted.length > 1 && spread >= threshold) {
+      divergences.push({
+        nodeId,
+        description: highest.score.description,
+        kind: highest.score.kind,
+        spread,
+        highest: { stakeholder: highest.stakeholder, score: highest.score.score, rationale: highest.score.rationale },
+        lowest: { stakeholder: lowest.stakeholder, score: lowest.score.score, rationale: lowest.score.rationale },
+      });
+    }
+  }
+  return divergences.sort((a, b) => b.spread - a.spread);
+}
+
+/**
+ * 汇总各利益相关者的评估：计算一致度矩阵和分歧
+ * Combine the assessments of the stakeholders: compute the agreement matrix and the divergences
+ *
+ * @param {StakeholderPersona[]} stakeholders - 利益相关者角色
+ * @param {StakeholderAssessment[]} assessments - 各利益相关者的评估
+ * @param {number} threshold - 分歧阈值
+ * @returns {StakeholderAnalysis} 利益相关者分析结果
+ */
+export function buildStakeholderAnalysis(
+  stakeholders: StakeholderPersona[],
+  assessments: StakeholderAssessment[],
+  threshold: number = STAKEHOLDER_DEFAULTS.DIVERGENCE_THRESHOLD,
+): StakeholderAnalysis {
+  return {
+    stakeholders,
+    assessments,
+    agreement: buildAgreementMatrix(assessments),
+    divergences: findDivergences(assessments, threshold),
+  };
+}
+
+/**
+ * 生成报告中的利益相关者章节（Markdown）：评分表、一致度矩阵和分歧
+ * Build the stakeholder section of the report (Markdown): score table, agreement matrix and divergences
+ *
+ * @param {StakeholderAnalysis} analysis - 利益相关者分析结果
+ * @param {number} limit - 最多列出的分歧条数
+ * @returns {string} Markdown 文本
+ */
+export function formatStakeholderSection(analysis: StakeholderAnalysis, limit = 10): string {
+  const { assessments, agreement, divergences } = analysis;
+  const labels = getReportLabels();
+  const text = labels.stakeholders;
+  const lines = [`## ${labels.headings.stakeholders}`, ""];
+  if (assessments.length === 0) {
+    lines.push(text.none);
+    return lines.join("\n");
+  }
+
+  const names = assessments.map(assessment => escapeTableCell(assessment.stakeholder));
+  const priorities = analysis.stakeholders.filter(stakeholder => stakeholder.priorities.length > 0)
+    .map(stakeholder => `- **${stakeholder.name}**: ${stakeholder.priorities.join(", ")}`);
+  lines.push(text.intro, "");
+  if (priorities.length > 0) {
+    lines.push(...priorities, "");
+  }
+  lines.push(
+    `| ${text.itemColumn} | ${names.join(" | ")} |`,
+    `| --- |${" --- |".repeat(names.length)}`,
+  );
+
+  const rows = new Map<string, { label: string; scores: (number | undefined)[] }>();
+  assessments.forEach((assessment, i) => {
+    for (const score of assessment.scores) {
+      const row = rows.get(score.nodeId) ?? {
+        label: score.kind === "option" ? `**${escapeTableCell(score.description)}**` : `↳ ${escapeTableCell(score.description)}`,
+        scores: [],
+      };
+      row.scores[i] = score.score;
+      rows.set(score.nodeId, row);
+    }
+  });
+  for (const row of rows.values()) {
+    lines.push(`| ${row.label} | ${assessments.map((_, i) => row.scores[i] ?? "-").join(" | ")} |`);
+  }
+
+  const preferred = assessments.filter(assessment => assessment.preferredOption)
+    .map(assessment => `- ${text.prefers(assessment.stakeholder, `**${assessment.preferredOption!.description}**`)}`);
+  if (preferred.length > 0) {
+    lines.push("", ...preferred);
+  }
+
+  if (assessments.length > 1) {
+    lines.push(
+      "",
+      `### ${text.agreement}`,
+      "",
+      text.agreementIntro,
+      "",
+      `| | ${names.join(" | ")} |`,
+      `| --- |${" --- |".repeat(names.length)}`,
+      ...agreement.values.map((row, i) => `| **${names[i]}** | ${row.map(value => value ?? "-").join(" | ")} |`),
+    );
+  }
+
+  lines.push("", `### ${text.diverge}`, "");
+  if (divergences.length === 0) {
+    lines.push(text.noDivergence);
+  } else {
+    lines.push(...divergences.slice(0, limit).map(({ description, spread, highest, lowest }) =>
+      `- **${description}** ${text.spread(spread)}: ${highest.stakeholder} ${highest.score}/10${highest.rationale ? ` – ${highest.rationale}` : ""}; `
+      + `${lowest.stakeholder} ${lowest.score}/10${lowest.rationale ? ` – ${lowest.rationale}` : ""}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 生成利益相关者分析摘要（用于报告提示词）
+ * Build a summary of the stakeholder analysis (for report prompts)
+ *
+ * @param {StakeholderAnalysis} analysis - 利益相关者分析结果
+ * @param {number} limit - 最多列出的分歧条数
+ * @returns {string} 摘要文本
+ */
+export function formatStakeholderSummary(analysis: StakeholderAnalysis, limit = 5): string {
+  const preferences = analysis.assessments.map(assessment =>
+    `- ${assessment.stakeholder} prefers ${assessment.preferredOption?.description ?? "no option"}`);
+  const divergences = analysis.divergences.slice(0, limit).map(({ description, spread, highest, lowest }) =>
+    `- ${description}: ${highest.stakeholder} ${highest.score}/10 vs ${lowest.stakeholder} ${lowest.score}/10 (spread ${spread})`);
+  return [
+    ...preferences,
+    divergences.length > 0 ? `Largest divergences:\n${divergences.join("\n")}` : "No large divergences between the stakeholders.",
+  ].join("\n");
+}
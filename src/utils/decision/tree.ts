@@ -0,0 +1,214 @@
+import type { DecisionNode, DecisionNodeEdit } from "../../types/decision";
+
+/**
+ * 节点不存在错误
+ * Node not found error
+ */
+export class NodeNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Node not found: ${id}`);
+    this.name = "NodeNotFoundError";
+  }
+}
+
+/**
+ * 无效的决策树操作错误
+ * Invalid decision tree operation error
+ */
+export class InvalidTreeOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTreeOperationError";
+  }
+}
+
+/**
+ * 查找从根节点到目标节点的路径
+ * Find the path from the root to the target node
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {string} nodeId - 目标节点ID
+ * @returns {DecisionNode[] | null} 路径上的节点（包含根节点和目标节点），不存在时返回 null
+ */
+export function findNodePath(tree: DecisionNode, nodeId: string): DecisionNode[] | null {
+  if (tree.id === nodeId) {
+    return [tree];
+  }
+  for (const child of tree.children) {
+    const path = findNodePath(child, nodeId);
+    if (path) {
+      return [tree, ...path];
+    }
+  }
+  return null;
+}
+
+/**
+ * 查找节点
+ * Find a node
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {string} nodeId - 节点ID
+ * @returns {DecisionNode | null} 节点，不存在时返回 null
+ */
+export function findNode(tree: DecisionNode, nodeId: string): DecisionNode | null {
+  return findNodePath(tree, nodeId)?.at(-1) ?? null;
+}
+
+/**
+ * 获取节点，不存在时抛出 NodeNotFoundError
+ * Get a node, throwing NodeNotFoundError when it does not exist
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {string} nodeId - 节点ID
+ * @returns {DecisionNode[]} 从根节点到该节点的路径
+ */
+export function requireNodePath(tree: DecisionNode, nodeId: string): DecisionNode[] {
+  const path = findNodePath(tree, nodeId);
+  if (!path) {
+    throw new NodeNotFoundError(nodeId);
+  }
+  return path;
+}
+
+/**
+ * 将节点路径格式化为描述文本（"A → B → C"）
+ * Format a node path as description text ("A → B → C")
+ *
+ * @param {DecisionNode[]} path - 节点路径
+ * @returns {string} 路径文本
+ */
+export function formatNodePath(path: DecisionNode[]): string {
+  return path.map(node => node.description).join(" → ");
+}
+
+/**
+ * 深度优先遍历决策树
+ * Walk the decision tree depth-first
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {Function} visit - 访问函数，参数为节点及其深度
+ * @param {number} depth - 起始深度
+ */
+export function walkTree(
+  tree: DecisionNode,
+  visit: (node: DecisionNode, depth: number) => void,
+  depth: number = 0,
+): void {
+  visit(tree, depth);
+  tree.children.forEach(child => walkTree(child, visit, depth + 1));
+}
+
+/**
+ * 获取子树中的所有叶子节点
+ * Get all leaf nodes of a subtree
+ *
+ * @param {DecisionNode} tree - 子树根节点
+ * @returns {DecisionNode[]} 叶子节点
+ */
+export function getLeaves(tree: DecisionNode): DecisionNode[] {
+  const leaves: DecisionNode[] = [];
+  walkTree(tree, (node) => {
+    if (node.children.length === 0) {
+      leaves.push(node);
+    }
+  });
+  return leaves;
+}
+
+/**
+ * 统计子树中的节点数量
+ * Count the nodes of a subtree
+ *
+ * @param {DecisionNode} tree - 子树根节点
+ * @returns {number} 节点数量
+ */
+export function countNodes(tree: DecisionNode): number {
+  let count = 0;
+  walkTree(tree, () => {
+    count += 1;
+  });
+  return count;
+}
+
+/**
+ * 计算子树的高度（叶子节点为0）
+ * Compute the height of a subtree (0 for a leaf)
+ *
+ * @param {DecisionNode} tree - 子树根节点
+ * @returns {number} 子树高度
+ */
+export function getTreeHeight(tree: DecisionNode): number {
+  let height = 0;
+  walkTree(tree, (_, depth) => {
+    height = Math.max(height, depth);
+  });
+  return height;
+}
+
+/**
+ * 从决策树中移除节点及其子树
+ * Remove a node and its subtree from the decision tree
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {string} nodeId - 节点ID
+ * @returns {DecisionNode} 被移除的节点
+ */
+export function removeNode(tree: DecisionNode, nodeId: string): DecisionNode {
+  const path = requireNodePath(tree, nodeId);
+  const node = path.at(-1)!;
+  const parent = path.at(-2);
+  if (!parent) {
+    throw new InvalidTreeOperationError("The root node cannot be removed");
+  }
+  parent.children = parent.children.filter(child => child.id !== nodeId);
+  return node;
+}
+
+/**
+ * 校验手动编辑的节点字段，无效时抛出 InvalidTreeOperationError
+ * Validate manually edited node fields, throwing InvalidTreeOperationError when invalid
+ *
+ * @param {DecisionNodeEdit} edit - 编辑内容
+ */
+export function assertValidNodeEdit(edit: DecisionNodeEdit): void {
+  const inRange = (value: unknown, min: number, max: number): boolean =>
+    typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+  if (edit.description !== undefined && (typeof edit.description !== "string" || !edit.description.trim())) {
+    throw new InvalidTreeOperationError("description must be a non-empty string");
+  }
+  if (edit.type !== undefined && !["decision", "chance", "outcome"].includes(edit.type)) {
+    throw new InvalidTreeOperationError("type must be one of decision, chance or outcome");
+  }
+  if (edit.risk !== undefined && !inRange(edit.risk, 1, 10)) {
+    throw new InvalidTreeOperationError("risk must be a number between 1 and 10");
+  }
+  if (edit.opportunity !== undefined && !inRange(edit.opportunity, 1, 10)) {
+    throw new InvalidTreeOperationError("opportunity must be a number between 1 and 10");
+  }
+  if (edit.probability !== undefined && !inRange(edit.probability, 0, 100)) {
+    throw new InvalidTreeOperationError("probability must be a number between 0 and 100");
+  }
+  if (edit.scores !== undefined && (typeof edit.scores !== "object" || edit.scores === null
+    || Object.values(edit.scores).some(score => typeof score !== "number" || !Number.isFinite(score)))) {
+    throw new InvalidTreeOperationError("scores must map criterion names to numbers");
+  }
+}
+
+/**
+ * 将编辑内容应用到节点（只复制已知字段）
+ * Apply an edit to a node (only known fields are copied)
+ *
+ * @param {DecisionNode} node - 节点
+ * @param {DecisionNodeEdit} edit - 编辑内容
+ */
+export function applyNodeEdit(node: DecisionNode, edit: DecisionNodeEdit): void {
+  assertValidNodeEdit(edit);
+  const fields = ["description", "type", "risk", "opportunity", "probability", "scores"] as const;
+  for (const field of fields) {
+    if (edit[field] !== undefined) {
+      Object.assign(node, { [field]: edit[field] });
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import type { UncertaintyRange } from "../../types/decision";
+import type { SeededRandom } from "../random";
+import { z } from "zod";
+
+/**
+ * 概率（%）的取值范围
+ * Bounds of a probability (%)
+ */
+export const PROBABILITY_BOUNDS = [0, 100] as const;
+
+/**
+ * 风险和机会评估的取值范围
+ * Bounds of risk and opportunity assessments
+ */
+export const RATING_BOUNDS = [1, 10] as const;
+
+/**
+ * 构建模型生成不确定范围（低估计和高估计）的模式
+ * Build the schema for a model-generated uncertainty range (low and high estimate)
+ *
+ * @param {readonly [number, number]} bounds - 取值范围
+ * @returns {z.ZodObject} 范围模式
+ */
+export function buildRangeSchema(bounds: readonly [number, number]) {
+  const [min, max] = bounds;
+  return z.object({
+    min: z.number().min(min).max(max).describe("Low estimate"),
+    max: z.number().min(min).max(max).describe("High estimate"),
+  });
+}
+
+/**
+ * 将生成的低/高估计转换为不确定范围：限制在取值范围内，并保证范围包含点估计
+ * Turn generated low/high estimates into an uncertainty range: clamp them to the bounds and make the range contain the point estimate
+ *
+ * @param {object | undefined} range - 生成的范围
+ * @param {number | undefined} likely - 点估计
+ * @param {readonly [number, number]} bounds - 取值范围
+ * @returns {UncertaintyRange | undefined} 不确定范围，缺少估计或范围为单点时返回 undefined
+ */
+export function toUncertaintyRange(
+  range: { min?: number; max?: number } | undefined,
+  likely: number | undefined,
+  bounds: readonly [number, number],
+): UncertaintyRange | undefined {
+  if (!range || typeof likely !== "number" || !Number.isFinite(range.min) || !Number.isFinite(range.max)) {
+    return undefined;
+  }
+
+  const clamp = (value: number) => Math.min(bounds[1], Math.max(bounds[0], value));
+  const min = Math.min(clamp(range.min!), clamp(range.max!), likely);
+  const max = Math.max(clamp(range.min!), clamp(range.max!), likely);
+  return min < max ? { min, likely, max } : undefined;
+}
+
+/**
+ * 从 Gamma(shape, 1) 分布抽样（Marsaglia-Tsang 方法，shape >= 1）
+ * Sample a Gamma(shape, 1) distribution (Marsaglia-Tsang method, shape >= 1)
+ *
+ * @param {number} shape - 形状参数
+ * @param {SeededRandom} random - 随机数生成器
+ * @returns {number} 样本
+ */
+function sampleGamma(shape: number, random: SeededRandom): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    // Box-Muller 变换生成标准正态样本
+    const normal = Math.sqrt(-2 * Math.log(1 - random.next())) * Math.cos(2 * Math.PI * random.next());
+    const v = (1 + c * normal) ** 3;
+    if (v > 0 && Math.log(1 - random.next()) < 0.5 * normal ** 2 + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+/**
+ * 在范围内抽样一个估计值，以当前点估计作为最可能的值
+ * Sample an estimate from its range, with the current point estimate as the most likely value
+ *
+ * 范围会扩展到包含点估计（例如手动修改了概率之后）
+ * The range is widened to contain the point estimate (e.g. after the probability was edited by hand)
+ *
+ * @param {number | undefined} value - 点估计
+ * @param {UncertaintyRange | undefined} range - 不确定范围
+ * @param {SeededRandom} random - 随机数生成器
+ * @returns {number | undefined} 样本，没有范围时返回点估计
+ */
+export function sampleEstimate(value: number | undefined, range: UncertaintyRange | undefined, random: SeededRandom): number | undefined {
+  if (value === undefined || !range) {
+    return value;
+  }
+
+  const min = Math.min(range.min, value);
+  const max = Math.max(range.max, value);
+  if (min === max) {
+    return value;
+  }
+
+  const width = max - min;
+  switch (range.distribution ?? "triangular") {
+    case "uniform":
+      return min + random.next() * width;
+    case "pert": {
+      // Beta 分布：alpha = 1 + 4(众数-最小值)/宽度，beta = 1 + 4(最大值-众数)/宽度
+      const a = sampleGamma(1 + (4 * (value - min)) / width, random);
+      const b = sampleGamma(1 + (4 * (max - value)) / width, random);
+      return min + (a / (a + b)) * width;
+    }
+    default: {
+      // 三角分布的逆累积分布函数
+      const u = random.next();
+      const split = (value - min) / width;
+      return u < split
+        ? min + Math.sqrt(u * width * (value - min))
+        : max - Math.sqrt((1 - u) * width * (max - value));
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import type { DecisionNode } from "../../types/decision";
+
+/**
+ * 图表导出选项
+ * Diagram export options
+ */
+export interface DiagramOptions {
+  /**
+   * 节点描述的最大长度，超出部分以省略号截断，0 表示不截断
+   * Maximum length of node descriptions, longer ones are truncated with an ellipsis; 0 disables truncation
+   */
+  maxLabelLength?: number;
+}
+
+/**
+ * 图表中的节点
+ * Node of a diagram
+ */
+export interface DiagramNode {
+  /**
+   * 图表内的节点标识（按遍历顺序生成，避免UUID中的字符破坏语法）
+   * Identifier within the diagram (generated in traversal order, so UUID characters never break the syntax)
+   */
+  key: string;
+  /**
+   * 父节点标识，根节点为 null
+   * Parent identifier, null for the root
+   */
+  parentKey: string | null;
+  /**
+   * 决策树节点
+   * Decision tree node
+   */
+  node: DecisionNode;
+  /**
+   * 标签文本行
+   * Label lines
+   */
+  lines: string[];
+  /**
+   * 指向该节点的边标签（概率），没有时为 undefined
+   * Label of the edge leading to the node (probability), undefined when absent
+   */
+  edgeLabel?: string;
+}
+
+const DEFAULT_MAX_LABEL_LENGTH = 80;
+
+/**
+ * 生成节点标签：描述、风险/机会评估和期望值
+ * Build the node label: description, risk/opportunity assessment and expected value
+ *
+ * @param {DecisionNode} node - 节点
+ * @param {number} maxLength - 描述的最大长度
+ * @returns {string[]} 标签文本行
+ */
+export function getNodeLabelLines(node: DecisionNode, maxLength: number = DEFAULT_MAX_LABEL_LENGTH): string[] {
+  const description = maxLength > 0 && node.description.length > maxLength
+    ? `${node.description.slice(0, maxLength - 1)}…`
+    : node.description;
+  const lines = [description];
+
+  const assessment = [
+    node.risk !== undefined ? `Risk ${node.risk}` : "",
+    node.opportunity !== undefined ? `Opportunity ${node.opportunity}` : "",
+  ].filter(Boolean).join(" · ");
+  if (assessment) {
+    lines.push(assessment);
+  }
+  if (node.expectedValue !== undefined) {
+    lines.push(`EV ${node.expectedValue}`);
+  }
+  return lines;
+}
+
+/**
+ * 按深度优先顺序展开决策树，生成图表节点
+ * Flatten the decision tree depth-first into diagram nodes
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {DiagramOptions} options - 导出选项
+ * @returns {DiagramNode[]} 图表节点
+ */
+export function flattenTree(tree: DecisionNode, { maxLabelLength }: DiagramOptions = {}): DiagramNode[] {
+  const nodes: DiagramNode[] = [];
+
+  const visit = (node: DecisionNode, parentKey: string | null): void => {
+    const key = `n${nodes.length}`;
+    nodes.push({
+      key,
+      parentKey,
+      node,
+      lines: getNodeLabelLines(node, maxLabelLength),
+      edgeLabel: typeof node.probability === "number" ? `${node.probability}%` : undefined,
+    });
+    node.children.forEach(child => visit(child, key));
+  };
+
+  visit(tree, null);
+  return nodes;
+}
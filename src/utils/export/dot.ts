@@ -0,0 +1,68 @@
+import type { DecisionNode } from "../../types/decision";
+import type { DiagramOptions } from "./diagram";
+import { flattenTree } from "./diagram";
+
+/**
+ * 节点类型对应的 Graphviz 形状
+ * Graphviz shape of each node type
+ */
+const DOT_SHAPES: Record<DecisionNode["type"], string> = {
+  decision: "box",
+  chance: "circle",
+  outcome: "triangle",
+};
+
+/**
+ * 转义 DOT 字符串，换行转为 \n
+ * Escape a DOT string, turning line breaks into \n
+ *
+ * @param {string} text - 文本
+ * @returns {string} 转义后的文本
+ */
+function escapeDot(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, "\\\"")
+    .replace(/\r\n?|\n/g, "\\n");
+}
+
+/**
+ * 将决策树导出为 Graphviz DOT，最优路径上的节点和边会被加粗标出
+ * Export a decision tree as Graphviz DOT, with nodes and edges on the optimal path highlighted
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {DiagramOptions} options - 导出选项
+ * @returns {string} DOT 源码
+ */
+export function toDot(tree: DecisionNode, options: DiagramOptions = {}): string {
+  const nodes = flattenTree(tree, options);
+  const optimal = new Set(nodes.filter(item => item.node.optimal).map(item => item.key));
+  const lines = [
+    "digraph DecisionTree {",
+    "  rankdir=LR;",
+    "  node [fontname=\"Helvetica\", fontsize=10];",
+    "  edge [fontname=\"Helvetica\", fontsize=9];",
+  ];
+
+  for (const { key, node, lines: label } of nodes) {
+    const attributes = [
+      `label="${label.map(escapeDot).join("\\n")}"`,
+      `shape=${DOT_SHAPES[node.type] ?? "box"}`,
+      ...(optimal.has(key) ? ["penwidth=3", "color=\"#2e7d32\""] : []),
+    ];
+    lines.push(`  ${key} [${attributes.join(", ")}];`);
+  }
+
+  for (const { key, parentKey, edgeLabel } of nodes) {
+    if (parentKey) {
+      const attributes = [
+        ...(edgeLabel ? [`label="${escapeDot(edgeLabel)}"`] : []),
+        ...(optimal.has(key) && optimal.has(parentKey) ? ["penwidth=3", "color=\"#2e7d32\""] : []),
+      ];
+      lines.push(`  ${parentKey} -> ${key}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`);
+    }
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
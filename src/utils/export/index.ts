@@ -0,0 +1,54 @@
+import type { DecisionNode } from "../../types/decision";
+import type { DiagramOptions } from "./diagram";
+import { toDot } from "./dot";
+import { toMermaid } from "./mermaid";
+import { toPlantUml } from "./plantuml";
+
+/**
+ * 支持的图表格式
+ * Supported diagram formats
+ */
+export const DIAGRAM_FORMATS = ["mermaid", "dot", "plantuml"] as const;
+
+/**
+ * 图表格式
+ * Diagram format
+ */
+export type DiagramFormat = typeof DIAGRAM_FORMATS[number];
+
+/**
+ * 判断是否为支持的图表格式
+ * Whether a value is a supported diagram format
+ *
+ * @param {unknown} value - 待判断的值
+ * @returns {boolean} 是否为图表格式
+ */
+export function isDiagramFormat(value: unknown): value is DiagramFormat {
+  return DIAGRAM_FORMATS.includes(value as DiagramFormat);
+}
+
+/**
+ * 将决策树导出为指定格式的图表
+ * Export a decision tree as a diagram in the given format
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {DiagramFormat} format - 图表格式
+ * @param {DiagramOptions} options - 导出选项
+ * @returns {string} 图表源码
+ */
+export function exportDecisionTree(tree: DecisionNode, format: DiagramFormat, options: DiagramOptions = {}): string {
+  switch (format) {
+    case "dot":
+      return toDot(tree, options);
+    case "plantuml":
+      return toPlantUml(tree, options);
+    default:
+      return toMermaid(tree, options);
+  }
+}
+
+// 导出所有图表相关类型和实现
+export * from "./diagram";
+export * from "./dot";
+export * from "./mermaid";
+export * from "./plantuml";
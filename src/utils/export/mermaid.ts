@@ -0,0 +1,75 @@
+import type { DecisionNode } from "../../types/decision";
+import type { DiagramNode, DiagramOptions } from "./diagram";
+import { flattenTree } from "./diagram";
+
+/**
+ * 转义 Mermaid 标签文本，换行转为 <br/>
+ * Escape Mermaid label text, turning line breaks into <br/>
+ *
+ * @param {string} text - 文本
+ * @returns {string} 转义后的文本
+ */
+function escapeMermaid(text: string): string {
+  return text
+    .replace(/&/g, "#amp;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/\r\n?|\n/g, "<br/>");
+}
+
+/**
+ * 生成 Mermaid 节点定义：决策为方形，机会为圆形，结果为三角形
+ * Build a Mermaid node definition: squares for decisions, circles for chance nodes, triangles for outcomes
+ *
+ * @param {DiagramNode} item - 图表节点
+ * @returns {string} 节点定义
+ */
+function formatMermaidNode({ key, node, lines }: DiagramNode): string {
+  const label = lines.map(escapeMermaid).join("<br/>");
+  switch (node.type) {
+    case "chance":
+      return `${key}(("${label}"))`;
+    case "outcome":
+      return `${key}@{ shape: tri, label: "${label}" }`;
+    default:
+      return `${key}["${label}"]`;
+  }
+}
+
+/**
+ * 将决策树导出为 Mermaid 流程图，最优路径上的节点会被加粗标出，依赖错误假设的节点以虚线标出
+ * Export a decision tree as a Mermaid flowchart, with nodes on the optimal path highlighted and nodes depending on
+ * a false assumption dashed
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {DiagramOptions} options - 导出选项
+ * @returns {string} Mermaid 源码
+ */
+export function toMermaid(tree: DecisionNode, options: DiagramOptions = {}): string {
+  const nodes = flattenTree(tree, options);
+  const lines = ["flowchart LR"];
+
+  for (const item of nodes) {
+    lines.push(`  ${formatMermaidNode(item)}`);
+  }
+  for (const { key, parentKey, edgeLabel } of nodes) {
+    if (parentKey) {
+      lines.push(edgeLabel ? `  ${parentKey} -->|"${edgeLabel}"| ${key}` : `  ${parentKey} --> ${key}`);
+    }
+  }
+
+  const optimal = nodes.filter(item => item.node.optimal).map(item => item.key);
+  if (optimal.length > 0) {
+    lines.push("  classDef optimal stroke-width:3px,stroke:#2e7d32");
+    lines.push(`  class ${optimal.join(",")} optimal`);
+  }
+
+  const invalidated = nodes.filter(item => item.node.invalidatedBy?.length).map(item => item.key);
+  if (invalidated.length > 0) {
+    lines.push("  classDef invalidated stroke-dasharray:5 5,stroke:#c62828");
+    lines.push(`  class ${invalidated.join(",")} invalidated`);
+  }
+
+  return lines.join("\n");
+}
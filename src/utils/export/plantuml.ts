@@ -0,0 +1,68 @@
+import type { DecisionNode } from "../../types/decision";
+import type { DiagramNode, DiagramOptions } from "./diagram";
+import { flattenTree } from "./diagram";
+
+/**
+ * 转义 PlantUML 字符串（PlantUML 不支持在引号字符串中转义双引号，改用单引号；以 ~ 转义 < 避免被解析为 creole 标签；换行转为 \n）
+ * Escape a PlantUML string (PlantUML cannot escape double quotes inside quoted strings, so single quotes are used;
+ * `<` is escaped with `~` so it is not parsed as a creole tag; line breaks become \n)
+ *
+ * @param {string} text - 文本
+ * @returns {string} 转义后的文本
+ */
+function escapePlantUml(text: string): string {
+  return text
+    .replace(/~/g, "~~")
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, "'")
+    .replace(/</g, "~<")
+    .replace(/\r\n?|\n/g, "\\n");
+}
+
+/**
+ * 生成 PlantUML 元素定义：决策为矩形，机会为圆形，结果为带 ▷ 标记的卡片（PlantUML 没有三角形元素）
+ * Build a PlantUML element: rectangles for decisions, circles for chance nodes,
+ * cards marked with ▷ for outcomes (PlantUML has no triangle element)
+ *
+ * @param {DiagramNode} item - 图表节点
+ * @returns {string} 元素定义
+ */
+function formatPlantUmlNode({ key, node, lines }: DiagramNode): string {
+  const label = lines.map(escapePlantUml).join("\\n");
+  const style = node.optimal ? " #line:2e7d32;line.bold" : "";
+  switch (node.type) {
+    case "chance":
+      return `circle "${label}" as ${key}${style}`;
+    case "outcome":
+      return `card "▷ ${label}" as ${key}${style}`;
+    default:
+      return `rectangle "${label}" as ${key}${style}`;
+  }
+}
+
+/**
+ * 将决策树导出为 PlantUML 图，最优路径上的节点和边会被加粗标出
+ * Export a decision tree as a PlantUML diagram, with nodes and edges on the optimal path highlighted
+ *
+ * @param {DecisionNode} tree - 决策树根节点
+ * @param {DiagramOptions} options - 导出选项
+ * @returns {string} PlantUML 源码
+ */
+export function toPlantUml(tree: DecisionNode, options: DiagramOptions = {}): string {
+  const nodes = flattenTree(tree, options);
+  const optimal = new Set(nodes.filter(item => item.node.optimal).map(item => item.key));
+  const lines = ["@startuml", "left to right direction"];
+
+  for (const item of nodes) {
+    lines.push(formatPlantUmlNode(item));
+  }
+  for (const { key, parentKey, edgeLabel } of nodes) {
+    if (parentKey) {
+      const arrow = optimal.has(key) && optimal.has(parentKey) ? "-[#2e7d32,bold]->" : "-->";
+      lines.push(`${parentKey} ${arrow} ${key}${edgeLabel ? ` : ${edgeLabel}` : ""}`);
+    }
+  }
+
+  lines.push("@enduml");
+  return lines.join("\n");
+}
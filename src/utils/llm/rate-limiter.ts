@@ -0,0 +1,278 @@
+import type { LimitFunction } from "p-limit";
+import { APICallError } from "ai";
+import pLimit from "p-limit";
+import { ENV } from "../../config/env";
+import { debug, warn } from "../logger";
+
+/**
+ * 限流器配置
+ * Rate limiter options
+ */
+export interface RateLimiterOptions {
+  /**
+   * 最大并发调用数
+   * Maximum number of concurrent calls
+   */
+  concurrency: number;
+  /**
+   * 每分钟请求数上限，0 表示不限制
+   * Requests per minute budget, 0 disables the limit
+   */
+  requestsPerMinute?: number;
+  /**
+   * 每分钟令牌数上限，0 表示不限制
+   * Tokens per minute budget, 0 disables the limit
+   */
+  tokensPerMinute?: number;
+  /**
+   * 最大重试次数
+   * Maximum number of retries
+   */
+  maxRetries?: number;
+  /**
+   * 指数退避的基础延迟（毫秒）
+   * Base delay of the exponential backoff (milliseconds)
+   */
+  baseDelayMs?: number;
+  /**
+   * 单次退避的最大延迟（毫秒）
+   * Maximum delay of a single backoff (milliseconds)
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * 调度选项
+ * Schedule options
+ */
+export interface ScheduleOptions {
+  /**
+   * 预估消耗的令牌数，用于每分钟令牌预算
+   * Estimated token cost, counted against the tokens-per-minute budget
+   */
+  estimatedTokens?: number;
+  /**
+   * 取消信号
+   * Cancellation signal
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * 时间窗口内的调用记录
+ * Call record within the time window
+ */
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * 可被取消的等待
+ * Abortable sleep
+ *
+ * @param {number} ms - 等待时间（毫秒）
+ * @param {AbortSignal} signal - 取消信号
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 判断错误是否可重试（429、5xx 和网络错误）
+ * Whether an error is retryable (429, 5xx and network errors)
+ *
+ * @param {unknown} err - 错误
+ * @returns {boolean} 是否可重试
+ */
+export function isRetryableError(err: unknown): boolean {
+  return APICallError.isInstance(err) && err.isRetryable;
+}
+
+/**
+ * 读取 Retry-After 响应头（毫秒）
+ * Read the Retry-After response header (milliseconds)
+ *
+ * @param {unknown} err - 错误
+ * @returns {number | undefined} 建议的等待时间，没有时返回 undefined
+ */
+function getRetryAfterMs(err: unknown): number | undefined {
+  if (!APICallError.isInstance(err)) {
+    return undefined;
+  }
+  const header = err.responseHeaders?.["retry-after"];
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * LLM调用限流器：全局并发限制、每分钟请求/令牌预算，以及对 429/5xx 的指数退避重试
+ * LLM call rate limiter: global concurrency limit, requests/tokens per minute budgets and exponential backoff retries on 429/5xx
+ */
+export class LLMRateLimiter {
+  private limit: LimitFunction;
+  private options: Required<RateLimiterOptions>;
+  private window: WindowEntry[] = [];
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param {RateLimiterOptions} options - 限流器配置
+   */
+  constructor(options: RateLimiterOptions) {
+    this.options = {
+      concurrency: Math.max(1, options.concurrency),
+      requestsPerMinute: options.requestsPerMinute ?? 0,
+      tokensPerMinute: options.tokensPerMinute ?? 0,
+      maxRetries: Number.isFinite(options.maxRetries) ? Math.max(0, options.maxRetries!) : 3,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      maxDelayMs: options.maxDelayMs ?? 30_000,
+    };
+    this.limit = pLimit(this.options.concurrency);
+  }
+
+  /**
+   * 等待直到请求和令牌预算允许再发起一次调用，并记录该调用
+   * Wait until the request and token budgets allow another call, then record it
+   *
+   * @param {number} tokens - 预估令牌数
+   * @param {AbortSignal} signal - 取消信号
+   * @returns {Promise<WindowEntry>} 窗口记录
+   */
+  private async acquire(tokens: number, signal?: AbortSignal): Promise<WindowEntry> {
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+
+    while (true) {
+      const now = Date.now();
+      this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+
+      const requestsOk = requestsPerMinute <= 0 || this.window.length < requestsPerMinute;
+      const usedTokens = this.window.reduce((acc, entry) => acc + entry.tokens, 0);
+      // 空窗口时总是放行，避免单个超大请求永远无法执行
+      const tokensOk = tokensPerMinute <= 0 || this.window.length === 0 || usedTokens + tokens <= tokensPerMinute;
+
+      if (requestsOk && tokensOk) {
+        const entry = { time: now, tokens };
+        this.window.push(entry);
+        return entry;
+      }
+
+      const oldest = this.window[0]!;
+      const waitMs = Math.max(50, oldest.time + WINDOW_MS - now);
+      debug(`Rate limit budget exhausted, waiting ${waitMs}ms`);
+      await sleep(waitMs, signal);
+    }
+  }
+
+  /**
+   * 计算第 attempt 次重试前的等待时间
+   * Compute the delay before retry number attempt
+   *
+   * @param {number} attempt - 重试序号（从0开始）
+   * @param {unknown} err - 导致重试的错误
+   * @returns {number} 等待时间（毫秒）
+   */
+  private backoff(attempt: number, err: unknown): number {
+    const { baseDelayMs, maxDelayMs } = this.options;
+    const retryAfter = getRetryAfterMs(err);
+    if (retryAfter !== undefined) {
+      return Math.min(maxDelayMs, retryAfter);
+    }
+    const exponential = baseDelayMs * 2 ** attempt;
+    // 加入抖动，避免并发请求同时重试
+    return Math.min(maxDelayMs, exponential / 2 + Math.random() * exponential / 2);
+  }
+
+  /**
+   * 在限流器中执行一次LLM调用
+   * Run an LLM call through the rate limiter
+   *
+   * 返回值带有 usage.totalTokens 时，会用实际用量替换预估令牌数
+   * When the result carries usage.totalTokens, the actual usage replaces the token estimate
+   *
+   * @param {Function} task - LLM调用
+   * @param {ScheduleOptions} options - 调度选项
+   * @returns {Promise<T>} 调用结果
+   */
+  public schedule<T>(task: () => Promise<T>, { estimatedTokens = 0, signal }: ScheduleOptions = {}): Promise<T> {
+    return this.limit(async () => {
+      for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        const entry = await this.acquire(estimatedTokens, signal);
+
+        try {
+          const result = await task();
+          const totalTokens = (result as { usage?: { totalTokens?: number } } | undefined)?.usage?.totalTokens;
+          if (typeof totalTokens === "number" && Number.isFinite(totalTokens)) {
+            entry.tokens = totalTokens;
+          }
+          return result;
+        } catch (err) {
+          if (signal?.aborted || !isRetryableError(err) || attempt >= this.options.maxRetries) {
+            throw err;
+          }
+          const delay = this.backoff(attempt, err);
+          warn(`LLM call failed (attempt ${attempt + 1}/${this.options.maxRetries + 1}), retrying in ${Math.round(delay)}ms:`, err instanceof Error ? err.message : err);
+          await sleep(delay, signal);
+        }
+      }
+    });
+  }
+}
+
+let rateLimiter: LLMRateLimiter | null = null;
+
+/**
+ * 获取全局LLM限流器
+ * Get the global LLM rate limiter
+ *
+ * @returns {LLMRateLimiter} 限流器实例
+ */
+export function getRateLimiter(): LLMRateLimiter {
+  if (!rateLimiter) {
+    rateLimiter = new LLMRateLimiter({
+      concurrency: ENV.LLM.CONCURRENCY,
+      requestsPerMinute: ENV.LLM.REQUESTS_PER_MINUTE,
+      tokensPerMinute: ENV.LLM.TOKENS_PER_MINUTE,
+      maxRetries: ENV.LLM.MAX_RETRIES,
+      baseDelayMs: ENV.LLM.RETRY_BASE_DELAY_MS,
+      maxDelayMs: ENV.LLM.RETRY_MAX_DELAY_MS,
+    });
+  }
+  return rateLimiter;
+}
+
+/**
+ * 估算文本的令牌数（平均约3个字符一个令牌）
+ * Estimate the token count of a text (roughly 3 characters per token)
+ *
+ * @param {string[]} texts - 文本
+ * @returns {number} 估算的令牌数
+ */
+export function estimateTokens(...texts: string[]): number {
+  return Math.ceil(texts.reduce((acc, text) => acc + text.length, 0) / 3);
+}
@@ -0,0 +1,345 @@
+import type { LanguageModelUsage, ProviderMetadata } from "ai";
+import type { ModelPrice, PriceTable, UsageRecord, UsageSummary, UsageTotals } from "../../types/usage";
+import * as fs from "node:fs";
+import { ENV } from "../../config/env";
+import { warn } from "../logger";
+
+/**
+ * 带有用量信息的模型调用结果（generateObject 的结果或流式调用收集的结果）
+ * Model call result carrying usage information (a generateObject result or what a streaming call collected)
+ */
+export interface UsageSource {
+  usage?: LanguageModelUsage;
+  providerMetadata?: ProviderMetadata;
+  response?: { modelId?: string };
+}
+
+/**
+ * 价格表配置错误
+ * Price table configuration error
+ */
+export class PriceTableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PriceTableError";
+  }
+}
+
+/**
+ * 校验并返回价格表
+ * Validate and return a price table
+ *
+ * @param {unknown} value - 解析后的JSON
+ * @param {string} source - 配置来源（用于错误信息）
+ * @returns {PriceTable} 价格表
+ */
+export function validatePriceTable(value: unknown, source: string): PriceTable {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new PriceTableError(`${source} must be a JSON object keyed by model ID`);
+  }
+  for (const [modelId, price] of Object.entries(value)) {
+    const { input, output } = (price ?? {}) as Partial<ModelPrice>;
+    if (typeof input !== "number" || typeof output !== "number" || input < 0 || output < 0) {
+      throw new PriceTableError(`${source}: price of "${modelId}" needs non-negative "input" and "output" numbers`);
+    }
+  }
+  return value as PriceTable;
+}
+
+/**
+ * 解析JSON价格表
+ * Parse a JSON price table
+ *
+ * @param {string} content - JSON文本
+ * @param {string} source - 配置来源（用于错误信息）
+ * @returns {PriceTable} 价格表
+ */
+function parsePriceTable(content: string, source: string): PriceTable {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (err) {
+    throw new PriceTableError(`${source} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validatePriceTable(value, source);
+}
+
+/**
+ * 从 MODEL_PRICES_FILE 和 MODEL_PRICES 加载价格表
+ * Load the price table from MODEL_PRICES_FILE and MODEL_PRICES
+ *
+ * @returns {PriceTable} 价格表，未配置时为空
+ */
+export function loadPriceTable(): PriceTable {
+  let filePrices: PriceTable = {};
+  if (ENV.MODEL.PRICES_FILE) {
+    let content: string;
+    try {
+      content = fs.readFileSync(ENV.MODEL.PRICES_FILE, "utf-8");
+    } catch (err) {
+      throw new PriceTableError(`Cannot read MODEL_PRICES_FILE ${ENV.MODEL.PRICES_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    filePrices = parsePriceTable(content, ENV.MODEL.PRICES_FILE);
+  }
+
+  return {
+    ...filePrices,
+    ...(ENV.MODEL.PRICES ? parsePriceTable(ENV.MODEL.PRICES, "MODEL_PRICES") : {}),
+  };
+}
+
+let priceTable: PriceTable | null = null;
+
+/**
+ * 获取配置的价格表（首次调用时加载，配置无效时忽略并警告）
+ * Get the configured price table (loaded on first use; an invalid configuration is ignored with a warning)
+ *
+ * @returns {PriceTable} 价格表
+ */
+export function getPriceTable(): PriceTable {
+  if (!priceTable) {
+    try {
+      priceTable = loadPriceTable();
+    } catch (err) {
+      warn(`Ignoring model price table: ${err instanceof Error ? err.message : String(err)}`);
+      priceTable = {};
+    }
+  }
+  return priceTable;
+}
+
+/**
+ * 查找模型的价格：先精确匹配，再使用最长的前缀匹配（例如 gpt-4o 匹配 gpt-4o-2024-08-06）
+ * Find the price of a model: exact match first, then the longest matching prefix (e.g. gpt-4o matches gpt-4o-2024-08-06)
+ *
+ * @param {PriceTable} prices - 价格表
+ * @param {string} modelId - 模型ID
+ * @returns {ModelPrice | undefined} 价格，没有时返回 undefined
+ */
+export function findModelPrice(prices: PriceTable, modelId: string): ModelPrice | undefined {
+  if (prices[modelId]) {
+    return prices[modelId];
+  }
+  const prefix = Object.keys(prices)
+    .filter(key => modelId.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : prices[prefix];
+}
+
+/**
+ * 将可能缺失（NaN）的令牌数转换为数字
+ * Turn a possibly missing (NaN) token count into a number
+ *
+ * @param {unknown} value - 令牌数
+ * @returns {number} 令牌数，缺失时为0
+ */
+function tokens(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * 从提供商元数据中读取推理令牌数（例如 OpenAI 的 reasoningTokens）
+ * Read the reasoning token count from provider metadata (e.g. OpenAI's reasoningTokens)
+ *
+ * @param {ProviderMetadata | undefined} metadata - 提供商元数据
+ * @returns {number} 推理令牌数
+ */
+function reasoningTokens(metadata: ProviderMetadata | undefined): number {
+  return Object.values(metadata ?? {}).reduce((acc, entry) => acc + tokens(entry?.reasoningTokens), 0);
+}
+
+/**
+ * 创建空的用量汇总
+ * Create empty usage totals
+ *
+ * @returns {UsageTotals} 用量汇总
+ */
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0, latencyMs: 0 };
+}
+
+/**
+ * 将用量累加到汇总中
+ * Add usage to totals
+ *
+ * @param {UsageTotals} totals - 汇总（会被修改）
+ * @param {UsageTotals} usage - 要累加的用量
+ * @returns {UsageTotals} 累加后的汇总
+ */
+function addTotals(totals: UsageTotals, usage: UsageTotals): UsageTotals {
+  totals.calls += usage.calls;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.reasoningTokens += usage.reasoningTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.latencyMs += usage.latencyMs;
+  if (usage.cost !== undefined) {
+    totals.cost = roundCost((totals.cost ?? 0) + usage.cost);
+  }
+  return totals;
+}
+
+/**
+ * 将用量累加到分组汇总中
+ * Add usage to a grouped breakdown
+ *
+ * @param {Record<string, UsageTotals>} groups - 分组汇总（会被修改）
+ * @param {string} key - 分组键
+ * @param {UsageTotals} usage - 要累加的用量
+ */
+function addToGroup(groups: Record<string, UsageTotals>, key: string, usage: UsageTotals): void {
+  groups[key] = addTotals(groups[key] ?? emptyTotals(), usage);
+}
+
+/**
+ * 保留费用的有效精度，避免浮点误差
+ * Keep a meaningful cost precision, avoiding floating point noise
+ *
+ * @param {number} cost - 费用
+ * @returns {number} 舍入后的费用
+ */
+export function roundCost(cost: number): number {
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+/**
+ * 单次调用的用量
+ * Usage of a single call
+ *
+ * @param {UsageRecord} record - 用量记录
+ * @returns {UsageTotals} 用量汇总
+ */
+function recordTotals(record: UsageRecord): UsageTotals {
+  return {
+    calls: 1,
+    promptTokens: record.promptTokens,
+    completionTokens: record.completionTokens,
+    reasoningTokens: record.reasoningTokens,
+    totalTokens: record.promptTokens + record.completionTokens,
+    latencyMs: record.latencyMs,
+    ...(record.cost !== undefined && { cost: record.cost }),
+  };
+}
+
+/**
+ * LLM用量记录器：记录一次分析中每次调用的令牌数、延迟与费用
+ * LLM usage tracker: records the tokens, latency and cost of every call made by an analysis
+ */
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param {PriceTable} prices - 价格表，默认使用配置的价格表
+   */
+  constructor(private prices: PriceTable = getPriceTable()) {}
+
+  /**
+   * 记录一次成功的调用
+   * Record a successful call
+   *
+   * @param {object} call - 调用信息
+   * @param {string} call.stage - 分析阶段
+   * @param {string} call.nodeId - 节点ID
+   * @param {string} call.modelId - 发起请求的模型ID（响应中没有模型ID时使用）
+   * @param {number} call.latencyMs - 调用耗时（毫秒）
+   * @param {UsageSource} call.result - 模型调用结果
+   * @returns {UsageRecord} 用量记录
+   */
+  public record({ stage, nodeId, modelId, latencyMs, result }: {
+    stage: string;
+    nodeId?: string;
+    modelId: string;
+    latencyMs: number;
+    result: UsageSource;
+  }): UsageRecord {
+    const record: UsageRecord = {
+      stage,
+      ...(nodeId && { nodeId }),
+      modelId: result.response?.modelId || modelId,
+      promptTokens: tokens(result.usage?.promptTokens),
+      completionTokens: tokens(result.usage?.completionTokens),
+      reasoningTokens: reasoningTokens(result.providerMetadata),
+      latencyMs: Math.round(latencyMs),
+    };
+
+    const price = findModelPrice(this.prices, record.modelId);
+    if (price) {
+      record.cost = roundCost((record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000);
+    }
+
+    this.records.push(record);
+    return record;
+  }
+
+  /**
+   * 获取所有用量记录
+   * Get all usage records
+   *
+   * @returns {UsageRecord[]} 用量记录
+   */
+  public getRecords(): UsageRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * 汇总用量
+   * Summarize the usage
+   *
+   * @returns {UsageSummary} 用量汇总
+   */
+  public summarize(): UsageSummary {
+    const summary: UsageSummary = { ...emptyTotals(), byStage: {}, byModel: {}, byNode: {} };
+    const unpriced = new Set<string>();
+
+    for (const record of this.records) {
+      const usage = recordTotals(record);
+      addTotals(summary, usage);
+      addToGroup(summary.byStage, record.stage, usage);
+      addToGroup(summary.byModel, record.modelId, usage);
+      if (record.nodeId) {
+        addToGroup(summary.byNode, record.nodeId, usage);
+      }
+      if (record.cost === undefined) {
+        unpriced.add(record.modelId);
+      }
+    }
+
+    // 只有配置了价格表时才提示缺少价格的模型
+    if (unpriced.size > 0 && Object.keys(this.prices).length > 0) {
+      summary.unpricedModels = [...unpriced];
+    }
+    return summary;
+  }
+}
+
+/**
+ * 合并两个用量汇总（例如会话已有的用量与后续编辑操作的用量）
+ * Merge two usage summaries (e.g. the usage stored with a session and the usage of a later edit)
+ *
+ * @param {UsageSummary | undefined} a - 用量汇总
+ * @param {UsageSummary} b - 用量汇总
+ * @returns {UsageSummary} 合并后的用量汇总
+ */
+export function mergeUsageSummaries(a: UsageSummary | undefined, b: UsageSummary): UsageSummary {
+  if (!a) {
+    return b;
+  }
+
+  const merged: UsageSummary = { ...addTotals(addTotals(emptyTotals(), a), b), byStage: {}, byModel: {}, byNode: {} };
+  for (const summary of [a, b]) {
+    for (const key of ["byStage", "byModel", "byNode"] as const) {
+      for (const [group, usage] of Object.entries(summary[key])) {
+        addToGroup(merged[key], group, usage);
+      }
+    }
+  }
+
+  const unpriced = new Set([...(a.unpricedModels ?? []), ...(b.unpricedModels ?? [])]);
+  if (unpriced.size > 0) {
+    merged.unpricedModels = [...unpriced];
+  }
+  return merged;
+}
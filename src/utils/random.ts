@@ -0,0 +1,96 @@
+/**
+ * 将字符串散列为32位无符号整数（FNV-1a）
+ * Hash a string into an unsigned 32-bit integer (FNV-1a)
+ *
+ * @param {string} text - 文本
+ * @returns {number} 散列值
+ */
+export function hashString(text: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 可设定种子的伪随机数生成器（mulberry32），相同种子总是产生相同的序列
+ * Seedable pseudo-random number generator (mulberry32); the same seed always yields the same sequence
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * 构造函数
+   * Constructor
+   *
+   * @param {number | string} seed - 种子，字符串会先被散列
+   */
+  constructor(seed: number | string) {
+    this.state = typeof seed === "string" ? hashString(seed) : seed >>> 0;
+  }
+
+  /**
+   * 生成 [0, 1) 区间的随机数
+   * Generate a random number in [0, 1)
+   *
+   * @returns {number} 随机数
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * 生成 [min, max] 区间的随机整数
+   * Generate a random integer in [min, max]
+   *
+   * @param {number} min - 最小值
+   * @param {number} max - 最大值
+   * @returns {number} 随机整数
+   */
+  public int(min: number, max: number): number {
+    return Math.floor(min + this.next() * (max - min + 1));
+  }
+
+  /**
+   * 生成 [min, max) 区间的随机浮点数
+   * Generate a random float in [min, max)
+   *
+   * @param {number} min - 最小值
+   * @param {number} max - 最大值
+   * @returns {number} 随机浮点数
+   */
+  public float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * 从数组中随机选取一个元素
+   * Pick a random element of an array
+   *
+   * @param {readonly T[]} items - 数组
+   * @returns {T} 随机元素
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)]!;
+  }
+
+  /**
+   * 生成符合UUID v4格式的随机字符串
+   * Generate a random string in UUID v4 format
+   *
+   * @returns {string} UUID
+   */
+  public uuid(): string {
+    const hex = Array.from({ length: 32 }, () => this.int(0, 15).toString(16));
+    hex[12] = "4";
+    hex[16] = (8 + this.int(0, 3)).toString(16);
+    const s = hex.join("");
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+  }
+}
@@ -0,0 +1,148 @@
+import type { DecisionCritique } from "../../types/critique";
+import type { DecisionCriterion, DecisionNode } from "../../types/decision";
+import type { ComparisonMatrix, DecisionReport, ReportDraft, ReportOptionDraft, ReportOptionSection } from "../../types/report";
+import type { SensitivityAnalysis } from "../../types/sensitivity";
+import type { StakeholderAnalysis } from "../../types/stakeholder";
+import { buildAssumptionRegister } from "../decision/assumptions";
+import { getReportLabels } from "./labels";
+
+/**
+ * 空的报告内容，用于模型调用失败或流式生成中尚未完成的字段
+ * Empty report content, used when the model call failed or for fields not yet streamed
+ */
+export const EMPTY_REPORT_DRAFT: ReportDraft = {
+  title: "",
+  executiveSummary: "",
+  context: "",
+  methodology: "",
+  options: [],
+  comparison: "",
+  recommendations: [],
+};
+
+/**
+ * 报告内容中的字段，按模型生成的顺序排列
+ * Fields of the report content, in the order the model generates them
+ */
+export const REPORT_DRAFT_FIELDS = Object.keys(EMPTY_REPORT_DRAFT) as (keyof ReportDraft)[];
+
+/**
+ * 为每个顶层选项找到模型撰写的章节：优先按选项ID匹配，其余按顺序分配
+ * Find the section the model wrote for every top-level option: by option ID first, the rest in order
+ *
+ * @param {DecisionNode[]} options - 顶层选项
+ * @param {ReportOptionDraft[]} drafts - 模型撰写的章节
+ * @returns {(ReportOptionDraft | undefined)[]} 与选项一一对应的章节
+ */
+function matchOptionDrafts(options: DecisionNode[], drafts: ReportOptionDraft[]): (ReportOptionDraft | undefined)[] {
+  const byId = new Map(drafts.map(draft => [draft.optionId, draft]));
+  const matched = options.map(option => byId.get(option.id));
+  const rest = drafts.filter(draft => !matched.includes(draft));
+  return matched.map(draft => draft ?? rest.shift());
+}
+
+/**
+ * 生成选项比较矩阵：风险、机会、各评估标准的评分和期望值
+ * Build the option comparison matrix: risk, opportunity, the score of every criterion and the expected value
+ *
+ * @param {DecisionNode} tree - 已回溯的决策树
+ * @param {DecisionCriterion[]} criteria - 评估标准
+ * @param {string} summary - 模型对矩阵的分析
+ * @returns {ComparisonMatrix} 比较矩阵
+ */
+function buildComparisonMatrix(tree: DecisionNode, criteria: DecisionCriterion[], summary: string): ComparisonMatrix {
+  const labels = getReportLabels();
+  return {
+    columns: [labels.risk, labels.opportunity, ...criteria.map(criterion => criterion.name), labels.expectedValue],
+    rows: tree.children.map(option => ({
+      id: option.id,
+      option: option.description,
+      values: [
+        option.risk ?? null,
+        option.opportunity ?? null,
+        ...criteria.map(criterion => option.scores?.[criterion.name] ?? null),
+        option.expectedValue ?? null,
+      ],
+    })),
+    summary,
+  };
+}
+
+/**
+ * 将模型撰写的内容与决策树中的数值合并为结构化报告
+ * Merge the content written by the model with the numbers of the decision tree into a structured report
+ *
+ * 选项、比较矩阵、见解、敏感性分析、假设登记表和利益相关者分析都来自决策树和分析结果，因此报告中的数值与决策树始终一致
+ * The options, comparison matrix, insights, sensitivity analysis, assumptions register and stakeholder analysis come from
+ * the tree and the analysis result, so the numbers of the report always agree with the decision tree
+ *
+ * @param {object} params - 参数对象
+ * @param {string} params.problem - 决策问题
+ * @param {DecisionNode} params.decisionTree - 已回溯的决策树
+ * @param {string[]} params.insights - 关键见解
+ * @param {DecisionCritique} params.critique - 批判审查结果
+ * @param {DecisionCriterion[]} params.criteria - 评估标准
+ * @param {SensitivityAnalysis} params.sensitivity - 敏感性分析结果
+ * @param {StakeholderAnalysis} params.stakeholders - 利益相关者分析结果
+ * @param {ReportDraft} params.draft - 模型撰写的内容
+ * @param {string} params.generatedAt - 生成时间
+ * @returns {DecisionReport} 结构化报告
+ */
+export function buildDecisionReport({
+  problem,
+  decisionTree,
+  insights,
+  critique,
+  criteria = [],
+  sensitivity,
+  stakeholders,
+  draft,
+  generatedAt = new Date().toISOString(),
+}: {
+  problem: string;
+  decisionTree: DecisionNode;
+  insights: string[];
+  critique?: DecisionCritique;
+  criteria?: DecisionCriterion[];
+  sensitivity: SensitivityAnalysis;
+  stakeholders?: StakeholderAnalysis;
+  draft: ReportDraft;
+  generatedAt?: string;
+}): DecisionReport {
+  const drafts = matchOptionDrafts(decisionTree.children, draft.options);
+  const assumptions = buildAssumptionRegister(decisionTree);
+  const options: ReportOptionSection[] = decisionTree.children.map((option, i) => {
+    const section = drafts[i];
+    return {
+      id: option.id,
+      description: option.description,
+      optimal: option.optimal === true,
+      ...(option.expectedValue !== undefined && { expectedValue: option.expectedValue }),
+      ...(option.risk !== undefined && { risk: option.risk }),
+      ...(option.opportunity !== undefined && { opportunity: option.opportunity }),
+      summary: section?.summary ?? "",
+      riskAssessment: section?.riskAssessment ?? "",
+      opportunityAssessment: section?.opportunityAssessment ?? "",
+      keyOutcomes: section?.keyOutcomes ?? [],
+      insights: section?.insights ?? [],
+    };
+  });
+
+  return {
+    title: draft.title || getReportLabels().defaultTitle,
+    problem,
+    executiveSummary: draft.executiveSummary,
+    context: draft.context,
+    methodology: draft.methodology,
+    options,
+    comparison: buildComparisonMatrix(decisionTree, criteria, draft.comparison),
+    insights,
+    ...(critique && { critique }),
+    recommendations: draft.recommendations,
+    sensitivity,
+    ...(assumptions.assumptions.length > 0 && { assumptions }),
+    ...(stakeholders && { stakeholders }),
+    decisionTree,
+    generatedAt,
+  };
+}
@@ -0,0 +1,338 @@
+import type { AssumptionRegister } from "../../types/assumption";
+import type { DecisionCritique } from "../../types/critique";
+import type { DecisionNode } from "../../types/decision";
+import type { DecisionReport, ReportOptionSection } from "../../types/report";
+import type { SensitivityAnalysis } from "../../types/sensitivity";
+import type { StakeholderAnalysis } from "../../types/stakeholder";
+import type { ReportLabels } from "./labels";
+import { getReportLabels } from "./labels";
+
+/**
+ * 报告的内嵌样式，打印时展开整棵决策树并隐藏按钮，便于导出 PDF
+ * Embedded report styles; printing expands the whole tree and hides the buttons, so the page can be saved as PDF
+ */
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.6; color: #1f2328; max-width: 960px; margin: 0 auto; padding: 2rem 1.5rem; }
+h1 { border-bottom: 2px solid #d0d7de; padding-bottom: .3em; }
+h2 { border-bottom: 1px solid #d0d7de; padding-bottom: .2em; margin-top: 2em; }
+table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+th, td { border: 1px solid #d0d7de; padding: .4em .7em; text-align: left; }
+th { background: #f6f8fa; }
+.figures { color: #57606a; }
+.optimal { font-weight: 600; color: #1a7f37; }
+.confidence { display: inline-block; border-radius: 1em; padding: 0 .6em; font-size: .85em; background: #eaeef2; }
+.confidence-high { background: #dafbe1; }
+.confidence-low { background: #ffebe9; }
+.tree ul { list-style: none; padding-left: 1.4em; border-left: 1px dashed #d0d7de; margin: 0; }
+.tree > ul { border-left: none; padding-left: 0; }
+.tree summary { cursor: pointer; }
+.tree .meta { color: #57606a; font-size: .9em; }
+.invalidated { color: #c62828; }
+.tree-controls button { margin-right: .5em; }
+@media print {
+  body { max-width: none; padding: 0; }
+  .tree-controls { display: none; }
+  h2 { break-after: avoid; }
+  table, li { break-inside: avoid; }
+}`;
+
+/**
+ * 展开/折叠决策树的脚本，打印前展开所有节点
+ * Script expanding and collapsing the tree, expanding every node before printing
+ */
+const SCRIPT = `
+function setTreeOpen(open) { document.querySelectorAll(".tree details").forEach(function (el) { el.open = open; }); }
+window.addEventListener("beforeprint", function () { setTreeOpen(true); });`;
+
+/**
+ * 节点类型的图形标记，与图表导出保持一致
+ * Shape markers of the node types, matching the diagram exports
+ */
+const TYPE_MARKERS: Record<DecisionNode["type"], string> = {
+  decision: "□",
+  chance: "○",
+  outcome: "△",
+};
+
+/**
+ * 转义 HTML 文本
+ * Escape HTML text
+ *
+ * @param {string} text - 文本
+ * @returns {string} 转义后的文本
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * 将文本按空行拆分为段落
+ * Split text into paragraphs at blank lines
+ *
+ * @param {string} text - 文本
+ * @returns {string} HTML
+ */
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => `<p>${escapeHtml(part).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+/**
+ * 生成列表，列表为空时返回空字符串
+ * Build a list, or an empty string when there are no items
+ *
+ * @param {string[]} items - 列表项
+ * @param {string} tag - 列表标签
+ * @returns {string} HTML
+ */
+function list(items: string[], tag: "ul" | "ol" = "ul"): string {
+  return items.length > 0 ? `<${tag}>${items.map(item => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>` : "";
+}
+
+/**
+ * 生成单个选项的小节
+ * Build the subsection of a single option
+ *
+ * @param {ReportOptionSection} option - 选项章节
+ * @param {number} index - 选项序号
+ * @param {ReportLabels} labels - 报告文字
+ * @returns {string} HTML
+ */
+function formatOption(option: ReportOptionSection, index: number, labels: ReportLabels): string {
+  const figures = [
+    option.expectedValue !== undefined && `${labels.expectedValue}: ${option.expectedValue}`,
+    option.risk !== undefined && `${labels.risk}: ${option.risk}/10`,
+    option.opportunity !== undefined && `${labels.opportunity}: ${option.opportunity}/10`,
+  ].filter(Boolean).join(" | ");
+  const optimal = option.optimal ? ` <span class="optimal">${labels.recommendedByExpectedValue}</span>` : "";
+
+  return [
+    `<h3>${index + 1}. ${escapeHtml(option.description)}${optimal}</h3>`,
+    figures && `<p class="figures">${figures}</p>`,
+    paragraphs(option.summary),
+    option.riskAssessment && `<p><strong>${labels.riskAssessment}</strong> ${escapeHtml(option.riskAssessment)}</p>`,
+    option.opportunityAssessment && `<p><strong>${labels.opportunityAssessment}</strong> ${escapeHtml(option.opportunityAssessment)}</p>`,
+    option.keyOutcomes.length > 0 && `<p><strong>${labels.keyOutcomes}</strong></p>${list(option.keyOutcomes)}`,
+    option.insights.length > 0 && `<p><strong>${labels.insights}</strong></p>${list(option.insights)}`,
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * 生成敏感性分析章节
+ * Build the sensitivity analysis section
+ *
+ * @param {SensitivityAnalysis} analysis - 敏感性分析结果
+ * @param {ReportLabels} labels - 报告文字
+ * @param {number} limit - 龙卷风图和阈值最多列出的条数
+ * @returns {string} HTML
+ */
+function formatSensitivity(analysis: SensitivityAnalysis, labels: ReportLabels, limit = 10): string {
+  const text = labels.sensitivity;
+  const preferred = analysis.preferredOption
+    ? text.preferredOption(`<strong>${escapeHtml(analysis.preferredOption.description)}</strong>`, analysis.expectedValue)
+    : "";
+  const tornado = analysis.tornado.length > 0
+    ? `<h3>${text.mostInfluential}</h3>
+<table><thead><tr><th>${text.parameter}</th><th>${text.range}</th><th>${labels.expectedValue}</th><th>${text.swing}</th></tr></thead><tbody>
+${analysis.tornado.slice(0, limit).map(bar => `<tr><td>${escapeHtml(bar.label)}</td><td>${bar.low} – ${bar.high}</td><td>${bar.lowValue} – ${bar.highValue}</td><td>${bar.swing}</td></tr>`).join("\n")}
+</tbody></table>`
+    : "";
+  const thresholds = analysis.thresholds.length > 0
+    ? list(analysis.thresholds.slice(0, limit).map(threshold => threshold.statement))
+    : `<p>${text.noThresholds}</p>`;
+
+  return `<p>${preferred}${text.variedParameters(analysis.parameters)}</p>
+${tornado}
+<h3>${text.thresholds}</h3>
+${thresholds}`;
+}
+
+/**
+ * 生成批判审查章节
+ * Build the critique section
+ *
+ * @param {DecisionCritique} critique - 批判审查结果
+ * @param {ReportLabels} labels - 报告文字
+ * @returns {string} HTML
+ */
+function formatCritique(critique: DecisionCritique, labels: ReportLabels): string {
+  const text = labels.critique;
+  const items = critique.items.map(item => `<li><strong>[${item.severity}] ${text.categories[item.category]}</strong> – <em>${escapeHtml(item.description)}</em>${item.reexpanded ? ` ${text.reexpanded}` : ""}: ${escapeHtml(item.issue)}${item.suggestion ? ` ${text.suggestion} ${escapeHtml(item.suggestion)}` : ""}</li>`);
+  return [
+    `<p>${text.intro}</p>`,
+    items.length > 0 ? `<ul>${items.join("")}</ul>` : `<p>${text.noIssues}</p>`,
+    critique.reexpanded.length > 0 && `<p>${text.reexpandedNodes(critique.reexpanded.length)}</p>`,
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * 生成利益相关者章节：评分表、一致度矩阵和分歧
+ * Build the stakeholder section: score table, agreement matrix and divergences
+ *
+ * @param {StakeholderAnalysis} analysis - 利益相关者分析结果
+ * @param {ReportLabels} labels - 报告文字
+ * @param {number} limit - 最多列出的分歧条数
+ * @returns {string} HTML
+ */
+function formatStakeholders(analysis: StakeholderAnalysis, labels: ReportLabels, limit = 10): string {
+  const { assessments, agreement, divergences } = analysis;
+  const text = labels.stakeholders;
+  if (assessments.length === 0) {
+    return `<p>${text.none}</p>`;
+  }
+
+  const header = `<tr><th></th>${assessments.map(assessment => `<th>${escapeHtml(assessment.stakeholder)}</th>`).join("")}</tr>`;
+  const rows = new Map<string, { label: string; scores: (number | undefined)[] }>();
+  assessments.forEach((assessment, i) => {
+    for (const score of assessment.scores) {
+      const row = rows.get(score.nodeId) ?? {
+        label: score.kind === "option" ? `<strong>${escapeHtml(score.description)}</strong>` : `↳ ${escapeHtml(score.description)}`,
+        scores: [],
+      };
+      row.scores[i] = score.score;
+      rows.set(score.nodeId, row);
+    }
+  });
+  const priorities = analysis.stakeholders.filter(stakeholder => stakeholder.priorities.length > 0)
+    .map(stakeholder => `<li><strong>${escapeHtml(stakeholder.name)}</strong>: ${escapeHtml(stakeholder.priorities.join(", "))}</li>`);
+  const preferred = assessments.filter(assessment => assessment.preferredOption)
+    .map(assessment => text.prefers(assessment.stakeholder, assessment.preferredOption!.description));
+  const agreementTable = assessments.length > 1
+    ? `<h3>${text.agreement}</h3>
+<p>${text.agreementIntro}</p>
+<table><thead>${header}</thead><tbody>
+${agreement.values.map((row, i) => `<tr><th>${escapeHtml(agreement.stakeholders[i] ?? "")}</th>${row.map(value => `<td>${value ?? "-"}</td>`).join("")}</tr>`).join("\n")}
+</tbody></table>`
+    : "";
+  const divergenceList = divergences.length > 0
+    ? list(divergences.slice(0, limit).map(({ description, spread, highest, lowest }) =>
+        `${description} ${text.spread(spread)}: ${highest.stakeholder} ${highest.score}/10${highest.rationale ? ` – ${highest.rationale}` : ""}; `
+        + `${lowest.stakeholder} ${lowest.score}/10${lowest.rationale ? ` – ${lowest.rationale}` : ""}`))
+    : `<p>${text.noDivergence}</p>`;
+
+  return [
+    `<p>${text.intro}</p>`,
+    priorities.length > 0 && `<ul>${priorities.join("")}</ul>`,
+    `<table><thead>${header}</thead><tbody>
+${[...rows.values()].map(row => `<tr><td>${row.label}</td>${assessments.map((_, i) => `<td>${row.scores[i] ?? "-"}</td>`).join("")}</tr>`).join("\n")}
+</tbody></table>`,
+    list(preferred),
+    agreementTable,
+    `<h3>${text.diverge}</h3>`,
+    divergenceList,
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * 生成假设登记表章节
+ * Build the assumptions register section
+ *
+ * @param {AssumptionRegister} register - 假设登记表
+ * @param {ReportLabels} labels - 报告文字
+ * @returns {string} HTML
+ */
+function formatAssumptions(register: AssumptionRegister, labels: ReportLabels): string {
+  const text = labels.assumptions;
+  const items = register.assumptions.map((entry) => {
+    const nodes = entry.nodes.map(node => `<em>${escapeHtml(node.description)}</em>`).join(", ");
+    return entry.status === "false"
+      ? `<li><del>${escapeHtml(entry.text)}</del> <strong class="invalidated">${text.markedFalse(entry.affectedNodes)}</strong> – ${text.statedBy} ${nodes}</li>`
+      : `<li>${escapeHtml(entry.text)} – ${text.statedBy} ${nodes}</li>`;
+  });
+  return [
+    `<p>${text.intro}</p>`,
+    `<ul>${items.join("")}</ul>`,
+    register.flaggedNodes > 0 && `<p>${text.flaggedNodes(register.flaggedNodes)}</p>`,
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * 生成可折叠的决策树节点，悬停时显示评估理由，依赖错误假设的节点会被标出
+ * Build a collapsible decision tree node, showing the rationale on hover and marking nodes that depend on a false assumption
+ *
+ * @param {DecisionNode} node - 节点
+ * @param {ReportLabels} labels - 报告文字
+ * @returns {string} HTML
+ */
+function formatTreeNode(node: DecisionNode, labels: ReportLabels): string {
+  const meta = [
+    node.probability !== undefined && `${node.probability}%`,
+    node.expectedValue !== undefined && `EV ${node.expectedValue}`,
+  ].filter(Boolean).join(", ");
+  const title = node.rationale ? ` title="${escapeHtml(node.rationale)}"` : "";
+  const flag = node.invalidatedBy?.length ? ` <span class="invalidated">${labels.dependsOnFalseAssumption}</span>` : "";
+  const label = `${TYPE_MARKERS[node.type]} <span${node.optimal ? " class=\"optimal\"" : ""}${title}>${escapeHtml(node.description)}</span>${meta ? ` <span class="meta">(${meta})</span>` : ""}${flag}`;
+
+  if (node.children.length === 0) {
+    return `<li>${label}</li>`;
+  }
+  return `<li><details open><summary>${label}</summary><ul>${node.children.map(child => formatTreeNode(child, labels)).join("")}</ul></details></li>`;
+}
+
+/**
+ * 将结构化报告渲染为独立的 HTML 页面，内嵌可交互（可折叠）的决策树，可直接打印为 PDF
+ * Render a structured report as a standalone HTML page with an embedded interactive (collapsible) decision tree,
+ * ready to be printed as PDF
+ *
+ * 标题等固定文字使用回复语言（RESPONSE_LANGUAGE）
+ * Headings and other fixed text use the response language (RESPONSE_LANGUAGE)
+ *
+ * @param {DecisionReport} report - 结构化报告
+ * @returns {string} HTML 文本
+ */
+export function toHtmlReport(report: DecisionReport): string {
+  const labels = getReportLabels();
+  const { headings } = labels;
+  const { comparison } = report;
+  const table = `<table><thead><tr><th>${labels.option}</th>${comparison.columns.map(column => `<th>${escapeHtml(column)}</th>`).join("")}</tr></thead><tbody>
+${comparison.rows.map(row => `<tr><td>${escapeHtml(row.option)}</td>${row.values.map(value => `<td>${value ?? "-"}</td>`).join("")}</tr>`).join("\n")}
+</tbody></table>`;
+  const recommendations = report.recommendations.map(item => `<li><strong>${escapeHtml(item.recommendation)}</strong> <span class="confidence confidence-${item.confidence}">${labels.confidence(item.confidence)}</span>${item.rationale ? `<br>${escapeHtml(item.rationale)}` : ""}</li>`);
+
+  return `<!DOCTYPE html>
+<html lang="${labels.lang}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="figures">${labels.generated(escapeHtml(report.generatedAt))}</p>
+<h2>${headings.executiveSummary}</h2>
+${paragraphs(report.executiveSummary)}
+<h2>${headings.context}</h2>
+${paragraphs(report.context)}
+<h2>${headings.methodology}</h2>
+${paragraphs(report.methodology)}
+<h2>${headings.options}</h2>
+${report.options.map((option, i) => formatOption(option, i, labels)).join("\n")}
+<h2>${headings.comparison}</h2>
+${table}
+${paragraphs(comparison.summary)}
+${report.stakeholders ? `<h2>${headings.stakeholders}</h2>\n${formatStakeholders(report.stakeholders, labels)}\n` : ""}<h2>${headings.insights}</h2>
+${list(report.insights, "ol")}
+${report.critique ? `<h2>${headings.critique}</h2>\n${formatCritique(report.critique, labels)}\n` : ""}<h2>${headings.recommendations}</h2>
+${recommendations.length > 0 ? `<ol>${recommendations.join("")}</ol>` : ""}
+<h2>${headings.sensitivity}</h2>
+${formatSensitivity(report.sensitivity, labels)}
+${report.assumptions ? `<h2>${headings.assumptions}</h2>\n${formatAssumptions(report.assumptions, labels)}\n` : ""}<h2>${headings.decisionTree}</h2>
+<div class="tree-controls"><button type="button" onclick="setTreeOpen(true)">${labels.expandAll}</button><button type="button" onclick="setTreeOpen(false)">${labels.collapseAll}</button></div>
+<div class="tree"><ul>${formatTreeNode(report.decisionTree, labels)}</ul></div>
+<script>${SCRIPT}
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,51 @@
+import type { DecisionReport } from "../../types/report";
+import { toHtmlReport } from "./html";
+import { toMarkdownReport } from "./markdown";
+
+/**
+ * 支持的报告格式
+ * Supported report formats
+ */
+export const REPORT_FORMATS = ["markdown", "html", "json"] as const;
+
+/**
+ * 报告格式
+ * Report format
+ */
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+/**
+ * 判断是否为支持的报告格式
+ * Whether a value is a supported report format
+ *
+ * @param {unknown} value - 待判断的值
+ * @returns {boolean} 是否为报告格式
+ */
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return REPORT_FORMATS.includes(value as ReportFormat);
+}
+
+/**
+ * 将结构化报告渲染为指定格式
+ * Render a structured report in the given format
+ *
+ * @param {DecisionReport} report - 结构化报告
+ * @param {ReportFormat} format - 报告格式
+ * @returns {string} 渲染结果
+ */
+export function renderReport(report: DecisionReport, format: ReportFormat): string {
+  switch (format) {
+    case "html":
+      return toHtmlReport(report);
+    case "json":
+      return `${JSON.stringify(report, null, 2)}\n`;
+    default:
+      return toMarkdownReport(report);
+  }
+}
+
+// 导出所有报告相关实现
+export * from "./build";
+export * from "./html";
+export * from "./labels";
+export * from "./markdown";
@@ -0,0 +1,272 @@
+import type { CritiqueCategory } from "../../types/critique";
+import { ENV } from "../../config/env";
+
+/**
+ * 报告的固定文字（标题、表头、说明），模型撰写的内容不在其中
+ * Fixed text of the report (headings, table headers, explanations), excluding anything the model writes
+ */
+export interface ReportLabels {
+  /**
+   * HTML 页面的语言代码
+   * Language code of the HTML page
+   */
+  lang: string;
+  defaultTitle: string;
+  headings: {
+    executiveSummary: string;
+    context: string;
+    methodology: string;
+    options: string;
+    comparison: string;
+    stakeholders: string;
+    insights: string;
+    critique: string;
+    recommendations: string;
+    sensitivity: string;
+    assumptions: string;
+    decisionTreeDiagram: string;
+    decisionTree: string;
+  };
+  generated: (date: string) => string;
+  option: string;
+  risk: string;
+  opportunity: string;
+  expectedValue: string;
+  recommendedByExpectedValue: string;
+  riskAssessment: string;
+  opportunityAssessment: string;
+  keyOutcomes: string;
+  insights: string;
+  confidence: (level: string) => string;
+  expandAll: string;
+  collapseAll: string;
+  dependsOnFalseAssumption: string;
+  sensitivity: {
+    preferredOption: (option: string, expectedValue: number) => string;
+    variedParameters: (count: number) => string;
+    mostInfluential: string;
+    tornadoIntro: (percent: number) => string;
+    parameter: string;
+    range: string;
+    swing: string;
+    thresholds: string;
+    noThresholds: string;
+    currently: (value: string) => string;
+    riskOf: (description: string) => string;
+    opportunityOf: (description: string) => string;
+    scoreOf: (criterion: string, description: string) => string;
+    beats: (winner: string, loser: string, parameter: string, comparison: ">" | "<", value: string) => string;
+  };
+  stakeholders: {
+    none: string;
+    intro: string;
+    itemColumn: string;
+    prefers: (stakeholder: string, option: string) => string;
+    agreement: string;
+    agreementIntro: string;
+    diverge: string;
+    noDivergence: string;
+    spread: (spread: number) => string;
+  };
+  critique: {
+    intro: string;
+    noIssues: string;
+    reexpanded: string;
+    suggestion: string;
+    reexpandedNodes: (count: number) => string;
+    categories: Record<CritiqueCategory, string>;
+  };
+  assumptions: {
+    intro: string;
+    markedFalse: (affectedNodes: number) => string;
+    statedBy: string;
+    flaggedNodes: (count: number) => string;
+  };
+}
+
+/**
+ * 英文报告文字
+ * English report text
+ */
+const EN: ReportLabels = {
+  lang: "en",
+  defaultTitle: "Decision Analysis Report",
+  headings: {
+    executiveSummary: "Executive Summary",
+    context: "Decision Context",
+    methodology: "Analysis Methodology",
+    options: "Key Options",
+    comparison: "Comparative Analysis",
+    stakeholders: "Stakeholder Perspectives",
+    insights: "Key Insights",
+    critique: "Critique and Bias Audit",
+    recommendations: "Recommendations",
+    sensitivity: "Sensitivity Analysis",
+    assumptions: "Assumptions Register",
+    decisionTreeDiagram: "Decision Tree Diagram",
+    decisionTree: "Decision Tree",
+  },
+  generated: date => `Generated ${date}`,
+  option: "Option",
+  risk: "Risk",
+  opportunity: "Opportunity",
+  expectedValue: "Expected value",
+  recommendedByExpectedValue: "(recommended by expected value)",
+  riskAssessment: "Risk assessment:",
+  opportunityAssessment: "Opportunity assessment:",
+  keyOutcomes: "Key outcomes",
+  insights: "Insights",
+  confidence: level => `confidence: ${level}`,
+  expandAll: "Expand all",
+  collapseAll: "Collapse all",
+  dependsOnFalseAssumption: "(depends on a false assumption)",
+  sensitivity: {
+    preferredOption: (option, expectedValue) => `The preferred option is ${option} (expected value ${expectedValue}). `,
+    variedParameters: count => `Each of the ${count} parameters was varied on its own while the others were held fixed.`,
+    mostInfluential: "Most Influential Parameters",
+    tornadoIntro: percent => `Root expected value when each parameter moves ${percent}% of its range to either side:`,
+    parameter: "Parameter",
+    range: "Range",
+    swing: "Swing",
+    thresholds: "Decision Thresholds",
+    noThresholds: "No single parameter changes the preferred option anywhere in its range.",
+    currently: value => `(currently ${value})`,
+    riskOf: description => `risk of "${description}"`,
+    opportunityOf: description => `opportunity of "${description}"`,
+    scoreOf: (criterion, description) => `${criterion} score of "${description}"`,
+    beats: (winner, loser, parameter, comparison, value) => `${winner} beats ${loser} if ${parameter} ${comparison} ${value}`,
+  },
+  stakeholders: {
+    none: "None of the stakeholders could be assessed.",
+    intro: "Each stakeholder scored the options and their key outcomes from 0 to 10 according to their own priorities.",
+    itemColumn: "Option / outcome",
+    prefers: (stakeholder, option) => `${stakeholder} prefers ${option}`,
+    agreement: "Agreement",
+    agreementIntro: "1 means two stakeholders scored everything the same, 0 that their scores are as far apart as possible.",
+    diverge: "Where Interests Diverge",
+    noDivergence: "The stakeholders broadly agree: no option or outcome is scored very differently.",
+    spread: spread => `(spread ${spread})`,
+  },
+  critique: {
+    intro: "A devil's-advocate review checked the tree for missing options, overconfident probabilities, anchoring on the first option, omitted stakeholders and unrealistic best-case outcomes.",
+    noIssues: "The review found no issues.",
+    reexpanded: "(re-expanded)",
+    suggestion: "Suggestion:",
+    reexpandedNodes: count => `${count} flagged node(s) were re-expanded with the critique as guidance before the expected values, insights and this report were computed.`,
+    categories: {
+      "missing-option": "Missing option",
+      "overconfident-probability": "Overconfident probability",
+      "anchoring": "Anchoring",
+      "omitted-stakeholder": "Omitted stakeholder",
+      "unrealistic-outcome": "Unrealistic outcome",
+    },
+  },
+  assumptions: {
+    intro: "The assessments in the tree depend on the following assumptions. Challenge them before acting on the analysis.",
+    markedFalse: affectedNodes => `(marked false, ${affectedNodes} node(s) affected)`,
+    statedBy: "stated by",
+    flaggedNodes: count => `${count} node(s) depend on an assumption marked false; their assessments should be revisited.`,
+  },
+};
+
+/**
+ * 中文报告文字
+ * Chinese report text
+ */
+const ZH: ReportLabels = {
+  lang: "zh",
+  defaultTitle: "决策分析报告",
+  headings: {
+    executiveSummary: "执行摘要",
+    context: "决策背景",
+    methodology: "分析方法",
+    options: "主要选项",
+    comparison: "比较分析",
+    stakeholders: "利益相关者视角",
+    insights: "关键见解",
+    critique: "批判审查与偏差检查",
+    recommendations: "建议",
+    sensitivity: "敏感性分析",
+    assumptions: "假设登记表",
+    decisionTreeDiagram: "决策树图",
+    decisionTree: "决策树",
+  },
+  generated: date => `生成于 ${date}`,
+  option: "选项",
+  risk: "风险",
+  opportunity: "机会",
+  expectedValue: "期望值",
+  recommendedByExpectedValue: "（按期望值推荐）",
+  riskAssessment: "风险评估：",
+  opportunityAssessment: "机会评估：",
+  keyOutcomes: "关键结果",
+  insights: "见解",
+  confidence: level => `置信度：${level}`,
+  expandAll: "全部展开",
+  collapseAll: "全部折叠",
+  dependsOnFalseAssumption: "（依赖已标记为错误的假设）",
+  sensitivity: {
+    preferredOption: (option, expectedValue) => `首选选项为 ${option}（期望值 ${expectedValue}）。`,
+    variedParameters: count => `${count} 个参数逐一单独变化，其余参数保持不变。`,
+    mostInfluential: "影响最大的参数",
+    tornadoIntro: percent => `各参数向两侧变动其范围的 ${percent}% 时根节点的期望值：`,
+    parameter: "参数",
+    range: "范围",
+    swing: "变化幅度",
+    thresholds: "决策阈值",
+    noThresholds: "没有任何单个参数在其范围内会改变首选选项。",
+    currently: value => `（当前为 ${value}）`,
+    riskOf: description => `“${description}”的风险`,
+    opportunityOf: description => `“${description}”的机会`,
+    scoreOf: (criterion, description) => `“${description}”的${criterion}评分`,
+    beats: (winner, loser, parameter, comparison, value) => `当 ${parameter} ${comparison} ${value} 时，${winner} 优于 ${loser}`,
+  },
+  stakeholders: {
+    none: "无法评估任何利益相关者。",
+    intro: "每位利益相关者根据自己的优先事项，为各选项及其关键结果打出 0 到 10 分。",
+    itemColumn: "选项 / 结果",
+    prefers: (stakeholder, option) => `${stakeholder} 倾向于 ${option}`,
+    agreement: "一致度",
+    agreementIntro: "1 表示两位利益相关者的评分完全相同，0 表示评分差距最大。",
+    diverge: "利益分歧",
+    noDivergence: "利益相关者的看法基本一致：没有评分差异很大的选项或结果。",
+    spread: spread => `（分差 ${spread}）`,
+  },
+  critique: {
+    intro: "唱反调式审查检查了决策树中遗漏的选项、过度自信的概率、对第一个选项的锚定、被忽略的利益相关者以及不切实际的最佳结果。",
+    noIssues: "审查未发现问题。",
+    reexpanded: "（已重新展开）",
+    suggestion: "建议：",
+    reexpandedNodes: count => `在计算期望值、见解和本报告之前，${count} 个被标记的节点已根据审查意见重新展开。`,
+    categories: {
+      "missing-option": "遗漏选项",
+      "overconfident-probability": "概率过于自信",
+      "anchoring": "锚定效应",
+      "omitted-stakeholder": "遗漏利益相关者",
+      "unrealistic-outcome": "不切实际的结果",
+    },
+  },
+  assumptions: {
+    intro: "决策树中的评估依赖以下假设。在根据分析采取行动之前，请先检验这些假设。",
+    markedFalse: affectedNodes => `（已标记为错误，影响 ${affectedNodes} 个节点）`,
+    statedBy: "提出者",
+    flaggedNodes: count => `${count} 个节点依赖已标记为错误的假设，应重新评估。`,
+  },
+};
+
+/**
+ * 各语言的报告文字，未收录的语言使用英文
+ * Report text per language; languages without an entry use English
+ */
+export const REPORT_LABELS: Record<string, ReportLabels> = { en: EN, zh: ZH };
+
+/**
+ * 获取回复语言（RESPONSE_LANGUAGE）对应的报告文字
+ * Get the report text for the response language (RESPONSE_LANGUAGE)
+ *
+ * @param {string} language - 语言代码
+ * @returns {ReportLabels} 报告文字
+ */
+export function getReportLabels(language: string = ENV.LANGUAGE.RESPONSE): ReportLabels {
+  return REPORT_LABELS[language.toLowerCase()] ?? EN;
+}
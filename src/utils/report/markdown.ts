@@ -0,0 +1,137 @@
+import type { DecisionReport, ReportOptionSection } from "../../types/report";
+import type { ReportLabels } from "./labels";
+import { formatAssumptionSection } from "../decision/assumptions";
+import { formatCritiqueSection } from "../decision/critique";
+import { formatSensitivitySection } from "../decision/sensitivity";
+import { formatStakeholderSection } from "../decision/stakeholders";
+import { toMermaid } from "../export/mermaid";
+import { escapeTableCell } from "../text/format";
+import { getReportLabels } from "./labels";
+
+/**
+ * 报告的一个 Markdown 章节
+ * Markdown section of a report
+ */
+export interface MarkdownSection {
+  /**
+   * 章节对应的报告字段
+   * Report field the section is rendered from
+   */
+  field: keyof DecisionReport;
+  /**
+   * 选项序号，仅各个选项的小节有；选项章节的标题单独作为一个不带序号的章节
+   * Option index, only set on the subsection of each option; the heading of the options section is a section of
+   * its own without an index
+   */
+  index?: number;
+  markdown: string;
+}
+
+/**
+ * 生成带标题的章节，跳过空的段落
+ * Build a section with a heading, skipping empty parts
+ *
+ * @param {string} heading - 标题
+ * @param {string[]} parts - 段落
+ * @returns {string} Markdown 文本
+ */
+function section(heading: string, ...parts: string[]): string {
+  return [heading, ...parts.filter(part => part.trim())].join("\n\n");
+}
+
+/**
+ * 生成列表，列表为空时返回空字符串
+ * Build a list, or an empty string when there are no items
+ *
+ * @param {string[]} items - 列表项
+ * @param {string} title - 列表前的加粗标题
+ * @returns {string} Markdown 文本
+ */
+function list(items: string[], title?: string): string {
+  if (items.length === 0) {
+    return "";
+  }
+  const lines = items.map(item => `- ${item}`).join("\n");
+  return title ? `**${title}**\n\n${lines}` : lines;
+}
+
+/**
+ * 生成单个选项的小节
+ * Build the subsection of a single option
+ *
+ * @param {ReportOptionSection} option - 选项章节
+ * @param {number} index - 选项序号
+ * @param {ReportLabels} labels - 报告文字
+ * @returns {string} Markdown 文本
+ */
+function formatOption(option: ReportOptionSection, index: number, labels: ReportLabels): string {
+  const figures = [
+    option.expectedValue !== undefined && `${labels.expectedValue}: ${option.expectedValue}`,
+    option.risk !== undefined && `${labels.risk}: ${option.risk}/10`,
+    option.opportunity !== undefined && `${labels.opportunity}: ${option.opportunity}/10`,
+  ].filter(Boolean).join(" | ");
+
+  return section(
+    `### ${index + 1}. ${option.description}${option.optimal ? ` ${labels.recommendedByExpectedValue}` : ""}`,
+    figures,
+    option.summary,
+    option.riskAssessment && `**${labels.riskAssessment}** ${option.riskAssessment}`,
+    option.opportunityAssessment && `**${labels.opportunityAssessment}** ${option.opportunityAssessment}`,
+    list(option.keyOutcomes, labels.keyOutcomes),
+    list(option.insights, labels.insights),
+  );
+}
+
+/**
+ * 将结构化报告渲染为按顺序排列的 Markdown 章节
+ * Render a structured report as Markdown sections, in order
+ *
+ * 利益相关者、批判审查和假设登记表章节仅在报告包含相应内容时出现；标题等固定文字使用回复语言（RESPONSE_LANGUAGE）。
+ * 各章节以空行连接即为完整报告
+ * The stakeholder, critique and assumptions register sections only appear when the report has that content; headings
+ * and other fixed text use the response language (RESPONSE_LANGUAGE). Joined with blank lines, the sections make up
+ * the whole report
+ *
+ * @param {DecisionReport} report - 结构化报告
+ * @returns {MarkdownSection[]} Markdown 章节
+ */
+export function toMarkdownSections(report: DecisionReport): MarkdownSection[] {
+  const labels = getReportLabels();
+  const { headings } = labels;
+  const { comparison } = report;
+  const table = [
+    `| ${labels.option} | ${comparison.columns.map(escapeTableCell).join(" | ")} |`,
+    `| --- |${" --- |".repeat(comparison.columns.length)}`,
+    ...comparison.rows.map(row => `| ${escapeTableCell(row.option)} | ${row.values.map(value => value ?? "-").join(" | ")} |`),
+  ].join("\n");
+  const recommendations = report.recommendations.map((item, i) =>
+    `${i + 1}. **${item.recommendation}** (${labels.confidence(item.confidence)})${item.rationale ? `\n   ${item.rationale}` : ""}`);
+
+  return [
+    { field: "title", markdown: `# ${report.title}` },
+    { field: "executiveSummary", markdown: section(`## ${headings.executiveSummary}`, report.executiveSummary) },
+    { field: "context", markdown: section(`## ${headings.context}`, report.context) },
+    { field: "methodology", markdown: section(`## ${headings.methodology}`, report.methodology) },
+    { field: "options", markdown: `## ${headings.options}` },
+    ...report.options.map((option, index) => ({ field: "options", index, markdown: formatOption(option, index, labels) } as const)),
+    { field: "comparison", markdown: section(`## ${headings.comparison}`, table, comparison.summary) },
+    ...(report.stakeholders ? [{ field: "stakeholders", markdown: formatStakeholderSection(report.stakeholders) } as const] : []),
+    { field: "insights", markdown: section(`## ${headings.insights}`, report.insights.map((insight, i) => `${i + 1}. ${insight}`).join("\n")) },
+    ...(report.critique ? [{ field: "critique", markdown: formatCritiqueSection(report.critique) } as const] : []),
+    { field: "recommendations", markdown: section(`## ${headings.recommendations}`, recommendations.join("\n")) },
+    { field: "sensitivity", markdown: formatSensitivitySection(report.sensitivity) },
+    ...(report.assumptions ? [{ field: "assumptions", markdown: formatAssumptionSection(report.assumptions) } as const] : []),
+    { field: "decisionTree", markdown: section(`## ${headings.decisionTreeDiagram}`, `\`\`\`mermaid\n${toMermaid(report.decisionTree)}\n\`\`\``) },
+  ];
+}
+
+/**
+ * 将结构化报告渲染为 Markdown
+ * Render a structured report as Markdown
+ *
+ * @param {DecisionReport} report - 结构化报告
+ * @returns {string} Markdown 文本
+ */
+export function toMarkdownReport(report: DecisionReport): string {
+  return `${toMarkdownSections(report).map(item => item.markdown).join("\n\n")}\n`;
+}
@@ -0,0 +1,23 @@
+/**
+ * 保留指定的小数位数
+ * Round to the given number of decimal places
+ *
+ * @param {number} value - 数值
+ * @param {number} digits - 小数位数，默认两位
+ * @returns {number} 舍入后的数值
+ */
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 转义 Markdown 表格单元格中的竖线和换行
+ * Escape pipes and line breaks in a Markdown table cell
+ *
+ * @param {string} text - 文本
+ * @returns {string} 转义后的文本
+ */
+export function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
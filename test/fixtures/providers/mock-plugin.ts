@@ -0,0 +1,14 @@
+import type { AIProviderFactory, AIProviderInterface, ProviderConfig } from "../../../src/providers/base-provider";
+import { MockProvider } from "../../../src/providers/mock";
+
+/**
+ * 测试用的提供者插件，模型ID带有前缀以便识别
+ * Provider plugin used in tests, prefixing the model ID so it can be recognized
+ */
+class PrefixedMockProviderFactory implements AIProviderFactory {
+  public createProvider(config: ProviderConfig): AIProviderInterface {
+    return new MockProvider({ modelName: `plugin:${config.modelName ?? "mock"}` });
+  }
+}
+
+export default PrefixedMockProviderFactory;
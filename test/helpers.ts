@@ -0,0 +1,55 @@
+import type { DecisionNode } from "../src/types/decision";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { FileSessionRepository, setSessionRepository } from "../src/storage";
+
+/**
+ * 使用临时目录作为会话存储
+ * Use a temporary directory as the session repository
+ *
+ * @returns 临时目录路径
+ */
+export async function useTempSessionRepository(): Promise<string> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "deep-decision-test-"));
+  setSessionRepository(new FileSessionRepository(directory));
+  return directory;
+}
+
+/**
+ * 创建临时目录
+ * Create a temporary directory
+ *
+ * @returns 临时目录路径
+ */
+export function createTempDirectory(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), "deep-decision-test-"));
+}
+
+/**
+ * 创建节点，描述默认为节点ID
+ * Create a node whose description defaults to its ID
+ *
+ * @param id - 节点ID
+ * @param overrides - 覆盖的字段
+ * @param children - 子节点
+ * @returns 节点
+ */
+export function createNode(id: string, overrides: Partial<DecisionNode> = {}, children: DecisionNode[] = []): DecisionNode {
+  return { id, description: id, type: "outcome", parentId: null, children, ...overrides };
+}
+
+/**
+ * 将流式输出的报告章节拼成完整的 Markdown 报告：选项小节按序号放在选项标题之后，其余章节按输出顺序排列
+ * Assemble streamed report sections into the whole Markdown report: the option subsections go after the options
+ * heading by index, the other sections in the order they were sent
+ *
+ * @param sections - 按输出顺序排列的章节
+ * @returns Markdown 报告
+ */
+export function assembleReportSections(sections: { field: string; index?: number; markdown: string }[]): string {
+  const ordered = sections.filter(section => section.index === undefined);
+  const options = sections.filter(section => section.index !== undefined).sort((a, b) => a.index! - b.index!);
+  ordered.splice(ordered.findIndex(section => section.field === "options") + 1, 0, ...options);
+  return `${ordered.map(section => section.markdown).join("\n\n")}\n`;
+}
@@ -1,7 +0,0 @@
-import { describe, expect, it } from "vitest";
-
-describe("should", () => {
-  it("exported", () => {
-    expect(1).toEqual(1);
-  });
-});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { loadProviderPlugin, ProviderPluginError } from "../../src/providers";
+
+describe("provider plugins", () => {
+  it("loads a factory class from a relative path", async () => {
+    const factory = await loadProviderPlugin("./test/fixtures/providers/mock-plugin.ts");
+
+    expect(factory.createProvider({ modelName: "local" }).getModelId()).toBe("plugin:local");
+  });
+
+  it("rejects modules that cannot be imported", async () => {
+    await expect(loadProviderPlugin("./test/fixtures/providers/missing.ts")).rejects.toBeInstanceOf(ProviderPluginError);
+  });
+
+  it("rejects modules without a provider factory", async () => {
+    await expect(loadProviderPlugin("node:path")).rejects.toThrow("does not export an AIProviderFactory");
+  });
+});
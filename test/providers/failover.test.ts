@@ -0,0 +1,138 @@
+import type { LanguageModelV1 } from "ai";
+import { APICallError, generateObject } from "ai";
+import { afterEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  AIProviderManager,
+  CircuitBreaker,
+  DEFAULT_PROFILE,
+  FailoverLanguageModel,
+  MockLanguageModel,
+  ProviderUnavailableError,
+} from "../../src/providers";
+
+const schema = z.object({ option: z.string() });
+
+/**
+ * 创建调用时总是抛出给定错误的模型
+ * Create a model that always throws the given error
+ *
+ * @param error - 错误
+ * @returns 语言模型
+ */
+function createFailingModel(error: Error): LanguageModelV1 {
+  const model = new MockLanguageModel({ modelId: "failing-model" });
+  model.doGenerate = async () => {
+    throw error;
+  };
+  return model;
+}
+
+/**
+ * 创建返回非JSON文本的模型
+ * Create a model that answers with text that is not JSON
+ *
+ * @returns 语言模型
+ */
+function createGarbageModel(): LanguageModelV1 {
+  const model = new MockLanguageModel({ modelId: "garbage-model" });
+  const doGenerate = model.doGenerate.bind(model);
+  model.doGenerate = async options => ({ ...(await doGenerate(options)), text: "I'd rather not answer in JSON." });
+  return model;
+}
+
+const serverError = new APICallError({ message: "Service unavailable", url: "http://primary/v1", requestBodyValues: {}, statusCode: 503 });
+const clientError = new APICallError({ message: "Bad request", url: "http://primary/v1", requestBodyValues: {}, statusCode: 400 });
+
+/**
+ * 创建熔断器
+ * Create a circuit breaker
+ *
+ * @param now - 当前时间函数
+ * @returns 熔断器
+ */
+function createBreaker(now?: () => number): CircuitBreaker {
+  return new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 }, now);
+}
+
+describe("circuit breaker", () => {
+  it("opens after consecutive failures and lets a trial through after the cool-down", () => {
+    let now = 0;
+    const breaker = createBreaker(() => now);
+
+    breaker.recordFailure(new Error("down"));
+    expect(breaker.state).toBe("closed");
+    breaker.recordFailure(new Error("down"));
+    expect(breaker.state).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.state).toBe("half-open");
+    breaker.recordFailure(new Error("still down"));
+    expect(breaker.state).toBe("open");
+
+    now = 2000;
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", consecutiveFailures: 0, totalFailures: 3, lastError: "still down" });
+  });
+});
+
+describe("failover language model", () => {
+  it("fails over on server errors", async () => {
+    const primary = { name: "primary", model: createFailingModel(serverError), breaker: createBreaker() };
+    const backup = { name: "backup", model: new MockLanguageModel({ modelId: "backup-model" }), breaker: createBreaker() };
+    const { object } = await generateObject({ model: new FailoverLanguageModel([primary, backup]), schema, prompt: "Pick", maxRetries: 0 });
+
+    expect(schema.safeParse(object).success).toBe(true);
+    expect(primary.breaker.snapshot().totalFailures).toBe(1);
+    expect(backup.breaker.snapshot().totalSuccesses).toBe(1);
+  });
+
+  it("fails over when the output does not match the schema", async () => {
+    const primary = { name: "primary", model: createGarbageModel(), breaker: createBreaker() };
+    const backup = { name: "backup", model: new MockLanguageModel(), breaker: createBreaker() };
+    const model = new FailoverLanguageModel([primary, backup]);
+    const { object } = await model.run(member => generateObject({ model: member, schema, prompt: "Pick", maxRetries: 0 }));
+
+    expect(schema.safeParse(object).success).toBe(true);
+    expect(primary.breaker.snapshot().totalFailures).toBe(1);
+  });
+
+  it("does not fail over on client errors", async () => {
+    const primary = { name: "primary", model: createFailingModel(clientError), breaker: createBreaker() };
+    const backup = { name: "backup", model: new MockLanguageModel(), breaker: createBreaker() };
+    const model = new FailoverLanguageModel([primary, backup]);
+
+    await expect(generateObject({ model, schema, prompt: "Pick", maxRetries: 0 })).rejects.toThrow("Bad request");
+    expect(backup.breaker.snapshot().totalSuccesses).toBe(0);
+  });
+
+  it("skips open circuits and fails fast when every circuit is open", async () => {
+    const primary = { name: "primary", model: createFailingModel(serverError), breaker: createBreaker() };
+    const model = new FailoverLanguageModel([primary]);
+
+    await expect(generateObject({ model, schema, prompt: "Pick", maxRetries: 0 })).rejects.toThrow("Service unavailable");
+    await expect(generateObject({ model, schema, prompt: "Pick", maxRetries: 0 })).rejects.toThrow("Service unavailable");
+    await expect(generateObject({ model, schema, prompt: "Pick", maxRetries: 0 })).rejects.toBeInstanceOf(ProviderUnavailableError);
+  });
+});
+
+describe("provider manager failover", () => {
+  afterEach(() => {
+    AIProviderManager.getInstance().configureFailover([]);
+    AIProviderManager.getInstance().configureModels({});
+  });
+
+  it("appends the failover chain to every stage and reports provider health", async () => {
+    const manager = AIProviderManager.getInstance();
+    manager.configureModels({ profiles: { backup: { provider: "mock", modelName: "mock-backup" } } });
+    manager.configureFailover(["backup", "unknown-provider"]);
+
+    const model = manager.getModel("expansion");
+    expect(model.members.map(member => member.name)).toEqual([DEFAULT_PROFILE, "backup"]);
+
+    const statuses = await manager.checkHealth();
+    expect(statuses.find(status => status.name === "backup")).toMatchObject({ modelId: "mock-backup", failover: true, health: { healthy: true } });
+    expect(statuses.find(status => status.name === "unknown-provider")?.error).toContain("Unknown provider");
+  });
+});
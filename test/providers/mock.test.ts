@@ -0,0 +1,96 @@
+import { generateObject, streamObject } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { FixtureNotFoundError, MockProvider, withFixtures } from "../../src/providers";
+import { createTempDirectory } from "../helpers";
+
+const schema = z.object({
+  title: z.string(),
+  kind: z.enum(["decision", "outcome"]),
+  fixed: z.literal("chance"),
+  parentId: z.null(),
+  risk: z.number().min(1).max(10),
+  probability: z.number().min(0).max(100).optional(),
+  tags: z.array(z.string()).max(2),
+  children: z.array(z.any()).default([]),
+  scores: z.object({ cost: z.number().min(1).max(10) }),
+});
+
+const prompt = "Describe an option";
+
+describe("mock provider", () => {
+  it("generates schema-valid objects", async () => {
+    const { object } = await generateObject({ model: new MockProvider().getModel(), schema, prompt });
+
+    expect(schema.safeParse(object).success).toBe(true);
+    expect(object.fixed).toBe("chance");
+    expect(object.parentId).toBeNull();
+    expect(object.children).toEqual([]);
+    expect(object.tags.length).toBeLessThanOrEqual(2);
+  });
+
+  it("is deterministic for the same seed and prompt", async () => {
+    const first = await generateObject({ model: new MockProvider({ seed: 1 }).getModel(), schema, prompt });
+    const second = await generateObject({ model: new MockProvider({ seed: 1 }).getModel(), schema, prompt });
+    const other = await generateObject({ model: new MockProvider({ seed: 2 }).getModel(), schema, prompt });
+
+    expect(second.object).toEqual(first.object);
+    expect(other.object).not.toEqual(first.object);
+  });
+
+  it("ignores UUIDs in the prompt when seeding", async () => {
+    const model = new MockProvider().getModel();
+    const first = await generateObject({ model, schema, prompt: `Node 0b7f2d1e-9a4c-4e8b-8f1a-2c3d4e5f6a7b` });
+    const second = await generateObject({ model, schema, prompt: `Node 9d8c7b6a-5e4f-4a3b-9c2d-1e0f9a8b7c6d` });
+
+    expect(second.object).toEqual(first.object);
+  });
+
+  it("streams the same object it generates", async () => {
+    const model = new MockProvider().getModel();
+    const { object } = await generateObject({ model, schema, prompt });
+    const stream = streamObject({ model, schema, prompt });
+    for await (const _ of stream.partialObjectStream) {
+      // 消费流
+    }
+
+    expect(await stream.object).toEqual(object);
+  });
+
+  it("records responses and replays them", async () => {
+    const directory = await createTempDirectory();
+    const recorder = withFixtures(new MockProvider({ seed: 1 }), { mode: "record", directory });
+    const recorded = await generateObject({ model: recorder.getModel(), schema, prompt });
+
+    const replayer = new MockProvider({ seed: 999, mode: "replay", fixturesDir: directory });
+    const replayed = await generateObject({ model: replayer.getModel(), schema, prompt });
+
+    expect(replayed.object).toEqual(recorded.object);
+  });
+
+  it("records streamed responses and replays them", async () => {
+    const directory = await createTempDirectory();
+    const recorder = withFixtures(new MockProvider({ seed: 1 }), { mode: "record", directory });
+    const recording = streamObject({ model: recorder.getModel(), schema, prompt });
+    for await (const _ of recording.partialObjectStream) {
+      // 消费流
+    }
+
+    const replayer = new MockProvider({ seed: 999, mode: "replay", fixturesDir: directory });
+    const replaying = streamObject({ model: replayer.getModel(), schema, prompt });
+    for await (const _ of replaying.partialObjectStream) {
+      // 消费流
+    }
+
+    expect(await replaying.object).toEqual(await recording.object);
+  });
+
+  it("fails on unrecorded calls in replay mode", async () => {
+    const directory = await createTempDirectory();
+    const replayer = new MockProvider({ mode: "replay", fixturesDir: directory });
+
+    await expect(generateObject({ model: replayer.getModel(), schema, prompt, maxRetries: 0 }))
+      .rejects
+      .toBeInstanceOf(FixtureNotFoundError);
+  });
+});
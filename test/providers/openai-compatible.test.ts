@@ -0,0 +1,82 @@
+import type { JsonMode } from "../../src/providers";
+import { generateObject } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { extractJsonText, OpenAICompatibleProvider, vllmProviderFactory } from "../../src/providers";
+
+const schema = z.object({ option: z.string(), risk: z.number() });
+
+/**
+ * 创建返回固定回复并记录请求体的 fetch
+ * Create a fetch that answers with a fixed reply and records the request bodies
+ *
+ * @param content - 回复内容
+ * @returns fetch 实现与记录的请求体
+ */
+function createFetch(content: string): { fetch: typeof globalThis.fetch; requests: any[] } {
+  const requests: any[] = [];
+  const fetch: typeof globalThis.fetch = async (_input, init) => {
+    requests.push(JSON.parse(String(init?.body)));
+    return Response.json({
+      id: "chatcmpl-test",
+      object: "chat.completion",
+      created: 0,
+      model: "local-model",
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    });
+  };
+  return { fetch, requests };
+}
+
+/**
+ * 使用指定的结构化输出方式生成对象
+ * Generate an object with the given structured output mode
+ *
+ * @param jsonMode - 结构化输出方式
+ * @param content - 服务端回复
+ * @returns 生成的对象与请求体
+ */
+async function generateWith(jsonMode: JsonMode, content: string): Promise<{ object: unknown; request: any }> {
+  const { fetch, requests } = createFetch(content);
+  const provider = new OpenAICompatibleProvider({ baseURL: "http://localhost:8000/v1", modelName: "local-model", jsonMode, fetch });
+  const { object } = await generateObject({ model: provider.getModel(), schema, prompt: "Pick an option", maxRetries: 0 });
+  return { object, request: requests[0] };
+}
+
+describe("openai-compatible provider", () => {
+  it("sends the schema as response_format in json_schema mode", async () => {
+    const { object, request } = await generateWith("json_schema", `{"option":"A","risk":3}`);
+
+    expect(object).toEqual({ option: "A", risk: 3 });
+    expect(request.response_format.type).toBe("json_schema");
+    expect(request.tools).toBeUndefined();
+  });
+
+  it("falls back to JSON mode with the schema in the prompt", async () => {
+    const { object, request } = await generateWith("json_object", `{"option":"B","risk":5}`);
+
+    expect(object).toEqual({ option: "B", risk: 5 });
+    expect(request.response_format).toEqual({ type: "json_object" });
+    expect(JSON.stringify(request.messages)).toContain("JSON schema");
+    expect(request.tools).toBeUndefined();
+  });
+
+  it("omits response_format in prompt mode and extracts fenced JSON", async () => {
+    const { object, request } = await generateWith("prompt", "Here you go:\n```json\n{\"option\":\"C\",\"risk\":7}\n```");
+
+    expect(object).toEqual({ option: "C", risk: 7 });
+    expect(request.response_format).toBeUndefined();
+    expect(JSON.stringify(request.messages)).toContain("JSON schema");
+  });
+
+  it("applies server defaults and requires a model name", () => {
+    expect(vllmProviderFactory.createProvider({ modelName: "qwen" }).getModelId()).toBe("qwen");
+    expect(() => vllmProviderFactory.createProvider({})).toThrow("model name is required");
+  });
+
+  it("extracts JSON surrounded by prose", () => {
+    expect(extractJsonText("Sure! {\"a\": [1, 2]} Hope this helps.")).toBe("{\"a\": [1, 2]}");
+    expect(extractJsonText("[1, 2]")).toBe("[1, 2]");
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  AIProviderManager,
+  DEFAULT_PROFILE,
+  getModel,
+  getModelId,
+  getModelRouting,
+  ModelRoutingError,
+  parseStageRouting,
+  validateModelRoutingConfig,
+} from "../../src/providers";
+
+describe("model routing", () => {
+  afterEach(() => {
+    AIProviderManager.getInstance().configureModels({});
+  });
+
+  it("parses stage routing strings", () => {
+    expect(parseStageRouting("expansion=fast, report = strong")).toEqual({ expansion: "fast", report: "strong" });
+    expect(() => parseStageRouting("drafting=fast")).toThrow(ModelRoutingError);
+    expect(() => parseStageRouting("report=")).toThrow(ModelRoutingError);
+  });
+
+  it("rejects routes to undefined profiles", () => {
+    expect(() => validateModelRoutingConfig({ routing: { report: "strong" } })).toThrow("undefined model profile");
+    expect(() => validateModelRoutingConfig({ profiles: { [DEFAULT_PROFILE]: { provider: "mock" } } })).toThrow("reserved");
+  });
+
+  it("routes stages to named profiles and falls back to the default provider", () => {
+    AIProviderManager.getInstance().configureModels({
+      profiles: {
+        fast: { provider: "mock", modelName: "mock-fast" },
+        strong: { provider: "mock", modelName: "mock-strong" },
+      },
+      routing: { expansion: "fast", report: "strong" },
+    });
+
+    expect(getModelId("expansion")).toBe("mock-fast");
+    expect(getModel("report").modelId).toBe("mock-strong");
+    expect(getModelId("insights")).toBe(getModelId());
+    expect(getModelRouting()).toContainEqual({ stage: "report", profile: "strong", modelId: "mock-strong" });
+    expect(getModelRouting()).toContainEqual({ stage: "feedback", profile: DEFAULT_PROFILE, modelId: getModelId() });
+  });
+});
@@ -0,0 +1,417 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ENV } from "../../src/config/env";
+import { getAPIApp } from "../../src/services/api-service";
+import { getSessionRepository } from "../../src/storage";
+import { assembleReportSections, createNode, useTempSessionRepository } from "../helpers";
+
+const problem = "Should our team adopt a four-day work week?";
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * 发送JSON请求
+ * Send a JSON request
+ *
+ * @param path - 请求路径
+ * @param init - 请求选项
+ * @param init.method - 请求方法
+ * @param init.body - 请求体
+ * @returns 状态码与响应体
+ */
+async function request(path: string, { method = "GET", body }: { method?: string; body?: unknown } = {}): Promise<{ status: number; body: any }> {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+describe("api service", () => {
+  beforeAll(async () => {
+    await useTempSessionRepository();
+    server = getAPIApp().listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("rejects analysis requests without a problem", async () => {
+    const { status } = await request("/api/analyze-decision", { method: "POST", body: { wait: true } });
+    expect(status).toBe(400);
+  });
+
+  it("rejects malformed criteria before starting an analysis", async () => {
+    for (const criteria of [[{ weight: 1 }], [{ name: "Cost", weight: "high" }], [{ name: "Cost", weight: -1 }], [null]]) {
+      const { status, body } = await request("/api/analyze-decision", { method: "POST", body: { problem, criteria } });
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/^评估标准无效: /);
+    }
+  });
+
+  it("reports the model routing", async () => {
+    const { body } = await request("/api/model-info");
+    expect(body.providerType).toBe("mock");
+    expect(body.routing).toHaveLength(8);
+    expect(body.routing[0]).toEqual({ stage: "feedback", profile: "default", modelId: body.modelId });
+  });
+
+  it("reports provider status", async () => {
+    const { body } = await request("/api/providers?check=true");
+    expect(body.providers[0]).toMatchObject({ name: "default", circuit: { state: "closed" }, health: { healthy: true } });
+  });
+
+  it("generates follow-up questions", async () => {
+    const { status, body } = await request("/api/feedback-questions", { method: "POST", body: { problem } });
+    expect(status).toBe(200);
+    expect(body.questions.length).toBeGreaterThan(0);
+    expect(body.usage.byStage.feedback.calls).toBe(1);
+  });
+
+  it("analyzes a decision synchronously and serves the stored tree", async () => {
+    const { status, body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, wait: true },
+    });
+    expect(status).toBe(200);
+    expect(body.sessionId).toBeTypeOf("string");
+    expect(body.report).toContain("```mermaid");
+    expect(body.usage.byStage.report.calls).toBe(body.decisionTree.children.length + 1);
+
+    const session = await request(`/api/sessions/${body.sessionId}`);
+    expect(session.body.session.result.decisionTree.id).toBe(body.decisionTree.id);
+
+    const diagram = await fetch(`${baseUrl}/api/decision-tree?sessionId=${body.sessionId}&format=mermaid`);
+    expect(await diagram.text()).toMatch(/^flowchart LR/);
+
+    const invalid = await request(`/api/decision-tree?sessionId=${body.sessionId}&format=svg`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("requires the session ID of a stored tree instead of guessing the latest one", async () => {
+    for (const path of ["decision-tree", "decision-report", "decision-sensitivity", "decision-simulation"]) {
+      const missing = await request(`/api/${path}`);
+      expect(missing).toEqual({ status: 400, body: { error: "会话ID是必需的" } });
+
+      const unknown = await request(`/api/${path}?sessionId=missing`);
+      expect(unknown.status).toBe(404);
+    }
+  });
+
+  it("serves the stored report as markdown, html and structured json", async () => {
+    const { body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, wait: true },
+    });
+
+    const markdown = await fetch(`${baseUrl}/api/decision-report?sessionId=${body.sessionId}&format=markdown`);
+    expect(markdown.headers.get("content-type")).toContain("text/markdown");
+    expect(await markdown.text()).toBe(body.report);
+
+    const html = await fetch(`${baseUrl}/api/decision-report?sessionId=${body.sessionId}&format=html`);
+    expect(html.headers.get("content-type")).toContain("text/html");
+    expect(await html.text()).toMatch(/^<!DOCTYPE html>/);
+
+    const json = await request(`/api/decision-report?sessionId=${body.sessionId}&format=json`);
+    expect(json.body.report.options).toHaveLength(body.decisionTree.children.length);
+    expect(json.body.report.decisionTree.id).toBe(body.decisionTree.id);
+
+    const invalid = await request(`/api/decision-report?sessionId=${body.sessionId}&format=pdf`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("runs a sensitivity analysis on a stored tree", async () => {
+    const { body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 2, breadth: 2, wait: true },
+    });
+    expect(body.report).toContain("## Sensitivity Analysis");
+
+    const { status, body: sensitivity } = await request(`/api/decision-sensitivity?sessionId=${body.sessionId}&spread=0.1`);
+    expect(status).toBe(200);
+    expect(sensitivity.sensitivity.spread).toBe(0.1);
+    expect(sensitivity.sensitivity.parameters).toBeGreaterThan(0);
+    expect(sensitivity.sensitivity.expectedValue).toBe(body.expectedValue);
+
+    const invalid = await request(`/api/decision-sensitivity?sessionId=${body.sessionId}&steps=0`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("simulates a stored tree deterministically", async () => {
+    const { body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 2, breadth: 2, wait: true },
+    });
+
+    const url = `/api/decision-simulation?sessionId=${body.sessionId}&iterations=200&seed=7`;
+    const first = await request(url);
+    expect(first.status).toBe(200);
+    expect(first.body.simulation).toMatchObject({ iterations: 200, seed: 7 });
+    expect(first.body.simulation.options).toHaveLength(body.decisionTree.children.length);
+    expect((await request(url)).body.simulation).toEqual(first.body.simulation);
+
+    const invalid = await request(`/api/decision-simulation?sessionId=${body.sessionId}&iterations=0`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("compares a saved analysis with an edited decision tree", async () => {
+    const { body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, wait: true },
+    });
+    const decisionTree = structuredClone(body.decisionTree);
+    decisionTree.children.pop();
+
+    const { status, body: result } = await request("/api/decision-diff", {
+      method: "POST",
+      body: { before: { sessionId: body.sessionId }, after: { decisionTree, insights: body.insights } },
+    });
+    expect(status).toBe(200);
+    expect(result.diff.options.removed).toHaveLength(1);
+    expect(result.diff.insights).toMatchObject({ added: [], removed: [] });
+    expect(result.markdown).toContain("**Removed**");
+
+    const invalid = await request("/api/decision-diff", { method: "POST", body: { before: { sessionId: body.sessionId } } });
+    expect(invalid.status).toBe(400);
+    const missing = await request("/api/decision-diff", { method: "POST", body: { before: { sessionId: "missing" }, after: { decisionTree } } });
+    expect(missing.status).toBe(404);
+  });
+
+  it("analyzes a decision from several stakeholder perspectives", async () => {
+    const stakeholders = [{ name: "CFO", priorities: ["cost"] }, { name: "Employees", priorities: ["well-being"] }];
+    const { status, body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, stakeholders, wait: true },
+    });
+    expect(status).toBe(200);
+    expect(body.stakeholders.agreement.stakeholders).toEqual(["CFO", "Employees"]);
+    expect(body.report).toContain("## Stakeholder Perspectives");
+
+    const session = await request(`/api/sessions/${body.sessionId}`);
+    expect(session.body.session.parameters.stakeholders).toEqual(stakeholders);
+
+    const invalid = await request("/api/analyze-decision", { method: "POST", body: { problem, stakeholders: [{ name: "CFO" }] } });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("audits a decision with a critique pass", async () => {
+    const { status, body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, critique: "review", wait: true },
+    });
+    expect(status).toBe(200);
+    expect(body.critique.mode).toBe("review");
+    expect(body.usage.byStage.critique.calls).toBe(1);
+    expect(body.report).toContain("## Critique and Bias Audit");
+
+    const invalid = await request("/api/analyze-decision", { method: "POST", body: { problem, critique: "always" } });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("estimates an analysis and refuses it above the ceiling", async () => {
+    const { status, body } = await request("/api/analyze-decision/estimate", {
+      method: "POST",
+      body: { problem, depth: 3, breadth: 3 },
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ allowed: true, estimate: { calls: 18, exceeded: [] } });
+
+    ENV.ESTIMATE.MAX_CALLS = 10;
+    try {
+      const refused = await request("/api/analyze-decision", { method: "POST", body: { problem, depth: 3, breadth: 3 } });
+      expect(refused.status).toBe(422);
+      expect(refused.body.estimate.exceeded).toHaveLength(1);
+    } finally {
+      ENV.ESTIMATE.MAX_CALLS = 0;
+    }
+  });
+
+  it("rejects malformed follow-up answers, depth and breadth on every analysis endpoint", async () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{ followUp: [null] }, "跟进问答必须是包含 question 和 answer（字符串）的对象数组"],
+      [{ followUp: [{ question: "Budget?" }] }, "跟进问答必须是包含 question 和 answer（字符串）的对象数组"],
+      [{ followUp: [{ question: "Budget?", answer: 5 }] }, "跟进问答必须是包含 question 和 answer（字符串）的对象数组"],
+      [{ depth: "abc" }, "分析深度必须是 1 到 10 之间的整数"],
+      [{ depth: 0 }, "分析深度必须是 1 到 10 之间的整数"],
+      [{ depth: 2.5 }, "分析深度必须是 1 到 10 之间的整数"],
+      [{ depth: 11 }, "分析深度必须是 1 到 10 之间的整数"],
+      [{ breadth: -1 }, "分析广度必须是 1 到 10 之间的整数"],
+      [{ breadth: "3" }, "分析广度必须是 1 到 10 之间的整数"],
+      [{ breadth: 11 }, "分析广度必须是 1 到 10 之间的整数"],
+    ];
+    for (const path of ["/api/analyze-decision", "/api/analyze-decision/estimate", "/api/analyze-decision/stream"]) {
+      for (const [fields, error] of cases) {
+        const { status, body } = await request(path, { method: "POST", body: { problem, ...fields } });
+        expect({ path, fields, status, error: body.error }).toEqual({ path, fields, status: 400, error });
+      }
+    }
+  });
+
+  it("runs analyses as background jobs", async () => {
+    const { status, body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2 },
+    });
+    expect(status).toBe(202);
+
+    let job = (await request(`/api/jobs/${body.jobId}`)).body.job;
+    for (let i = 0; i < 50 && (job.status === "queued" || job.status === "running"); i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      job = (await request(`/api/jobs/${body.jobId}`)).body.job;
+    }
+    expect(job.status).toBe("succeeded");
+  });
+
+  it("streams analysis events", async () => {
+    const res = await fetch(`${baseUrl}/api/analyze-decision/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ problem, depth: 1, breadth: 2 }),
+    });
+    const text = await res.text();
+    const events = text.trim().split("\n\n").map((block) => {
+      const [event, data] = block.split("\n");
+      return { event: event!.replace("event: ", ""), data: JSON.parse(data!.replace("data: ", "")) };
+    });
+
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    expect(events[0]).toEqual({ event: "session", data: { sessionId: expect.any(String) } });
+    expect(events.some(({ event }) => event === "node")).toBe(true);
+    expect(events.some(({ event }) => event === "error")).toBe(false);
+
+    const result = events.at(-1)!;
+    expect(result.event).toBe("result");
+    expect(result.data).toMatchObject({ sessionId: events[0]!.data.sessionId, report: expect.any(String) });
+    const chunks = events.filter(({ event }) => event === "report-chunk").map(({ data }) => ({ ...data, markdown: data.text }));
+    const firstSummaryChunk = chunks.findIndex(chunk => chunk.index === undefined);
+    expect(chunks[firstSummaryChunk]?.field).toBe("title");
+    expect(chunks.slice(0, firstSummaryChunk).every(chunk => chunk.field === "options" && typeof chunk.index === "number")).toBe(true);
+    expect(chunks.slice(firstSummaryChunk).every(chunk => chunk.index === undefined)).toBe(true);
+    expect(firstSummaryChunk).toBeGreaterThan(0);
+    expect(result.data.report).toBe(assembleReportSections(chunks));
+  });
+
+  it("edits nodes of a stored tree", async () => {
+    const { body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, wait: true },
+    });
+    const sessionId: string = body.sessionId;
+
+    const added = await request(`/api/sessions/${sessionId}/nodes`, {
+      method: "POST",
+      body: { parentId: body.decisionTree.id, description: "Trial it for one quarter", type: "outcome", risk: 3, opportunity: 6 },
+    });
+    expect(added.status).toBe(200);
+
+    const nodeId: string = added.body.nodeId;
+    const invalid = await request(`/api/sessions/${sessionId}/nodes/${nodeId}`, { method: "PATCH", body: { risk: 42 } });
+    expect(invalid.status).toBe(400);
+
+    const removed = await request(`/api/sessions/${sessionId}/nodes/${nodeId}`, { method: "DELETE" });
+    expect(removed.status).toBe(200);
+
+    const missing = await request(`/api/sessions/${sessionId}/nodes/${nodeId}`, { method: "DELETE" });
+    expect(missing.status).toBe(404);
+  });
+
+  it("validates expansion sizes and refuses expansions above the ceiling", async () => {
+    const { body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, wait: true },
+    });
+    const sessionId: string = body.sessionId;
+    const rootId: string = body.decisionTree.id;
+    const optionId: string = body.decisionTree.children[0].id;
+
+    const cases: [string, Record<string, unknown>, string][] = [
+      ["expand", { levels: "abc" }, "展开层数必须是 1 到 10 之间的整数"],
+      ["expand", { levels: 0 }, "展开层数必须是 1 到 10 之间的整数"],
+      ["expand", { levels: 1.5 }, "展开层数必须是 1 到 10 之间的整数"],
+      ["expand", { levels: 11 }, "展开层数必须是 1 到 10 之间的整数"],
+      ["expand", { breadth: "abc" }, "分析广度必须是 1 到 10 之间的整数"],
+      ["expand", { breadth: 10000 }, "分析广度必须是 1 到 10 之间的整数"],
+      ["regenerate", { breadth: "abc" }, "分析广度必须是 1 到 10 之间的整数"],
+      ["regenerate", { breadth: 10000 }, "分析广度必须是 1 到 10 之间的整数"],
+    ];
+    for (const [action, fields, error] of cases) {
+      const { status, body: rejected } = await request(`/api/sessions/${sessionId}/nodes/${optionId}/${action}`, { method: "POST", body: fields });
+      expect({ action, fields, status, error: rejected.error }).toEqual({ action, fields, status: 400, error });
+    }
+
+    // 将唯一的叶子节点展开三层需要 1 + 2 + 4 次调用
+    ENV.ESTIMATE.MAX_CALLS = 5;
+    let children: string[];
+    try {
+      const refused = await request(`/api/sessions/${sessionId}/nodes/${rootId}/expand`, { method: "POST", body: { levels: 3, breadth: 2 } });
+      expect(refused.status).toBe(422);
+      expect(refused.body.estimate).toMatchObject({ calls: 7, exceeded: ["7 LLM calls exceed the limit of 5"] });
+
+      const allowed = await request(`/api/sessions/${sessionId}/nodes/${optionId}/expand`, { method: "POST", body: { levels: 1, breadth: 2 } });
+      expect(allowed.status).toBe(200);
+      children = allowed.body.decisionTree.children[0].children.map((child: { id: string }) => child.id);
+    } finally {
+      ENV.ESTIMATE.MAX_CALLS = 0;
+    }
+
+    ENV.ESTIMATE.MAX_TOKENS = 100;
+    try {
+      const refused = await request(`/api/sessions/${sessionId}/nodes/${optionId}/regenerate`, { method: "POST", body: {} });
+      expect(refused.status).toBe(422);
+    } finally {
+      ENV.ESTIMATE.MAX_TOKENS = 0;
+    }
+
+    const { body: stored } = await request(`/api/sessions/${sessionId}`);
+    expect(stored.session.result.decisionTree.children[0].children.map((child: { id: string }) => child.id)).toEqual(children);
+  });
+
+  it("lists the assumptions of a stored tree and marks one false", async () => {
+    const { body } = await request("/api/analyze-decision", {
+      method: "POST",
+      body: { problem, depth: 1, breadth: 2, wait: true },
+    });
+    const sessionId: string = body.sessionId;
+
+    const { status, body: listed } = await request(`/api/sessions/${sessionId}/assumptions`);
+    expect(status).toBe(200);
+    expect(listed.assumptions.assumptions.length).toBeGreaterThan(0);
+
+    const [entry] = listed.assumptions.assumptions;
+    const marked = await request(`/api/sessions/${sessionId}/assumptions/${entry.id}`, { method: "PATCH", body: { status: "false" } });
+    expect(marked.status).toBe(200);
+    expect(marked.body.assumptions.flaggedNodes).toBeGreaterThan(0);
+    expect(marked.body.falseAssumptions).toEqual([entry.id]);
+
+    const invalid = await request(`/api/sessions/${sessionId}/assumptions/${entry.id}`, { method: "PATCH", body: { status: "maybe" } });
+    expect(invalid.status).toBe(400);
+    const missing = await request(`/api/sessions/${sessionId}/assumptions/missing`, { method: "PATCH", body: { status: "false" } });
+    expect(missing.status).toBe(404);
+  });
+
+  it("validates the probabilities of a stored tree without changing it", async () => {
+    const decisionTree = createNode("root", { type: "decision" }, [
+      createNode("option", { type: "decision" }, [
+        createNode("good", { probability: 60 }),
+        createNode("bad", { probability: 20 }),
+      ]),
+    ]);
+    const session = await getSessionRepository().create({ problem, followUp: [], parameters: { depth: 1, breadth: 2 }, modelId: "mock" });
+    await getSessionRepository().update(session.id, { result: { decisionTree, insights: [], expectedValue: 0, optimalPath: ["root"] } });
+
+    const { status, body } = await request(`/api/sessions/${session.id}/validate`);
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, sessionId: session.id, valid: false });
+    expect(body.issues).toEqual([expect.objectContaining({ nodeId: "option", kind: "sum-mismatch" })]);
+    expect((await getSessionRepository().get(session.id))!.result!.decisionTree).toEqual(decisionTree);
+
+    const missing = await request("/api/sessions/00000000-0000-4000-8000-000000000000/validate");
+    expect(missing.status).toBe(404);
+  });
+});
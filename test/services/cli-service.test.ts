@@ -0,0 +1,107 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { CLIService } from "../../src/services/cli-service";
+import { getSessionRepository } from "../../src/storage";
+import { createNode, createTempDirectory, useTempSessionRepository } from "../helpers";
+
+/**
+ * 按顺序回答CLI的提问，超出部分使用统一的回答
+ * Answer CLI prompts in order, falling back to a generic answer once the queue is empty
+ *
+ * @param answers - 回答队列
+ */
+function answerQuestions(answers: string[]): void {
+  const queue = [...answers];
+  vi.spyOn(CLIService.prototype, "askQuestion").mockImplementation(async () => queue.shift() ?? "Not sure yet");
+}
+
+describe("cli service", () => {
+  beforeAll(async () => {
+    await useTempSessionRepository();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs an analysis from interactive answers and stores the session", async () => {
+    answerQuestions([
+      "Should I switch from backend to frontend development?",
+      "2",
+      "1",
+      "best-first",
+      "3",
+      "salary:2, learning:1",
+      "Manager: team velocity; Me: learning, salary",
+      "review",
+    ]);
+
+    await CLIService.getInstance().run();
+
+    const [summary] = await getSessionRepository().list({ limit: 1 });
+    const session = await getSessionRepository().get(summary!.id);
+    expect(session?.problem).toBe("Should I switch from backend to frontend development?");
+    expect(session?.parameters).toMatchObject({ depth: 1, breadth: 2, strategy: "best-first", budget: 3, critique: "review" });
+    expect(session?.parameters.criteria?.map(criterion => criterion.name)).toEqual(["salary", "learning"]);
+    expect(session?.parameters.stakeholders).toEqual([
+      { name: "Manager", priorities: ["team velocity"] },
+      { name: "Me", priorities: ["learning", "salary"] },
+    ]);
+    expect(session?.result?.stakeholders?.assessments).toHaveLength(2);
+    expect(session?.report).toContain("## Stakeholder Perspectives");
+    expect(session?.report).toContain("## Critique and Bias Audit");
+    expect(session?.followUp.length).toBeGreaterThan(0);
+    expect(session?.result?.decisionTree.children.length).toBeGreaterThan(0);
+    expect(session?.report).toContain("```mermaid");
+  });
+
+  it("does not run the analysis when the estimate is declined", async () => {
+    const before = (await getSessionRepository().list()).length;
+    vi.spyOn(CLIService.prototype, "askQuestion").mockImplementation(async query => query.includes("是否继续") ? "n" : "2");
+
+    await CLIService.getInstance().run();
+
+    expect(await getSessionRepository().list()).toHaveLength(before);
+  });
+
+  it("compares a saved session with an analysis file", async () => {
+    answerQuestions(["Should I move to another city?", "2", "1", "uniform", "", "", "", ""]);
+    await CLIService.getInstance().run();
+    const [summary] = await getSessionRepository().list({ limit: 1 });
+    const session = await getSessionRepository().get(summary!.id);
+
+    const result = structuredClone(session!.result!);
+    result.decisionTree.children.pop();
+    const file = path.join(await createTempDirectory(), "result.json");
+    await fs.writeFile(file, JSON.stringify(result));
+    const output = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await CLIService.getInstance().diff(session!.id, file);
+
+    const printed = output.mock.calls.flat().join("\n");
+    expect(printed).toContain("# Decision Analysis Diff");
+    expect(printed).toContain("**Removed**");
+  });
+
+  it("validates the probabilities of a decision tree file", async () => {
+    const tree = createNode("root", { type: "decision", description: "Move?" }, [
+      createNode("stay", { type: "decision", description: "Stay" }, [
+        createNode("good", { probability: 60 }),
+        createNode("bad", { probability: 20 }),
+      ]),
+    ]);
+    const file = path.join(await createTempDirectory(), "tree.json");
+    await fs.writeFile(file, JSON.stringify(tree));
+    const output = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    expect(await CLIService.getInstance().validate(file)).toBe(false);
+    const printed = output.mock.calls.flat().join("\n");
+    expect(printed).toContain("发现 1 个概率问题");
+    expect(printed).toContain("Move? → Stay [sum-mismatch]: Outcome probabilities sum to 80% instead of 100%");
+
+    tree.children[0]!.children[1]!.probability = 40;
+    await fs.writeFile(file, JSON.stringify(tree));
+    expect(await CLIService.getInstance().validate(file)).toBe(true);
+  });
+});
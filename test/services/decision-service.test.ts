@@ -0,0 +1,414 @@
+import type { DecisionResult } from "../../src/types/decision";
+import type { MarkdownSection } from "../../src/utils/report";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { ENV } from "../../src/config/env";
+import { MockLanguageModel } from "../../src/providers";
+import {
+  addNode,
+  analyzeDecision,
+  expandNode,
+  generateDecisionReport,
+  getAssumptionRegister,
+  pruneNode,
+  regenerateNode,
+  setAssumptionStatus,
+  updateNode,
+} from "../../src/services/decision-service";
+import { getSessionRepository, SessionNotFoundError } from "../../src/storage";
+import { AssumptionNotFoundError } from "../../src/utils/decision/assumptions";
+import { AnalysisTooLargeError } from "../../src/utils/decision/estimate";
+import { countNodes, findNode, NodeNotFoundError } from "../../src/utils/decision/tree";
+import { UsageTracker } from "../../src/utils/llm/usage";
+import { renderReport } from "../../src/utils/report";
+import { assembleReportSections, createNode, useTempSessionRepository } from "../helpers";
+
+const problem = "Should I move to another city for a new job?";
+
+/**
+ * 保存分析结果并返回会话ID
+ * Store an analysis result and return the session ID
+ *
+ * @param result - 分析结果
+ * @returns 会话ID
+ */
+async function storeResult(result: DecisionResult): Promise<string> {
+  const session = await getSessionRepository().create({
+    problem,
+    followUp: [],
+    parameters: { depth: 2, breadth: 2 },
+    modelId: "mock-model",
+  });
+  await getSessionRepository().update(session.id, { result });
+  return session.id;
+}
+
+describe("decision service", () => {
+  beforeAll(async () => {
+    await useTempSessionRepository();
+  });
+
+  it("analyzes a decision with the uniform strategy", async () => {
+    const result = await analyzeDecision({ problem, depth: 2, breadth: 2 });
+
+    expect(result.decisionTree.children.length).toBeGreaterThan(0);
+    expect(result.insights.length).toBeGreaterThan(0);
+    expect(Number.isFinite(result.expectedValue)).toBe(true);
+    expect(result.optimalPath[0]).toBe(result.decisionTree.id);
+  });
+
+  it("records the token usage of every call", async () => {
+    const result = await analyzeDecision({ problem, depth: 2, breadth: 2 });
+    const { usage } = result;
+    const options = result.decisionTree.children;
+
+    expect(usage?.byStage["initial-tree"]?.calls).toBe(1);
+    expect(usage?.byStage.expansion?.calls).toBe(options.length);
+    expect(usage?.byStage.insights?.calls).toBe(1);
+    expect(usage?.totalTokens).toBe((usage?.promptTokens ?? 0) + (usage?.completionTokens ?? 0));
+    expect(usage?.byNode[options[0]!.id]?.calls).toBeGreaterThanOrEqual(1);
+  });
+
+  describe("analysis ceiling", () => {
+    afterEach(() => {
+      ENV.ESTIMATE.MAX_CALLS = 0;
+    });
+
+    it("refuses analyses estimated above the ceiling", async () => {
+      ENV.ESTIMATE.MAX_CALLS = 10;
+
+      await expect(analyzeDecision({ problem, depth: 3, breadth: 3 })).rejects.toBeInstanceOf(AnalysisTooLargeError);
+      await expect(analyzeDecision({ problem, depth: 1, breadth: 2 })).resolves.toHaveProperty("decisionTree");
+    });
+  });
+
+  it("produces the same tree shape for the same seed", async () => {
+    const first = await analyzeDecision({ problem, depth: 2, breadth: 2 });
+    const second = await analyzeDecision({ problem, depth: 2, breadth: 2 });
+
+    expect(countNodes(second.decisionTree)).toBe(countNodes(first.decisionTree));
+    expect(second.expectedValue).toBe(first.expectedValue);
+  });
+
+  it("respects the budget of the best-first strategy", async () => {
+    const budget = 3;
+    const result = await analyzeDecision({ problem, depth: 3, breadth: 2, strategy: "best-first", budget });
+    let expanded = 0;
+    const visit = (node: DecisionResult["decisionTree"]): void => {
+      if (node.children.length > 0) {
+        expanded++;
+      }
+      node.children.forEach(visit);
+    };
+    visit(result.decisionTree);
+
+    // 根节点的展开不计入预算
+    // Expanding the root does not count against the budget
+    expect(expanded - 1).toBeLessThanOrEqual(budget);
+  });
+
+  it("scores top-level options against criteria", async () => {
+    const result = await analyzeDecision({
+      problem,
+      depth: 1,
+      breadth: 2,
+      criteria: [
+        { name: "cost", weight: 2 },
+        { name: "growth", weight: 1 },
+      ],
+    });
+
+    expect(result.criteria?.reduce((sum, criterion) => sum + criterion.weight, 0)).toBeCloseTo(1);
+    expect(result.criteriaBreakdown?.length).toBe(result.decisionTree.children.length);
+  });
+
+  it("keeps the uncertainty ranges of expanded outcomes around their estimates", async () => {
+    const result = await analyzeDecision({ problem, depth: 2, breadth: 2 });
+    const outcomes = result.decisionTree.children.flatMap(option => option.children);
+
+    expect(outcomes.some(outcome => outcome.riskRange)).toBe(true);
+    for (const outcome of outcomes) {
+      for (const [value, range] of [
+        [outcome.probability, outcome.probabilityRange],
+        [outcome.risk, outcome.riskRange],
+        [outcome.opportunity, outcome.opportunityRange],
+      ] as const) {
+        if (range) {
+          expect(range.likely).toBe(value);
+          expect(range.min).toBeLessThanOrEqual(range.likely);
+          expect(range.max).toBeGreaterThanOrEqual(range.likely);
+        }
+      }
+    }
+  });
+
+  it("generates a structured report and streams its markdown", async () => {
+    const result = await analyzeDecision({ problem, depth: 1, breadth: 2 });
+    const chunks: MarkdownSection[] = [];
+    const report = await generateDecisionReport({
+      problem,
+      decisionTree: result.decisionTree,
+      insights: result.insights,
+      onReportChunk: chunk => chunks.push(chunk),
+    });
+
+    expect(report.options.map(option => option.id)).toEqual(result.decisionTree.children.map(child => child.id));
+    expect(report.options.map(option => option.expectedValue)).toEqual(result.decisionTree.children.map(child => child.expectedValue));
+    expect(report.comparison.rows).toHaveLength(result.decisionTree.children.length);
+    expect(report.insights).toEqual(result.insights);
+
+    const markdown = renderReport(report, "markdown");
+    expect(markdown).toContain("## Decision Tree Diagram");
+    expect(markdown).toContain("```mermaid");
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(assembleReportSections(chunks)).toBe(markdown);
+  });
+
+  it("streams each option section as soon as it is written", async () => {
+    const decisionTree = createNode("root", { type: "decision", description: problem }, [
+      createNode("first", { description: "Accept the offer", parentId: "root", risk: 6, opportunity: 8 }),
+      createNode("second", { description: "Stay in the current job", parentId: "root", risk: 2, opportunity: 4 }),
+    ]);
+    let releaseFirst!: () => void;
+    const secondStreamed = new Promise<void>((resolve) => {
+      releaseFirst = resolve;
+    });
+    const doGenerate = MockLanguageModel.prototype.doGenerate;
+    vi.spyOn(MockLanguageModel.prototype, "doGenerate").mockImplementation(async function (this: MockLanguageModel, options) {
+      // 第一个选项的章节要等第二个选项的小节输出后才写完
+      if (JSON.stringify(options.prompt).includes("<option>Accept the offer</option>")) {
+        await secondStreamed;
+      }
+      return doGenerate.call(this, options);
+    });
+
+    const chunks: MarkdownSection[] = [];
+    try {
+      const report = await generateDecisionReport({
+        problem,
+        decisionTree,
+        insights: [],
+        onReportChunk: (section) => {
+          chunks.push(section);
+          if (section.index === 1) {
+            releaseFirst();
+          }
+        },
+      });
+
+      expect(chunks.map(chunk => chunk.index ?? chunk.field).slice(0, 3)).toEqual([1, 0, "title"]);
+      expect(chunks[0]!.markdown).toMatch(/^### 2\. Stay in the current job/);
+      expect(chunks.slice(2).every(chunk => chunk.index === undefined)).toBe(true);
+      expect(assembleReportSections(chunks)).toBe(renderReport(report, "markdown"));
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("retries a failed report section on its own", async () => {
+    const result = await analyzeDecision({ problem, depth: 1, breadth: 2 });
+    const doGenerate = MockLanguageModel.prototype.doGenerate;
+    let failures = 0;
+    let failing = 1;
+    vi.spyOn(MockLanguageModel.prototype, "doGenerate").mockImplementation(async function (this: MockLanguageModel, options) {
+      if (failures < failing && JSON.stringify(options.prompt).includes("report section for one option")) {
+        failures += 1;
+        throw new Error("Flaky section");
+      }
+      return doGenerate.call(this, options);
+    });
+
+    const usage = new UsageTracker();
+    const report = await generateDecisionReport({ problem, decisionTree: result.decisionTree, insights: result.insights, usage });
+    expect(failures).toBe(1);
+    expect(report.options.every(option => option.summary)).toBe(true);
+    expect(usage.summarize().byStage.report?.calls).toBe(result.decisionTree.children.length + 1);
+
+    failing = Number.POSITIVE_INFINITY;
+    ENV.REPORT.SECTION_ATTEMPTS = 2;
+    try {
+      await expect(generateDecisionReport({ problem, decisionTree: result.decisionTree, insights: result.insights }))
+        .rejects
+        .toThrow("after 2 attempt(s): Flaky section");
+    } finally {
+      ENV.REPORT.SECTION_ATTEMPTS = 3;
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("scores the options from every stakeholder's perspective and reports where they diverge", async () => {
+    const stakeholders = [
+      { name: "CFO", priorities: ["cost", "cash flow"] },
+      { name: "Engineering lead", priorities: ["team velocity"] },
+      { name: "Customer", priorities: ["price", "reliability"] },
+    ];
+    const result = await analyzeDecision({ problem, depth: 2, breadth: 2, stakeholders });
+    const items = result.decisionTree.children.reduce((acc, option) => acc + 1 + option.children.length, 0);
+
+    expect(result.usage?.byStage.stakeholders?.calls).toBe(3);
+    expect(result.stakeholders?.assessments.map(assessment => assessment.stakeholder)).toEqual(["CFO", "Engineering lead", "Customer"]);
+    expect(result.stakeholders?.assessments.every(assessment => assessment.scores.length === items && assessment.preferredOption)).toBe(true);
+    expect(result.stakeholders?.agreement.values.map(row => row.length)).toEqual([3, 3, 3]);
+
+    const report = await generateDecisionReport({ problem, decisionTree: result.decisionTree, insights: result.insights, stakeholders: result.stakeholders });
+    expect(renderReport(report, "markdown")).toContain("## Stakeholder Perspectives");
+    expect(renderReport(report, "html")).toContain("<h2>Stakeholder Perspectives</h2>");
+
+    await expect(analyzeDecision({ problem, depth: 1, breadth: 2, stakeholders: [{ name: " ", priorities: [] }] }))
+      .rejects
+      .toThrow("Stakeholder name is required");
+  });
+
+  it("critiques the tree and re-expands the flagged option with the critique as guidance", async () => {
+    const doGenerate = MockLanguageModel.prototype.doGenerate;
+    const expansionPrompts: string[] = [];
+    let option = "";
+    vi.spyOn(MockLanguageModel.prototype, "doGenerate").mockImplementation(async function (this: MockLanguageModel, options) {
+      const prompt = JSON.stringify(options.prompt);
+      const response = await doGenerate.call(this, options);
+      if (prompt.includes("generate a structured decision tree")) {
+        option = JSON.parse(response.text!).decisionTree.children[0].description;
+      } else if (prompt.includes("potential outcomes of this option")) {
+        expansionPrompts.push(prompt);
+      } else if (prompt.includes("devil's advocate")) {
+        return {
+          ...response,
+          text: JSON.stringify({
+            items: [
+              { category: "missing-option", severity: "medium", node: problem, issue: "Staying and negotiating is not an option", suggestion: "Add it" },
+              { category: "anchoring", severity: "high", node: option, issue: "The outcomes assume the best case", suggestion: "Consider a failed probation period" },
+            ],
+          }),
+        };
+      }
+      return response;
+    });
+
+    try {
+      const result = await analyzeDecision({ problem, depth: 2, breadth: 2, critique: "reexpand" });
+      const flagged = result.decisionTree.children[0]!;
+
+      expect(result.critique?.items.map(item => [item.severity, item.nodeId, item.reexpanded ?? false])).toEqual([
+        ["high", flagged.id, true],
+        ["medium", result.decisionTree.id, false],
+      ]);
+      expect(result.critique?.reexpanded).toEqual([flagged.id]);
+      expect(flagged.warnings?.some(warning => warning.startsWith("Re-expanded after the critique"))).toBe(true);
+      expect(expansionPrompts.at(-1)).toContain("Consider a failed probation period");
+      expect(result.usage?.byStage.critique?.calls).toBe(1);
+      expect(result.usage?.byStage.insights?.calls).toBe(2);
+
+      const report = await generateDecisionReport({ problem, decisionTree: result.decisionTree, insights: result.insights, critique: result.critique });
+      expect(renderReport(report, "markdown")).toContain("## Critique and Bias Audit");
+      expect(renderReport(report, "markdown")).toContain(`*${option}* (re-expanded)`);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  describe("stored tree operations", () => {
+    it("prunes, adds, edits, expands and regenerates nodes", async () => {
+      const sessionId = await storeResult(await analyzeDecision({ problem, depth: 1, breadth: 2 }));
+      const stored = await getSessionRepository().get(sessionId);
+      const [option] = stored!.result!.decisionTree.children;
+
+      const { node } = await addNode({
+        sessionId,
+        parentId: stored!.result!.decisionTree.id,
+        node: { description: "Stay and negotiate a raise", type: "outcome", risk: 2, opportunity: 4 },
+      });
+      const updated = await updateNode({ sessionId, nodeId: node.id, changes: { opportunity: 9 } });
+      expect(findNode(updated.decisionTree, node.id)?.opportunity).toBe(9);
+
+      const expanded = await expandNode({ sessionId, nodeId: option!.id });
+      expect(findNode(expanded.decisionTree, option!.id)?.children.length).toBeGreaterThan(0);
+
+      const regenerated = await regenerateNode({ sessionId, nodeId: option!.id, hint: "Consider remote work" });
+      expect(findNode(regenerated.decisionTree, option!.id)?.children.length).toBeGreaterThan(0);
+
+      expect(regenerated.usage!.calls).toBeGreaterThan(expanded.usage!.calls);
+
+      const pruned = await pruneNode({ sessionId, nodeId: node.id });
+      expect(findNode(pruned.decisionTree, node.id)).toBeNull();
+      expect((await getSessionRepository().get(sessionId))?.result).toEqual(pruned);
+    });
+
+    it("rejects invalid edits", async () => {
+      const sessionId = await storeResult(await analyzeDecision({ problem, depth: 1, breadth: 2 }));
+      const stored = await getSessionRepository().get(sessionId);
+      const rootId = stored!.result!.decisionTree.id;
+
+      await expect(pruneNode({ sessionId, nodeId: rootId })).rejects.toThrow();
+      await expect(updateNode({ sessionId, nodeId: rootId, changes: { risk: 11 } })).rejects.toThrow();
+      await expect(pruneNode({ sessionId, nodeId: "missing" })).rejects.toBeInstanceOf(NodeNotFoundError);
+      await expect(pruneNode({ sessionId: "missing", nodeId: rootId })).rejects.toBeInstanceOf(SessionNotFoundError);
+    });
+
+    it("keeps every concurrent edit and drops the report and insights of the old tree", async () => {
+      const decisionTree = createNode("root", { type: "decision", description: problem }, [
+        createNode("first", { description: "Accept the offer", parentId: "root", risk: 6, opportunity: 8 }),
+        createNode("second", { description: "Stay in the current job", parentId: "root", risk: 2, opportunity: 4 }),
+      ]);
+      const sessionId = await storeResult({ decisionTree, insights: ["Old insight"], expectedValue: 0, optimalPath: [] });
+      await getSessionRepository().update(sessionId, { report: "# Old report" });
+      const [first, second] = decisionTree.children;
+
+      await Promise.all([
+        expandNode({ sessionId, nodeId: first!.id }),
+        updateNode({ sessionId, nodeId: second!.id, changes: { description: "Edited while expanding" } }),
+        regenerateNode({ sessionId, nodeId: second!.id }),
+        pruneNode({ sessionId, nodeId: "missing" }).catch(() => undefined),
+      ]);
+
+      const session = await getSessionRepository().get(sessionId);
+      const tree = session!.result!.decisionTree;
+      expect(findNode(tree, first!.id)?.children.length).toBeGreaterThan(0);
+      expect(findNode(tree, second!.id)?.description).toBe("Edited while expanding");
+      expect(findNode(tree, second!.id)?.children.length).toBeGreaterThan(0);
+      expect(session!.report).toBeUndefined();
+      expect(session!.result!.insights).toEqual([]);
+    });
+
+    it("drops the stakeholder scores and critique of the old tree", async () => {
+      const stakeholders = [{ name: "CFO", priorities: ["cost"] }];
+      const sessionId = await storeResult(await analyzeDecision({ problem, depth: 2, breadth: 2, stakeholders, critique: "review" }));
+      const stored = await getSessionRepository().get(sessionId);
+      const [score] = stored!.result!.stakeholders!.assessments[0]!.scores;
+      expect(stored!.result!.critique).toBeDefined();
+
+      const result = await pruneNode({ sessionId, nodeId: score!.nodeId });
+
+      expect(findNode(result.decisionTree, score!.nodeId)).toBeNull();
+      expect(result.stakeholders).toBeUndefined();
+      expect(result.critique).toBeUndefined();
+      const session = await getSessionRepository().get(sessionId);
+      expect(session!.result!.stakeholders).toBeUndefined();
+      expect(session!.result!.critique).toBeUndefined();
+    });
+
+    it("records the reasoning of every node and flags the subtrees of an assumption marked false", async () => {
+      const result = await analyzeDecision({ problem, depth: 2, breadth: 2 });
+      const [option] = result.decisionTree.children;
+      expect(option?.rationale).toBeTypeOf("string");
+      expect(option?.children.every(child => child.assumptions && child.assumptions.length > 0)).toBe(true);
+
+      const sessionId = await storeResult(result);
+      const entry = getAssumptionRegister(result.decisionTree).assumptions.find(item => item.nodes.some(ref => ref.id === option!.id))!;
+      const marked = await setAssumptionStatus({ sessionId, assumptionId: entry.id, status: "false" });
+      const flagged = findNode(marked.decisionTree, option!.id)!;
+
+      expect(marked.falseAssumptions).toEqual([entry.id]);
+      expect(flagged.invalidatedBy).toEqual([entry.id]);
+      expect(flagged.children.every(child => child.invalidatedBy?.includes(entry.id))).toBe(true);
+      expect(getAssumptionRegister(marked.decisionTree).flaggedNodes).toBeGreaterThanOrEqual(countNodes(flagged));
+
+      // 重新生成的子树继续被标记
+      const regenerated = await regenerateNode({ sessionId, nodeId: option!.id });
+      expect(findNode(regenerated.decisionTree, option!.id)!.children.every(child => child.invalidatedBy?.includes(entry.id))).toBe(true);
+
+      const reopened = await setAssumptionStatus({ sessionId, assumptionId: entry.id, status: "open" });
+      expect(reopened.falseAssumptions).toEqual([]);
+      expect(getAssumptionRegister(reopened.decisionTree).flaggedNodes).toBe(0);
+      await expect(setAssumptionStatus({ sessionId, assumptionId: "missing", status: "false" })).rejects.toBeInstanceOf(AssumptionNotFoundError);
+    });
+  });
+});
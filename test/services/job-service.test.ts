@@ -0,0 +1,92 @@
+import type { DecisionResult } from "../../src/types/decision";
+import type { AnalysisJob, JobContext } from "../../src/types/job";
+import { describe, expect, it } from "vitest";
+import { cancelAnalysisJob, getAnalysisJob, submitAnalysisJob } from "../../src/services/job-service";
+import { createNode } from "../helpers";
+
+const result: DecisionResult = { decisionTree: createNode("root"), insights: [], expectedValue: 0, optimalPath: ["root"] };
+const output = { result, report: "# Report" };
+
+/**
+ * 轮询任务直到满足条件
+ * Poll a job until it matches the predicate
+ *
+ * @param id - 任务ID
+ * @param predicate - 判断条件
+ * @returns 任务
+ */
+async function waitForJob(id: string, predicate: (job: AnalysisJob) => boolean): Promise<AnalysisJob> {
+  for (let i = 0; i < 100; i++) {
+    const job = getAnalysisJob(id)!;
+    if (predicate(job)) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} did not reach the expected state`);
+}
+
+/**
+ * 等待任务结束
+ * Wait until a job has finished
+ *
+ * @param id - 任务ID
+ * @returns 任务
+ */
+function waitUntilFinished(id: string): Promise<AnalysisJob> {
+  return waitForJob(id, job => job.finishedAt !== undefined);
+}
+
+describe("job service", () => {
+  it("runs submitted jobs in the background and records their updates and output", async () => {
+    const job = submitAnalysisJob(async ({ update }) => {
+      update({ stage: "analyzing", sessionId: "session-1" });
+      return output;
+    });
+    expect(job.status).toBe("queued");
+
+    const finished = await waitUntilFinished(job.id);
+    expect(finished).toMatchObject({ status: "succeeded", stage: "analyzing", sessionId: "session-1", ...output });
+  });
+
+  it("records the error of a failed job", async () => {
+    const job = submitAnalysisJob(async () => {
+      throw new Error("model unavailable");
+    });
+
+    expect(await waitUntilFinished(job.id)).toMatchObject({ status: "failed", error: "model unavailable" });
+  });
+
+  it("aborts running jobs on cancellation and ignores their later output", async () => {
+    let context: JobContext | undefined;
+    let finish!: () => void;
+    const job = submitAnalysisJob(async (ctx) => {
+      context = ctx;
+      await new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+      ctx.update({ stage: "reporting" });
+      return output;
+    });
+    await waitForJob(job.id, current => current.status === "running");
+
+    expect(cancelAnalysisJob(job.id)?.status).toBe("cancelled");
+    expect(context?.signal.aborted).toBe(true);
+
+    finish();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const cancelled = getAnalysisJob(job.id)!;
+    expect(cancelled.status).toBe("cancelled");
+    expect(cancelled.stage).toBeUndefined();
+    expect(cancelled.result).toBeUndefined();
+  });
+
+  it("leaves finished jobs unchanged and returns null for unknown jobs", async () => {
+    const job = submitAnalysisJob(async () => output);
+    await waitUntilFinished(job.id);
+
+    expect(cancelAnalysisJob(job.id)?.status).toBe("succeeded");
+    expect(cancelAnalysisJob("missing")).toBeNull();
+    expect(getAnalysisJob("missing")).toBeNull();
+  });
+});
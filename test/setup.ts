@@ -0,0 +1,3 @@
+import { LogLevel, setLogLevel } from "../src/utils/logger";
+
+setLogLevel(LogLevel.ERROR);
@@ -0,0 +1,142 @@
+import type { SessionRepository } from "../../src/storage";
+import type { NewDecisionSession } from "../../src/types/session";
+import * as path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  FileSessionRepository,
+  isSqliteSupported,
+  SessionNotFoundError,
+  SqliteSessionRepository,
+} from "../../src/storage";
+import { createNode, createTempDirectory } from "../helpers";
+
+const MISSING_ID = "00000000-0000-4000-8000-000000000000";
+
+/**
+ * 构建新会话内容
+ * Build the content of a new session
+ *
+ * @param problem - 决策问题
+ * @returns 会话内容
+ */
+function newSession(problem: string): NewDecisionSession {
+  return { problem, followUp: [], parameters: { depth: 1, breadth: 2 }, modelId: "mock" };
+}
+
+/**
+ * 所有会话存储实现都必须满足的行为
+ * Behavior every session repository implementation must satisfy
+ *
+ * @param createRepository - 在临时目录中创建存储
+ */
+function describeRepositoryContract(createRepository: (directory: string) => SessionRepository) {
+  let repository: SessionRepository;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * 在新的临时目录中创建存储
+   * Create a repository in a fresh temporary directory
+   */
+  async function setup() {
+    repository = createRepository(await createTempDirectory());
+  }
+
+  it("creates, reads and updates sessions", async () => {
+    await setup();
+    const created = await repository.create(newSession("Move abroad?"));
+
+    expect(created.id).toBeTruthy();
+    expect(created.createdAt).toBe(created.updatedAt);
+    expect(await repository.get(created.id)).toEqual(created);
+
+    const result = { decisionTree: createNode("root"), insights: [], expectedValue: 1, optimalPath: ["root"] };
+    const updated = await repository.update(created.id, { result, report: "# Report" });
+
+    expect(updated).toMatchObject({ id: created.id, problem: "Move abroad?", result, report: "# Report", createdAt: created.createdAt });
+    expect(await repository.get(created.id)).toEqual(updated);
+  });
+
+  it("lists sessions newest first with paging and result flags", async () => {
+    await setup();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const first = await repository.create(newSession("first"));
+    vi.setSystemTime(new Date("2026-01-02T00:00:00Z"));
+    const second = await repository.create(newSession("second"));
+    vi.setSystemTime(new Date("2026-01-03T00:00:00Z"));
+    const third = await repository.create(newSession("third"));
+    await repository.update(second.id, { report: "# Report" });
+
+    const sessions = await repository.list();
+    expect(sessions.map(session => session.id)).toEqual([third.id, second.id, first.id]);
+    expect(sessions[1]).toMatchObject({ problem: "second", modelId: "mock", hasResult: false, hasReport: true });
+    expect(sessions[1]).not.toHaveProperty("followUp");
+    expect((await repository.list({ limit: 1, offset: 1 })).map(session => session.id)).toEqual([second.id]);
+  });
+
+  it("keeps every field of concurrent updates to the same session", async () => {
+    await setup();
+    const created = await repository.create(newSession("Concurrent"));
+
+    await Promise.all([
+      repository.update(created.id, { report: "# Report" }),
+      repository.update(created.id, { modelId: "other" }),
+      repository.update(created.id, { followUp: [{ question: "Budget?", answer: "10k" }] }),
+      repository.update(created.id, { parameters: { depth: 2, breadth: 3 } }),
+    ]);
+
+    expect(await repository.get(created.id)).toMatchObject({
+      report: "# Report",
+      modelId: "other",
+      followUp: [{ question: "Budget?", answer: "10k" }],
+      parameters: { depth: 2, breadth: 3 },
+    });
+  });
+
+  it("does not bring back a session deleted while an update is pending", async () => {
+    await setup();
+    const created = await repository.create(newSession("Short-lived"));
+
+    const [, deleted] = await Promise.all([repository.update(created.id, { report: "# Report" }), repository.delete(created.id)]);
+
+    expect(deleted).toBe(true);
+    expect(await repository.get(created.id)).toBeNull();
+  });
+
+  it("deletes sessions and handles unknown ids", async () => {
+    await setup();
+    const created = await repository.create(newSession("Delete me"));
+
+    expect(await repository.delete(created.id)).toBe(true);
+    expect(await repository.get(created.id)).toBeNull();
+    expect(await repository.delete(created.id)).toBe(false);
+    expect(await repository.get(MISSING_ID)).toBeNull();
+    await expect(repository.update(MISSING_ID, { report: "x" })).rejects.toThrow(SessionNotFoundError);
+    expect(await repository.list()).toEqual([]);
+  });
+}
+
+describe("file session repository", () => {
+  describeRepositoryContract(directory => new FileSessionRepository(path.join(directory, "sessions")));
+
+  it("treats ids that are not UUIDs as missing", async () => {
+    const repository = new FileSessionRepository(await createTempDirectory());
+
+    expect(await repository.get("../secrets")).toBeNull();
+    expect(await repository.delete("../secrets")).toBe(false);
+    await expect(repository.update("../secrets", { report: "x" })).rejects.toThrow(SessionNotFoundError);
+  });
+});
+
+describe.skipIf(!isSqliteSupported())("sqlite session repository", () => {
+  describeRepositoryContract(directory => new SqliteSessionRepository(path.join(directory, "db", "sessions.db")));
+});
+
+describe.skipIf(isSqliteSupported())("sqlite session repository on an unsupported runtime", () => {
+  it("refuses to start with a clear error", () => {
+    expect(() => new SqliteSessionRepository("sessions.db")).toThrow("STORAGE_TYPE=sqlite requires Node.js 22.5+");
+  });
+});
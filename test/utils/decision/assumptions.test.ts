@@ -0,0 +1,93 @@
+import type { DecisionNode } from "../../../src/types/decision";
+import { describe, expect, it } from "vitest";
+import {
+  buildAssumptionRegister,
+  flagFalseAssumptions,
+  formatAssumptionSection,
+  getAssumptionId,
+  toNodeReasoning,
+} from "../../../src/utils/decision/assumptions";
+import { toMermaid } from "../../../src/utils/export/mermaid";
+
+/**
+ * 创建节点
+ * Create a node
+ *
+ * @param id - 节点ID
+ * @param assumptions - 节点的假设
+ * @param children - 子节点
+ * @returns 节点
+ */
+function node(id: string, assumptions: string[] = [], children: DecisionNode[] = []): DecisionNode {
+  return { id, description: id, type: "outcome", parentId: null, children, ...(assumptions.length > 0 && { assumptions }) };
+}
+
+/**
+ * 创建决策树
+ * Create a decision tree
+ *
+ * @returns 决策树
+ */
+function tree(): DecisionNode {
+  return node("root", [], [
+    node("rebuild", ["The team stays the same size."], [
+      node("late", ["Requirements keep changing"]),
+      node("on-time"),
+    ]),
+    node("buy", ["the team stays  the same size"], [node("smooth")]),
+  ]);
+}
+
+describe("assumptions", () => {
+  it("gives the same assumption the same ID regardless of case, spacing and trailing punctuation", () => {
+    expect(getAssumptionId("The team stays the same size.")).toBe(getAssumptionId("the team stays  the same size"));
+    expect(getAssumptionId("The team grows")).not.toBe(getAssumptionId("The team stays the same size"));
+  });
+
+  it("drops blank rationale, assumptions and evidence generated by the model", () => {
+    expect(toNodeReasoning({
+      rationale: " Based on last year's numbers. ",
+      assumptions: ["Prices stay flat", " "],
+      evidence: [{ claim: "Revenue grew 12%", source: " " }, { claim: "" }],
+    })).toEqual({
+      rationale: "Based on last year's numbers.",
+      assumptions: ["Prices stay flat"],
+      evidence: [{ claim: "Revenue grew 12%" }],
+    });
+    expect(toNodeReasoning({ rationale: "", assumptions: [], evidence: [] })).toEqual({});
+  });
+
+  it("merges the same assumption across nodes and flags the subtrees of a false one", () => {
+    const decisionTree = tree();
+    const register = buildAssumptionRegister(decisionTree);
+
+    expect(register.assumptions.map(entry => [entry.text, entry.nodes.map(ref => ref.id), entry.status])).toEqual([
+      ["The team stays the same size.", ["rebuild", "buy"], "open"],
+      ["Requirements keep changing", ["late"], "open"],
+    ]);
+
+    const teamSize = register.assumptions[0]!.id;
+    expect(flagFalseAssumptions(decisionTree, [teamSize])).toBe(5);
+    expect(decisionTree.invalidatedBy).toBeUndefined();
+    expect(decisionTree.children[0]?.children[1]?.invalidatedBy).toEqual([teamSize]);
+
+    const flagged = buildAssumptionRegister(decisionTree);
+    expect(flagged.flaggedNodes).toBe(5);
+    expect(flagged.assumptions[0]).toMatchObject({ status: "false", affectedNodes: 5 });
+    expect(toMermaid(decisionTree)).toContain("classDef invalidated");
+
+    expect(flagFalseAssumptions(decisionTree, [])).toBe(0);
+    expect(decisionTree.children[0]?.invalidatedBy).toBeUndefined();
+  });
+
+  it("renders the register with the false assumptions struck through", () => {
+    const decisionTree = tree();
+    flagFalseAssumptions(decisionTree, [getAssumptionId("Requirements keep changing")]);
+    const markdown = formatAssumptionSection(buildAssumptionRegister(decisionTree));
+
+    expect(markdown).toMatch(/^## Assumptions Register\n/);
+    expect(markdown).toContain("- The team stays the same size. – stated by *rebuild*, *buy*");
+    expect(markdown).toContain("- ~~Requirements keep changing~~ **(marked false, 1 node(s) affected)** – stated by *late*");
+    expect(markdown).toContain("1 node(s) depend on an assumption marked false");
+  });
+});
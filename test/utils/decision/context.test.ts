@@ -0,0 +1,108 @@
+import type { DecisionNode } from "../../../src/types/decision";
+import { describe, expect, it } from "vitest";
+import { buildPathPrompt, buildTreePrompt, summarizeSubtree } from "../../../src/utils/decision/context";
+import { createNode } from "../../helpers";
+
+/**
+ * 创建每个节点有 breadth 个子节点、深度为 depth 的决策树
+ * Create a decision tree of the given depth where every node has `breadth` children
+ *
+ * @param depth - 深度
+ * @param breadth - 广度
+ * @param id - 节点ID
+ * @returns 决策树
+ */
+function tree(depth: number, breadth: number, id = "root"): DecisionNode {
+  const children = depth === 0
+    ? []
+    : Array.from({ length: breadth }, (_, i) => tree(depth - 1, breadth, `${id}.${i}`));
+  return createNode(id, {
+    description: `Node ${id}`,
+    type: id === "root" ? "decision" : "outcome",
+    probability: id === "root" ? undefined : Math.round(100 / breadth),
+    expectedValue: children.length === 0 ? Number(id.length) : undefined,
+  }, children);
+}
+
+// 以字符数作为令牌数
+const countTokens = (text: string) => text.length;
+const render = (text: string) => `<problem>Should I move?</problem><tree>${text}</tree><instructions>Answer.</instructions>`;
+
+describe("decision tree context", () => {
+  it("keeps the full tree when it fits the budget", () => {
+    const decisionTree = tree(2, 2);
+    const built = buildTreePrompt(render, decisionTree, { budget: 100_000, countTokens });
+
+    expect(built.level).toBe("full");
+    expect(built.fits).toBe(true);
+    expect(built.omittedNodes).toBe(0);
+    expect(built.prompt).toContain(JSON.stringify(decisionTree, null, 2));
+  });
+
+  it("compresses the tree while keeping the problem, instructions and top-level options", () => {
+    const decisionTree = tree(4, 3);
+    const full = buildTreePrompt(render, decisionTree, { budget: 100_000_000, countTokens });
+    const budget = Math.floor(full.prompt.length / 10);
+    const built = buildTreePrompt(render, decisionTree, { budget, countTokens });
+
+    expect(built.fits).toBe(true);
+    expect(built.level).toBe("summarized");
+    expect(built.omittedNodes).toBeGreaterThan(0);
+    expect(built.prompt.startsWith("<problem>Should I move?</problem>")).toBe(true);
+    expect(built.prompt.endsWith("<instructions>Answer.</instructions>")).toBe(true);
+    for (const option of decisionTree.children) {
+      expect(built.prompt).toContain(option.description);
+    }
+  });
+
+  it("drops unlikely leaves before summarizing subtrees", () => {
+    const decisionTree = createNode("root", { type: "decision" }, [
+      createNode("a", { type: "decision" }, [
+        createNode("a.likely", { probability: 97, description: "x".repeat(200) }),
+        createNode("a.unlikely", { probability: 3, description: "y".repeat(200) }),
+      ]),
+    ]);
+    // 两个长描述放不下，只保留一个时可以放下
+    const built = buildTreePrompt(render, decisionTree, { budget: 600, countTokens });
+
+    expect(built.level).toBe("pruned");
+    expect(built.omittedNodes).toBe(1);
+    expect(built.prompt).toContain("x".repeat(200));
+    expect(built.prompt).not.toContain("y".repeat(200));
+    expect(built.prompt).toContain("1 unlikely outcome(s) with a combined probability of 3%");
+  });
+
+  it("reports when even the most compressed tree does not fit", () => {
+    const built = buildTreePrompt(render, tree(3, 3), { budget: 10, countTokens });
+
+    expect(built.fits).toBe(false);
+    expect(built.level).toBe("summarized");
+  });
+
+  it("summarizes a subtree with its size, value range and best next step", () => {
+    const subtree = createNode("a", { type: "decision" }, [
+      createNode("a.0", { probability: 40, expectedValue: 10 }),
+      createNode("a.1", { probability: 60, expectedValue: -5, description: "Stay" }),
+    ]);
+
+    expect(summarizeSubtree(subtree)).toBe("2 descendant nodes omitted (2 leaves); leaf expected values -5 to 10; most likely next: Stay (60%)");
+  });
+});
+
+describe("decision path context", () => {
+  const steps = ["Move", "Rent first", "Find friends", "Adapt", "Settle"];
+
+  it("keeps the whole path when it fits", () => {
+    const built = buildPathPrompt(path => `[${path}]`, steps, { budget: 1000, countTokens });
+
+    expect(built).toEqual({ prompt: `[${steps.join(" → ")}]`, fits: true });
+  });
+
+  it("keeps the first and the most recent steps when the path is too long", () => {
+    const budget = `[Move → … (3 step(s) omitted) … → Settle]`.length;
+    const built = buildPathPrompt(path => `[${path}]`, steps, { budget, countTokens });
+
+    expect(built.fits).toBe(true);
+    expect(built.prompt).toBe("[Move → … (3 step(s) omitted) … → Settle]");
+  });
+});
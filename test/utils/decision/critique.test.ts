@@ -0,0 +1,74 @@
+import type { DecisionNode } from "../../../src/types/decision";
+import { describe, expect, it } from "vitest";
+import { formatCritiqueSection, linkCritiqueItems, selectReexpansionTargets } from "../../../src/utils/decision/critique";
+
+/**
+ * 创建节点
+ * Create a node
+ *
+ * @param id - 节点ID
+ * @param description - 节点描述
+ * @param children - 子节点
+ * @returns 节点
+ */
+function node(id: string, description: string, children: DecisionNode[] = []): DecisionNode {
+  return { id, description, type: "outcome", parentId: null, children };
+}
+
+const tree = node("root", "Should we rebuild the billing system?", [
+  node("rebuild", "Rebuild billing in-house", [
+    node("rebuild-late", "The rebuild ships six months late"),
+    node("rebuild-ok", "The rebuild ships on time"),
+  ]),
+  node("buy", "Buy a billing platform", [node("buy-ok", "The migration goes smoothly")]),
+]);
+
+describe("decision critique", () => {
+  it("links issues to nodes by exact or similar description and sorts them by severity", () => {
+    const items = linkCritiqueItems(tree, [
+      { category: "missing-option", severity: "low", node: "Something else entirely", issue: "No hybrid option", suggestion: "" },
+      { category: "unrealistic-outcome", severity: "high", node: "the rebuild ships on time.", issue: "Too likely", suggestion: "Lower it" },
+      { category: "anchoring", severity: "medium", node: "Buy a billing platform now", issue: "Anchored", suggestion: "" },
+    ]);
+
+    expect(items.map(item => [item.severity, item.nodeId])).toEqual([
+      ["high", "rebuild-ok"],
+      ["medium", "buy"],
+      ["low", "root"],
+    ]);
+    expect(items[0]?.description).toBe("The rebuild ships on time");
+  });
+
+  it("re-expands the parent of a flagged leaf and skips low severity, root and nested issues", () => {
+    const items = linkCritiqueItems(tree, [
+      { category: "unrealistic-outcome", severity: "high", node: "The rebuild ships on time", issue: "", suggestion: "" },
+      { category: "anchoring", severity: "medium", node: "Rebuild billing in-house", issue: "", suggestion: "" },
+      { category: "missing-option", severity: "high", node: "Should we rebuild the billing system?", issue: "", suggestion: "" },
+      { category: "overconfident-probability", severity: "low", node: "Buy a billing platform", issue: "", suggestion: "" },
+    ]);
+
+    expect(selectReexpansionTargets(tree, items, 3).map(target => target.id)).toEqual(["rebuild"]);
+    expect(selectReexpansionTargets(tree, items, 0)).toEqual([]);
+  });
+
+  it("renders the issues and the re-expanded nodes", () => {
+    const markdown = formatCritiqueSection({
+      mode: "reexpand",
+      items: [{
+        category: "unrealistic-outcome",
+        severity: "high",
+        nodeId: "rebuild-ok",
+        description: "The rebuild ships on time",
+        issue: "Too likely.",
+        suggestion: "Lower it.",
+        reexpanded: true,
+      }],
+      reexpanded: ["rebuild"],
+    });
+
+    expect(markdown).toMatch(/^## Critique and Bias Audit\n/);
+    expect(markdown).toContain("- **[high] Unrealistic outcome** – *The rebuild ships on time* (re-expanded): Too likely. Suggestion: Lower it.");
+    expect(markdown).toContain("1 flagged node(s) were re-expanded");
+    expect(formatCritiqueSection({ mode: "review", items: [], reexpanded: [] })).toContain("The review found no issues.");
+  });
+});
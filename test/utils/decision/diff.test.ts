@@ -0,0 +1,99 @@
+import type { DecisionNode } from "../../../src/types/decision";
+import { describe, expect, it } from "vitest";
+import { descriptionSimilarity, diffDecisionAnalyses, formatDecisionDiff } from "../../../src/utils/decision/diff";
+import { createNode } from "../../helpers";
+
+/**
+ * 创建换工作决策的决策树，节点ID带有前缀以模拟重新生成的ID
+ * Create the decision tree of a job change, with prefixed node IDs to mimic freshly generated IDs
+ *
+ * @param prefix - 节点ID前缀
+ * @param options - 选项子节点
+ * @returns 决策树
+ */
+function tree(prefix: string, options: DecisionNode[]): DecisionNode {
+  return createNode(`${prefix}-root`, { description: "Should I change jobs?", type: "decision", expectedValue: 2 }, options);
+}
+
+describe("decision diff", () => {
+  it("scores similar descriptions higher than unrelated ones, including Chinese text", () => {
+    expect(descriptionSimilarity("Join the startup", "Join the startup")).toBe(1);
+    expect(descriptionSimilarity("Join the startup.", "join the Startup")).toBe(1);
+    expect(descriptionSimilarity("Join the startup", "Join a startup")).toBeGreaterThan(0.5);
+    expect(descriptionSimilarity("Join the startup", "Stay at the bank")).toBeLessThan(0.5);
+    expect(descriptionSimilarity("加入初创公司", "加入一家初创公司")).toBeGreaterThan(0.5);
+    expect(descriptionSimilarity("加入初创公司", "留在银行")).toBe(0);
+  });
+
+  it("matches nodes across runs by description and reports added, removed and changed options", () => {
+    const before = tree("a", [
+      createNode("a-1", { description: "Join the startup", type: "chance", expectedValue: 2, optimal: true }, [
+        createNode("a-2", { description: "The startup succeeds", probability: 40, risk: 3, opportunity: 9 }),
+        createNode("a-3", { description: "The startup fails", probability: 60, risk: 8, opportunity: 2 }),
+      ]),
+      createNode("a-4", { description: "Stay at the bank", risk: 2, opportunity: 3, expectedValue: 1 }),
+      createNode("a-5", { description: "Go back to school", risk: 5, opportunity: 5 }, [createNode("a-6", { description: "Study abroad" })]),
+    ]);
+    const after = tree("b", [
+      createNode("b-4", { description: "Stay at the bank", risk: 2, opportunity: 3, expectedValue: 1 }),
+      createNode("b-1", { description: "Join a startup", type: "chance", expectedValue: 0.5 }, [
+        createNode("b-2", { description: "The startup succeeds", probability: 25, risk: 3, opportunity: 9 }),
+        createNode("b-3", { description: "The startup fails", probability: 75, risk: 8, opportunity: 2 }),
+        createNode("b-7", { description: "The startup is acquired", probability: 0, risk: 2, opportunity: 6 }),
+      ]),
+      createNode("b-8", { description: "Freelance", risk: 4, opportunity: 7, expectedValue: 3, optimal: true }),
+    ]);
+
+    const diff = diffDecisionAnalyses({ decisionTree: before }, { decisionTree: after });
+
+    expect(diff.options.added.map(ref => ref.description)).toEqual(["Freelance"]);
+    expect(diff.options.removed).toEqual([{ id: "a-5", description: "Go back to school", path: ["Go back to school"], descendants: 1 }]);
+    expect(diff.options.unchanged).toBe(1);
+    expect(diff.options.changed).toHaveLength(1);
+    expect(diff.options.changed[0]).toMatchObject({ before: { id: "a-1" }, after: { id: "b-1" } });
+    expect(diff.options.changed[0]!.changes).toEqual([
+      { field: "description", before: "Join the startup", after: "Join a startup" },
+      { field: "expectedValue", before: 2, after: 0.5, delta: -1.5 },
+    ]);
+
+    expect(diff.nodes.added.map(ref => ref.path)).toEqual([["Join a startup", "The startup is acquired"]]);
+    expect(diff.nodes.changed.map(change => change.changes)).toEqual([
+      [{ field: "probability", before: 40, after: 25, delta: -15 }],
+      [{ field: "probability", before: 60, after: 75, delta: 15 }],
+    ]);
+    expect(diff.preferredOption).toMatchObject({ before: { id: "a-1" }, after: { id: "b-8" }, changed: true });
+    expect(diff.expectedValue).toEqual({ before: 2, after: 2, delta: 0 });
+  });
+
+  it("reports changed insights and renders the diff as markdown", () => {
+    const options = [createNode("x", { description: "Join the startup", risk: 3, opportunity: 8, optimal: true })];
+    const diff = diffDecisionAnalyses(
+      { decisionTree: tree("a", options), insights: ["The startup carries a high risk of failure.", "Salary matters most.", "Keep an emergency fund."] },
+      { decisionTree: tree("b", options), insights: ["The startup carries a high risk of failing.", "Keep an emergency fund.", "Talk to former employees first."] },
+    );
+
+    expect(diff.insights).toEqual({
+      added: ["Talk to former employees first."],
+      removed: ["Salary matters most."],
+      changed: [{ before: "The startup carries a high risk of failure.", after: "The startup carries a high risk of failing.", similarity: expect.any(Number) }],
+      unchanged: 1,
+    });
+    expect(diff.preferredOption.changed).toBe(false);
+
+    const markdown = formatDecisionDiff(diff);
+    expect(markdown).toContain("# Decision Analysis Diff");
+    expect(markdown).toContain("- Preferred option unchanged: Join the startup");
+    expect(markdown).toContain("- Talk to former employees first.");
+    expect(markdown).toContain("1 matched without changes.");
+    expect(markdown).toContain("No changes (1 matched).");
+  });
+
+  it("renders field changes as a table", () => {
+    const markdown = formatDecisionDiff(diffDecisionAnalyses(
+      { decisionTree: tree("a", [createNode("x", { description: "Join the startup", risk: 3 })]) },
+      { decisionTree: tree("b", [createNode("y", { description: "Join the startup", risk: 6 })]) },
+    ));
+
+    expect(markdown).toContain("| Join the startup | risk | 3 | 6 | +3 |");
+  });
+});
@@ -0,0 +1,120 @@
+import type { EstimateInput } from "../../../src/utils/decision/estimate";
+import { describe, expect, it } from "vitest";
+import { estimateAnalysis, estimateTreeEdit, findExceededLimits } from "../../../src/utils/decision/estimate";
+
+/**
+ * 创建预估参数
+ * Create estimate input
+ *
+ * @param overrides - 覆盖的参数
+ * @returns 预估参数
+ */
+function input(overrides: Partial<EstimateInput> = {}): EstimateInput {
+  return {
+    depth: 3,
+    breadth: 3,
+    strategy: "uniform",
+    budget: 20,
+    criteriaCount: 0,
+    stakeholderCount: 0,
+    critique: "off",
+    maxReexpansions: 3,
+    repair: "normalize",
+    baseTokens: 500,
+    contextSize: 128_000,
+    modelIds: {},
+    prices: {},
+    concurrency: 4,
+    requestsPerMinute: 0,
+    tokensPerMinute: 0,
+    callLatencyMs: 1000,
+    tokensPerSecond: 50,
+    ceiling: { maxCalls: 0, maxTokens: 0, maxCost: 0 },
+    ...overrides,
+  };
+}
+
+describe("analysis estimate", () => {
+  it("counts the calls and nodes of a uniform expansion", () => {
+    const estimate = estimateAnalysis(input());
+
+    // 3 + 9 expansions, plus the initial options, insights, and the report sections of 3 options and their summary
+    expect(estimate.byStage.expansion?.calls).toBe(12);
+    expect(estimate.byStage.report?.calls).toBe(4);
+    expect(estimate.calls).toBe(18);
+    expect(estimate.nodes).toBe(1 + 3 + 9 + 27);
+    expect(estimate.byStage.repair).toBeUndefined();
+    expect(estimate.cost).toBeUndefined();
+    expect(estimate.totalTokens).toBe(estimate.promptTokens + estimate.completionTokens);
+  });
+
+  it("caps best-first expansion at the budget and counts repair calls in reprompt mode", () => {
+    const estimate = estimateAnalysis(input({ depth: 4, strategy: "best-first", budget: 5, repair: "reprompt" }));
+
+    expect(estimate.byStage.expansion?.calls).toBe(5);
+    expect(estimate.byStage.repair?.calls).toBe(5);
+    expect(estimate.calls).toBe(16);
+  });
+
+  it("adds one scoring call per stakeholder", () => {
+    const estimate = estimateAnalysis(input({ stakeholderCount: 3 }));
+
+    expect(estimate.byStage.stakeholders?.calls).toBe(3);
+    expect(estimate.calls).toBe(21);
+  });
+
+  it("adds the critique call and counts the re-expanded options in reexpand mode", () => {
+    expect(estimateAnalysis(input({ critique: "review" })).calls).toBe(19);
+
+    const estimate = estimateAnalysis(input({ critique: "reexpand", maxReexpansions: 2 }));
+    // 2 options re-expanded to their height of 2: 2 + 2 * 3 more expansions, and the insights extracted again
+    expect(estimate.byStage.expansion?.calls).toBe(12 + 8);
+    expect(estimate.byStage.insights?.calls).toBe(2);
+    expect(estimate.calls).toBe(18 + 1 + 8 + 1);
+    expect(estimate.nodes).toBe(1 + 3 + 9 + 27);
+  });
+
+  it("prices every stage with its own model", () => {
+    const estimate = estimateAnalysis(input({
+      modelIds: { "initial-tree": "cheap", "expansion": "cheap", "insights": "cheap", "report": "strong" },
+      prices: { cheap: { input: 0.1, output: 0.4 }, strong: { input: 10, output: 40 } },
+    }));
+
+    expect(estimate.byStage.report!.cost!).toBeGreaterThan(estimate.byStage.expansion!.cost!);
+    expect(estimate.cost).toBeCloseTo(Object.values(estimate.byStage).reduce((acc, stage) => acc + (stage.cost ?? 0), 0), 4);
+  });
+
+  it("slows down under a requests-per-minute budget", () => {
+    const unlimited = estimateAnalysis(input());
+    const limited = estimateAnalysis(input({ requestsPerMinute: 3 }));
+
+    expect(limited.wallTimeMs).toBe(6 * 60_000);
+    expect(limited.wallTimeMs).toBeGreaterThan(unlimited.wallTimeMs);
+  });
+
+  it("reports exceeded ceilings", () => {
+    const estimate = estimateAnalysis(input({ ceiling: { maxCalls: 10, maxTokens: 0, maxCost: 0 } }));
+    expect(estimate.exceeded).toEqual(["18 LLM calls exceed the limit of 10"]);
+
+    expect(findExceededLimits({ calls: 1, totalTokens: 5000, cost: 2 }, { maxCalls: 0, maxTokens: 1000, maxCost: 1 })).toHaveLength(2);
+    expect(findExceededLimits({ calls: 1, totalTokens: 5000 }, { maxCalls: 0, maxTokens: 0, maxCost: 1 })).toHaveLength(0);
+  });
+
+  it("estimates expanding the leaves of a stored tree and checks it against the ceiling", () => {
+    const { depth, strategy, budget, stakeholderCount, critique, maxReexpansions, ...settings } = input({
+      repair: "reprompt",
+      ceiling: { maxCalls: 20, maxTokens: 0, maxCost: 0 },
+    });
+    const estimate = estimateTreeEdit({ ...settings, leaves: 2, levels: 2, pathLength: 3 });
+
+    // 2 leaves, then the 6 nodes generated below them, each with a repair call
+    expect(estimate.byStage.expansion?.calls).toBe(8);
+    expect(estimate.byStage.repair?.calls).toBe(8);
+    expect(estimate.nodes).toBe(24);
+    expect(estimate.exceeded).toEqual([]);
+
+    const refused = estimateTreeEdit({ ...settings, leaves: 2, levels: 3, pathLength: 3 });
+    expect(refused.calls).toBe(52);
+    expect(refused.exceeded).toEqual(["52 LLM calls exceed the limit of 20"]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { getChildWeights, NEUTRAL_SCORE, rollupDecisionTree, scoreNode } from "../../../src/utils/decision/expected-value";
+import { createNode } from "../../helpers";
+
+describe("expected value rollup", () => {
+  it("scores leaves as opportunity minus risk, with a neutral value for missing assessments", () => {
+    expect(scoreNode(createNode("leaf", { risk: 2, opportunity: 9 }))).toBe(7);
+    expect(scoreNode(createNode("leaf", { risk: NEUTRAL_SCORE + 1 }))).toBe(-1);
+    expect(scoreNode(createNode("leaf"))).toBe(0);
+  });
+
+  it("rescales probabilities that do not sum to 100 and shares the rest between missing ones", () => {
+    const offTotal = createNode("chance", { type: "chance" }, [
+      createNode("a", { probability: 30 }),
+      createNode("b", { probability: 30 }),
+    ]);
+    expect(getChildWeights(offTotal)).toEqual([0.5, 0.5]);
+
+    const missing = createNode("chance", { type: "chance" }, [
+      createNode("a", { probability: 60 }),
+      createNode("b"),
+      createNode("c"),
+    ]);
+    expect(getChildWeights(missing)).toEqual([0.6, 0.2, 0.2]);
+
+    const zero = createNode("chance", { type: "chance" }, [createNode("a", { probability: 0 }), createNode("b", { probability: -5 })]);
+    expect(getChildWeights(zero)).toEqual([0.5, 0.5]);
+  });
+
+  it("weighs follow-up decisions below a chance node alongside its outcomes", () => {
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("stay", { risk: 5, opportunity: 5 }),
+      createNode("move", { type: "chance" }, [
+        createNode("win", { probability: 60, risk: 1, opportunity: 9 }),
+        createNode("lose", { probability: 40, risk: 9, opportunity: 1 }),
+        createNode("renegotiate", { type: "decision" }, [
+          createNode("accept", { risk: 1, opportunity: 10 }),
+          createNode("decline", { risk: 5, opportunity: 5 }),
+        ]),
+      ]),
+    ]);
+    const [w1, w2, w3] = getChildWeights(tree.children[1]!);
+
+    // 决策子节点占 1/3，结果子节点按 60:40 分配剩余的 2/3
+    expect(w1).toBeCloseTo(0.4);
+    expect(w2).toBeCloseTo(0.2667, 4);
+    expect(w3).toBeCloseTo(1 / 3);
+
+    const { expectedValue, optimalPath } = rollupDecisionTree(tree);
+    expect(expectedValue).toBe(4.07);
+    expect(optimalPath).toEqual(["root", "move", "win"]);
+    expect(tree.children[1]!.children[2]).toMatchObject({ expectedValue: 9 });
+  });
+
+  it("gives no weights to a node without children and rolls up a lone leaf to its own score", () => {
+    const leaf = createNode("root", { risk: 3, opportunity: 8 });
+    expect(getChildWeights(leaf)).toEqual([]);
+    expect(rollupDecisionTree(leaf)).toEqual({ expectedValue: 5, optimalPath: ["root"] });
+    expect(leaf).toMatchObject({ expectedValue: 5, optimal: true });
+  });
+
+  it("takes the best option at decision nodes and follows the most likely outcome on the optimal path", () => {
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("safe", { risk: 2, opportunity: 4 }),
+      createNode("bold", { type: "chance" }, [
+        createNode("win", { probability: 40, risk: 1, opportunity: 10 }),
+        createNode("lose", { probability: 60, risk: 6, opportunity: 7 }),
+      ]),
+    ]);
+
+    const { expectedValue, optimalPath } = rollupDecisionTree(tree);
+
+    // bold: 0.4 × 9 + 0.6 × 1 = 4.2 > safe: 2
+    expect(expectedValue).toBe(4.2);
+    expect(optimalPath).toEqual(["root", "bold", "lose"]);
+    expect(tree.children[0]).toMatchObject({ expectedValue: 2 });
+    expect(tree.children[0]!.optimal).toBeUndefined();
+  });
+
+  it("clears the optimal markers of an earlier rollup and accepts a custom scorer", () => {
+    const tree = createNode("root", { type: "decision" }, [createNode("a", { risk: 1, opportunity: 9 }), createNode("b")]);
+    rollupDecisionTree(tree);
+    expect(tree.children[0]!.optimal).toBe(true);
+
+    const { optimalPath } = rollupDecisionTree(tree, { scorer: node => (node.id === "b" ? 1 : 0) });
+    expect(optimalPath).toEqual(["root", "b"]);
+    expect(tree.children[0]!.optimal).toBeUndefined();
+  });
+});
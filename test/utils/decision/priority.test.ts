@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { rankFrontier, scoreExpansionPriority } from "../../../src/utils/decision/priority";
+import { createNode } from "../../helpers";
+
+describe("expansion priority", () => {
+  it("scores impact by the stakes and uncertainty by how close risk and opportunity are", () => {
+    const balanced = createNode("balanced", { risk: 5, opportunity: 5 });
+    const clear = createNode("clear", { risk: 1, opportunity: 10 });
+
+    expect(scoreExpansionPriority(clear, 1, "impact")).toBe(0.55);
+    expect(scoreExpansionPriority(clear, 0.5)).toBe(0.275);
+    expect(scoreExpansionPriority(balanced, 0.5, "uncertainty")).toBe(0.5);
+    expect(scoreExpansionPriority(clear, 1, "uncertainty")).toBe(0);
+    expect(scoreExpansionPriority(createNode("unknown"), 1, "uncertainty")).toBe(1);
+  });
+
+  it("ranks the frontier by descending priority, weighting only chance outcomes by probability", () => {
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("option", { risk: 3, opportunity: 3 }),
+      createNode("gamble", { type: "chance" }, [
+        createNode("likely", { probability: 80, risk: 5, opportunity: 5 }),
+        createNode("unlikely", { probability: 20, risk: 9, opportunity: 9 }),
+      ]),
+    ]);
+
+    const frontier = rankFrontier(tree, { maxDepth: 3 });
+
+    expect(frontier.map(entry => [entry.node.id, entry.reach, entry.depth])).toEqual([
+      ["likely", 0.8, 2],
+      ["option", 1, 1],
+      ["unlikely", 0.2, 2],
+    ]);
+    expect(frontier[0]!.path.map(node => node.id)).toEqual(["root", "gamble", "likely"]);
+  });
+
+  it("skips leaves at the maximum depth and excluded nodes", () => {
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("a"),
+      createNode("b", { type: "chance" }, [createNode("b1", { probability: 100 })]),
+    ]);
+
+    expect(rankFrontier(tree, { maxDepth: 2 }).map(entry => entry.node.id)).toEqual(["a"]);
+    expect(rankFrontier(tree, { maxDepth: 3, exclude: new Set(["a"]) }).map(entry => entry.node.id)).toEqual(["b1"]);
+  });
+
+  it("returns a lone root as the frontier unless the depth limit is zero", () => {
+    const root = createNode("root");
+
+    expect(rankFrontier(root, { maxDepth: 1 })).toEqual([
+      { node: root, path: [root], depth: 0, reach: 1, priority: 0.55 },
+    ]);
+    expect(rankFrontier(root, { maxDepth: 0 })).toEqual([]);
+  });
+});
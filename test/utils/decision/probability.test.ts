@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  findSiblingProbabilityIssues,
+  normalizeSiblingProbabilities,
+  validateProbabilities,
+} from "../../../src/utils/decision/probability";
+import { createNode } from "../../helpers";
+
+describe("probability validation", () => {
+  it("accepts sums within the tolerance and flags sums outside it", () => {
+    const within = createNode("chance", { type: "chance" }, [createNode("a", { probability: 52 }), createNode("b", { probability: 52 })]);
+    expect(findSiblingProbabilityIssues(within)).toEqual([]);
+
+    const outside = createNode("chance", { type: "chance" }, [createNode("a", { probability: 60 }), createNode("b", { probability: 50 })]);
+    expect(findSiblingProbabilityIssues(outside)).toEqual([
+      { nodeId: "chance", kind: "sum-mismatch", message: "Outcome probabilities sum to 110% instead of 100%" },
+    ]);
+    expect(findSiblingProbabilityIssues(outside, 10)).toEqual([]);
+  });
+
+  it("reports missing, out-of-range and decision probabilities", () => {
+    const node = createNode("root", { type: "decision" }, [
+      createNode("choice", { type: "decision", probability: 50 }),
+      createNode("a", { probability: 120 }),
+      createNode("b"),
+    ]);
+
+    expect(findSiblingProbabilityIssues(node).map(issue => issue.kind)).toEqual([
+      "decision-probability",
+      "out-of-range",
+      "missing-probability",
+    ]);
+  });
+
+  it("has nothing to report for nodes without children", () => {
+    expect(findSiblingProbabilityIssues(createNode("leaf"))).toEqual([]);
+    expect(validateProbabilities(createNode("leaf"))).toEqual([]);
+  });
+
+  it("validates every sibling set of the tree", () => {
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("x", { type: "chance" }, [createNode("x1", { probability: 10 }), createNode("x2", { probability: 10 })]),
+      createNode("y", { type: "chance" }, [createNode("y1", { probability: 70 }), createNode("y2", { probability: 30 })]),
+    ]);
+
+    expect(validateProbabilities(tree).map(issue => issue.nodeId)).toEqual(["x"]);
+  });
+});
+
+describe("probability normalization", () => {
+  it("rescales sibling probabilities and their ranges to sum to 100", () => {
+    const node = createNode("chance", { type: "chance" }, [
+      createNode("a", { probability: 60, probabilityRange: { min: 40, likely: 60, max: 80 } }),
+      createNode("b", { probability: 60 }),
+    ]);
+
+    expect(normalizeSiblingProbabilities(node)).toBe(true);
+    expect(node.children.map(child => child.probability)).toEqual([50, 50]);
+    expect(node.children[0]!.probabilityRange).toEqual({ min: 33.33, likely: 50, max: 66.67 });
+  });
+
+  it("clamps, fills missing probabilities and drops those of decision children", () => {
+    const node = createNode("root", { type: "decision" }, [
+      createNode("choice", { type: "decision", probability: 30 }),
+      createNode("a", { probability: 150 }),
+      createNode("b"),
+    ]);
+
+    expect(normalizeSiblingProbabilities(node)).toBe(true);
+    expect(node.children.map(child => child.probability)).toEqual([undefined, 100, 0]);
+  });
+
+  it("splits evenly when every probability is zero", () => {
+    const node = createNode("chance", { type: "chance" }, [
+      createNode("a", { probability: 0 }),
+      createNode("b", { probability: 0 }),
+      createNode("c", { probability: 0 }),
+    ]);
+
+    normalizeSiblingProbabilities(node);
+    expect(node.children.map(child => child.probability)).toEqual([33.33, 33.33, 33.33]);
+  });
+
+  it("leaves consistent sets and nodes without children unchanged", () => {
+    const node = createNode("chance", { type: "chance" }, [createNode("a", { probability: 25 }), createNode("b", { probability: 75 })]);
+    expect(normalizeSiblingProbabilities(node)).toBe(false);
+    expect(normalizeSiblingProbabilities(createNode("leaf"))).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import type { DecisionNode } from "../../../src/types/decision";
+import { describe, expect, it } from "vitest";
+import { normalizeCriteria } from "../../../src/utils/decision/criteria";
+import { analyzeSensitivity, formatSensitivitySection } from "../../../src/utils/decision/sensitivity";
+import { createNode } from "../../helpers";
+
+/**
+ * 接受新工作（期望值 0.5）还是留下（期望值 0）
+ * Take the offer (expected value 0.5) or stay (expected value 0)
+ *
+ * @returns 决策树
+ */
+function offerTree(): DecisionNode {
+  return createNode("root", { type: "decision" }, [
+    createNode("Take the offer", { type: "chance" }, [
+      createNode("Raise", { probability: 50, risk: 2, opportunity: 9 }),
+      createNode("Layoff", { probability: 50, risk: 8, opportunity: 2 }),
+    ]),
+    createNode("Stay", { risk: 5, opportunity: 5 }),
+  ]);
+}
+
+describe("sensitivity analysis", () => {
+  it("finds the thresholds at which the preferred option changes", () => {
+    const analysis = analyzeSensitivity(offerTree());
+
+    expect(analysis.expectedValue).toBe(0.5);
+    expect(analysis.preferredOption?.id).toBe("Take the offer");
+    // P(Raise) 和 P(Layoff)，以及三个叶子节点各自的风险和机会
+    expect(analysis.parameters).toBe(8);
+    expect(analysis.thresholds[0]).toMatchObject({
+      kind: "probability",
+      nodeId: "Raise",
+      baseValue: 50,
+      threshold: 46.2,
+      below: { id: "Stay" },
+      above: { id: "Take the offer" },
+      statement: "Stay beats Take the offer if P(Raise) < 46.2%",
+    });
+    expect(analysis.thresholds.map(threshold => threshold.statement)).toContain("Stay beats Take the offer if opportunity of \"Stay\" > 5.5");
+  });
+
+  it("ranks parameters by their swing for the tornado chart", () => {
+    const analysis = analyzeSensitivity(offerTree());
+    const [top] = analysis.tornado;
+
+    expect(top).toMatchObject({ kind: "probability", low: 30, high: 70, lowValue: 0, highValue: 3.1, swing: 3.1 });
+    expect(analysis.tornado.map(bar => bar.swing)).toEqual([...analysis.tornado.map(bar => bar.swing)].sort((a, b) => b - a));
+  });
+
+  it("varies only the outcome probabilities of a chance node with a follow-up decision", () => {
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("Move", { type: "chance" }, [
+        createNode("Win", { probability: 60, risk: 1, opportunity: 9 }),
+        createNode("Lose", { probability: 40, risk: 9, opportunity: 1 }),
+        createNode("Renegotiate", { type: "decision" }, [
+          createNode("Accept", { risk: 1, opportunity: 10 }),
+          createNode("Decline", { risk: 5, opportunity: 5 }),
+        ]),
+      ]),
+      createNode("Stay", { risk: 5, opportunity: 5 }),
+    ]);
+    const before = structuredClone(tree);
+    const analysis = analyzeSensitivity(tree);
+
+    expect(analysis.expectedValue).toBe(4.07);
+    // P(Win) 和 P(Lose)，以及五个叶子节点各自的风险和机会
+    expect(analysis.parameters).toBe(12);
+    const probabilityBars = analysis.tornado.filter(bar => bar.kind === "probability");
+    expect(probabilityBars.map(bar => bar.nodeId).sort()).toEqual(["Lose", "Win"]);
+    expect(tree).toEqual(before);
+  });
+
+  it("does not modify the analyzed tree", () => {
+    const tree = offerTree();
+    const before = structuredClone(tree);
+    analyzeSensitivity(tree);
+
+    expect(tree).toEqual(before);
+  });
+
+  it("varies criterion scores instead of risk and opportunity when criteria are used", () => {
+    const criteria = normalizeCriteria([{ name: "salary", weight: 1 }]);
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("Take the offer", { scores: { salary: 8 }, risk: 9 }),
+      createNode("Stay", { scores: { salary: 6 } }),
+    ]);
+    const analysis = analyzeSensitivity(tree, { criteria });
+
+    expect(analysis.parameters).toBe(2);
+    expect(analysis.tornado.every(bar => bar.kind === "score" && bar.criterion === "salary")).toBe(true);
+    expect(analysis.thresholds.map(threshold => threshold.statement)).toEqual([
+      "Stay beats Take the offer if salary score of \"Take the offer\" < 6",
+      "Stay beats Take the offer if salary score of \"Stay\" > 8",
+    ]);
+  });
+
+  it("formats a report section", () => {
+    const section = formatSensitivitySection(analyzeSensitivity(offerTree()));
+
+    expect(section).toContain("## Sensitivity Analysis");
+    expect(section).toContain("| P(Raise) | 30% – 70% | 0 – 3.1 | 3.1 |");
+    expect(section).toContain("- Stay beats Take the offer if P(Raise) < 46.2% (currently 50%)");
+  });
+});
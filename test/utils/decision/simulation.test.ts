@@ -0,0 +1,87 @@
+import type { DecisionNode, UncertaintyRange } from "../../../src/types/decision";
+import { describe, expect, it } from "vitest";
+import { simulateDecisionTree } from "../../../src/utils/decision/simulation";
+import { PROBABILITY_BOUNDS, toUncertaintyRange } from "../../../src/utils/decision/uncertainty";
+import { createNode } from "../../helpers";
+
+/**
+ * 一半机会赢得 8 的赌局，或稳定得到 1
+ * A gamble winning or losing 8 with even odds, or a safe 1
+ *
+ * @param safeRange - 稳妥选项的机会评估范围
+ * @returns 决策树
+ */
+function gambleTree(safeRange?: UncertaintyRange): DecisionNode {
+  return createNode("root", { type: "decision" }, [
+    createNode("Gamble", { type: "chance" }, [
+      createNode("Win", { probability: 50, risk: 1, opportunity: 9 }),
+      createNode("Lose", { probability: 50, risk: 9, opportunity: 1 }),
+    ]),
+    createNode("Safe", { risk: 5, opportunity: 6, ...(safeRange && { opportunityRange: safeRange }) }),
+  ]);
+}
+
+describe("monte carlo simulation", () => {
+  it("summarizes the outcome distribution and regret of every option", () => {
+    const result = simulateDecisionTree(gambleTree(), { iterations: 4000, seed: 7 });
+    const [safe, gamble] = result.options;
+
+    expect(result.iterations).toBe(4000);
+    expect(safe).toMatchObject({ id: "Safe", mean: 1, stdDev: 0, min: 1, max: 1 });
+    expect(gamble).toMatchObject({ id: "Gamble", min: -8, max: 8 });
+    expect(gamble!.percentiles).toMatchObject({ p5: -8, p95: 8 });
+    expect(gamble!.probabilityOfRegret).toBeGreaterThan(45);
+    expect(gamble!.probabilityOfRegret).toBeLessThan(55);
+    expect(gamble!.probabilityBest + gamble!.probabilityOfRegret).toBeCloseTo(100, 5);
+    expect(safe!.probabilityOfRegret).toBeCloseTo(100 - gamble!.probabilityOfRegret, 1);
+    // 输的时候比稳妥选项少 9，赢的时候稳妥选项少 7
+    expect(gamble!.expectedRegret).toBeCloseTo((gamble!.probabilityOfRegret / 100) * 9, 1);
+    expect(safe!.histogram.reduce((acc, bin) => acc + bin.count, 0)).toBe(4000);
+  });
+
+  it("is deterministic under a seed", () => {
+    const range = { min: 3, likely: 6, max: 9 };
+    const first = simulateDecisionTree(gambleTree(range), { iterations: 500, seed: "offline" });
+    const second = simulateDecisionTree(gambleTree(range), { iterations: 500, seed: "offline" });
+    const other = simulateDecisionTree(gambleTree(range), { iterations: 500, seed: "other" });
+
+    expect(second).toEqual(first);
+    expect(other.options).not.toEqual(first.options);
+  });
+
+  it("samples estimates within their uncertainty ranges", () => {
+    for (const distribution of ["triangular", "pert", "uniform"] as const) {
+      const result = simulateDecisionTree(gambleTree({ min: 3, likely: 6, max: 9, distribution }), { iterations: 4000 });
+      const safe = result.options.find(option => option.id === "Safe")!;
+
+      expect(safe.min).toBeGreaterThanOrEqual(-2);
+      expect(safe.max).toBeLessThanOrEqual(4);
+      expect(safe.stdDev).toBeGreaterThan(0.5);
+      expect(safe.mean).toBeCloseTo(1, 0);
+    }
+  });
+
+  it("follows the best choice at nested decision nodes", () => {
+    const tree = createNode("root", { type: "decision" }, [
+      createNode("Start a company", { type: "decision" }, [
+        createNode("Raise money", { risk: 2, opportunity: 8 }),
+        createNode("Bootstrap", { risk: 4, opportunity: 5 }),
+      ]),
+    ]);
+
+    expect(simulateDecisionTree(tree, { iterations: 10 }).options[0]).toMatchObject({ mean: 6, probabilityBest: 100 });
+  });
+
+  it("rejects an invalid number of iterations", () => {
+    expect(() => simulateDecisionTree(gambleTree(), { iterations: 0 })).toThrow("Invalid number of simulation iterations");
+  });
+});
+
+describe("uncertainty ranges", () => {
+  it("orders, clamps and widens generated ranges to contain the point estimate", () => {
+    expect(toUncertaintyRange({ min: 80, max: 120 }, 50, PROBABILITY_BOUNDS)).toEqual({ min: 50, likely: 50, max: 100 });
+    expect(toUncertaintyRange({ min: 40, max: 20 }, 30, PROBABILITY_BOUNDS)).toEqual({ min: 20, likely: 30, max: 40 });
+    expect(toUncertaintyRange({ min: 30, max: 30 }, 30, PROBABILITY_BOUNDS)).toBeUndefined();
+    expect(toUncertaintyRange({ min: 20, max: 40 }, undefined, PROBABILITY_BOUNDS)).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import type { DecisionNode } from "../../../src/types/decision";
+import type { StakeholderAssessment, StakeholderScore } from "../../../src/types/stakeholder";
+import { describe, expect, it } from "vitest";
+import {
+  buildStakeholderAnalysis,
+  formatStakeholderSection,
+  isStakeholderPersona,
+  listStakeholderItems,
+  normalizeStakeholders,
+} from "../../../src/utils/decision/stakeholders";
+
+/**
+ * 创建节点
+ * Create a node
+ *
+ * @param id - 节点ID
+ * @param children - 子节点
+ * @returns 节点
+ */
+function node(id: string, children: DecisionNode[] = []): DecisionNode {
+  return { id, description: id, type: "outcome", parentId: null, children };
+}
+
+/**
+ * 创建利益相关者评估
+ * Create a stakeholder assessment
+ *
+ * @param stakeholder - 角色名称
+ * @param scores - 节点ID到评分的映射
+ * @returns 评估
+ */
+function assessment(stakeholder: string, scores: Record<string, number>): StakeholderAssessment {
+  return {
+    stakeholder,
+    scores: Object.entries(scores).map(([nodeId, score]): StakeholderScore => ({
+      nodeId,
+      description: nodeId,
+      kind: nodeId.includes("-") ? "outcome" : "option",
+      score,
+      rationale: `${stakeholder} on ${nodeId}`,
+    })),
+  };
+}
+
+const stakeholders = [
+  { name: "CFO", priorities: ["cost"] },
+  { name: "Engineering", priorities: ["velocity"] },
+  { name: "Customer", priorities: [] },
+];
+
+describe("stakeholder analysis", () => {
+  it("lists the options and their direct children with short keys", () => {
+    const tree = node("root", [node("build", [node("build-late"), node("build-ok")]), node("buy")]);
+
+    expect(listStakeholderItems(tree).map(item => [item.key, item.node.id, item.kind])).toEqual([
+      ["O1", "build", "option"],
+      ["O1.1", "build-late", "outcome"],
+      ["O1.2", "build-ok", "outcome"],
+      ["O2", "buy", "option"],
+    ]);
+  });
+
+  it("validates and trims personas", () => {
+    expect(normalizeStakeholders([{ name: " CFO ", priorities: [" cost ", ""] }])).toEqual([{ name: "CFO", priorities: ["cost"] }]);
+    expect(() => normalizeStakeholders([{ name: "CFO", priorities: [] }, { name: "CFO", priorities: [] }])).toThrow(/Duplicate/);
+    expect(isStakeholderPersona({ name: "CFO", priorities: ["cost"] })).toBe(true);
+    expect(isStakeholderPersona({ name: "CFO", priorities: "cost" })).toBe(false);
+  });
+
+  it("computes pairwise agreement over the commonly scored items and sorts divergences", () => {
+    const analysis = buildStakeholderAnalysis(stakeholders, [
+      assessment("CFO", { "build": 2, "buy": 8, "build-late": 1 }),
+      assessment("Engineering", { "build": 9, "buy": 7, "build-late": 3 }),
+      assessment("Customer", { build: 6, buy: 6 }),
+    ]);
+
+    // CFO vs Engineering: |2-9|, |8-7|, |1-3| -> mean 10/3
+    expect(analysis.agreement.values[0]).toEqual([1, 0.67, 0.7]);
+    expect(analysis.agreement.values[2]).toEqual([0.7, 0.8, 1]);
+    expect(analysis.divergences).toHaveLength(1);
+    expect(analysis.divergences[0]).toMatchObject({
+      nodeId: "build",
+      spread: 7,
+      highest: { stakeholder: "Engineering", score: 9 },
+      lowest: { stakeholder: "CFO", score: 2, rationale: "CFO on build" },
+    });
+  });
+
+  it("renders the score table, agreement matrix and divergences", () => {
+    const markdown = formatStakeholderSection(buildStakeholderAnalysis(stakeholders.slice(0, 2), [
+      { ...assessment("CFO", { build: 2, buy: 8 }), preferredOption: { id: "buy", description: "buy" } },
+      assessment("Engineering", { build: 9, buy: 7 }),
+    ]));
+
+    expect(markdown).toMatch(/^## Stakeholder Perspectives\n/);
+    expect(markdown).toContain("| **build** | 2 | 9 |");
+    expect(markdown).toContain("| **CFO** | 1 | 0.6 |");
+    expect(markdown).toContain("- CFO prefers **buy**");
+    expect(markdown).toContain("- **build** (spread 7): Engineering 9/10 – Engineering on build; CFO 2/10 – CFO on build");
+  });
+});
@@ -0,0 +1,94 @@
+import type { DecisionNodeEdit } from "../../../src/types/decision";
+import { describe, expect, it } from "vitest";
+import {
+  applyNodeEdit,
+  assertValidNodeEdit,
+  countNodes,
+  findNode,
+  findNodePath,
+  formatNodePath,
+  getLeaves,
+  getTreeHeight,
+  InvalidTreeOperationError,
+  NodeNotFoundError,
+  removeNode,
+  requireNodePath,
+} from "../../../src/utils/decision/tree";
+import { createNode } from "../../helpers";
+
+/**
+ * 构建测试用决策树（root → a → a1, root → b）
+ * Build the test decision tree (root → a → a1, root → b)
+ */
+function createTree() {
+  return createNode("root", { type: "decision" }, [
+    createNode("a", { type: "chance" }, [createNode("a1")]),
+    createNode("b"),
+  ]);
+}
+
+describe("decision tree helpers", () => {
+  it("finds node paths and returns null for unknown ids", () => {
+    const tree = createTree();
+
+    expect(findNodePath(tree, "a1")?.map(node => node.id)).toEqual(["root", "a", "a1"]);
+    expect(findNode(tree, "b")?.id).toBe("b");
+    expect(findNodePath(tree, "missing")).toBeNull();
+    expect(findNode(tree, "missing")).toBeNull();
+    expect(() => requireNodePath(tree, "missing")).toThrow(NodeNotFoundError);
+  });
+
+  it("formats node paths", () => {
+    expect(formatNodePath(requireNodePath(createTree(), "a1"))).toBe("root → a → a1");
+    expect(formatNodePath([])).toBe("");
+  });
+
+  it("measures trees, including a lone root", () => {
+    const tree = createTree();
+    expect(getLeaves(tree).map(node => node.id)).toEqual(["a1", "b"]);
+    expect(countNodes(tree)).toBe(4);
+    expect(getTreeHeight(tree)).toBe(2);
+
+    const root = createNode("root");
+    expect(getLeaves(root)).toEqual([root]);
+    expect(countNodes(root)).toBe(1);
+    expect(getTreeHeight(root)).toBe(0);
+  });
+
+  it("removes subtrees but never the root or unknown nodes", () => {
+    const tree = createTree();
+
+    expect(removeNode(tree, "a").id).toBe("a");
+    expect(tree.children.map(node => node.id)).toEqual(["b"]);
+    expect(() => removeNode(tree, "root")).toThrow(InvalidTreeOperationError);
+    expect(() => removeNode(tree, "a1")).toThrow(NodeNotFoundError);
+  });
+
+  it("rejects invalid node edits", () => {
+    const invalid: unknown[] = [
+      { description: "  " },
+      { type: "maybe" },
+      { risk: 0 },
+      { opportunity: 11 },
+      { probability: Number.NaN },
+      { probability: 101 },
+      { scores: { cost: "high" } },
+      { scores: null },
+    ];
+
+    for (const edit of invalid) {
+      expect(() => assertValidNodeEdit(edit as DecisionNodeEdit)).toThrow(InvalidTreeOperationError);
+    }
+    expect(() => assertValidNodeEdit({ risk: 1, opportunity: 10, probability: 0, scores: { cost: 3 } })).not.toThrow();
+  });
+
+  it("applies only known fields and leaves the node untouched on invalid edits", () => {
+    const node = createNode("a", { risk: 5 });
+
+    applyNodeEdit(node, { description: "Updated", probability: 40, id: "other" } as DecisionNodeEdit);
+    expect(node).toMatchObject({ id: "a", description: "Updated", probability: 40, risk: 5 });
+
+    expect(() => applyNodeEdit(node, { description: "Again", risk: 20 })).toThrow(InvalidTreeOperationError);
+    expect(node).toMatchObject({ description: "Updated", risk: 5 });
+  });
+});
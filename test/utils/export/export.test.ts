@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  exportDecisionTree,
+  getNodeLabelLines,
+  isDiagramFormat,
+  toDot,
+  toMermaid,
+  toPlantUml,
+} from "../../../src/utils/export";
+import { createNode } from "../../helpers";
+
+const LABEL = "Say \"hi\" \\ <b>x</b> & ~";
+
+/**
+ * 构建描述中包含特殊字符的决策树
+ * Build a decision tree whose descriptions contain special characters
+ */
+function createTree() {
+  return createNode("root", { type: "decision", description: LABEL }, [
+    createNode("chance", { type: "chance", description: LABEL }, [
+      createNode("outcome", { description: LABEL, probability: 40, risk: 2, opportunity: 7 }),
+    ]),
+  ]);
+}
+
+describe("diagram export", () => {
+  it("escapes quotes and angle brackets in Mermaid labels", () => {
+    const mermaid = toMermaid(createTree());
+    const escaped = "Say #quot;hi#quot; \\ #lt;b#gt;x#lt;/b#gt; #amp; ~";
+
+    expect(mermaid).toContain(`n0["${escaped}"]`);
+    expect(mermaid).toContain(`n1(("${escaped}"))`);
+    expect(mermaid).toContain(`n2@{ shape: tri, label: "${escaped}<br/>Risk 2 · Opportunity 7" }`);
+    expect(mermaid).toContain("n1 -->|\"40%\"| n2");
+  });
+
+  it("escapes backslashes and quotes in DOT labels", () => {
+    const dot = toDot(createTree());
+
+    expect(dot).toContain("n0 [label=\"Say \\\"hi\\\" \\\\ <b>x</b> & ~\", shape=box];");
+    expect(dot).toContain("n2 [label=\"Say \\\"hi\\\" \\\\ <b>x</b> & ~\\nRisk 2 · Opportunity 7\", shape=triangle];");
+    expect(dot).toContain("n1 -> n2 [label=\"40%\"];");
+  });
+
+  it("keeps creole markup in PlantUML labels literal", () => {
+    const plantUml = toPlantUml(createTree());
+    const escaped = "Say 'hi' \\\\ ~<b>x~</b> & ~~";
+
+    expect(plantUml).toContain(`rectangle "${escaped}" as n0`);
+    expect(plantUml).toContain(`circle "${escaped}" as n1`);
+    expect(plantUml).toContain(`card "▷ ${escaped}\\nRisk 2 · Opportunity 7" as n2`);
+    expect(plantUml).toContain("n1 --> n2 : 40%");
+  });
+
+  it("turns line breaks in descriptions into label line breaks", () => {
+    const node = createNode("multi", { type: "decision", description: "First\nSecond\r\nThird\rFourth" });
+
+    expect(toMermaid(node)).toContain("n0[\"First<br/>Second<br/>Third<br/>Fourth\"]");
+    expect(toDot(node)).toContain("n0 [label=\"First\\nSecond\\nThird\\nFourth\", shape=box];");
+    expect(toPlantUml(node)).toContain("rectangle \"First\\nSecond\\nThird\\nFourth\" as n0");
+  });
+
+  it("exports a lone root without edges in every format", () => {
+    const root = createNode("root", { type: "decision" });
+
+    expect(toMermaid(root)).toBe("flowchart LR\n  n0[\"root\"]");
+    expect(toDot(root)).not.toContain("->");
+    expect(toPlantUml(root)).toBe("@startuml\nleft to right direction\nrectangle \"root\" as n0\n@enduml");
+  });
+
+  it("truncates long descriptions unless truncation is disabled", () => {
+    const node = createNode("long", { description: "x".repeat(100), expectedValue: 1.5 });
+
+    expect(getNodeLabelLines(node)).toEqual([`${"x".repeat(79)}…`, "EV 1.5"]);
+    expect(getNodeLabelLines(node, 10)[0]).toBe(`${"x".repeat(9)}…`);
+    expect(getNodeLabelLines(node, 0)[0]).toBe("x".repeat(100));
+    expect(toMermaid(node, { maxLabelLength: 5 })).toContain("n0@{ shape: tri, label: \"xxxx…<br/>EV 1.5\" }");
+  });
+
+  it("dispatches on the format and recognizes supported formats", () => {
+    const tree = createTree();
+
+    expect(exportDecisionTree(tree, "mermaid")).toBe(toMermaid(tree));
+    expect(exportDecisionTree(tree, "dot")).toBe(toDot(tree));
+    expect(exportDecisionTree(tree, "plantuml")).toBe(toPlantUml(tree));
+    expect(isDiagramFormat("dot")).toBe(true);
+    expect(isDiagramFormat("svg")).toBe(false);
+    expect(isDiagramFormat(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { APICallError } from "ai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { estimateTokens, isRetryableError, LLMRateLimiter } from "../../../src/utils/llm/rate-limiter";
+
+const rateLimited = new APICallError({
+  message: "Too many requests",
+  url: "http://llm/v1",
+  requestBodyValues: {},
+  statusCode: 429,
+  responseHeaders: { "retry-after": "0" },
+});
+const badRequest = new APICallError({ message: "Bad request", url: "http://llm/v1", requestBodyValues: {}, statusCode: 400 });
+
+describe("rate limiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("never runs more calls at once than the concurrency limit", async () => {
+    const limiter = new LLMRateLimiter({ concurrency: 2 });
+    let active = 0;
+    let peak = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(value => limiter.schedule(async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active -= 1;
+      return value;
+    })));
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it("retries retryable errors up to the retry limit and rethrows other errors at once", async () => {
+    const limiter = new LLMRateLimiter({ concurrency: 1, maxRetries: 2, baseDelayMs: 1 });
+
+    const flaky = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce("ok");
+    await expect(limiter.schedule(flaky)).resolves.toBe("ok");
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const failing = vi.fn().mockRejectedValue(rateLimited);
+    await expect(limiter.schedule(failing)).rejects.toBe(rateLimited);
+    expect(failing).toHaveBeenCalledTimes(3);
+
+    const invalid = vi.fn().mockRejectedValue(badRequest);
+    await expect(limiter.schedule(invalid)).rejects.toBe(badRequest);
+    expect(invalid).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for the next minute once the request budget is spent", async () => {
+    vi.useFakeTimers();
+    const limiter = new LLMRateLimiter({ concurrency: 2, requestsPerMinute: 1 });
+    const task = vi.fn().mockResolvedValue("ok");
+
+    await limiter.schedule(task);
+    const pending = limiter.schedule(task);
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(pending).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("counts the reported token usage against the token budget", async () => {
+    vi.useFakeTimers();
+    const limiter = new LLMRateLimiter({ concurrency: 1, tokensPerMinute: 100 });
+    const task = vi.fn().mockResolvedValue({ usage: { totalTokens: 90 } });
+
+    // 预估只有10个令牌，但实际用量为90，第二次调用需要等待窗口过期
+    await limiter.schedule(task, { estimatedTokens: 10 });
+    const pending = limiter.schedule(task, { estimatedTokens: 20 });
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await pending;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects calls whose signal is aborted", async () => {
+    const limiter = new LLMRateLimiter({ concurrency: 1 });
+    const task = vi.fn().mockResolvedValue("ok");
+
+    await expect(limiter.schedule(task, { signal: AbortSignal.abort() })).rejects.toThrow();
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it("classifies errors and estimates tokens", () => {
+    expect(isRetryableError(rateLimited)).toBe(true);
+    expect(isRetryableError(badRequest)).toBe(false);
+    expect(isRetryableError(new Error("network"))).toBe(false);
+    expect(estimateTokens("abcd", "ef")).toBe(2);
+    expect(estimateTokens()).toBe(0);
+  });
+});
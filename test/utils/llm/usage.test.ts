@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { findModelPrice, mergeUsageSummaries, PriceTableError, UsageTracker, validatePriceTable } from "../../../src/utils/llm/usage";
+
+const prices = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+describe("usage tracking", () => {
+  it("matches prices exactly or by the longest prefix", () => {
+    expect(findModelPrice(prices, "gpt-4o-mini")).toBe(prices["gpt-4o-mini"]);
+    expect(findModelPrice(prices, "gpt-4o-mini-2024-07-18")).toBe(prices["gpt-4o-mini"]);
+    expect(findModelPrice(prices, "gpt-4o-2024-08-06")).toBe(prices["gpt-4o"]);
+    expect(findModelPrice(prices, "llama4")).toBeUndefined();
+  });
+
+  it("rejects malformed price tables", () => {
+    expect(() => validatePriceTable([], "MODEL_PRICES")).toThrow(PriceTableError);
+    expect(() => validatePriceTable({ "gpt-4o": { input: 1 } }, "MODEL_PRICES")).toThrow(/"gpt-4o"/);
+  });
+
+  it("summarizes calls by stage, model and node", () => {
+    const tracker = new UsageTracker(prices);
+    tracker.record({
+      stage: "expansion",
+      nodeId: "a",
+      modelId: "gpt-4o",
+      latencyMs: 120,
+      result: {
+        usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+        providerMetadata: { openai: { reasoningTokens: 200 } },
+        response: { modelId: "gpt-4o-2024-08-06" },
+      },
+    });
+    tracker.record({
+      stage: "report",
+      modelId: "llama4",
+      latencyMs: 80,
+      result: { usage: { promptTokens: Number.NaN, completionTokens: 100, totalTokens: Number.NaN } },
+    });
+
+    const summary = tracker.summarize();
+    expect(summary).toMatchObject({ calls: 2, promptTokens: 1000, completionTokens: 600, reasoningTokens: 200, totalTokens: 1600, latencyMs: 200 });
+    expect(summary.cost).toBeCloseTo(0.0075);
+    expect(summary.byModel["gpt-4o-2024-08-06"]?.calls).toBe(1);
+    expect(summary.byStage.report?.cost).toBeUndefined();
+    expect(summary.byNode.a?.reasoningTokens).toBe(200);
+    expect(summary.unpricedModels).toEqual(["llama4"]);
+  });
+
+  it("merges summaries", () => {
+    const tracker = new UsageTracker({});
+    tracker.record({ stage: "expansion", nodeId: "a", modelId: "mock", latencyMs: 10, result: { usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } } });
+    const summary = tracker.summarize();
+
+    const merged = mergeUsageSummaries(summary, summary);
+    expect(merged).toMatchObject({ calls: 2, totalTokens: 30, byStage: { expansion: { calls: 2 } }, byNode: { a: { latencyMs: 20 } } });
+    expect(merged.cost).toBeUndefined();
+    expect(mergeUsageSummaries(undefined, summary)).toBe(summary);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { hashString, SeededRandom } from "../../src/utils/random";
+
+describe("seededRandom", () => {
+  it("produces the same sequence for the same seed", () => {
+    const a = new SeededRandom(7);
+    const b = new SeededRandom(7);
+    expect(Array.from({ length: 5 }, () => a.next())).toEqual(Array.from({ length: 5 }, () => b.next()));
+  });
+
+  it("produces different sequences for different seeds", () => {
+    expect(new SeededRandom(1).next()).not.toEqual(new SeededRandom(2).next());
+  });
+
+  it("accepts string seeds", () => {
+    expect(new SeededRandom("seed").next()).toEqual(new SeededRandom(hashString("seed")).next());
+  });
+
+  it("keeps integers within bounds", () => {
+    const random = new SeededRandom(3);
+    for (let i = 0; i < 200; i++) {
+      const value = random.int(1, 10);
+      expect(value).toBeGreaterThanOrEqual(1);
+      expect(value).toBeLessThanOrEqual(10);
+      expect(Number.isInteger(value)).toBe(true);
+    }
+  });
+
+  it("generates UUID v4 strings", () => {
+    expect(new SeededRandom(5).uuid()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
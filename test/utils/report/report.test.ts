@@ -0,0 +1,137 @@
+import type { ReportDraft } from "../../../src/types/report";
+import { afterEach, describe, expect, it } from "vitest";
+import { ENV } from "../../../src/config/env";
+import { rollupDecisionTree } from "../../../src/utils/decision/expected-value";
+import { analyzeSensitivity } from "../../../src/utils/decision/sensitivity";
+import { buildDecisionReport, EMPTY_REPORT_DRAFT, renderReport, toMarkdownSections } from "../../../src/utils/report";
+import { createNode } from "../../helpers";
+
+const draft: ReportDraft = {
+  title: "Startup or Bank",
+  executiveSummary: "Staying is safer.\n\nJoining pays off if the startup succeeds.",
+  context: "A job offer from a startup.",
+  methodology: "Expected values over a decision tree.",
+  options: [
+    { optionId: "stay", summary: "Keep the current job.", riskAssessment: "Low.", opportunityAssessment: "Limited.", keyOutcomes: ["Steady pay"], insights: [] },
+    { optionId: "unknown", summary: "Join the <startup>.", riskAssessment: "High.", opportunityAssessment: "Large.", keyOutcomes: [], insights: ["Equity | cash"] },
+  ],
+  comparison: "The startup has the higher upside.",
+  recommendations: [{ recommendation: "Stay for now", rationale: "The startup is unproven.", confidence: "medium" }],
+};
+
+/**
+ * 创建结构化报告
+ * Create a structured report
+ *
+ * @param content - 模型撰写的内容
+ * @returns 结构化报告
+ */
+function report(content: ReportDraft = draft) {
+  const decisionTree = createNode("root", { type: "decision" }, [
+    createNode("startup", { description: "Join the startup", type: "chance", risk: 7, opportunity: 9 }, [
+      createNode("success", { probability: 30, risk: 2, opportunity: 10 }),
+      createNode("failure", { probability: 70, risk: 8, opportunity: 2 }),
+    ]),
+    createNode("stay", { description: "Stay at the bank", risk: 2, opportunity: 4 }),
+  ]);
+  rollupDecisionTree(decisionTree);
+  return buildDecisionReport({
+    problem: "Should I join a startup?",
+    decisionTree,
+    insights: ["Most of the upside depends on one funding round."],
+    sensitivity: analyzeSensitivity(decisionTree),
+    draft: content,
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  });
+}
+
+describe("structured report", () => {
+  const language = ENV.LANGUAGE.RESPONSE;
+
+  afterEach(() => {
+    ENV.LANGUAGE.RESPONSE = language;
+  });
+
+  it("takes the numbers from the tree and matches option sections by ID, then in order", () => {
+    const { options, comparison } = report();
+
+    expect(options.map(option => [option.id, option.summary, option.optimal])).toEqual([
+      ["startup", "Join the <startup>.", false],
+      ["stay", "Keep the current job.", true],
+    ]);
+    expect(options[1]).toMatchObject({ risk: 2, opportunity: 4, expectedValue: 2 });
+    expect(comparison.columns).toEqual(["Risk", "Opportunity", "Expected value"]);
+    expect(comparison.rows[0]).toEqual({ id: "startup", option: "Join the startup", values: [7, 9, -1.8] });
+  });
+
+  it("renders markdown sections in order", () => {
+    const sections = toMarkdownSections(report());
+    const markdown = renderReport(report(), "markdown");
+
+    expect(sections.map(section => section.index === undefined ? section.field : `${section.field}[${section.index}]`)).toEqual([
+      "title",
+      "executiveSummary",
+      "context",
+      "methodology",
+      "options",
+      "options[0]",
+      "options[1]",
+      "comparison",
+      "insights",
+      "recommendations",
+      "sensitivity",
+      "decisionTree",
+    ]);
+    expect(markdown).toMatch(/^# Startup or Bank\n/);
+    expect(markdown).toContain("### 2. Stay at the bank (recommended by expected value)");
+    expect(markdown).toContain("| Join the startup | 7 | 9 | -1.8 |");
+    expect(markdown).toContain("- Equity | cash");
+    expect(markdown).toContain("1. **Stay for now** (confidence: medium)");
+    expect(markdown).toContain("```mermaid\nflowchart LR");
+    expect(markdown).toBe(`${sections.map(section => section.markdown).join("\n\n")}\n`);
+  });
+
+  it("renders a standalone html page with a collapsible tree", () => {
+    const html = renderReport(report(), "html");
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<title>Startup or Bank</title>");
+    expect(html).toContain("<p>Staying is safer.</p>\n<p>Joining pays off if the startup succeeds.</p>");
+    expect(html).toContain("Join the &lt;startup&gt;.");
+    expect(html).not.toContain("<startup>");
+    expect(html).toContain("<details open><summary>○ <span>Join the startup</span>");
+    expect(html).toContain("@media print");
+  });
+
+  it("renders json and keeps the deterministic sections without model content", () => {
+    expect(JSON.parse(renderReport(report(), "json")).recommendations).toEqual(draft.recommendations);
+
+    const empty = report(EMPTY_REPORT_DRAFT);
+    expect(empty.options.map(option => option.summary)).toEqual(["", ""]);
+    expect(renderReport(empty, "markdown")).toContain("## Sensitivity Analysis");
+  });
+
+  it("renders the fixed text in the response language", () => {
+    ENV.LANGUAGE.RESPONSE = "zh";
+    const zh = report({ ...draft, title: "" });
+    const markdown = renderReport(zh, "markdown");
+    const html = renderReport(zh, "html");
+
+    expect(zh.comparison.columns).toEqual(["风险", "机会", "期望值"]);
+    expect(markdown).toMatch(/^# 决策分析报告\n/);
+    expect(markdown).toContain("## 执行摘要");
+    expect(markdown).toContain("### 2. Stay at the bank （按期望值推荐）");
+    expect(markdown).toContain("期望值: 2 | 风险: 2/10 | 机会: 4/10");
+    expect(markdown).toContain("1. **Stay for now** (置信度：medium)");
+    expect(markdown).toContain("## 敏感性分析");
+    expect(markdown).toMatch(/- 当 .+ 时，(Join the startup 优于 Stay at the bank|Stay at the bank 优于 Join the startup)/);
+    expect(html).toContain("<html lang=\"zh\">");
+    expect(html).toContain("<h2>主要选项</h2>");
+    expect(html).toContain("<h3>决策阈值</h3>");
+    expect(html).toContain(">全部展开</button>");
+    for (const english of ["Executive Summary", "Key Options", "Expected value:", "Sensitivity Analysis", " beats "]) {
+      expect(markdown).not.toContain(english);
+      expect(html).not.toContain(english);
+    }
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { escapeTableCell, round } from "../../../src/utils/text/format";
+
+describe("text formatting", () => {
+  it("rounds to two decimal places by default", () => {
+    expect(round(3.14159)).toBe(3.14);
+    expect(round(-2.345, 1)).toBe(-2.3);
+    expect(round(12.5, 0)).toBe(13);
+  });
+
+  it("escapes pipes and line breaks in table cells", () => {
+    expect(escapeTableCell("Cost | time\nrisk")).toBe("Cost \\| time risk");
+  });
+});
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // 所有测试都使用离线模拟提供者，回复语言和报告固定文字使用英文
+    // Every test runs against the offline mock provider, with English as the response language and report text
+    env: {
+      PROVIDER_TYPE: "mock",
+      MOCK_MODE: "generate",
+      MOCK_SEED: "42",
+      RESPONSE_LANGUAGE: "en",
+    },
+    setupFiles: ["test/setup.ts"],
+  },
+});